@@ -6,12 +6,16 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/home";
 import PromptTesting from "@/pages/prompt-testing";
 import AdminPromptOptimization from "@/pages/admin";
+import Gallery from "@/pages/gallery";
+import MyCreations from "@/pages/my-creations";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/gallery" component={Gallery} />
+      <Route path="/my-creations" component={MyCreations} />
       <Route path="/prompt-testing" component={PromptTesting} />
       <Route path="/admin" component={AdminPromptOptimization} />
       <Route component={NotFound} />
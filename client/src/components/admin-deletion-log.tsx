@@ -0,0 +1,75 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { FileX } from "lucide-react";
+import type { DeletionSummary } from "@shared/schema";
+
+interface DeletionLogEntry {
+  id: number;
+  subjectHash: string;
+  userId: string;
+  requestedBy: string;
+  summary: DeletionSummary;
+  prevHash: string;
+  hash: string;
+  createdAt: string;
+}
+
+interface DeletionLogResponse {
+  entries: DeletionLogEntry[];
+  verification: { valid: boolean; brokenAtId: number | null };
+}
+
+/**
+ * Account erasures for compliance requests, with a check that no entry has been altered or removed.
+ */
+export default function AdminDeletionLog() {
+  const { data, isLoading } = useQuery<DeletionLogResponse>({
+    queryKey: ['/api/admin/deletion-log'],
+  });
+
+  const entries = [...(data?.entries ?? [])].reverse();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileX className="h-5 w-5" />
+          Deletion Log
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {data && (
+          <div
+            className={`px-3 py-2 text-sm rounded ${data.verification.valid ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"}`}
+            data-testid="deletion-log-verification"
+          >
+            {data.verification.valid
+              ? `Hash chain intact (${data.entries.length} entries)`
+              : `Hash chain broken at entry #${data.verification.brokenAtId}; the log has been altered`}
+          </div>
+        )}
+        {isLoading ? (
+          <div>Loading deletion log...</div>
+        ) : entries.length === 0 ? (
+          <div className="text-gray-500">No accounts have been erased yet.</div>
+        ) : (
+          entries.map((entry) => (
+            <div key={entry.id} className="border rounded-lg p-3 text-sm space-y-1" data-testid={`deletion-log-${entry.id}`}>
+              <div className="flex justify-between gap-2">
+                <span className="font-medium">#{entry.id} · {entry.requestedBy === "self" ? "Self-service" : entry.requestedBy}</span>
+                <span className="text-xs text-gray-500">{new Date(entry.createdAt).toLocaleString()}</span>
+              </div>
+              <div className="text-xs text-gray-600">
+                {entry.summary.transformations} creations · {entry.summary.remixes ?? 0} remixes · {entry.summary.uploadObjects} uploads ·{" "}
+                {entry.summary.generatedObjects} generated images · {entry.summary.safetyDecisions ?? 0} safety log rows ·{" "}
+                Drip: {entry.summary.drip.replace("_", " ")}
+              </div>
+              <div className="font-mono text-xs text-gray-500 break-all">Subject {entry.subjectHash}</div>
+              <div className="font-mono text-xs text-gray-400 break-all">Hash {entry.hash}</div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
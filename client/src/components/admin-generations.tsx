@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollText, Shuffle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface TransformationSummary {
+  id: string;
+  petName: string;
+  theme: string;
+  transformedImageUrl: string | null;
+  remixOfAttemptId: number | null;
+  createdAt: string;
+}
+
+interface GenerationAttempt {
+  id: number;
+  jobId: string | null;
+  status: "succeeded" | "failed";
+  renderedPrompt: string | null;
+  promptTemplateId: number | null;
+  promptRevisionId: number | null;
+  promptVariantId: number | null;
+  inputImageUrl: string | null;
+  inputImageUrls: string[] | null;
+  provider: string | null;
+  model: string | null;
+  modelVersion: string | null;
+  predictionId: string | null;
+  seed: string | null;
+  timings: { generateMs?: number; composeMs?: number; watermarkMs?: number; storeMs?: number; renditionsMs?: number; totalMs?: number };
+  watermarked: boolean | null;
+  watermarkPosition: string | null;
+  watermarkScore: number | null;
+  objectKey: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+function formatMs(value?: number): string {
+  return value === undefined ? "–" : `${(value / 1000).toFixed(1)}s`;
+}
+
+function AttemptField({ label, value }: { label: string; value: string | number | null | undefined }) {
+  return (
+    <div className="flex justify-between gap-2">
+      <span className="text-gray-500">{label}</span>
+      <span className="font-mono text-right break-all">{value ?? "–"}</span>
+    </div>
+  );
+}
+
+/**
+ * Recent transformations with the audit log of every generation attempt behind them.
+ */
+export default function AdminGenerations({ canRemix }: { canRemix: boolean }) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: transformationsData, isLoading } = useQuery({
+    queryKey: ['/api/admin/transformations'],
+  });
+
+  const { data: attemptsData } = useQuery({
+    queryKey: ['/api/admin/transformations', selectedId, 'attempts'],
+    enabled: !!selectedId,
+  });
+
+  const remixMutation = useMutation({
+    mutationFn: async (attemptId: number) => {
+      const response = await apiRequest('POST', `/api/admin/generation-attempts/${attemptId}/remix`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/transformations'] });
+      setSelectedId(data.transformation.id);
+      toast({ title: "Remix Queued", description: "The remix is generating with the same settings." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Remix Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const transformations: TransformationSummary[] = (transformationsData as any)?.transformations || [];
+  const attempts: GenerationAttempt[] = (attemptsData as any)?.attempts || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScrollText className="h-5 w-5" />
+          Generation Log
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div>Loading transformations...</div>
+        ) : transformations.length === 0 ? (
+          <div className="text-gray-500">No transformations yet.</div>
+        ) : (
+          transformations.map((transformation) => (
+            <div key={transformation.id} className="border rounded-lg" data-testid={`transformation-log-${transformation.id}`}>
+              <button
+                type="button"
+                className="w-full p-3 flex items-center gap-3 text-left"
+                onClick={() => setSelectedId(selectedId === transformation.id ? null : transformation.id)}
+              >
+                {transformation.transformedImageUrl ? (
+                  <img src={transformation.transformedImageUrl} alt="" className="h-12 w-9 object-cover rounded" />
+                ) : (
+                  <div className="h-12 w-9 rounded bg-gray-100" />
+                )}
+                <div className="min-w-0">
+                  <div className="font-medium truncate">
+                    {transformation.petName}
+                    {transformation.remixOfAttemptId && <span className="text-xs text-gray-500"> (remix of #{transformation.remixOfAttemptId})</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {transformation.theme} · {new Date(transformation.createdAt).toLocaleString()}
+                  </div>
+                </div>
+              </button>
+
+              {selectedId === transformation.id && (
+                <div className="border-t p-3 space-y-3">
+                  {attempts.length === 0 ? (
+                    <div className="text-sm text-gray-500">No generation attempts recorded yet.</div>
+                  ) : (
+                    attempts.map((attempt) => (
+                      <div key={attempt.id} className="text-xs space-y-1" data-testid={`generation-attempt-${attempt.id}`}>
+                        <div className="flex justify-between items-center">
+                          <span className={`px-2 py-1 rounded ${attempt.status === "succeeded" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}`}>
+                            Attempt #{attempt.id} · {attempt.status}
+                          </span>
+                          {canRemix && attempt.renderedPrompt && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => remixMutation.mutate(attempt.id)}
+                              disabled={remixMutation.isPending}
+                              data-testid={`button-remix-${attempt.id}`}
+                            >
+                              <Shuffle className="h-3 w-3 mr-1" />
+                              Remix with same settings
+                            </Button>
+                          )}
+                        </div>
+                        <AttemptField label="Model" value={[attempt.provider, attempt.model].filter(Boolean).join(" / ") || null} />
+                        <AttemptField label="Version" value={attempt.modelVersion} />
+                        <AttemptField label="Prediction" value={attempt.predictionId} />
+                        <AttemptField label="Seed" value={attempt.seed} />
+                        <AttemptField label="Template / revision / variant" value={`${attempt.promptTemplateId ?? "–"} / ${attempt.promptRevisionId ?? "–"} / ${attempt.promptVariantId ?? "–"}`} />
+                        <AttemptField
+                          label="Timings"
+                          value={`generate ${formatMs(attempt.timings.generateMs)}${attempt.timings.composeMs !== undefined ? `, compose ${formatMs(attempt.timings.composeMs)}` : ""}, watermark ${formatMs(attempt.timings.watermarkMs)}, store ${formatMs(attempt.timings.storeMs)}, renditions ${formatMs(attempt.timings.renditionsMs)}, total ${formatMs(attempt.timings.totalMs)}`}
+                        />
+                        <AttemptField
+                          label="Watermark"
+                          value={attempt.watermarked === null ? null : attempt.watermarked
+                            ? `${attempt.watermarkPosition}${attempt.watermarkScore !== null ? ` (score ${attempt.watermarkScore.toFixed(2)})` : ""}`
+                            : "not applied"}
+                        />
+                        <AttemptField label="Stored key" value={attempt.objectKey} />
+                        {attempt.inputImageUrls && attempt.inputImageUrls.length > 1 ? (
+                          attempt.inputImageUrls.map((url, index) => (
+                            <AttemptField key={index} label={`Input image ${index + 1}`} value={url.startsWith("data:") ? "inline data URL" : url} />
+                          ))
+                        ) : attempt.inputImageUrl && (
+                          <AttemptField label="Input image" value={attempt.inputImageUrl.startsWith("data:") ? "inline data URL" : attempt.inputImageUrl} />
+                        )}
+                        {attempt.error && <div className="text-red-600">{attempt.error}</div>}
+                        {attempt.renderedPrompt && (
+                          <pre className="whitespace-pre-wrap bg-gray-50 dark:bg-gray-900 p-2 rounded">{attempt.renderedPrompt}</pre>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Lock } from "lucide-react";
+import { apiRequest, queryClient, RateLimitError } from "@/lib/queryClient";
+
+/**
+ * Sign-in form for /admin. On success the session query is seeded so the dashboard renders
+ * without another round trip.
+ */
+export default function AdminLogin() {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const loginMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/login', { email, password });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setPassword("");
+      queryClient.setQueryData(['/api/admin/session'], data);
+    },
+    onError: (error) => {
+      if (error instanceof RateLimitError) {
+        setError(error.message);
+        return;
+      }
+      const unauthorized = error instanceof Error && error.message.startsWith('401');
+      setError(unauthorized ? "Invalid email or password." : "Sign in failed. Please try again.");
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    loginMutation.mutate();
+  };
+
+  return (
+    <div className="container mx-auto py-16 px-4 flex justify-center">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            Admin Sign In
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="admin-email">Email</Label>
+              <Input
+                id="admin-email"
+                type="email"
+                autoComplete="username"
+                data-testid="input-admin-email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="admin-password">Password</Label>
+              <Input
+                id="admin-password"
+                type="password"
+                autoComplete="current-password"
+                data-testid="input-admin-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            {error && <p className="text-sm text-red-600" data-testid="text-login-error">{error}</p>}
+            <Button type="submit" className="w-full" disabled={loginMutation.isPending} data-testid="button-admin-login">
+              {loginMutation.isPending ? "Signing in..." : "Sign In"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
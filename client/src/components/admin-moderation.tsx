@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Ban, Check, ShieldCheck, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ModerationFlag, ModerationReasonCode, ModerationStatus } from "@shared/schema";
+
+interface ModerationItem {
+  id: string;
+  petName: string;
+  petBreed: string | null;
+  theme: string;
+  transformedImageUrl: string | null;
+  moderationStatus: ModerationStatus;
+  moderationFlags: ModerationFlag[];
+  moderationReason: ModerationReasonCode | null;
+  moderationNote: string | null;
+  moderatedAt: string | null;
+  createdAt: string;
+}
+
+interface ModerationQueue {
+  status: ModerationStatus;
+  counts: Record<ModerationStatus, number>;
+  transformations: ModerationItem[];
+}
+
+type Decision = "approved" | "rejected" | "taken_down";
+
+const STATUS_LABELS: Record<ModerationStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  taken_down: "Taken down",
+};
+
+const REASON_LABELS: Record<ModerationReasonCode, string> = {
+  not_a_pet: "Not a pet",
+  inappropriate_image: "Inappropriate image",
+  offensive_text: "Offensive name or text",
+  personal_info: "Personal information",
+  copyright: "Copyright or trademark",
+  low_quality: "Low quality",
+  off_brand: "Off brand",
+  other: "Other",
+};
+
+const FLAG_LABELS: Record<ModerationFlag, string> = {
+  contact_info: "Contact info in text",
+  flagged_term: "Flagged term",
+  generation_issue: "Generation issue",
+};
+
+/**
+ * Brand review queue: nothing reaches the gallery or share pages until it is approved here.
+ */
+export default function AdminModeration({ canModerate }: { canModerate: boolean }) {
+  const [status, setStatus] = useState<ModerationStatus>("pending");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [reason, setReason] = useState<ModerationReasonCode | "">("");
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<ModerationQueue>({
+    queryKey: ['/api/admin/moderation', status],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/moderation?status=${status}`);
+      return response.json();
+    },
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async (decision: Decision) => {
+      const response = await apiRequest('POST', '/api/admin/moderation/decisions', {
+        ids: Array.from(selectedIds),
+        status: decision,
+        reason: decision === "approved" ? undefined : reason,
+        note: note || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (result, decision) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/moderation'] });
+      setSelectedIds(new Set());
+      setNote("");
+      toast({ title: "Decision Saved", description: `${result.updated.length} item(s) marked ${STATUS_LABELS[decision].toLowerCase()}.` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Decision Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const items = data?.transformations ?? [];
+  const allSelected = items.length > 0 && items.every((item) => selectedIds.has(item.id));
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const changeStatus = (value: ModerationStatus) => {
+    setStatus(value);
+    setSelectedIds(new Set());
+  };
+
+  const decide = (decision: Decision) => {
+    if (decision !== "approved" && !reason) {
+      toast({ title: "Reason Required", description: "Pick a reason code before rejecting or taking down.", variant: "destructive" });
+      return;
+    }
+    decisionMutation.mutate(decision);
+  };
+
+  const busy = decisionMutation.isPending || selectedIds.size === 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Moderation Queue
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Select value={status} onValueChange={(value) => changeStatus(value as ModerationStatus)}>
+          <SelectTrigger data-testid="select-moderation-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}{data ? ` (${data.counts[value as ModerationStatus]})` : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {canModerate && items.length > 0 && (
+          <div className="space-y-2 border rounded-lg p-3">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={allSelected}
+                onCheckedChange={(checked) => setSelectedIds(checked ? new Set(items.map((item) => item.id)) : new Set())}
+                data-testid="checkbox-moderation-all"
+              />
+              Select all ({selectedIds.size} selected)
+            </label>
+            <Select value={reason} onValueChange={(value) => setReason(value as ModerationReasonCode)}>
+              <SelectTrigger data-testid="select-moderation-reason">
+                <SelectValue placeholder="Reason code (required to reject)" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(REASON_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note for the team (optional)" maxLength={500} />
+            <div className="flex flex-wrap gap-2">
+              {status !== "approved" && (
+                <Button size="sm" onClick={() => decide("approved")} disabled={busy} data-testid="button-moderation-approve">
+                  <Check className="h-3 w-3 mr-1" />
+                  Approve
+                </Button>
+              )}
+              {status === "approved" ? (
+                <Button size="sm" variant="destructive" onClick={() => decide("taken_down")} disabled={busy} data-testid="button-moderation-take-down">
+                  <Ban className="h-3 w-3 mr-1" />
+                  Take down
+                </Button>
+              ) : status !== "rejected" && (
+                <Button size="sm" variant="destructive" onClick={() => decide("rejected")} disabled={busy} data-testid="button-moderation-reject">
+                  <X className="h-3 w-3 mr-1" />
+                  Reject
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div>Loading queue...</div>
+        ) : items.length === 0 ? (
+          <div className="text-gray-500">Nothing {STATUS_LABELS[status].toLowerCase()}.</div>
+        ) : (
+          items.map((item) => (
+            <div key={item.id} className="border rounded-lg p-3 flex items-start gap-3" data-testid={`moderation-item-${item.id}`}>
+              {canModerate && (
+                <Checkbox
+                  checked={selectedIds.has(item.id)}
+                  onCheckedChange={(checked) => toggle(item.id, checked === true)}
+                  className="mt-1"
+                />
+              )}
+              {item.transformedImageUrl && (
+                <a href={item.transformedImageUrl} target="_blank" rel="noreferrer">
+                  <img src={item.transformedImageUrl} alt="" className="h-20 w-16 object-cover rounded" />
+                </a>
+              )}
+              <div className="min-w-0 space-y-1">
+                <div className="font-medium truncate">{item.petName}</div>
+                <div className="text-xs text-gray-500">
+                  {[item.petBreed, item.theme].filter(Boolean).join(" · ")} · {new Date(item.createdAt).toLocaleString()}
+                </div>
+                {item.moderationFlags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {item.moderationFlags.map((flag) => (
+                      <span key={flag} className="px-2 py-0.5 text-xs rounded bg-amber-100 text-amber-800">{FLAG_LABELS[flag] ?? flag}</span>
+                    ))}
+                  </div>
+                )}
+                {item.moderationReason && (
+                  <div className="text-xs text-red-700">
+                    {REASON_LABELS[item.moderationReason]}{item.moderationNote ? ` – ${item.moderationNote}` : ""}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RotateCcw, Send } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { OutboxStatus, OutboxTopic } from "@shared/schema";
+
+interface OutboxMessage {
+  id: number;
+  topic: OutboxTopic;
+  payload: Record<string, unknown>;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+interface OutboxPage {
+  status: OutboxStatus;
+  counts: Record<OutboxStatus, number>;
+  messages: OutboxMessage[];
+}
+
+const STATUS_LABELS: Record<OutboxStatus, string> = {
+  dead: "Failed",
+  pending: "Waiting to retry",
+  delivering: "Sending",
+  delivered: "Delivered",
+};
+
+const TOPIC_LABELS: Record<OutboxTopic, string> = {
+  "drip.download": "Drip download event",
+};
+
+/**
+ * Deliveries to Drip and other integrations; failed ones can be queued again once the cause is fixed.
+ */
+export default function AdminOutbox({ canReplay }: { canReplay: boolean }) {
+  const [status, setStatus] = useState<OutboxStatus>("dead");
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<OutboxPage>({
+    queryKey: ['/api/admin/outbox', status],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/outbox?status=${status}`);
+      return response.json();
+    },
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/outbox/replay', { ids: Array.from(selectedIds) });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/outbox'] });
+      setSelectedIds(new Set());
+      toast({ title: "Replay Queued", description: `${result.replayed.length} delivery(s) will be retried now.` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Replay Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const messages = data?.messages ?? [];
+  const selectable = canReplay && status === "dead";
+  const allSelected = messages.length > 0 && messages.every((message) => selectedIds.has(message.id));
+
+  const toggle = (id: number, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const changeStatus = (value: OutboxStatus) => {
+    setStatus(value);
+    setSelectedIds(new Set());
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Send className="h-5 w-5" />
+          Integration Deliveries
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Select value={status} onValueChange={(value) => changeStatus(value as OutboxStatus)}>
+          <SelectTrigger data-testid="select-outbox-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}{data ? ` (${data.counts[value as OutboxStatus]})` : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {selectable && messages.length > 0 && (
+          <div className="flex items-center justify-between gap-2 border rounded-lg p-3">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={allSelected}
+                onCheckedChange={(checked) => setSelectedIds(checked ? new Set(messages.map((message) => message.id)) : new Set())}
+                data-testid="checkbox-outbox-all"
+              />
+              Select all ({selectedIds.size} selected)
+            </label>
+            <Button
+              size="sm"
+              onClick={() => replayMutation.mutate()}
+              disabled={replayMutation.isPending || selectedIds.size === 0}
+              data-testid="button-outbox-replay"
+            >
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Replay
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div>Loading deliveries...</div>
+        ) : messages.length === 0 ? (
+          <div className="text-gray-500">Nothing {STATUS_LABELS[status].toLowerCase()}.</div>
+        ) : (
+          messages.map((message) => (
+            <div key={message.id} className="border rounded-lg p-3 flex items-start gap-3 text-sm" data-testid={`outbox-message-${message.id}`}>
+              {selectable && (
+                <Checkbox
+                  checked={selectedIds.has(message.id)}
+                  onCheckedChange={(checked) => toggle(message.id, checked === true)}
+                  className="mt-1"
+                />
+              )}
+              <div className="min-w-0 space-y-1">
+                <div className="font-medium">
+                  #{message.id} · {TOPIC_LABELS[message.topic] ?? message.topic}
+                  {typeof message.payload.email === "string" && <span className="text-gray-500 font-normal"> · {message.payload.email}</span>}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {message.attempts} attempt(s) · created {new Date(message.createdAt).toLocaleString()}
+                  {message.status === "pending" && ` · next try ${new Date(message.nextAttemptAt).toLocaleString()}`}
+                  {message.deliveredAt && ` · delivered ${new Date(message.deliveredAt).toLocaleString()}`}
+                </div>
+                {message.lastError && <div className="text-xs text-red-700 break-all">{message.lastError}</div>}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
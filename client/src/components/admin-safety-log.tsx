@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ShieldAlert } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { SafetyCategory, SafetySubject } from "@shared/schema";
+
+interface SafetyDecision {
+  id: number;
+  subject: SafetySubject;
+  provider: string;
+  allowed: boolean;
+  categories: SafetyCategory[];
+  matches: string[];
+  excerpt: string | null;
+  transformationId: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+const SUBJECT_LABELS: Record<SafetySubject, string> = {
+  pet_name: "Pet name",
+  pet_breed: "Breed",
+  pet_traits: "Traits",
+  custom_prompt: "Custom prompt",
+  upload: "Upload",
+  output: "Generated image",
+};
+
+/**
+ * Recent safety screening decisions, so false positives in the wordlist are easy to spot.
+ */
+export default function AdminSafetyLog() {
+  const [blockedOnly, setBlockedOnly] = useState(true);
+
+  const { data, isLoading } = useQuery<{ decisions: SafetyDecision[] }>({
+    queryKey: ['/api/admin/safety-decisions', blockedOnly],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/safety-decisions?blocked=${blockedOnly}`);
+      return response.json();
+    },
+  });
+
+  const decisions = data?.decisions ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Safety Log
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Switch id="safety-blocked-only" checked={blockedOnly} onCheckedChange={setBlockedOnly} />
+          <Label htmlFor="safety-blocked-only">Blocked only</Label>
+        </div>
+        {isLoading ? (
+          <div>Loading decisions...</div>
+        ) : decisions.length === 0 ? (
+          <div className="text-gray-500">No decisions recorded yet.</div>
+        ) : (
+          decisions.map((decision) => (
+            <div key={decision.id} className="border rounded-lg p-3 text-sm space-y-1" data-testid={`safety-decision-${decision.id}`}>
+              <div className="flex justify-between gap-2">
+                <span className="font-medium">{SUBJECT_LABELS[decision.subject] ?? decision.subject}</span>
+                <span className={`px-2 py-0.5 text-xs rounded ${decision.allowed ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}`}>
+                  {decision.allowed ? "allowed" : decision.categories.join(", ")}
+                </span>
+              </div>
+              {decision.excerpt && <div className="font-mono text-xs break-all">{decision.excerpt}</div>}
+              {decision.matches.length > 0 && <div className="text-xs text-gray-500">Matched: {decision.matches.join(", ")}</div>}
+              {decision.error && <div className="text-xs text-amber-700">{decision.error}</div>}
+              <div className="text-xs text-gray-500">
+                {decision.provider} · {new Date(decision.createdAt).toLocaleString()}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DollarSign } from "lucide-react";
+
+interface SpendBreakdown {
+  /** Null for calls not tied to a theme, such as custom prompts */
+  key: string | null;
+  costUsd: number;
+  calls: number;
+}
+
+interface LeadSpend {
+  userId: string;
+  email: string;
+  costUsd: number;
+  calls: number;
+  transformations: number;
+}
+
+interface SpendReport {
+  totalUsd: number;
+  calls: number;
+  failedCalls: number;
+  byTheme: SpendBreakdown[];
+  byOperation: SpendBreakdown[];
+  byLead: LeadSpend[];
+}
+
+interface BudgetWindow {
+  spentUsd: number;
+  capUsd: number | null;
+}
+
+interface BudgetStatus {
+  level: "ok" | "reduced" | "paused";
+  daily: BudgetWindow;
+  monthly: BudgetWindow;
+  reduceAt: number;
+}
+
+const LEVEL_STYLES: Record<BudgetStatus["level"], { label: string; className: string }> = {
+  ok: { label: "Within budget", className: "bg-green-100 text-green-800" },
+  reduced: { label: "Optional features off", className: "bg-yellow-100 text-yellow-800" },
+  paused: { label: "Generation paused", className: "bg-red-100 text-red-800" },
+};
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value >= 1 ? 2 : 4)}`;
+}
+
+function BudgetMeter({ label, window }: { label: string; window: BudgetWindow }) {
+  const percent = window.capUsd ? Math.min(100, (window.spentUsd / window.capUsd) * 100) : 0;
+  return (
+    <div>
+      <div className="flex justify-between text-sm">
+        <span>{label}</span>
+        <span className="text-gray-600">
+          {formatUsd(window.spentUsd)} / {window.capUsd === null ? "no cap" : formatUsd(window.capUsd)}
+        </span>
+      </div>
+      {window.capUsd !== null && (
+        <div className="h-2 mt-1 rounded bg-gray-100">
+          <div className="h-2 rounded bg-blue-500" style={{ width: `${percent}%` }} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SpendList({ title, rows }: { title: string; rows: SpendBreakdown[] }) {
+  return (
+    <div>
+      <h4 className="font-medium text-sm mb-2">{title}</h4>
+      {rows.length === 0 ? (
+        <div className="text-sm text-gray-500">No spend recorded.</div>
+      ) : (
+        <div className="space-y-1">
+          {rows.map((row) => (
+            <div key={row.key ?? ""} className="flex justify-between text-sm">
+              <span className="truncate">{row.key ?? "Unattributed"}</span>
+              <span className="text-gray-600 shrink-0">{formatUsd(row.costUsd)} · {row.calls} calls</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * AI provider spend from the usage ledger, against the daily and monthly budget caps.
+ */
+export default function AdminSpend() {
+  const [days, setDays] = useState("30");
+
+  const { data: usageData, isLoading } = useQuery({
+    queryKey: [`/api/admin/usage?days=${days}`],
+  });
+
+  const report: SpendReport | undefined = (usageData as any)?.report;
+  const budget: BudgetStatus | undefined = (usageData as any)?.budget;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5" />
+            AI Spend
+          </span>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-32" data-testid="select-spend-days">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">Last day</SelectItem>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !report || !budget ? (
+          <div>Loading spend...</div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <span className={`px-2 py-1 text-xs rounded ${LEVEL_STYLES[budget.level].className}`} data-testid="text-budget-level">
+                {LEVEL_STYLES[budget.level].label}
+              </span>
+              <BudgetMeter label="Today" window={budget.daily} />
+              <BudgetMeter label="This month" window={budget.monthly} />
+            </div>
+
+            <div className="text-sm border-t pt-3" data-testid="text-spend-total">
+              <span className="font-medium">{formatUsd(report.totalUsd)}</span> across {report.calls} calls
+              {report.failedCalls > 0 && <span className="text-gray-500"> ({report.failedCalls} failed)</span>}
+            </div>
+
+            <SpendList title="By theme" rows={report.byTheme} />
+            <SpendList title="By operation" rows={report.byOperation} />
+
+            <div>
+              <h4 className="font-medium text-sm mb-2">Top leads</h4>
+              {report.byLead.length === 0 ? (
+                <div className="text-sm text-gray-500">No lead-attributed spend yet.</div>
+              ) : (
+                <div className="space-y-1">
+                  {report.byLead.map((lead) => (
+                    <div key={lead.userId} className="flex justify-between text-sm" data-testid={`lead-spend-${lead.userId}`}>
+                      <span className="truncate">{lead.email}</span>
+                      <span className="text-gray-600 shrink-0">
+                        {formatUsd(lead.costUsd)} · {lead.transformations} creations
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
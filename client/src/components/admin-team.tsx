@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AdminRole } from "@shared/schema";
+
+export interface AdminAccount {
+  id: string;
+  email: string;
+  name: string;
+  role: AdminRole;
+  isActive: boolean;
+  lastLoginAt: string | null;
+}
+
+const ROLE_LABELS: Record<AdminRole, string> = {
+  viewer: "Viewer",
+  moderator: "Moderator",
+  prompt_editor: "Prompt Editor",
+  owner: "Owner",
+};
+
+/**
+ * Owner-only account management: invite staff, change roles and deactivate accounts.
+ */
+export default function AdminTeam({ currentUserId }: { currentUserId: string }) {
+  const [newUser, setNewUser] = useState({ name: "", email: "", password: "", role: "viewer" as AdminRole });
+  const { toast } = useToast();
+
+  const { data: usersData } = useQuery({
+    queryKey: ['/api/admin/users'],
+  });
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Unknown error",
+      variant: "destructive",
+    });
+  };
+
+  const createUserMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/users', newUser);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+      setNewUser({ name: "", email: "", password: "", role: "viewer" });
+      toast({ title: "Admin Added", description: `${data.user.email} can now sign in.` });
+    },
+    onError: onError("Failed to Add Admin"),
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string; role?: AdminRole; isActive?: boolean }) => {
+      const response = await apiRequest('PUT', `/api/admin/users/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+    },
+    onError: onError("Failed to Update Admin"),
+  });
+
+  const users: AdminAccount[] = (usersData as any)?.users || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Team
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          {users.map((user) => (
+            <div key={user.id} className="p-3 border rounded-lg flex justify-between items-center gap-2" data-testid={`admin-user-${user.id}`}>
+              <div className={user.isActive ? undefined : "opacity-50"}>
+                <div className="font-medium">{user.name}{user.id === currentUserId && " (you)"}</div>
+                <div className="text-xs text-gray-500">{user.email}</div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Select
+                  value={user.role}
+                  onValueChange={(role) => updateUserMutation.mutate({ id: user.id, role: role as AdminRole })}
+                  disabled={updateUserMutation.isPending}
+                >
+                  <SelectTrigger className="w-36" data-testid={`select-role-${user.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                      <SelectItem key={role} value={role}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateUserMutation.mutate({ id: user.id, isActive: !user.isActive })}
+                  disabled={updateUserMutation.isPending || user.id === currentUserId}
+                  data-testid={`button-toggle-admin-${user.id}`}
+                >
+                  {user.isActive ? "Deactivate" : "Reactivate"}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 pt-2 border-t">
+          <div>
+            <Label htmlFor="new-admin-name">Name</Label>
+            <Input
+              id="new-admin-name"
+              value={newUser.name}
+              onChange={(e) => setNewUser({ ...newUser, name: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="new-admin-email">Email</Label>
+            <Input
+              id="new-admin-email"
+              type="email"
+              value={newUser.email}
+              onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="new-admin-password">Initial Password</Label>
+            <Input
+              id="new-admin-password"
+              type="password"
+              autoComplete="new-password"
+              value={newUser.password}
+              onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+              placeholder="At least 12 characters"
+            />
+          </div>
+          <div>
+            <Label>Role</Label>
+            <Select value={newUser.role} onValueChange={(role) => setNewUser({ ...newUser, role: role as AdminRole })}>
+              <SelectTrigger data-testid="select-new-admin-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                  <SelectItem key={role} value={role}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button
+          onClick={() => createUserMutation.mutate()}
+          disabled={createUserMutation.isPending || !newUser.name || !newUser.email || newUser.password.length < 12}
+          className="w-full"
+          data-testid="button-add-admin"
+        >
+          {createUserMutation.isPending ? "Adding..." : "Add Admin"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
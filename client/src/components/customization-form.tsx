@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { Controller, useForm } from "react-hook-form";
+import { useEffect, useMemo, useState } from "react";
+import { Controller, useForm, type Control, type FieldErrors, type UseFormRegister, type UseFormSetValue } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
@@ -10,7 +10,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Sparkles, Heart, Star, Zap, Award, Shield, Crown } from "lucide-react";
-import type { Theme, PetData } from "@/lib/types";
+import { formatPetNames } from "@/lib/utils";
+import type { Theme, PetData, PetDetails, UploadedPhoto } from "@/lib/types";
 
 const petSchema = z.object({
   name: z.string().min(1, "Pet name is required"),
@@ -21,8 +22,19 @@ const petSchema = z.object({
   }),
 });
 
+// One entry per uploaded photo
+const formSchema = z.object({
+  pets: z.array(petSchema).min(1),
+});
+
+interface FormValues {
+  pets: PetDetails[];
+}
+
 interface CustomizationFormProps {
   selectedTheme: Theme;
+  /** One per pet; more than one asks for each pet's details */
+  uploadedPhotos: UploadedPhoto[];
   onSubmit: (petData: PetData) => void;
 }
 
@@ -47,9 +59,13 @@ const BREEDS = [
   { value: 'other', label: 'Other' },
 ];
 
-export default function CustomizationForm({ selectedTheme, onSubmit }: CustomizationFormProps) {
-  const [selectedTraits, setSelectedTraits] = useState<string[]>([]);
-  const [selectedBreed, setSelectedBreed] = useState<string>('');
+export default function CustomizationForm({ selectedTheme, uploadedPhotos, onSubmit }: CustomizationFormProps) {
+  const petCount = Math.max(uploadedPhotos.length, 1);
+  const isGroup = petCount > 1;
+  const [selectedTraits, setSelectedTraits] = useState<string[][]>(() => Array.from({ length: petCount }, () => []));
+
+  const previewUrls = useMemo(() => uploadedPhotos.map((photo) => URL.createObjectURL(photo.file)), [uploadedPhotos]);
+  useEffect(() => () => previewUrls.forEach((url) => URL.revokeObjectURL(url)), [previewUrls]);
 
   const {
     register,
@@ -57,37 +73,36 @@ export default function CustomizationForm({ selectedTheme, onSubmit }: Customiza
     setValue,
     control,
     formState: { errors, isValid },
-  } = useForm<PetData>({
-    resolver: zodResolver(petSchema),
+  } = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
     mode: 'onChange',
+    defaultValues: { pets: Array.from({ length: petCount }, () => ({ name: '', traits: [] })) },
   });
 
-  const handleTraitChange = (traitName: string, checked: boolean) => {
+  const handleTraitChange = (index: number, traitName: string, checked: boolean) => {
+    const current = selectedTraits[index];
     let newTraits: string[];
     if (checked) {
-      if (selectedTraits.length < 3) {
-        newTraits = [...selectedTraits, traitName];
+      if (current.length < 3) {
+        newTraits = [...current, traitName];
       } else {
         return; // Don't add if already at limit
       }
     } else {
-      newTraits = selectedTraits.filter(t => t !== traitName);
+      newTraits = current.filter(t => t !== traitName);
     }
-    setSelectedTraits(newTraits);
-    setValue('traits', newTraits, { shouldValidate: true });
-  };
-
-  const handleBreedChange = (value: string) => {
-    setSelectedBreed(value);
-    setValue('breed', value);
+    setSelectedTraits((prev) => prev.map((traits, i) => (i === index ? newTraits : traits)));
+    setValue(`pets.${index}.traits`, newTraits, { shouldValidate: true });
   };
 
-  const onFormSubmit = (data: PetData) => {
-    onSubmit({
-      ...data,
-      traits: selectedTraits,
-      gender: data.gender,
-    });
+  const onFormSubmit = (data: FormValues) => {
+    const pets = data.pets.map((pet, index) => ({ ...pet, traits: selectedTraits[index] }));
+    if (pets.length === 1) {
+      onSubmit(pets[0]);
+      return;
+    }
+    // The first pet stands in for the group wherever a single breed or gender is needed
+    onSubmit({ ...pets[0], name: formatPetNames(pets.map((pet) => pet.name)), pets });
   };
 
   return (
@@ -100,235 +115,36 @@ export default function CustomizationForm({ selectedTheme, onSubmit }: Customiza
             Step 3 of 4
           </div>
           <h3 className="text-2xl sm:text-3xl font-bold text-gray-800 mb-3">
-            Tell Us About <span className="text-brand-primary">Your Pet</span>
+            Tell Us About <span className="text-brand-primary">{isGroup ? 'Your Pets' : 'Your Pet'}</span>
           </h3>
           <p className="text-gray-600 text-sm sm:text-base leading-relaxed">
-            Just a few details to create the perfect {selectedTheme === 'baseball' ? 'sports card' : 'superhero identity'}
+            Just a few details to create the perfect {selectedTheme.copy.noun}
           </p>
         </div>
 
         <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-8">
-          {/* Pet Name - Enhanced Card Style */}
-          <Card className="border-0 shadow-md bg-white/80 backdrop-blur-sm">
-            <CardContent className="p-6">
-              <div className="flex items-center mb-4">
-                <div className="w-10 h-10 bg-brand-primary/10 rounded-full flex items-center justify-center mr-3">
-                  <Heart className="w-5 h-5 text-brand-primary" />
-                </div>
-                <div>
-                  <Label htmlFor="name" className="text-lg font-semibold text-gray-800">
-                    What's your pet's name?
-                  </Label>
-                  <p className="text-sm text-gray-500">This will appear on their card</p>
-                </div>
-              </div>
-              <Input
-                id="name"
-                {...register('name')}
-                placeholder="Enter your pet's name"
-                className="text-lg p-4 border-2 border-gray-200 focus:border-brand-accent rounded-xl transition-all"
-              />
-              {errors.name && (
-                <p className="text-red-500 text-sm mt-2 flex items-center">
-                  <span className="mr-1">⚠️</span> {errors.name.message}
-                </p>
-              )}
-            </CardContent>
-          </Card>
-
-          {/* Pet Breed - Enhanced Card Style */}
-          <Card className="border-0 shadow-md bg-white/80 backdrop-blur-sm">
-            <CardContent className="p-6">
-              <div className="flex items-center mb-4">
-                <div className="w-10 h-10 bg-brand-accent/10 rounded-full flex items-center justify-center mr-3">
-                  <Crown className="w-5 h-5 text-brand-accent" />
-                </div>
-                <div>
-                  <Label className="text-lg font-semibold text-gray-800">
-                    What breed are they?
-                  </Label>
-                  <p className="text-sm text-gray-500">Optional - helps us customize better</p>
-                </div>
-              </div>
-              <Select onValueChange={handleBreedChange}>
-                <SelectTrigger className="text-lg p-4 border-2 border-gray-200 focus:border-brand-accent rounded-xl transition-all">
-                  <SelectValue placeholder="Choose breed or skip" />
-                </SelectTrigger>
-                <SelectContent>
-                  {BREEDS.map((breed) => (
-                    <SelectItem key={breed.value} value={breed.value}>
-                      {breed.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-
-              {/* Custom breed input when "Other" is selected */}
-              {selectedBreed === 'other' && (
-                <div className="mt-4 animate-fade-in">
-                  <Input
-                    {...register('breed')}
-                    placeholder="Tell us what breed your pet is"
-                    className="text-lg p-4 border-2 border-gray-200 focus:border-brand-accent rounded-xl transition-all mobile-input"
-                    onChange={(e) => setValue('breed', e.target.value)}
-                  />
+          {Array.from({ length: petCount }, (_, index) => (
+            <div key={index} className="space-y-8">
+              {isGroup && (
+                <div className="flex items-center gap-3 pt-2" data-testid={`pet-fields-${index}`}>
+                  {previewUrls[index] && (
+                    <img src={previewUrls[index]} alt="" className="w-14 h-14 object-cover rounded-full border-2 border-brand-accent" />
+                  )}
+                  <span className="text-lg font-bold text-gray-800">Pet {index + 1} of {petCount}</span>
                 </div>
               )}
-            </CardContent>
-          </Card>
-
-          {/* Personality Traits - Mobile-First Design */}
-          <Card className="border-0 shadow-md bg-white/80 backdrop-blur-sm">
-            <CardContent className="p-6">
-              <div className="flex items-center mb-6">
-                <div className="w-10 h-10 bg-purple-100 rounded-full flex items-center justify-center mr-3">
-                  <Sparkles className="w-5 h-5 text-purple-600" />
-                </div>
-                <div>
-                  <Label className="text-lg font-semibold text-gray-800">
-                    Pick their personality
-                  </Label>
-                  <p className="text-sm text-gray-500">Choose up to 3 that fit best</p>
-                </div>
-              </div>
-
-              <div className="space-y-3">
-                {TRAITS.map((trait) => {
-                  const isSelected = selectedTraits.includes(trait.name);
-                  const isDisabled = !isSelected && selectedTraits.length >= 3;
-
-                  return (
-                    <div
-                      key={trait.name}
-                      className={`
-                        relative p-4 rounded-xl border-2 transition-all duration-300 cursor-pointer
-                        ${isSelected
-                          ? 'border-brand-accent bg-brand-accent/5 shadow-md transform scale-105'
-                          : isDisabled
-                            ? 'border-gray-200 bg-gray-50 opacity-50 cursor-not-allowed'
-                            : 'border-gray-200 bg-white hover:border-brand-accent/50 hover:bg-brand-accent/5'
-                        }
-                      `}
-                      onClick={() => !isDisabled && handleTraitChange(trait.name, !isSelected)}
-                    >
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-3">
-                          <div className={`w-12 h-12 rounded-full flex items-center justify-center ${trait.color}`}>
-                            <span className="text-xl">{trait.emoji}</span>
-                          </div>
-                          <div>
-                            <span className="font-semibold text-gray-800 capitalize text-lg">
-                              {trait.name}
-                            </span>
-                          </div>
-                        </div>
-
-                        <div className={`
-                          w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all
-                          ${isSelected
-                            ? 'border-brand-accent bg-brand-accent'
-                            : 'border-gray-300'
-                          }
-                        `}>
-                          {isSelected && (
-                            <div className="w-3 h-3 bg-white rounded-full" />
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-
-              <div className="flex items-center justify-between mt-4 p-3 bg-blue-50 rounded-lg">
-                <span className="text-sm text-blue-700 font-medium">
-                  {selectedTraits.length}/3 traits selected
-                </span>
-                {selectedTraits.length >= 3 && (
-                  <span className="text-xs text-blue-600">Maximum reached!</span>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Gender Selection */}
-          <Card className="border-0 shadow-md bg-white/80 backdrop-blur-sm">
-            <CardContent className="p-6">
-              <div className="flex items-center mb-4">
-                <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center mr-3">
-                  <Star className="w-5 h-5 text-green-600" />
-                </div>
-                <div>
-                  <Label className="text-lg font-semibold text-gray-800">
-                    What's your pet's gender?
-                  </Label>
-                  <p className="text-sm text-gray-500">Helps us tailor their heroic look</p>
-                </div>
-              </div>
-              <Controller
-                name="gender"
+              <PetFields
+                index={index}
+                isGroup={isGroup}
+                register={register}
                 control={control}
-                render={({ field }) => (
-                  <RadioGroup
-                    value={field.value}
-                    onValueChange={(value) => field.onChange(value)}
-                    className="flex flex-col sm:flex-row gap-3"
-                  >
-                    <Label
-                      htmlFor="gender-male"
-                      className={`flex-1 border-2 rounded-xl p-4 cursor-pointer transition-all ${field.value === 'male'
-                        ? 'border-brand-accent bg-brand-accent/5 shadow-md'
-                        : 'border-gray-200 bg-white hover:border-brand-accent/50 hover:bg-brand-accent/5'
-                        }`}
-                    >
-                      <div className="flex items-center space-x-3">
-                        <RadioGroupItem id="gender-male" value="male" className="mt-0.5" />
-                        <div>
-                          <span className="font-semibold text-gray-800 text-lg">Male</span>
-                          <p className="text-sm text-gray-500">Bold hero vibes</p>
-                        </div>
-                      </div>
-                    </Label>
-                    <Label
-                      htmlFor="gender-female"
-                      className={`flex-1 border-2 rounded-xl p-4 cursor-pointer transition-all ${field.value === 'female'
-                        ? 'border-brand-accent bg-brand-accent/5 shadow-md'
-                        : 'border-gray-200 bg-white hover:border-brand-accent/50 hover:bg-brand-accent/5'
-                        }`}
-                    >
-                      <div className="flex items-center space-x-3">
-                        <RadioGroupItem id="gender-female" value="female" className="mt-0.5" />
-                        <div>
-                          <span className="font-semibold text-gray-800 text-lg">Female</span>
-                          <p className="text-sm text-gray-500">Fierce heroine energy</p>
-                        </div>
-                      </div>
-                    </Label>
-                    <Label
-                      htmlFor="gender-neutral"
-                      className={`flex-1 border-2 rounded-xl p-4 cursor-pointer transition-all ${field.value === 'neutral'
-                        ? 'border-brand-accent bg-brand-accent/5 shadow-md'
-                        : 'border-gray-200 bg-white hover:border-brand-accent/50 hover:bg-brand-accent/5'
-                        }`}
-                    >
-                      <div className="flex items-center space-x-3">
-                        <RadioGroupItem id="gender-neutral" value="neutral" className="mt-0.5" data-testid="radio-gender-neutral" />
-                        <div>
-                          <span className="font-semibold text-gray-800 text-lg">Neutral</span>
-                          <p className="text-sm text-gray-500">Unique champion spirit</p>
-                        </div>
-                      </div>
-                    </Label>
-                  </RadioGroup>
-                )}
+                setValue={setValue}
+                errors={errors}
+                selectedTraits={selectedTraits[index]}
+                onTraitChange={(traitName, checked) => handleTraitChange(index, traitName, checked)}
               />
-              {errors.gender && (
-                <p className="text-red-500 text-sm mt-3 flex items-center">
-                  <span className="mr-1">⚠️</span> {errors.gender.message}
-                </p>
-              )}
-            </CardContent>
-          </Card>
+            </div>
+          ))}
 
           {/* Submit Button - Enhanced Mobile */}
           <div className="pt-4">
@@ -344,12 +160,12 @@ export default function CustomizationForm({ selectedTheme, onSubmit }: Customiza
               `}
             >
               <Sparkles className="mr-3 w-6 h-6" />
-              Create My Pet's {selectedTheme === 'baseball' ? 'Sports Card' : 'Superhero Identity'}
+              Create My {isGroup ? "Pets'" : "Pet's"} {selectedTheme.copy.nounTitle}
             </Button>
 
             {!isValid && (
               <p className="text-center text-sm text-gray-500 mt-3">
-                Please enter your pet's name to continue
+                Please enter {isGroup ? "every pet's name and gender" : "your pet's name"} to continue
               </p>
             )}
           </div>
@@ -358,3 +174,253 @@ export default function CustomizationForm({ selectedTheme, onSubmit }: Customiza
     </section>
   );
 }
+
+interface PetFieldsProps {
+  index: number;
+  isGroup: boolean;
+  register: UseFormRegister<FormValues>;
+  control: Control<FormValues>;
+  setValue: UseFormSetValue<FormValues>;
+  errors: FieldErrors<FormValues>;
+  selectedTraits: string[];
+  onTraitChange: (traitName: string, checked: boolean) => void;
+}
+
+/**
+ * Name, breed, traits and gender for one pet.
+ */
+function PetFields({ index, isGroup, register, control, setValue, errors, selectedTraits, onTraitChange }: PetFieldsProps) {
+  const [selectedBreed, setSelectedBreed] = useState<string>('');
+  const petErrors = errors.pets?.[index];
+
+  const handleBreedChange = (value: string) => {
+    setSelectedBreed(value);
+    setValue(`pets.${index}.breed`, value);
+  };
+
+  return (
+    <>
+      {/* Pet Name - Enhanced Card Style */}
+      <Card className="border-0 shadow-md bg-white/80 backdrop-blur-sm">
+        <CardContent className="p-6">
+          <div className="flex items-center mb-4">
+            <div className="w-10 h-10 bg-brand-primary/10 rounded-full flex items-center justify-center mr-3">
+              <Heart className="w-5 h-5 text-brand-primary" />
+            </div>
+            <div>
+              <Label htmlFor={`name-${index}`} className="text-lg font-semibold text-gray-800">
+                What's {isGroup ? 'this' : 'your'} pet's name?
+              </Label>
+              <p className="text-sm text-gray-500">This will appear on their card</p>
+            </div>
+          </div>
+          <Input
+            id={`name-${index}`}
+            {...register(`pets.${index}.name`)}
+            placeholder="Enter your pet's name"
+            className="text-lg p-4 border-2 border-gray-200 focus:border-brand-accent rounded-xl transition-all"
+          />
+          {petErrors?.name && (
+            <p className="text-red-500 text-sm mt-2 flex items-center">
+              <span className="mr-1">⚠️</span> {petErrors.name.message}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pet Breed - Enhanced Card Style */}
+      <Card className="border-0 shadow-md bg-white/80 backdrop-blur-sm">
+        <CardContent className="p-6">
+          <div className="flex items-center mb-4">
+            <div className="w-10 h-10 bg-brand-accent/10 rounded-full flex items-center justify-center mr-3">
+              <Crown className="w-5 h-5 text-brand-accent" />
+            </div>
+            <div>
+              <Label className="text-lg font-semibold text-gray-800">
+                What breed are they?
+              </Label>
+              <p className="text-sm text-gray-500">Optional - helps us customize better</p>
+            </div>
+          </div>
+          <Select onValueChange={handleBreedChange}>
+            <SelectTrigger className="text-lg p-4 border-2 border-gray-200 focus:border-brand-accent rounded-xl transition-all">
+              <SelectValue placeholder="Choose breed or skip" />
+            </SelectTrigger>
+            <SelectContent>
+              {BREEDS.map((breed) => (
+                <SelectItem key={breed.value} value={breed.value}>
+                  {breed.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {/* Custom breed input when "Other" is selected */}
+          {selectedBreed === 'other' && (
+            <div className="mt-4 animate-fade-in">
+              <Input
+                {...register(`pets.${index}.breed`)}
+                placeholder="Tell us what breed your pet is"
+                className="text-lg p-4 border-2 border-gray-200 focus:border-brand-accent rounded-xl transition-all mobile-input"
+                onChange={(e) => setValue(`pets.${index}.breed`, e.target.value)}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Personality Traits - Mobile-First Design */}
+      <Card className="border-0 shadow-md bg-white/80 backdrop-blur-sm">
+        <CardContent className="p-6">
+          <div className="flex items-center mb-6">
+            <div className="w-10 h-10 bg-purple-100 rounded-full flex items-center justify-center mr-3">
+              <Sparkles className="w-5 h-5 text-purple-600" />
+            </div>
+            <div>
+              <Label className="text-lg font-semibold text-gray-800">
+                Pick their personality
+              </Label>
+              <p className="text-sm text-gray-500">Choose up to 3 that fit best</p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {TRAITS.map((trait) => {
+              const isSelected = selectedTraits.includes(trait.name);
+              const isDisabled = !isSelected && selectedTraits.length >= 3;
+
+              return (
+                <div
+                  key={trait.name}
+                  className={`
+                    relative p-4 rounded-xl border-2 transition-all duration-300 cursor-pointer
+                    ${isSelected
+                      ? 'border-brand-accent bg-brand-accent/5 shadow-md transform scale-105'
+                      : isDisabled
+                        ? 'border-gray-200 bg-gray-50 opacity-50 cursor-not-allowed'
+                        : 'border-gray-200 bg-white hover:border-brand-accent/50 hover:bg-brand-accent/5'
+                    }
+                  `}
+                  onClick={() => !isDisabled && onTraitChange(trait.name, !isSelected)}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <div className={`w-12 h-12 rounded-full flex items-center justify-center ${trait.color}`}>
+                        <span className="text-xl">{trait.emoji}</span>
+                      </div>
+                      <div>
+                        <span className="font-semibold text-gray-800 capitalize text-lg">
+                          {trait.name}
+                        </span>
+                      </div>
+                    </div>
+
+                    <div className={`
+                      w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all
+                      ${isSelected
+                        ? 'border-brand-accent bg-brand-accent'
+                        : 'border-gray-300'
+                      }
+                    `}>
+                      {isSelected && (
+                        <div className="w-3 h-3 bg-white rounded-full" />
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center justify-between mt-4 p-3 bg-blue-50 rounded-lg">
+            <span className="text-sm text-blue-700 font-medium">
+              {selectedTraits.length}/3 traits selected
+            </span>
+            {selectedTraits.length >= 3 && (
+              <span className="text-xs text-blue-600">Maximum reached!</span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Gender Selection */}
+      <Card className="border-0 shadow-md bg-white/80 backdrop-blur-sm">
+        <CardContent className="p-6">
+          <div className="flex items-center mb-4">
+            <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center mr-3">
+              <Star className="w-5 h-5 text-green-600" />
+            </div>
+            <div>
+              <Label className="text-lg font-semibold text-gray-800">
+                What's {isGroup ? 'this' : 'your'} pet's gender?
+              </Label>
+              <p className="text-sm text-gray-500">Helps us tailor their heroic look</p>
+            </div>
+          </div>
+          <Controller
+            name={`pets.${index}.gender`}
+            control={control}
+            render={({ field }) => (
+              <RadioGroup
+                value={field.value}
+                onValueChange={(value) => field.onChange(value)}
+                className="flex flex-col sm:flex-row gap-3"
+              >
+                <Label
+                  htmlFor={`gender-male-${index}`}
+                  className={`flex-1 border-2 rounded-xl p-4 cursor-pointer transition-all ${field.value === 'male'
+                    ? 'border-brand-accent bg-brand-accent/5 shadow-md'
+                    : 'border-gray-200 bg-white hover:border-brand-accent/50 hover:bg-brand-accent/5'
+                    }`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <RadioGroupItem id={`gender-male-${index}`} value="male" className="mt-0.5" />
+                    <div>
+                      <span className="font-semibold text-gray-800 text-lg">Male</span>
+                      <p className="text-sm text-gray-500">Bold hero vibes</p>
+                    </div>
+                  </div>
+                </Label>
+                <Label
+                  htmlFor={`gender-female-${index}`}
+                  className={`flex-1 border-2 rounded-xl p-4 cursor-pointer transition-all ${field.value === 'female'
+                    ? 'border-brand-accent bg-brand-accent/5 shadow-md'
+                    : 'border-gray-200 bg-white hover:border-brand-accent/50 hover:bg-brand-accent/5'
+                    }`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <RadioGroupItem id={`gender-female-${index}`} value="female" className="mt-0.5" />
+                    <div>
+                      <span className="font-semibold text-gray-800 text-lg">Female</span>
+                      <p className="text-sm text-gray-500">Fierce heroine energy</p>
+                    </div>
+                  </div>
+                </Label>
+                <Label
+                  htmlFor={`gender-neutral-${index}`}
+                  className={`flex-1 border-2 rounded-xl p-4 cursor-pointer transition-all ${field.value === 'neutral'
+                    ? 'border-brand-accent bg-brand-accent/5 shadow-md'
+                    : 'border-gray-200 bg-white hover:border-brand-accent/50 hover:bg-brand-accent/5'
+                    }`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <RadioGroupItem id={`gender-neutral-${index}`} value="neutral" className="mt-0.5" data-testid={index === 0 ? "radio-gender-neutral" : `radio-gender-neutral-${index}`} />
+                    <div>
+                      <span className="font-semibold text-gray-800 text-lg">Neutral</span>
+                      <p className="text-sm text-gray-500">Unique champion spirit</p>
+                    </div>
+                  </div>
+                </Label>
+              </RadioGroup>
+            )}
+          />
+          {petErrors?.gender && (
+            <p className="text-red-500 text-sm mt-3 flex items-center">
+              <span className="mr-1">⚠️</span> {petErrors.gender.message}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -69,7 +69,7 @@ export default function EmailGate({ petData, selectedTheme, onEmailSubmit }: Ema
             </span>
           </h3>
           <p className="text-lg text-gray-600 leading-relaxed">
-            Just one quick step to unlock your pet's amazing {selectedTheme === 'baseball' ? 'sports card' : 'superhero identity'}!
+            Just one quick step to unlock your pet's amazing {selectedTheme.copy.noun}!
           </p>
         </div>
 
@@ -83,7 +83,7 @@ export default function EmailGate({ petData, selectedTheme, onEmailSubmit }: Ema
                   <span className="text-sm font-semibold text-green-700 uppercase tracking-wide">Ready to Generate</span>
                 </div>
                 <h4 className="text-xl font-bold text-gray-800 mb-2">
-                  {petData.name}'s {selectedTheme === 'baseball' ? '⚾ Sports Card' : '🦸 Superhero Identity'}
+                  {petData.name}'s {`${selectedTheme.copy.emoji} ${selectedTheme.copy.nounTitle}`.trim()}
                 </h4>
                 <p className="text-sm text-gray-600">
                   {petData.traits.length > 0 ? (
@@ -94,7 +94,7 @@ export default function EmailGate({ petData, selectedTheme, onEmailSubmit }: Ema
                 </p>
               </div>
               <div className="text-4xl animate-bounce">
-                {selectedTheme === 'baseball' ? '🏆' : '⚡'}
+                {selectedTheme.copy.badgeEmoji}
               </div>
             </div>
           </CardContent>
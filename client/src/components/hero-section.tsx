@@ -1,9 +1,11 @@
 import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 
 import { Button } from "@/components/ui/button";
-import { Wand2, Users, Share2 } from "lucide-react";
+import { Wand2, Users, Share2, Heart, Flame } from "lucide-react";
 
-import type { SiteMetrics } from "@/lib/types";
+import type { GalleryLeaderboards, SiteMetrics } from "@/lib/types";
 
 const INITIAL_METRICS: SiteMetrics = {
   id: "global",
@@ -20,6 +22,10 @@ interface HeroSectionProps {
 
 export default function HeroSection({ onStart }: HeroSectionProps) {
   const [metrics, setMetrics] = useState<SiteMetrics>(INITIAL_METRICS);
+  const { data: leaderboards } = useQuery<GalleryLeaderboards>({
+    queryKey: ["/api/gallery/leaderboards"],
+  });
+  const mostLiked = leaderboards?.weekly.slice(0, 4) ?? [];
 
   useEffect(() => {
     if (typeof window === "undefined") {
@@ -170,6 +176,35 @@ export default function HeroSection({ onStart }: HeroSectionProps) {
           </div>
         </div>
 
+        {/* Real pets from the gallery, once there are likes this week */}
+        {mostLiked.length > 0 && (
+          <div className="mb-8" data-testid="hero-most-liked">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-gray-800 flex items-center">
+                <Flame className="text-orange-500 mr-2 w-5 h-5" />
+                Most liked this week
+              </h3>
+              <Link href="/gallery" className="text-sm text-brand-primary font-medium hover:underline">
+                See the gallery
+              </Link>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {mostLiked.map((entry) => (
+                <a key={entry.id} href={entry.shareUrl} className="rounded-xl overflow-hidden shadow hover:shadow-lg transition-shadow bg-white">
+                  <img src={entry.thumbnailUrl} alt={entry.petName} className="w-full aspect-square object-cover" loading="lazy" />
+                  <div className="p-2 flex items-center justify-between text-xs text-gray-600">
+                    <span className="font-medium truncate">{entry.petName}</span>
+                    <span className="flex items-center">
+                      <Heart className="w-3 h-3 mr-1" />
+                      {entry.likesThisWeek}
+                    </span>
+                  </div>
+                </a>
+              ))}
+            </div>
+          </div>
+        )}
+
         <Button
           onClick={onStart}
           size="lg"
@@ -1,129 +1,260 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Progress } from "@/components/ui/progress";
-import { CheckCircle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, Loader2, AlertTriangle, RotateCcw, Clock } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
-import type { Theme, TransformationResult } from "@/lib/types";
+import { apiRequest, formatRetryAfter, RateLimitError, rememberOwnerToken } from "@/lib/queryClient";
+import type { AppState, GenerationJobState, GenerationJobStatus, PetData, Theme, TransformationResult } from "@/lib/types";
 
 interface ProcessingSectionProps {
   selectedTheme: Theme;
   onComplete: (result: TransformationResult) => void;
-  uploadedFile?: File | null;
-  petData?: any;
+  /** One per pet, in the order of `petData.pets` */
+  uploadedPhotoUrls: string[];
+  petData?: PetData | null;
+  /** Job already started for this creation (e.g. before a reload); followed instead of starting another */
+  resumeJobId?: string | null;
+  onJobStarted: (jobId: string) => void;
 }
 
-const PROCESSING_STEPS = {
-  baseball: [
-    "Analyzing your pet's features...",
-    "Selecting the perfect baseball style...",
-    "Generating custom stats and details...",
-    "Adding finishing touches...",
-    "Almost ready!",
-  ],
-  superhero: [
-    "Analyzing your pet's features...",
-    "Selecting the perfect superhero style...",
-    "Generating super powers and abilities...",
-    "Adding cape and mask effects...",
-    "Almost ready!",
-  ],
-};
-
-export default function ProcessingSection({ selectedTheme, onComplete, uploadedFile, petData }: ProcessingSectionProps) {
-  const [progress, setProgress] = useState(0);
-  const [currentStepIndex, setCurrentStepIndex] = useState(0);
-  const steps = PROCESSING_STEPS[selectedTheme];
-
-  // Real image generation mutation
-  const generateImage = useMutation({
-    mutationFn: async () => {
-      if (!petData || !uploadedFile) {
-        throw new Error('Missing required data for image generation');
-      }
+type ActiveStage = Exclude<GenerationJobStatus, 'done' | 'failed'>;
 
-      // First, upload the image to get a real URL that nano-banana can use
-      const formData = new FormData();
-      formData.append('petPhoto', uploadedFile);
+const STAGE_ORDER: ActiveStage[] = ['queued', 'generating', 'watermarking', 'uploading'];
 
-      console.log('Uploading image file:', uploadedFile.name, uploadedFile.size, 'bytes');
+const POLL_INTERVAL_MS = 2000;
 
-      const uploadResponse = await apiRequest('POST', '/api/upload', formData);
-      const uploadResult = await uploadResponse.json();
+const PENDING_GENERATION_KEY = "pending-generation";
 
-      if (!uploadResult.success) {
-        throw new Error(uploadResult.message || 'Image upload failed');
-      }
+export type PendingGeneration = Pick<AppState, "uploadedPhotos" | "selectedTheme" | "petData" | "userEmail" | "userName"> & { jobId: string };
+
+/**
+ * Keep the running job and what the page needs to show it in sessionStorage, so reloading the tab
+ * picks the same job back up.
+ */
+export function rememberPendingGeneration(pending: PendingGeneration) {
+  try {
+    window.sessionStorage.setItem(PENDING_GENERATION_KEY, JSON.stringify(pending));
+  } catch {
+    // Storage disabled: a reload starts over, as before
+  }
+}
+
+export function pendingGeneration(): PendingGeneration | null {
+  try {
+    const pending = JSON.parse(window.sessionStorage.getItem(PENDING_GENERATION_KEY) ?? "null");
+    return typeof pending?.jobId === "string" && pending.selectedTheme ? pending as PendingGeneration : null;
+  } catch {
+    return null;
+  }
+}
+
+export function forgetPendingGeneration() {
+  try {
+    window.sessionStorage.removeItem(PENDING_GENERATION_KEY);
+  } catch {
+    // Nothing was stored
+  }
+}
+
+export default function ProcessingSection({ selectedTheme, onComplete, uploadedPhotoUrls, petData, resumeJobId, onJobStarted }: ProcessingSectionProps) {
+  const [jobId, setJobId] = useState<string | null>(resumeJobId ?? null);
+  const [job, setJob] = useState<GenerationJobState | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Set when the server rate-limits us; retry stays disabled until then
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const hasStartedRef = useRef(false);
+  const hasCompletedRef = useRef(false);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+  const onJobStartedRef = useRef(onJobStarted);
+  onJobStartedRef.current = onJobStarted;
+  const steps = selectedTheme.copy.processingSteps;
 
-      console.log('Upload successful, image URL:', uploadResult.fileUrl);
+  // Enqueue the generation job for the already-validated upload; the server answers immediately with a job id
+  const startGeneration = useMutation({
+    mutationFn: async () => {
+      if (!petData || uploadedPhotoUrls.length === 0) {
+        throw new Error('Missing required data for image generation');
+      }
 
-      // Now use the real image URL for transformation (nano-banana needs real URLs)
+      // Groups send every pet with its own photo; the server fills in the group's name from them
+      const pets = (petData.pets ?? []).map((pet, index) => ({ ...pet, imageUrl: uploadedPhotoUrls[index] }));
       const transformationData = {
         petName: petData.name || 'Pet',
-        theme: selectedTheme,
+        theme: selectedTheme.slug,
         petBreed: petData.breed || '',
         traits: petData.traits || [],
         gender: petData.gender,
-        originalImageUrl: uploadResult.fileUrl
+        originalImageUrl: uploadedPhotoUrls[0],
+        ...(pets.length > 1 ? { pets } : {}),
       };
 
       const response = await apiRequest('POST', '/api/transformations', transformationData);
-      return response.json();
-    },
-    onSuccess: (data) => {
-      if (data.success && data.transformation) {
-        const result: TransformationResult = {
-          id: data.transformation.id || `transformation_${Date.now()}`,
-          transformedImageUrl: data.transformation.transformedImageUrl || data.imageUrl,
-          stats: data.transformation.stats || {
-            likes: Math.floor(Math.random() * 500) + 100,
-            shares: Math.floor(Math.random() * 200) + 50,
-            downloads: Math.floor(Math.random() * 300) + 100,
-          },
-        };
-        onComplete(result);
-      } else {
-        console.error('Image generation failed:', data.error || data.message);
-        throw new Error('Image generation failed: ' + (data.error || data.message));
+      const data = await response.json();
+      if (!data.success || !data.jobId) {
+        throw new Error(data.error || data.message || 'Failed to start image generation');
+      }
+      if (data.ownerToken && data.transformation?.id) {
+        rememberOwnerToken(data.transformation.id, data.ownerToken);
       }
+      return data.jobId as string;
+    },
+    onSuccess: (newJobId) => {
+      setJobId(newJobId);
+      onJobStartedRef.current(newJobId);
     },
     onError: (error) => {
       console.error('Image generation error:', error);
-      // Don't fall back to stock photos - show the actual error
-      throw error;
+      if (error instanceof RateLimitError) {
+        setRetryAt(Date.now() + error.retryAfterSeconds * 1000);
+      }
+      setErrorMessage(error instanceof Error ? error.message : 'Image generation failed');
     },
   });
 
   useEffect(() => {
-    const interval = setInterval(() => {
-      setProgress(prev => {
-        const newProgress = prev + Math.random() * 15 + 8;
-        if (newProgress >= 95 && !generateImage.isPending && !generateImage.isSuccess) {
-          // Start real image generation when progress reaches 95%
-          generateImage.mutate();
-          return 95; // Hold at 95% until generation completes
-        } else if (generateImage.isSuccess && newProgress >= 95) {
-          clearInterval(interval);
-          return 100;
-        }
-        return Math.min(newProgress, 94); // Don't go above 94% until ready to generate
-      });
-    }, Math.random() * 1000 + 500);
-
-    const stepInterval = setInterval(() => {
-      setCurrentStepIndex(prev => {
-        if (prev < steps.length - 1) {
-          return prev + 1;
+    if (hasStartedRef.current) {
+      return;
+    }
+    hasStartedRef.current = true;
+    if (!resumeJobId) {
+      startGeneration.mutate();
+    }
+  }, [startGeneration, resumeJobId]);
+
+  // Follow the job over SSE, falling back to polling if the stream drops
+  useEffect(() => {
+    if (!jobId) {
+      return;
+    }
+
+    let stopped = false;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let eventSource: EventSource | null = null;
+
+    const handleUpdate = (next: GenerationJobState) => {
+      if (stopped) return;
+      setJob(next);
+
+      if (next.status === 'failed') {
+        stop();
+        setErrorMessage(next.error || 'Image generation failed');
+      } else if (next.status === 'done') {
+        stop();
+        if (hasCompletedRef.current) return;
+        hasCompletedRef.current = true;
+        const transformation = next.transformation;
+        onCompleteRef.current({
+          id: transformation?.id || next.transformationId,
+          transformedImageUrl: transformation?.transformedImageUrl || '',
+          cardBackImageUrl: transformation?.cardBackImageUrl ?? null,
+          renditions: transformation?.renditions ?? {},
+          visibility: transformation?.visibility ?? 'public',
+          showInGallery: transformation?.showInGallery ?? false,
+          moderationStatus: transformation?.moderationStatus ?? 'pending',
+          stats: transformation?.stats ?? { likes: 0, shares: 0, downloads: 0 },
+        });
+      }
+    };
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}`, { credentials: 'include' });
+        if (!response.ok) return;
+        const data = await response.json();
+        if (data?.job) {
+          handleUpdate(data.job as GenerationJobState);
         }
-        clearInterval(stepInterval);
-        return prev;
-      });
-    }, 1500);
-
-    return () => {
-      clearInterval(interval);
-      clearInterval(stepInterval);
+      } catch (error) {
+        // Flaky connection: keep polling until the job finishes
+        console.warn('Job status poll failed', error);
+      }
     };
-  }, [selectedTheme, onComplete, steps.length, generateImage]);
+
+    const startPolling = () => {
+      if (pollTimer || stopped) return;
+      void poll();
+      pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+    };
+
+    function stop() {
+      stopped = true;
+      eventSource?.close();
+      if (pollTimer) clearInterval(pollTimer);
+    }
+
+    if (typeof window !== 'undefined' && 'EventSource' in window) {
+      eventSource = new EventSource(`/api/jobs/${jobId}/events`);
+      eventSource.onmessage = (event) => {
+        try {
+          handleUpdate(JSON.parse(event.data) as GenerationJobState);
+        } catch (error) {
+          console.warn('Invalid job event', error);
+        }
+      };
+      eventSource.onerror = () => {
+        eventSource?.close();
+        startPolling();
+      };
+    } else {
+      startPolling();
+    }
+
+    return stop;
+  }, [jobId]);
+
+  useEffect(() => {
+    if (retryAt === null) {
+      return;
+    }
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) {
+        clearInterval(timer);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const handleRetry = () => {
+    setRetryAt(null);
+    setErrorMessage(null);
+    setJob(null);
+    setJobId(null);
+    startGeneration.mutate();
+  };
+
+  const status: GenerationJobStatus = job?.status ?? 'queued';
+  const progress = job?.progress ?? (startGeneration.isPending ? 2 : 5);
+  const currentStepIndex = status === 'done' ? STAGE_ORDER.length : Math.max(0, STAGE_ORDER.indexOf(status as ActiveStage));
+
+  if (errorMessage) {
+    const waitSeconds = retryAt !== null ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+    return (
+      <section className="bg-white rounded-xl shadow-lg p-8 mb-8 fade-in">
+        <div className="max-w-2xl mx-auto text-center">
+          {retryAt !== null ? (
+            <Clock className="w-12 h-12 text-amber-500 mx-auto mb-4" />
+          ) : (
+            <AlertTriangle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          )}
+          <h3 className="text-2xl font-bold text-gray-800 mb-4">
+            {retryAt !== null ? "Taking a Quick Breather" : "Something Went Wrong"}
+          </h3>
+          <p className="text-gray-600 mb-6">
+            {retryAt !== null
+              ? "We've had a lot of requests from you in a short time. Your photo is saved, so you can pick up right where you left off."
+              : errorMessage}
+          </p>
+          <Button onClick={handleRetry} disabled={startGeneration.isPending || waitSeconds > 0} className="brand-button" data-testid="button-retry-generation">
+            <RotateCcw className="mr-2 w-4 h-4" />
+            {waitSeconds > 0 ? `Try Again ${formatRetryAfter(waitSeconds)}` : "Try Again"}
+          </Button>
+        </div>
+      </section>
+    );
+  }
 
   return (
     <section className="bg-white rounded-xl shadow-lg p-8 mb-8 fade-in">
@@ -141,8 +272,8 @@ export default function ProcessingSection({ selectedTheme, onComplete, uploadedF
 
         {/* Progress Steps */}
         <div className="space-y-2 text-sm text-gray-600">
-          {steps.map((step, index) => (
-            <div key={index} className="flex items-center justify-center space-x-2">
+          {STAGE_ORDER.map((stage, index) => (
+            <div key={stage} className="flex items-center justify-center space-x-2">
               {index < currentStepIndex ? (
                 <CheckCircle className="w-4 h-4 text-green-500" />
               ) : index === currentStepIndex ? (
@@ -151,7 +282,7 @@ export default function ProcessingSection({ selectedTheme, onComplete, uploadedF
                 <div className="w-4 h-4 rounded-full border-2 border-gray-300" />
               )}
               <span className={index <= currentStepIndex ? "text-gray-800" : "text-gray-400"}>
-                {step}
+                {steps[stage]}
               </span>
             </div>
           ))}
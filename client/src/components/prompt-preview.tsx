@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { AlertCircle, Eye, Loader2 } from "lucide-react";
+import { csrfHeaders } from "@/lib/queryClient";
+
+interface PromptTemplateIssue {
+  code: string;
+  message: string;
+  line: number;
+  column: number;
+}
+
+interface PromptPreviewProps {
+  template: string;
+  /** Called whenever validation finishes, so forms can block saving invalid templates */
+  onValidityChange?: (valid: boolean) => void;
+}
+
+const PREVIEW_DEBOUNCE_MS = 400;
+
+/**
+ * Renders a draft prompt template against the server's sample pet as the admin types.
+ */
+export default function PromptPreview({ template, onValidityChange }: PromptPreviewProps) {
+  const [prompt, setPrompt] = useState<string | null>(null);
+  const [issues, setIssues] = useState<PromptTemplateIssue[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!template.trim()) {
+      setPrompt(null);
+      setIssues([]);
+      onValidityChange?.(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch('/api/admin/prompt-templates/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
+          body: JSON.stringify({ template }),
+          credentials: 'include',
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        if (response.ok) {
+          setPrompt(data.prompt);
+          setIssues([]);
+          onValidityChange?.(true);
+        } else {
+          setPrompt(null);
+          setIssues(data.issues ?? [{ code: 'error', message: data.error ?? `Preview failed (${response.status})`, line: 0, column: 0 }]);
+          onValidityChange?.(false);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.warn('Prompt preview failed', error);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [template]);
+
+  if (!template.trim()) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg border bg-gray-50 dark:bg-gray-900 p-3 text-sm" data-testid="prompt-preview">
+      <div className="flex items-center gap-2 font-medium text-gray-700 dark:text-gray-200 mb-2">
+        {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
+        Preview with sample pet
+      </div>
+      {issues.length > 0 ? (
+        <ul className="space-y-1 text-red-700">
+          {issues.map((issue, index) => (
+            <li key={index} className="flex items-start gap-2">
+              <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                {issue.line > 0 && <span className="font-mono">{issue.line}:{issue.column} </span>}
+                {issue.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="whitespace-pre-wrap text-gray-800 dark:text-gray-100">{prompt}</p>
+      )}
+    </div>
+  );
+}
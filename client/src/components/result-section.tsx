@@ -3,10 +3,13 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import SuccessModal from "@/components/success-modal";
-import { Download, Facebook, Twitter, Instagram, Link2, Trophy, Users, Plus, Heart, Share, Share2, Download as DownloadIcon, Star, Zap, Award, Target, MessageCircle, Loader2, Flame, Shield, Rocket } from "lucide-react";
+import { Download, Facebook, Twitter, Instagram, Link2, Trophy, Users, Plus, Heart, Share, Share2, Download as DownloadIcon, Star, Zap, Award, Target, MessageCircle, Loader2, Flame, Shield, Rocket, RefreshCw, Repeat } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import type { TransformationResult, PetData, Theme, PersonaContent } from "@/lib/types";
+import type { RenditionName, TransformationFeedback, TransformationVisibility } from "@shared/schema";
+import { ownerTokenHeaders, rateLimitErrorFromResponse, RateLimitError } from "@/lib/queryClient";
 import type { ReactNode } from "react";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import {
@@ -411,6 +414,38 @@ const buildSuperheroFallback = (ctx: FunFactContext): FunFactFallback => ({
   funFact: buildFunFactFromTemplates(ctx, superheroBreedTemplates, superheroGeneralFunFacts),
 });
 
+const genericQuotes = [
+  `"{name} was born for this role - nobody else even auditioned!"`,
+  `"Some pets dream big. {name} just wakes up and does it."`,
+  `"Treats first, legend second - that's the {name} way."`,
+];
+
+const genericStatDescriptions = [
+  "Off the charts for a {breedOrPet}",
+  "Certified by the household committee",
+  "Personal best this season",
+];
+
+const buildGenericFallback = (ctx: FunFactContext, theme: Theme): FunFactFallback => {
+  const labels = theme.statLabels.length ? theme.statLabels : ["Cuteness", "Loyalty", "Treat Radar"];
+  return {
+    stats: pickMany(ctx.random, labels, 3).map((label, index) => ({
+      icon: <Star className="w-5 h-5 text-yellow-500" />,
+      label,
+      value: String(randomInt(ctx.random, 70, 99)),
+      description: formatTemplate(genericStatDescriptions[index % genericStatDescriptions.length], ctx),
+    })),
+    quote: formatTemplate(pickOne(ctx.random, genericQuotes), ctx),
+    funFact: `Every ${ctx.breed ?? "pet"} has a little ${theme.personaType} inside - ${ctx.petName} just let it out!`,
+  };
+};
+
+// Hand-written fallbacks for the original themes; any other registry theme uses its stat labels
+const themeFallbackBuilders: Record<string, (ctx: FunFactContext) => FunFactFallback> = {
+  baseball: buildBaseballFallback,
+  superhero: buildSuperheroFallback,
+};
+
 interface ResultSectionProps {
   transformationResult: TransformationResult;
   petData: PetData;
@@ -418,11 +453,13 @@ interface ResultSectionProps {
   userEmail: string;
   userName?: string | null;
   onCreateAnother: () => void;
+  onRegenerate: () => void;
 }
 
-export default function ResultSection({ transformationResult, petData, selectedTheme, userEmail, userName, onCreateAnother }: ResultSectionProps) {
+export default function ResultSection({ transformationResult, petData, selectedTheme, userEmail, userName, onCreateAnother, onRegenerate }: ResultSectionProps) {
   const { toast } = useToast();
   const [persona, setPersona] = useState<PersonaContent | null>(null);
+  const [showCardBack, setShowCardBack] = useState(false);
   const [loadingPersona, setLoadingPersona] = useState(false);
   const [nativeShareAvailable, setNativeShareAvailable] = useState(false);
   const [isSuccessModalOpen, setIsSuccessModalOpen] = useState(false);
@@ -432,11 +469,20 @@ export default function ResultSection({ transformationResult, petData, selectedT
   const [isDownloadPending, setIsDownloadPending] = useState(false);
   const [isDownloadRecorded, setIsDownloadRecorded] = useState(false);
   const [isShareRecording, setIsShareRecording] = useState(false);
+  const [hasLiked, setHasLiked] = useState(false);
+  const [rating, setRating] = useState<number | null>(null);
+  const [isRegenerating, setIsRegenerating] = useState(false);
   const [directDownloadUrl, setDirectDownloadUrl] = useState<string | null>(() => transformationResult.transformedImageUrl ?? null);
   const [directDownloadError, setDirectDownloadError] = useState<string | null>(null);
   const [hasAutoTriggeredEmail, setHasAutoTriggeredEmail] = useState(false);
+  const [visibility, setVisibility] = useState<TransformationVisibility>(transformationResult.visibility ?? 'public');
+  const [showInGallery, setShowInGallery] = useState(transformationResult.showInGallery ?? false);
+  const [isVisibilityUpdating, setIsVisibilityUpdating] = useState(false);
+  const [likeCount, setLikeCount] = useState(transformationResult.stats.likes);
 
-  const SHARE_SITE_URL = 'https://transform.thepetpantry.com';
+  // Server-rendered page whose link previews show this pet's card rather than the landing page
+  const sharePageUrl = `${window.location.origin}/p/${transformationResult.id}`;
+  const ownerHeaders = useMemo(() => ownerTokenHeaders(transformationResult.id), [transformationResult.id]);
 
   const platformHandles: Record<string, string> = {
     facebook: '@FeedYourPetscom',
@@ -453,12 +499,12 @@ export default function ResultSection({ transformationResult, petData, selectedT
   ) => {
     const includeLink = options?.includeLink ?? true;
     const platformHandle = platformHandles[platform ?? 'default'] || platformHandles.default;
-    const themeHighlight = selectedTheme === 'baseball' ? 'a legendary baseball all-star ⚾' : 'an epic superhero 🦸‍♂️';
+    const themeHighlight = selectedTheme.copy.shareHighlight;
     const baseText = `🎉 Meet ${petData.name}! Now ${themeHighlight}!`;
     const challengeLine = 'I dare you to make your pet a legend!';
     const calloutParts = [platformHandle];
     if (includeLink) {
-      calloutParts.push(SHARE_SITE_URL);
+      calloutParts.push(sharePageUrl);
     }
     const callout = calloutParts.filter(Boolean).join(' ');
     const caption = [baseText, challengeLine, callout].filter(Boolean).join('\n');
@@ -484,7 +530,8 @@ export default function ResultSection({ transformationResult, petData, selectedT
             petName: petData.name,
             breed: petData.breed,
             traits: petData.traits || [],
-            theme: selectedTheme,
+            theme: selectedTheme.slug,
+            transformationId: transformationResult.id,
           }),
         });
         const data = await res.json();
@@ -498,7 +545,7 @@ export default function ResultSection({ transformationResult, petData, selectedT
       }
     };
     fetchPersona();
-  }, [petData.name, petData.breed, selectedTheme, JSON.stringify(petData.traits)]);
+  }, [petData.name, petData.breed, selectedTheme.slug, transformationResult.id, JSON.stringify(petData.traits)]);
 
   useEffect(() => {
     if (typeof window === 'undefined') {
@@ -534,92 +581,19 @@ export default function ResultSection({ transformationResult, petData, selectedT
     if (typeof window === 'undefined') {
       return caption;
     }
-    return `${caption}\n\nCreate your pet's transformation here: ${window.location.href}`;
+    return `${caption}\n\nCreate your pet's transformation here: ${sharePageUrl}`;
   }, [buildShareCaption]);
 
-  // Local fallback content
-  const generateFunFacts = () => {
-    const isBaseball = selectedTheme === 'baseball';
-    const petName = petData.name;
-    const breed = petData.breed;
-    const traits = petData.traits || [];
-
-    if (isBaseball) {
-      return {
-        stats: [
-          {
-            icon: <Target className="w-5 h-5 text-blue-500" />,
-            label: "Batting Average",
-            value: ".987",
-            description: "Perfect treats-per-swing ratio"
-          },
-          {
-            icon: <Award className="w-5 h-5 text-green-500" />,
-            label: "Home Runs",
-            value: "142",
-            description: "Ball-chasing victories this season"
-          },
-          {
-            icon: <Star className="w-5 h-5 text-yellow-500" />,
-            label: "MVP Rating",
-            value: "★★★★★",
-            description: "Most Valuable Pet award winner"
-          }
-        ],
-        quote: traits.includes('Playful')
-          ? `"${petName} brings the same energy to fetch that legends bring to the World Series!"`
-          : traits.includes('Loyal')
-            ? `"Like the greatest teammates, ${petName} never leaves anyone behind!"`
-            : traits.includes('Smart')
-              ? `"${petName}'s baseball IQ is off the charts - always knows where the ball will land!"`
-              : `"${petName} has that champion spirit that makes every day feel like the playoffs!"`,
-        funFact: breed === 'Golden Retriever'
-          ? `Golden Retrievers like ${petName} were originally bred to retrieve waterfowl - making them natural outfielders!`
-          : breed === 'Border Collie'
-            ? `Border Collies like ${petName} have the intelligence to understand complex plays better than most rookie players!`
-            : breed === 'Labrador'
-              ? `Labradors like ${petName} have the stamina to play all 9 innings and still want extra rounds!`
-              : `${breed}s like ${petName} bring their own unique playing style to the diamond!`
-      };
-    } else {
-      // Superhero theme
-      return {
-        stats: [
-          {
-            icon: <Zap className="w-5 h-5 text-purple-500" />,
-            label: "Power Level",
-            value: "9,001",
-            description: "Over maximum cuteness capacity"
-          },
-          {
-            icon: <Award className="w-5 h-5 text-red-500" />,
-            label: "Rescues",
-            value: "847",
-            description: "Hearts saved from sadness"
-          },
-          {
-            icon: <Star className="w-5 h-5 text-blue-500" />,
-            label: "Hero Rating",
-            value: "LEGENDARY",
-            description: "Top tier defender of the household"
-          }
-        ],
-        quote: traits.includes('Brave')
-          ? `"With great paws comes great responsibility - and ${petName} takes that seriously!"`
-          : traits.includes('Protective')
-            ? `"${petName} guards their family with the dedication of a true superhero!"`
-            : traits.includes('Energetic')
-              ? `"Faster than a speeding squirrel, more powerful than a vacuum cleaner - it's ${petName}!"`
-              : `"Every neighborhood needs a hero like ${petName} - defender of treats and belly rubs!"`,
-        funFact: breed === 'German Shepherd'
-          ? `German Shepherds like ${petName} have been real-life heroes in police and military work for over 100 years!`
-          : breed === 'Husky'
-            ? `Huskies like ${petName} have the endurance to run over 100 miles a day - true superhero stamina!`
-            : breed === 'Rottweiler'
-              ? `Rottweilers like ${petName} were originally bred to drive cattle - they've always been protectors!`
-              : `${breed}s like ${petName} have their own special superpowers that make them amazing companions!`
-      };
-    }
+  // Local fallback content, seeded so it stays stable across re-renders
+  const generateFunFacts = (): FunFactFallback => {
+    const ctx: FunFactContext = {
+      random: createSeededRandom(`${petData.name}-${selectedTheme.slug}-${petData.breed ?? ''}`),
+      petName: petData.name,
+      breed: petData.breed,
+      traits: petData.traits || [],
+    };
+    const builder = themeFallbackBuilders[selectedTheme.slug];
+    return builder ? builder(ctx) : buildGenericFallback(ctx, selectedTheme);
   };
 
   const funFacts = persona
@@ -644,7 +618,7 @@ export default function ResultSection({ transformationResult, petData, selectedT
       setIsShareRecording(true);
       const response = await fetch(`/api/transformations/${transformationResult.id}/share`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...ownerHeaders },
       });
 
       if (!response.ok) {
@@ -655,11 +629,111 @@ export default function ResultSection({ transformationResult, petData, selectedT
     } finally {
       setIsShareRecording(false);
     }
-  }, [isShareRecording, transformationResult?.id]);
+  }, [isShareRecording, transformationResult?.id, ownerHeaders]);
+
+  const sendFeedback = useCallback(async (feedback: TransformationFeedback) => {
+    if (!transformationResult?.id) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/transformations/${transformationResult.id}/feedback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...ownerHeaders },
+        body: JSON.stringify(feedback),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to record feedback: ${response.status}`);
+      }
+    } catch (error) {
+      console.warn('Failed to record feedback', error);
+    }
+  }, [transformationResult?.id, ownerHeaders]);
+
+  const handleLike = async () => {
+    if (hasLiked) {
+      return;
+    }
+    setHasLiked(true);
+    try {
+      const response = await fetch(`/api/transformations/${transformationResult.id}/like`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to record like: ${response.status}`);
+      }
+      const data = await response.json();
+      setLikeCount(data.likes);
+    } catch (error) {
+      console.warn('Failed to record like', error);
+    }
+  };
+
+  const handleRate = (value: number) => {
+    if (rating !== null) {
+      return;
+    }
+    setRating(value);
+    void sendFeedback({ signal: 'rating', rating: value });
+  };
+
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+    await sendFeedback({ signal: 'regenerate' });
+    onRegenerate();
+  };
+
+  const updateSharing = async (
+    updates: { visibility?: TransformationVisibility; showInGallery?: boolean },
+    successToast: { title: string; description: string },
+  ) => {
+    if (!ownerHeaders) {
+      return;
+    }
+    setIsVisibilityUpdating(true);
+    try {
+      const response = await fetch(`/api/transformations/${transformationResult.id}/visibility`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', ...ownerHeaders },
+        body: JSON.stringify(updates),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to update sharing: ${response.status}`);
+      }
+      const data = await response.json();
+      setVisibility(data.visibility);
+      setShowInGallery(data.showInGallery);
+      toast(successToast);
+    } catch (error) {
+      console.warn('Failed to update sharing', error);
+      toast({
+        title: "Couldn't update sharing",
+        description: "Please try again in a moment.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVisibilityUpdating(false);
+    }
+  };
+
+  const handleVisibilityChange = (unlisted: boolean) => updateSharing(
+    { visibility: unlisted ? 'unlisted' : 'public' },
+    unlisted
+      ? { title: "Card unlisted", description: "Only people with your link can see it, and it won't appear in the gallery or search engines." }
+      : { title: "Card is public", description: "Anyone can find and view your card." },
+  );
+
+  const handleGalleryChange = (show: boolean) => updateSharing(
+    { showInGallery: show },
+    show
+      ? { title: "Added to the gallery", description: `${petData.name} can now collect likes from everyone.` }
+      : { title: "Removed from the gallery", description: "Your share link still works." },
+  );
 
   const handleCopyLink = async () => {
     try {
-      await navigator.clipboard.writeText(window.location.href);
+      await navigator.clipboard.writeText(sharePageUrl);
       toast({
         title: "Link copied!",
         description: "Share link has been copied to your clipboard.",
@@ -674,8 +748,23 @@ export default function ResultSection({ transformationResult, petData, selectedT
     }
   };
 
+  // Each share target gets the rendition cut for it; older results without renditions fall back to the original
+  const renditionUrl = useCallback(
+    (name: RenditionName) => transformationResult.renditions?.[name] || transformationResult.transformedImageUrl,
+    [transformationResult.renditions, transformationResult.transformedImageUrl],
+  );
+
+  const downloadImage = (imageUrl: string, label: string) => {
+    const link = document.createElement('a');
+    link.href = imageUrl;
+    link.download = `${petData.name}-${selectedTheme.slug}-${label}.jpg`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
   const resolveShareImage = useCallback(async () => {
-    const imageUrl = transformationResult.transformedImageUrl;
+    const imageUrl = renditionUrl('feed');
     if (!imageUrl) {
       return null;
     }
@@ -692,9 +781,9 @@ export default function ResultSection({ transformationResult, petData, selectedT
 
     const fileType = blob.type || 'image/jpeg';
     const extension = fileType.includes('/') ? fileType.split('/')[1] : 'jpg';
-    const fileName = `${petData.name}-${selectedTheme}-legend.${extension}`;
+    const fileName = `${petData.name}-${selectedTheme.slug}-legend.${extension}`;
     return new File([blob], fileName, { type: fileType });
-  }, [petData.name, selectedTheme, transformationResult.transformedImageUrl]);
+  }, [petData.name, selectedTheme.slug, renditionUrl]);
 
   useEffect(() => {
     if (typeof window !== 'object') {
@@ -708,9 +797,8 @@ export default function ResultSection({ transformationResult, petData, selectedT
   }, []);
 
   const handleSocialShare = async (platform: string) => {
-    const shareUrl = window.location.href;
+    const shareUrl = sharePageUrl;
     const { caption: enhancedShareText } = buildShareCaption(platform);
-    const imageUrl = transformationResult.transformedImageUrl;
 
     let url = '';
     switch (platform) {
@@ -722,20 +810,24 @@ export default function ResultSection({ transformationResult, petData, selectedT
         url = `https://twitter.com/intent/tweet?text=${encodeURIComponent(enhancedShareText)}&url=${encodeURIComponent(shareUrl)}`;
         break;
       case 'instagram': {
-        // For Instagram, copy enhanced text with instructions to save image
-        const instagramText = `${enhancedShareText}\n\n📱 Tip: Save the image from ${shareUrl} and post it with this caption!`;
+        // Instagram has no share URL: download the 9:16 story cut and copy the caption to paste
+        const storyUrl = renditionUrl('story');
+        if (storyUrl) {
+          downloadImage(storyUrl, 'story');
+        }
         try {
-          await navigator.clipboard.writeText(instagramText);
+          await navigator.clipboard.writeText(enhancedShareText);
           toast({
             title: "Instagram content ready!",
-            description: "Caption copied! Visit the link to save your image, then paste this caption in Instagram.",
+            description: "Story image downloaded and caption copied. Post the image to your story and paste the caption.",
           });
         } catch (err) {
           toast({
             title: "Content ready!",
-            description: "Visit the link to save your image for Instagram sharing.",
+            description: "Story image downloaded for Instagram sharing.",
           });
         }
+        await recordShare();
         return;
       }
       case 'download-share': {
@@ -750,13 +842,9 @@ export default function ResultSection({ transformationResult, petData, selectedT
           });
         }
 
-        if (imageUrl) {
-          const link = document.createElement('a');
-          link.href = imageUrl;
-          link.download = `${petData.name}-${selectedTheme}-transformation.jpg`;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
+        const feedUrl = renditionUrl('feed');
+        if (feedUrl) {
+          downloadImage(feedUrl, 'transformation');
         }
 
         toast({
@@ -851,7 +939,7 @@ export default function ResultSection({ transformationResult, petData, selectedT
     const link = document.createElement('a');
     link.href = url;
     const suffix = url.split('.').pop()?.split('?')[0] || 'jpg';
-    link.download = `${petData.name}-${selectedTheme}-high-res.${suffix}`;
+    link.download = `${petData.name}-${selectedTheme.slug}-high-res.${suffix}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -883,10 +971,13 @@ export default function ResultSection({ transformationResult, petData, selectedT
 
       const response = await fetch('/api/email-capture', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...ownerHeaders },
         body: JSON.stringify(payload),
       });
 
+      if (response.status === 429) {
+        throw rateLimitErrorFromResponse(response);
+      }
       if (!response.ok) {
         throw new Error(`Email capture failed: ${response.status}`);
       }
@@ -922,7 +1013,9 @@ export default function ResultSection({ transformationResult, petData, selectedT
         setDirectDownloadError('We could not start the download automatically. Please try again later.');
         toast({
           title: "Download failed",
-          description: "We couldn't send the high-res image. Please try again.",
+          description: error instanceof RateLimitError
+            ? error.message
+            : "We couldn't send the high-res image. Please try again.",
           variant: "destructive",
         });
       } else {
@@ -933,7 +1026,7 @@ export default function ResultSection({ transformationResult, petData, selectedT
         setIsDownloadPending(false);
       }
     }
-  }, [directDownloadUrl, toast, transformationResult, triggerDirectDownload, userEmail, userName]);
+  }, [directDownloadUrl, ownerHeaders, toast, transformationResult, triggerDirectDownload, userEmail, userName]);
 
   useEffect(() => {
     if (!hasAutoTriggeredEmail && userEmail && transformationResult?.id) {
@@ -1009,10 +1102,22 @@ export default function ResultSection({ transformationResult, petData, selectedT
           <div className="text-center">
             <div className="bg-gradient-to-br from-blue-100 to-purple-100 rounded-xl p-6 mb-4">
               <img
-                src={transformationResult.transformedImageUrl}
-                alt={`${petData.name}'s transformation`}
+                src={showCardBack && transformationResult.cardBackImageUrl ? transformationResult.cardBackImageUrl : transformationResult.transformedImageUrl}
+                alt={showCardBack ? `Back of ${petData.name}'s card` : `${petData.name}'s transformation`}
                 className="w-full rounded-lg shadow-lg"
               />
+              {transformationResult.cardBackImageUrl && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-4"
+                  onClick={() => setShowCardBack((value) => !value)}
+                  data-testid="button-flip-card"
+                >
+                  <Repeat className="w-4 h-4 mr-2" />
+                  {showCardBack ? 'Show Front' : 'Flip Card'}
+                </Button>
+              )}
             </div>
 
             {/* AI-Generated Fun Stats */}
@@ -1022,7 +1127,7 @@ export default function ResultSection({ transformationResult, petData, selectedT
                 <CardContent className="p-6">
                   <div className="text-center mb-4">
                     <h4 className="text-lg font-bold text-gray-800 mb-2">
-                      {selectedTheme === 'baseball' ? '⚾ Player Stats' : '🦸 Hero Stats'}
+                      {selectedTheme.copy.statsHeading}
                     </h4>
                     <p className="text-sm text-gray-600">{loadingPersona ? 'Generating personalized stats…' : `AI-generated based on ${petData.name}'s traits`}</p>
                   </div>
@@ -1072,6 +1177,43 @@ export default function ResultSection({ transformationResult, petData, selectedT
                 </CardContent>
               </Card>
 
+              {/* Feedback */}
+              <Card className="bg-white border border-gray-200">
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h5 className="font-semibold text-gray-800 text-sm">How did we do?</h5>
+                      <div className="flex mt-1" role="radiogroup" aria-label="Rate this transformation">
+                        {[1, 2, 3, 4, 5].map((value) => (
+                          <button
+                            key={value}
+                            type="button"
+                            role="radio"
+                            aria-checked={rating === value}
+                            aria-label={`${value} star${value === 1 ? '' : 's'}`}
+                            disabled={rating !== null}
+                            onClick={() => handleRate(value)}
+                            className="p-0.5 disabled:cursor-default"
+                          >
+                            <Star className={`w-5 h-5 ${rating !== null && value <= rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`} />
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleLike}
+                      disabled={hasLiked}
+                      className={hasLiked ? 'text-accent border-accent' : ''}
+                    >
+                      <Heart className={`mr-1 w-4 h-4 ${hasLiked ? 'fill-current' : ''}`} />
+                      {hasLiked ? 'Liked' : 'Like'}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
               {/* Share Stats */}
               <Card className="bg-gray-50 border-0">
                 <CardContent className="p-4">
@@ -1079,7 +1221,7 @@ export default function ResultSection({ transformationResult, petData, selectedT
                     <div className="text-center">
                       <div className="font-bold text-accent flex items-center justify-center">
                         <Heart className="w-4 h-4 mr-1" />
-                        {transformationResult.stats.likes}
+                        {likeCount}
                       </div>
                       <div className="text-gray-600">Likes</div>
                     </div>
@@ -1207,6 +1349,42 @@ export default function ResultSection({ transformationResult, petData, selectedT
                   Copy Link
                 </Button>
               </div>
+              {ownerHeaders && (
+                <div className="mt-4 flex items-center justify-between gap-3 rounded-lg border border-gray-200 p-3">
+                  <div>
+                    <Label htmlFor="share-unlisted" className="font-semibold text-gray-800">Unlisted</Label>
+                    <p className="text-xs text-gray-500">Only people with the link can see {petData.name}'s page.</p>
+                  </div>
+                  <Switch
+                    id="share-unlisted"
+                    checked={visibility === 'unlisted'}
+                    disabled={isVisibilityUpdating}
+                    onCheckedChange={handleVisibilityChange}
+                    data-testid="switch-share-unlisted"
+                  />
+                </div>
+              )}
+              {ownerHeaders && (
+                <div className="mt-2 flex items-center justify-between gap-3 rounded-lg border border-gray-200 p-3">
+                  <div>
+                    <Label htmlFor="share-gallery" className="font-semibold text-gray-800">Show in the public gallery</Label>
+                    <p className="text-xs text-gray-500">
+                      {visibility === 'unlisted'
+                        ? "Unlisted cards stay out of the gallery."
+                        : transformationResult.moderationStatus === 'approved'
+                          ? `Let everyone see and like ${petData.name} on the gallery and leaderboards.`
+                          : `Let everyone see and like ${petData.name} on the gallery and leaderboards once our team has taken a quick look.`}
+                    </p>
+                  </div>
+                  <Switch
+                    id="share-gallery"
+                    checked={showInGallery && visibility === 'public'}
+                    disabled={isVisibilityUpdating || visibility === 'unlisted'}
+                    onCheckedChange={handleGalleryChange}
+                    data-testid="switch-share-gallery"
+                  />
+                </div>
+              )}
             </div>
 
             {/* Viral Mechanics */}
@@ -1236,8 +1414,18 @@ export default function ResultSection({ transformationResult, petData, selectedT
           </div>
         </div>
 
-        {/* Create Another Button */}
-        <div className="text-center mt-8">
+        {/* Regenerate / Create Another Buttons */}
+        <div className="flex flex-col sm:flex-row justify-center gap-3 mt-8">
+          <Button
+            onClick={handleRegenerate}
+            size="lg"
+            variant="outline"
+            disabled={isRegenerating}
+            className="border-purple-500 text-purple-500 hover:bg-purple-50"
+          >
+            {isRegenerating ? <Loader2 className="mr-2 w-5 h-5 animate-spin" /> : <RefreshCw className="mr-2 w-5 h-5" />}
+            Not Quite Right? Try Again
+          </Button>
           <Button
             onClick={onCreateAnother}
             size="lg"
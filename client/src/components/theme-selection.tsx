@@ -1,9 +1,23 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { ArrowRight, Trophy, Zap, Star, Shield } from "lucide-react";
+import { ArrowRight, Trophy, Zap, Star, Shield, Rocket, Crown, Sparkles, Palette, Wand2, Loader2 } from "lucide-react";
+import { useThemes } from "@/hooks/use-themes";
 import type { Theme } from "@/lib/types";
 import { useState, useRef } from "react";
 
+// Icons a theme row may reference by name; unknown names fall back to Sparkles
+const THEME_ICONS: Record<string, React.ComponentType<any>> = {
+  Trophy,
+  Zap,
+  Rocket,
+  Crown,
+  Sparkles,
+  Star,
+  Shield,
+  Palette,
+  Wand2,
+};
+
 interface ThemeSelectionProps {
   selectedTheme: Theme | null;
   onThemeSelected: (theme: Theme) => void;
@@ -11,29 +25,13 @@ interface ThemeSelectionProps {
 
 interface ThemeCardProps {
   theme: Theme;
-  title: string;
-  subtitle: string;
-  description: string;
-  icon: React.ComponentType<any>;
-  gradient: string;
-  iconColor: string;
-  features: string[];
   isSelected: boolean;
   onClick: () => void;
 }
 
-function ThemeCard({ 
-  theme, 
-  title, 
-  subtitle, 
-  description, 
-  icon: Icon, 
-  gradient, 
-  iconColor, 
-  features, 
-  isSelected, 
-  onClick 
-}: ThemeCardProps) {
+function ThemeCard({ theme, isSelected, onClick }: ThemeCardProps) {
+  const { title, subtitle, description, features, palette } = theme;
+  const Icon = THEME_ICONS[theme.icon] || Sparkles;
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
   const cardRef = useRef<HTMLDivElement>(null);
 
@@ -54,7 +52,7 @@ function ThemeCard({
       ref={cardRef}
       className={`
         relative overflow-hidden cursor-pointer transition-all duration-500 ease-out
-        ${gradient} border-2 group hover:shadow-2xl
+        border-2 group hover:shadow-2xl
         ${isSelected 
           ? 'border-brand-accent shadow-lg scale-105 ring-4 ring-brand-accent/20' 
           : 'border-transparent hover:border-brand-accent/50'
@@ -65,6 +63,7 @@ function ThemeCard({
       onMouseMove={handleMouseMove}
       onMouseLeave={handleMouseLeave}
       style={{
+        backgroundImage: `linear-gradient(to bottom right, ${palette.backgroundFrom}, ${palette.backgroundTo})`,
         transform: `perspective(1000px) rotateX(${(mousePos.y - 150) * 0.02}deg) rotateY(${(mousePos.x - 150) * 0.02}deg) ${isSelected ? 'scale(1.05) translateY(-8px)' : ''}`
       }}
     >
@@ -82,7 +81,7 @@ function ThemeCard({
           <div
             key={i}
             className={`absolute w-1 h-1 bg-white/30 rounded-full animate-pulse ${
-              theme === 'baseball' ? 'animate-bounce' : 'animate-ping'
+              i % 2 === 0 ? 'animate-bounce' : 'animate-ping'
             }`}
             style={{
               left: `${20 + i * 15}%`,
@@ -97,11 +96,10 @@ function ThemeCard({
       <CardContent className="relative p-8 z-10">
         {/* Icon with enhanced animation */}
         <div className="text-center mb-6">
-          <div className={`
-            w-20 h-20 ${iconColor} rounded-full flex items-center justify-center mx-auto mb-4
-            transform transition-all duration-500 group-hover:scale-110 group-hover:rotate-12
-            shadow-lg group-hover:shadow-xl
-          `}>
+          <div
+            className="w-20 h-20 rounded-full flex items-center justify-center mx-auto mb-4 transform transition-all duration-500 group-hover:scale-110 group-hover:rotate-12 shadow-lg group-hover:shadow-xl"
+            style={{ backgroundImage: `linear-gradient(to bottom right, ${palette.iconFrom}, ${palette.iconTo})` }}
+          >
             <Icon className="text-white w-10 h-10 transform group-hover:scale-110 transition-transform duration-500" />
           </div>
           
@@ -161,38 +159,7 @@ function ThemeCard({
 }
 
 export default function ThemeSelection({ selectedTheme, onThemeSelected }: ThemeSelectionProps) {
-  const themes = [
-    {
-      theme: 'baseball' as Theme,
-      title: 'Sports Star',
-      subtitle: 'Trading Card',
-      description: 'Transform your pet into a legendary sports trading card with professional stats and championship flair',
-      icon: Trophy,
-      gradient: 'bg-gradient-to-br from-blue-50 via-indigo-50 to-cyan-100',
-      iconColor: 'bg-gradient-to-br from-blue-500 to-indigo-600',
-      features: [
-        'Professional trading card design',
-        'Championship team aesthetics',
-        'Athletic performance stats',
-        'Hall of Fame worthy presentation'
-      ]
-    },
-    {
-      theme: 'superhero' as Theme,
-      title: 'Superhero',
-      subtitle: 'Comic Hero',
-      description: 'Give your pet amazing superpowers and create their ultimate superhero identity with comic book style',
-      icon: Zap,
-      gradient: 'bg-gradient-to-br from-purple-50 via-pink-50 to-red-100',
-      iconColor: 'bg-gradient-to-br from-purple-500 to-pink-600',
-      features: [
-        'Epic superhero transformation',
-        'Comic book art style',
-        'Incredible superpowers',
-        'Heroic origin story ready'
-      ]
-    }
-  ];
+  const { themes, isLoading, isError } = useThemes();
 
   return (
     <section className="bg-white rounded-xl shadow-lg p-8 mb-8 fade-in overflow-hidden">
@@ -212,16 +179,26 @@ export default function ThemeSelection({ selectedTheme, onThemeSelected }: Theme
         </div>
 
         {/* Theme cards with enhanced grid */}
-        <div className="grid md:grid-cols-2 gap-8 lg:gap-12 mb-12">
-          {themes.map((themeData) => (
-            <ThemeCard
-              key={themeData.theme}
-              {...themeData}
-              isSelected={selectedTheme === themeData.theme}
-              onClick={() => onThemeSelected(themeData.theme)}
-            />
-          ))}
-        </div>
+        {isLoading ? (
+          <div className="flex justify-center py-12 mb-12">
+            <Loader2 className="w-8 h-8 text-brand-accent animate-spin" />
+          </div>
+        ) : isError ? (
+          <p className="text-center text-gray-600 py-12 mb-12">
+            We couldn't load the transformation styles. Please refresh the page and try again.
+          </p>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-8 lg:gap-12 mb-12">
+            {themes.map((theme) => (
+              <ThemeCard
+                key={theme.slug}
+                theme={theme}
+                isSelected={selectedTheme?.slug === theme.slug}
+                onClick={() => onThemeSelected(theme)}
+              />
+            ))}
+          </div>
+        )}
 
         {/* Continue button with enhanced styling */}
         <div className="text-center">
@@ -242,7 +219,7 @@ export default function ThemeSelection({ selectedTheme, onThemeSelected }: Theme
           
           {selectedTheme && (
             <p className="text-sm text-gray-500 mt-3 animate-fade-in">
-              Great choice! Let's customize your {selectedTheme === 'baseball' ? 'Sports Star' : 'Superhero'} transformation
+              Great choice! Let's customize your {selectedTheme.title} transformation
             </p>
           )}
         </div>
@@ -1,41 +1,89 @@
 import { useState, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { CloudUpload, ArrowRight, Edit, AlertTriangle } from "lucide-react";
+import { CloudUpload, ArrowRight, AlertTriangle, Loader2, Plus, X } from "lucide-react";
+import { MAX_PETS } from "@/lib/utils";
+import type { PhotoIssue, PhotoIssueCode, UploadedPhoto } from "@/lib/types";
 
 interface UploadSectionProps {
-  onFileUploaded: (file: File) => void;
-  uploadedFile: File | null;
+  onPhotosUploaded: (photos: UploadedPhoto[]) => void;
+  uploadedPhotos: UploadedPhoto[];
 }
 
-export default function UploadSection({ onFileUploaded, uploadedFile }: UploadSectionProps) {
+interface PhotoPreview extends UploadedPhoto {
+  previewUrl: string;
+}
+
+const PHOTO_TIPS: Record<PhotoIssueCode, string> = {
+  unreadable: "Save the photo as a JPEG or PNG and upload it again.",
+  no_animal: "Get close enough that your pet fills most of the frame.",
+  multiple_animals: "Crop the photo so only one pet is in the shot, then add your other pets as separate photos.",
+  too_small: "Use the original photo from your phone rather than a thumbnail or screenshot.",
+  too_dark: "Turn on a light or move near a window, and avoid shooting into the sun.",
+  too_blurry: "Hold the camera steady and tap your pet on screen to focus before shooting.",
+};
+
+export default function UploadSection({ onPhotosUploaded, uploadedPhotos }: UploadSectionProps) {
   const [isDragOver, setIsDragOver] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [issues, setIssues] = useState<PhotoIssue[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+  // One photo per pet; a second or third photo makes a group image
+  const [photos, setPhotos] = useState<PhotoPreview[]>(() =>
+    uploadedPhotos.map((photo) => ({ ...photo, previewUrl: URL.createObjectURL(photo.file) })));
+  const [pendingPreviewUrl, setPendingPreviewUrl] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const canAddPhoto = photos.length < MAX_PETS && !isChecking;
 
   const validateFile = (file: File): string | null => {
-    if (!file.type.match(/^image\/(jpeg|jpg|png)$/)) {
-      return 'Please upload a JPEG or PNG image file.';
+    // HEIC files often arrive without a mimetype, so also accept by extension
+    const isAcceptedType = /^image\/(jpeg|jpg|png|webp|avif|heic|heif)$/.test(file.type)
+      || (!file.type && /\.(jpe?g|png|webp|avif|heic|heif)$/i.test(file.name));
+    if (!isAcceptedType) {
+      return 'Please upload a JPEG, PNG, WebP or HEIC image file.';
     }
 
     if (file.size > 10 * 1024 * 1024) {
       return 'File size must be less than 10MB.';
     }
 
-    // Mock pet detection - in real app, this would be AI-powered
-    const petKeywords = ['dog', 'cat', 'pet', 'puppy', 'kitten'];
-    const isPet = petKeywords.some(keyword => file.name.toLowerCase().includes(keyword)) || Math.random() > 0.1;
+    return null;
+  };
 
-    if (!isPet) {
-      return "We couldn't detect a pet in this image. Please try another photo.";
-    }
+  // Upload right away so the server can check the photo before the user picks a theme
+  const uploadAndValidate = async (file: File, previewUrl: string) => {
+    const formData = new FormData();
+    formData.append('petPhoto', file);
 
-    return null;
+    setIsChecking(true);
+    try {
+      const response = await fetch('/api/upload', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || !data?.success) {
+        const reasons: PhotoIssue[] = Array.isArray(data?.reasons) ? data.reasons : [];
+        setIssues(reasons);
+        setError(reasons.length > 0 ? "We can't use this photo yet:" : data?.message || 'Upload failed. Please try again.');
+        return;
+      }
+
+      setPhotos((prev) => [...prev, { file, fileUrl: data.fileUrl, previewUrl }]);
+      setPendingPreviewUrl(null);
+    } catch (uploadError) {
+      console.error('Photo upload failed', uploadError);
+      setError('Upload failed. Please check your connection and try again.');
+    } finally {
+      setIsChecking(false);
+    }
   };
 
   const handleFileUpload = (file: File) => {
     setError(null);
+    setIssues([]);
 
     const validationError = validateFile(file);
     if (validationError) {
@@ -45,12 +93,17 @@ export default function UploadSection({ onFileUploaded, uploadedFile }: UploadSe
 
     const reader = new FileReader();
     reader.onload = (e) => {
-      setPreviewUrl(e.target?.result as string);
-      onFileUploaded(file);
+      const previewUrl = e.target?.result as string;
+      setPendingPreviewUrl(previewUrl);
+      void uploadAndValidate(file, previewUrl);
     };
     reader.readAsDataURL(file);
   };
 
+  const handleRemovePhoto = (index: number) => {
+    setPhotos((prev) => prev.filter((_, i) => i !== index));
+  };
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(true);
@@ -64,7 +117,7 @@ export default function UploadSection({ onFileUploaded, uploadedFile }: UploadSe
     e.preventDefault();
     setIsDragOver(false);
     const files = e.dataTransfer.files;
-    if (files.length > 0) {
+    if (files.length > 0 && canAddPhoto) {
       handleFileUpload(files[0]);
     }
   };
@@ -73,15 +126,14 @@ export default function UploadSection({ onFileUploaded, uploadedFile }: UploadSe
     if (e.target.files && e.target.files.length > 0) {
       handleFileUpload(e.target.files[0]);
     }
+    // Let the same file be picked again after it is removed
+    e.target.value = '';
   };
 
   const handleZoneClick = () => {
-    fileInputRef.current?.click();
-  };
-
-  const handleChangePhoto = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    fileInputRef.current?.click();
+    if (canAddPhoto) {
+      fileInputRef.current?.click();
+    }
   };
 
   return (
@@ -91,52 +143,85 @@ export default function UploadSection({ onFileUploaded, uploadedFile }: UploadSe
           Step 1: Upload Your Pet's Photo
         </h3>
         <p className="text-gray-600 text-center mb-6">
-          Choose a clear, well-lit photo of your pet for the best results
+          Choose a clear, well-lit photo of your pet for the best results. Have more than one?
+          Add up to {MAX_PETS} photos, one per pet, to put them together.
         </p>
 
+        {photos.length > 0 && (
+          <div className="grid grid-cols-3 gap-3 mb-4">
+            {photos.map((photo, index) => (
+              <div key={photo.fileUrl} className="relative" data-testid={`uploaded-photo-${index}`}>
+                <img
+                  src={photo.previewUrl}
+                  alt={`Pet ${index + 1}`}
+                  className="w-full h-32 object-cover rounded-lg"
+                />
+                <span className="absolute bottom-1 left-1 bg-white/90 text-xs font-medium text-gray-700 px-2 py-0.5 rounded">
+                  Pet {index + 1}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleRemovePhoto(index)}
+                  className="absolute top-1 right-1 bg-white/90 rounded-full p-1 text-gray-600 hover:text-red-600"
+                  aria-label={`Remove pet ${index + 1}`}
+                  data-testid={`button-remove-photo-${index}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Upload Zone */}
-        <div
-          className={`upload-zone rounded-lg p-8 text-center cursor-pointer mb-4 ${isDragOver ? 'dragover' : ''
-            }`}
-          onDragOver={handleDragOver}
-          onDragLeave={handleDragLeave}
-          onDrop={handleDrop}
-          onClick={handleZoneClick}
-        >
-          {!previewUrl ? (
-            <div>
-              <CloudUpload className="text-4xl text-gray-400 mb-4 mx-auto w-16 h-16" />
-              <p className="text-lg font-medium text-gray-700 mb-2">
-                Drag & drop your pet's photo here
-              </p>
-              <p className="text-sm text-gray-500 mb-4">or click to browse your files</p>
-              <p className="text-xs text-gray-400">Supports JPEG, PNG • Max 10MB</p>
-            </div>
-          ) : (
-            <div>
-              <img
-                src={previewUrl}
-                alt="Pet preview"
-                className="max-w-full h-64 object-cover rounded-lg mx-auto mb-4"
-              />
-              <p className="text-sm text-gray-600 mb-2">Looking good! 🐕</p>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={handleChangePhoto}
-                className="text-blue-500 hover:text-blue-600"
-              >
-                <Edit className="mr-1 w-4 h-4" />
-                Change Photo
-              </Button>
-            </div>
-          )}
-        </div>
+        {(photos.length < MAX_PETS || isChecking) && (
+          <div
+            className={`upload-zone rounded-lg p-8 text-center cursor-pointer mb-4 ${isDragOver ? 'dragover' : ''
+              }`}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+            onClick={handleZoneClick}
+          >
+            {isChecking && pendingPreviewUrl ? (
+              <div>
+                <img
+                  src={pendingPreviewUrl}
+                  alt="Pet preview"
+                  className="max-w-full h-64 object-cover rounded-lg mx-auto mb-4"
+                />
+                <p className="text-sm text-gray-600 mb-2 flex items-center justify-center">
+                  <Loader2 className="mr-2 w-4 h-4 animate-spin" />
+                  Checking your photo...
+                </p>
+              </div>
+            ) : photos.length === 0 ? (
+              <div>
+                <CloudUpload className="text-4xl text-gray-400 mb-4 mx-auto w-16 h-16" />
+                <p className="text-lg font-medium text-gray-700 mb-2">
+                  Drag & drop your pet's photo here
+                </p>
+                <p className="text-sm text-gray-500 mb-4">or click to browse your files</p>
+                <p className="text-xs text-gray-400">Supports JPEG, PNG, WebP, HEIC • Max 10MB</p>
+              </div>
+            ) : (
+              <div data-testid="button-add-pet-photo">
+                <Plus className="text-gray-400 mb-2 mx-auto w-10 h-10" />
+                <p className="text-base font-medium text-gray-700 mb-1">
+                  {error ? "Let's try a different photo" : 'Add another pet (optional)'}
+                </p>
+                <p className="text-xs text-gray-400">
+                  One pet per photo • {MAX_PETS - photos.length} more allowed
+                </p>
+              </div>
+            )}
+          </div>
+        )}
 
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/jpeg,image/jpg,image/png"
+          accept="image/jpeg,image/jpg,image/png,image/webp,image/avif,image/heic,image/heif,.heic,.heif"
           className="hidden"
           onChange={handleFileInputChange}
         />
@@ -153,6 +238,16 @@ export default function UploadSection({ onFileUploaded, uploadedFile }: UploadSe
                 <AlertTriangle className="h-5 w-5 text-red-500 mr-2" />
                 <span className="text-red-700 text-sm">{error}</span>
               </div>
+              {issues.length > 0 && (
+                <ul className="mt-3 space-y-2 text-sm text-red-700">
+                  {issues.map((issue) => (
+                    <li key={issue.code}>
+                      <span className="font-medium">{issue.message}</span>{' '}
+                      <span className="text-red-600">{PHOTO_TIPS[issue.code]}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </CardContent>
           </Card>
         )}
@@ -160,9 +255,11 @@ export default function UploadSection({ onFileUploaded, uploadedFile }: UploadSe
         {/* Continue Button */}
         <div className="text-center">
           <Button
-            disabled={!uploadedFile}
+            disabled={photos.length === 0 || isChecking}
             size="lg"
             className="brand-button disabled:opacity-50"
+            onClick={() => onPhotosUploaded(photos.map(({ file, fileUrl }) => ({ file, fileUrl })))}
+            data-testid="button-continue-to-themes"
           >
             Continue to Themes
             <ArrowRight className="ml-2 w-4 h-4" />
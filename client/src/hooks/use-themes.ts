@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Theme } from "@/lib/types";
+
+interface ThemesResponse {
+  success: boolean;
+  themes: Theme[];
+}
+
+export function useThemes() {
+  const query = useQuery<ThemesResponse>({
+    queryKey: ['/api/themes'],
+  });
+
+  return {
+    ...query,
+    themes: query.data?.themes ?? [],
+  };
+}
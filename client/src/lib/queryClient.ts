@@ -1,12 +1,103 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+/**
+ * Thrown for 429 responses; `retryAfterSeconds` comes from the Retry-After header.
+ */
+export class RateLimitError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super(`You're going a little fast! Please try again ${formatRetryAfter(retryAfterSeconds)}.`);
+    this.name = "RateLimitError";
+  }
+}
+
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) {
+    return `in ${Math.max(1, Math.ceil(seconds))} seconds`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return minutes < 60 ? `in ${minutes} minute${minutes === 1 ? "" : "s"}` : `in about ${Math.round(minutes / 60)} hour(s)`;
+}
+
+export function rateLimitErrorFromResponse(res: Response): RateLimitError {
+  const retryAfter = Number(res.headers.get("Retry-After"));
+  return new RateLimitError(Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : 60);
+}
+
 async function throwIfResNotOk(res: Response) {
+  if (res.status === 429) {
+    throw rateLimitErrorFromResponse(res);
+  }
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
+    // 422s (photo issues, safety screening) carry a message written for the user
+    if (res.status === 422) {
+      try {
+        const body = JSON.parse(text);
+        if (typeof body?.message === "string") {
+          throw new Error(body.message);
+        }
+      } catch (error) {
+        if (!(error instanceof SyntaxError)) throw error;
+      }
+    }
     throw new Error(`${res.status}: ${text}`);
   }
 }
 
+// CSRF token for the admin session, echoed on state-changing requests
+let csrfToken: string | null = null;
+
+export function setCsrfToken(token: string | null) {
+  csrfToken = token;
+}
+
+export function csrfHeaders(): Record<string, string> {
+  return csrfToken ? { "X-CSRF-Token": csrfToken } : {};
+}
+
+const OWNER_TOKEN_KEY_PREFIX = "transformation-owner:";
+
+/**
+ * Keep the token the server issued when this browser created a transformation; it authorizes
+ * owner-only changes such as share page visibility.
+ */
+export function rememberOwnerToken(transformationId: string, token: string) {
+  try {
+    window.localStorage.setItem(`${OWNER_TOKEN_KEY_PREFIX}${transformationId}`, token);
+  } catch {
+    // Storage disabled: the creation still works, it just can't be managed later
+  }
+}
+
+export function ownerTokenHeaders(transformationId: string): Record<string, string> | null {
+  try {
+    const token = window.localStorage.getItem(`${OWNER_TOKEN_KEY_PREFIX}${transformationId}`);
+    return token ? { "X-Owner-Token": token } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Every creation this browser holds an owner token for, so signing in can claim them.
+ */
+export function ownerTokenClaims(): Array<{ transformationId: string; ownerToken: string }> {
+  try {
+    const claims: Array<{ transformationId: string; ownerToken: string }> = [];
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i);
+      const token = key?.startsWith(OWNER_TOKEN_KEY_PREFIX) ? window.localStorage.getItem(key) : null;
+      if (key && token) {
+        claims.push({ transformationId: key.slice(OWNER_TOKEN_KEY_PREFIX.length), ownerToken: token });
+      }
+    }
+    // The server accepts up to 50 per request
+    return claims.slice(-50);
+  } catch {
+    return [];
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -17,7 +108,10 @@ export async function apiRequest(
   
   const res = await fetch(url, {
     method,
-    headers: isFormData ? {} : (data ? { "Content-Type": "application/json" } : {}),
+    headers: {
+      ...(isFormData || !data ? {} : { "Content-Type": "application/json" }),
+      ...(method === "GET" ? {} : csrfHeaders()),
+    },
     body: isFormData ? data : (data ? JSON.stringify(data) : undefined),
     credentials: "include",
   });
@@ -1,19 +1,87 @@
-export type Theme = 'baseball' | 'superhero';
+import type { ModerationStatus, TransformationRenditions, TransformationVisibility } from "@shared/schema";
+
+export interface ThemePalette {
+  backgroundFrom: string;
+  backgroundTo: string;
+  iconFrom: string;
+  iconTo: string;
+}
+
+export interface ThemeCopy {
+  noun: string;
+  nounTitle: string;
+  emoji: string;
+  badgeEmoji: string;
+  shareHighlight: string;
+  statsHeading: string;
+  processingSteps: {
+    queued: string;
+    generating: string;
+    watermarking: string;
+    uploading: string;
+  };
+}
+
+// Theme registry entry as served by /api/themes
+export interface Theme {
+  slug: string;
+  title: string;
+  subtitle: string;
+  description: string;
+  features: string[];
+  previewImageUrl: string | null;
+  icon: string;
+  palette: ThemePalette;
+  copy: ThemeCopy;
+  personaType: string;
+  personaTone: string;
+  statLabels: string[];
+  sortOrder: number;
+}
 
 export type Step = 'hero' | 'upload' | 'theme' | 'customize' | 'email-gate' | 'processing' | 'result';
 
 export type PetGender = 'male' | 'female' | 'neutral';
 
-export interface PetData {
+export type PhotoIssueCode = 'unreadable' | 'no_animal' | 'multiple_animals' | 'too_small' | 'too_dark' | 'too_blurry';
+
+// Reason returned by /api/upload when a photo fails validation
+export interface PhotoIssue {
+  code: PhotoIssueCode;
+  message: string;
+}
+
+export interface PetDetails {
   name: string;
   breed?: string;
   traits: string[];
   gender: PetGender;
 }
 
+export interface PetData extends PetDetails {
+  /** Every pet in photo order, for group transformations; `name` then reads "Rex & Luna" */
+  pets?: PetDetails[];
+}
+
+// Photo accepted by /api/upload, one per pet
+export interface UploadedPhoto {
+  file: File;
+  fileUrl: string;
+}
+
 export interface TransformationResult {
   id: string;
   transformedImageUrl: string;
+  /** Reverse side, for card themes */
+  cardBackImageUrl?: string | null;
+  /** Social-format copies keyed by rendition name */
+  renditions?: TransformationRenditions;
+  /** Whether the /p/:id share page is indexable (public) or link-only (unlisted) */
+  visibility?: TransformationVisibility;
+  /** Owner opted in to the public gallery */
+  showInGallery?: boolean;
+  /** Brand review state; only approved transformations are shown publicly */
+  moderationStatus?: ModerationStatus;
   stats: {
     likes: number;
     shares: number;
@@ -21,6 +89,26 @@ export interface TransformationResult {
   };
 }
 
+export type GenerationJobStatus = 'queued' | 'generating' | 'watermarking' | 'uploading' | 'done' | 'failed';
+
+export interface GenerationJobState {
+  id: string;
+  transformationId: string;
+  status: GenerationJobStatus;
+  progress: number;
+  error: string | null;
+  transformation?: {
+    id: string;
+    transformedImageUrl: string | null;
+    cardBackImageUrl?: string | null;
+    renditions?: TransformationRenditions;
+    visibility?: TransformationVisibility;
+    showInGallery?: boolean;
+    moderationStatus?: ModerationStatus;
+    stats: TransformationResult['stats'] | null;
+  };
+}
+
 export interface SiteMetrics {
   id: string;
   transforms: number;
@@ -56,10 +144,60 @@ export interface PersonaContent {
 
 export interface AppState {
   currentStep: Step;
-  uploadedFile: File | null;
+  uploadedPhotos: UploadedPhoto[];
   selectedTheme: Theme | null;
   petData: PetData | null;
   userEmail: string | null;
   userName?: string | null;
+  /** Generation job for the current creation, kept so a reload can follow it again */
+  jobId: string | null;
   transformationResult: TransformationResult | null;
 }
+
+export interface GalleryItem {
+  id: string;
+  petName: string;
+  petBreed: string | null;
+  theme: string;
+  imageUrl: string;
+  thumbnailUrl: string;
+  shareUrl: string;
+  likes: number;
+  createdAt: string | null;
+}
+
+export interface GalleryPage {
+  items: GalleryItem[];
+  nextCursor: string | null;
+  likedIds: string[];
+}
+
+export interface LeaderboardEntry extends GalleryItem {
+  likesThisWeek: number;
+}
+
+export interface GalleryLeaderboards {
+  weekly: LeaderboardEntry[];
+  breeds: Array<{ breed: string; transformations: number; entries: LeaderboardEntry[] }>;
+}
+
+export interface AccountUser {
+  id: string;
+  email: string;
+  name: string | null;
+  emailVerifiedAt: string | null;
+}
+
+/** One entry on the "My Creations" page */
+export interface AccountCreation {
+  id: string;
+  petName: string;
+  theme: string;
+  transformedImageUrl: string | null;
+  cardBackImageUrl: string | null;
+  renditions: TransformationRenditions;
+  visibility: TransformationVisibility;
+  moderationStatus: ModerationStatus;
+  shareUrl: string;
+  createdAt: string | null;
+}
@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Mirrors MAX_PETS_PER_TRANSFORMATION in shared/schema.ts, which the client can't import at runtime
+export const MAX_PETS = 3
+
+/** "Rex", "Rex & Luna", "Rex, Luna & Max", the same way the server names a group */
+export function formatPetNames(names: string[]): string {
+  return names.length <= 1 ? names.join("") : `${names.slice(0, -1).join(", ")} & ${names[names.length - 1]}`
+}
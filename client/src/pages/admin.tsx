@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -6,20 +6,58 @@ import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Settings, Plus, Edit, BarChart3 } from "lucide-react";
+import { Settings, Plus, Edit, BarChart3, History, RotateCcw, GitCompare, Power, LogOut } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, getQueryFn, queryClient, setCsrfToken } from "@/lib/queryClient";
+import PromptPreview from "@/components/prompt-preview";
+import AdminLogin from "@/components/admin-login";
+import AdminTeam, { type AdminAccount } from "@/components/admin-team";
+import AdminSpend from "@/components/admin-spend";
+import AdminGenerations from "@/components/admin-generations";
+import AdminModeration from "@/components/admin-moderation";
+import AdminSafetyLog from "@/components/admin-safety-log";
+import AdminDeletionLog from "@/components/admin-deletion-log";
+import AdminOutbox from "@/components/admin-outbox";
 
 interface PromptTemplate {
   id: number;
   name: string;
   category: string;
   basePrompt: string;
+  currentRevisionId: number | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+interface PromptTemplateRevision {
+  id: number;
+  templateId: number;
+  revision: number;
+  basePrompt: string;
+  author: string;
+  changeNote: string | null;
+  restoredFromRevisionId: number | null;
+  createdAt: string;
+}
+
+interface DiffSegment {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+interface PromptLanguageVariable {
+  name: string;
+  kind: string;
+  description: string;
+}
+
+interface ThemeCategory {
+  slug: string;
+  title: string;
+  promptCategory: string;
+}
+
 interface PromptVariant {
   id: number;
   templateId: number;
@@ -30,7 +68,41 @@ interface PromptVariant {
   createdAt: string;
 }
 
-export default function AdminPromptOptimization() {
+interface AdminSession {
+  user: AdminAccount;
+  csrfToken: string;
+}
+
+const ROLE_LABELS: Record<AdminAccount["role"], string> = {
+  viewer: "Viewer",
+  moderator: "Moderator",
+  prompt_editor: "Prompt Editor",
+  owner: "Owner",
+};
+
+export default function AdminPage() {
+  // 401 means signed out; the login form seeds this query on success
+  const { data: session, isLoading } = useQuery<AdminSession | null>({
+    queryKey: ['/api/admin/session'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  useEffect(() => {
+    setCsrfToken(session?.csrfToken ?? null);
+  }, [session?.csrfToken]);
+
+  if (isLoading) {
+    return <div className="container mx-auto py-8 px-4 text-gray-500">Loading...</div>;
+  }
+  if (!session) {
+    return <AdminLogin />;
+  }
+  return <AdminPromptOptimization user={session.user} />;
+}
+
+function AdminPromptOptimization({ user }: { user: AdminAccount }) {
+  const canEditPrompts = user.role === "prompt_editor" || user.role === "owner";
+  const canModerate = user.role !== "viewer";
   const [selectedTemplate, setSelectedTemplate] = useState<PromptTemplate | null>(null);
   const [newTemplate, setNewTemplate] = useState({
     name: "",
@@ -41,31 +113,66 @@ export default function AdminPromptOptimization() {
     prompt: "",
     templateId: 0,
   });
+  const [editedPrompt, setEditedPrompt] = useState("");
+  const [changeNote, setChangeNote] = useState("");
+  const [diffFromRevisionId, setDiffFromRevisionId] = useState<number | null>(null);
+  const [isNewTemplateValid, setIsNewTemplateValid] = useState(false);
+  const [isEditedPromptValid, setIsEditedPromptValid] = useState(false);
+  const [isNewVariantValid, setIsNewVariantValid] = useState(false);
   const { toast } = useToast();
 
+  useEffect(() => {
+    setEditedPrompt(selectedTemplate?.basePrompt ?? "");
+    setChangeNote("");
+    setDiffFromRevisionId(null);
+  }, [selectedTemplate?.id]);
+
   // Fetch all prompt templates
   const { data: templatesData, isLoading: templatesLoading } = useQuery({
     queryKey: ['/api/admin/prompt-templates'],
   });
 
+  // Variables the template language accepts
+  const { data: languageData } = useQuery({
+    queryKey: ['/api/admin/prompt-language'],
+  });
+
+  // Prompt categories come from the theme registry
+  const { data: themesData } = useQuery({
+    queryKey: ['/api/admin/themes'],
+  });
+
   // Fetch variants for selected template
   const { data: variantsData } = useQuery({
     queryKey: ['/api/admin/prompt-variants', selectedTemplate?.id],
     enabled: !!selectedTemplate?.id,
   });
 
+  // Revision history and diff for selected template
+  const { data: revisionsData } = useQuery({
+    queryKey: ['/api/admin/prompt-templates', selectedTemplate?.id, 'revisions'],
+    enabled: !!selectedTemplate?.id,
+  });
+
+  const { data: diffData } = useQuery({
+    queryKey: ['/api/admin/prompt-templates', selectedTemplate?.id, `diff?from=${diffFromRevisionId}`],
+    enabled: !!selectedTemplate?.id && diffFromRevisionId !== null,
+  });
+
   // Create template mutation
   const createTemplateMutation = useMutation({
     mutationFn: async (data: typeof newTemplate) => {
-      const response = await apiRequest('POST', '/api/admin/prompt-templates', data);
+      // New templates start inactive so the preview can be reviewed before they go live
+      const response = await apiRequest('POST', '/api/admin/prompt-templates', { ...data, isActive: false });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/admin/prompt-templates'] });
       setNewTemplate({ name: "", category: "superhero", basePrompt: "" });
+      setSelectedTemplate(data.template);
       toast({
-        title: "Template Created!",
-        description: "New prompt template has been created successfully.",
+        title: "Draft Template Created!",
+        description: "Review the final prompt, then activate it to start serving it.",
       });
     },
     onError: (error) => {
@@ -100,6 +207,98 @@ export default function AdminPromptOptimization() {
     },
   });
 
+  // Saving a changed prompt appends a revision; rollback appends a copy of an older one
+  const onRevisionCreated = (data: { template: PromptTemplate }) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/prompt-templates'] });
+    setSelectedTemplate(data.template);
+    setChangeNote("");
+    setDiffFromRevisionId(null);
+  };
+
+  const saveRevisionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', `/api/admin/prompt-templates/${selectedTemplate!.id}`, {
+        basePrompt: editedPrompt,
+        changeNote: changeNote || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      onRevisionCreated(data);
+      toast({
+        title: "Revision Saved",
+        description: data.revision ? `Revision ${data.revision.revision} is now live.` : "Prompt unchanged; no revision created.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Save Revision",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (revision: PromptTemplateRevision) => {
+      const response = await apiRequest(
+        'POST',
+        `/api/admin/prompt-templates/${revision.templateId}/revisions/${revision.id}/rollback`,
+        {},
+      );
+      return response.json();
+    },
+    onSuccess: (data, revision) => {
+      onRevisionCreated(data);
+      toast({
+        title: "Rolled Back",
+        description: `Restored revision ${revision.revision} as revision ${data.revision.revision}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Rollback Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (template: PromptTemplate) => {
+      const response = await apiRequest('PUT', `/api/admin/prompt-templates/${template.id}`, {
+        isActive: !template.isActive,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/prompt-templates'] });
+      setSelectedTemplate(data.template);
+      toast({
+        title: data.template.isActive ? "Template Activated" : "Template Deactivated",
+        description: data.template.isActive ? "New transformations can now use this prompt." : "This prompt is no longer served.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Update Template",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/admin/logout');
+    },
+    onSettled: () => {
+      setCsrfToken(null);
+      queryClient.removeQueries({ queryKey: ['/api/admin'] });
+      queryClient.setQueryData(['/api/admin/session'], null);
+    },
+  });
+
   const handleCreateTemplate = () => {
     if (!newTemplate.name || !newTemplate.basePrompt) {
       toast({
@@ -128,80 +327,118 @@ export default function AdminPromptOptimization() {
   };
 
   const templates = (templatesData as any)?.templates || [];
+  const themeCategories: ThemeCategory[] = (themesData as any)?.themes || [];
+  const categoryOptions = themeCategories.length
+    ? Array.from(new Map(themeCategories.map((theme) => [theme.promptCategory, theme.title])).entries())
+    : [["superhero", "Superhero"], ["baseball", "Baseball Card"]];
   const variants = (variantsData as any)?.variants || [];
+  const revisions: PromptTemplateRevision[] = (revisionsData as any)?.revisions || [];
+  const currentRevisionId: number | null = (revisionsData as any)?.currentRevisionId ?? selectedTemplate?.currentRevisionId ?? null;
+  const diffSegments: DiffSegment[] = (diffData as any)?.segments || [];
+  const languageVariables: PromptLanguageVariable[] = (languageData as any)?.variables || [];
+  const variableHint = languageVariables.length > 0 && (
+    <p className="text-xs text-gray-500 mt-1">
+      Variables: {languageVariables.map((variable) => `{${variable.name}}`).join(" ")}. Use {"{#if team}…{/if}"},
+      {" {#each traits as trait}…{/each}"} and filters like {"{petName | upper}"}.
+    </p>
+  );
+  const revisionNumber = (id: number | null) => revisions.find((revision) => revision.id === id)?.revision;
 
   return (
     <div className="container mx-auto py-8 px-4">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
-          <Settings className="h-8 w-8" />
-          Backend Prompt Optimization
-        </h1>
-        <p className="text-gray-600 dark:text-gray-300 mt-2">
-          Manage and optimize prompts for superhero and baseball card transformations
-        </p>
+      <div className="mb-8 flex justify-between items-start gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Settings className="h-8 w-8" />
+            Backend Prompt Optimization
+          </h1>
+          <p className="text-gray-600 dark:text-gray-300 mt-2">
+            Manage and optimize prompts for every transformation theme
+          </p>
+        </div>
+        <div className="text-right text-sm shrink-0">
+          <div className="font-medium" data-testid="text-admin-user">{user.name}</div>
+          <div className="text-gray-500">{ROLE_LABELS[user.role]}</div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mt-1"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            data-testid="button-admin-logout"
+          >
+            <LogOut className="h-4 w-4 mr-1" />
+            Sign Out
+          </Button>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Prompt Templates Management */}
         <div className="space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Plus className="h-5 w-5" />
-                Create New Template
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div>
-                <Label htmlFor="template-name">Template Name</Label>
-                <Input
-                  id="template-name"
-                  data-testid="input-template-name"
-                  value={newTemplate.name}
-                  onChange={(e) => setNewTemplate({ ...newTemplate, name: e.target.value })}
-                  placeholder="e.g., Enhanced Superhero Prompt v2"
-                />
-              </div>
-
-              <div>
-                <Label htmlFor="template-category">Category</Label>
-                <Select
-                  value={newTemplate.category}
-                  onValueChange={(value) => setNewTemplate({ ...newTemplate, category: value })}
+          {canEditPrompts && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Plus className="h-5 w-5" />
+                  Create New Template
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="template-name">Template Name</Label>
+                  <Input
+                    id="template-name"
+                    data-testid="input-template-name"
+                    value={newTemplate.name}
+                    onChange={(e) => setNewTemplate({ ...newTemplate, name: e.target.value })}
+                    placeholder="e.g., Enhanced Superhero Prompt v2"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="template-category">Category</Label>
+                  <Select
+                    value={newTemplate.category}
+                    onValueChange={(value) => setNewTemplate({ ...newTemplate, category: value })}
+                  >
+                    <SelectTrigger data-testid="select-template-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categoryOptions.map(([category, title]) => (
+                        <SelectItem key={category} value={category}>{title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="template-prompt">Base Prompt</Label>
+                  <Textarea
+                    id="template-prompt"
+                    data-testid="textarea-template-prompt"
+                    value={newTemplate.basePrompt}
+                    onChange={(e) => setNewTemplate({ ...newTemplate, basePrompt: e.target.value })}
+                    placeholder="Create a superhero-style image featuring {petName} as {heroName}..."
+                    rows={6}
+                  />
+                  {variableHint}
+                </div>
+
+                <PromptPreview template={newTemplate.basePrompt} onValidityChange={setIsNewTemplateValid} />
+
+                <Button
+                  onClick={handleCreateTemplate}
+                  disabled={createTemplateMutation.isPending || !isNewTemplateValid}
+                  className="w-full"
+                  data-testid="button-create-template"
                 >
-                  <SelectTrigger data-testid="select-template-category">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="superhero">Superhero</SelectItem>
-                    <SelectItem value="baseball">Baseball Card</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <div>
-                <Label htmlFor="template-prompt">Base Prompt (use {"{petName}"}, {"{heroName}"}, etc.)</Label>
-                <Textarea
-                  id="template-prompt"
-                  data-testid="textarea-template-prompt"
-                  value={newTemplate.basePrompt}
-                  onChange={(e) => setNewTemplate({ ...newTemplate, basePrompt: e.target.value })}
-                  placeholder="Create a superhero-style image featuring {petName} as {heroName}..."
-                  rows={6}
-                />
-              </div>
-
-              <Button
-                onClick={handleCreateTemplate}
-                disabled={createTemplateMutation.isPending}
-                className="w-full"
-                data-testid="button-create-template"
-              >
-                {createTemplateMutation.isPending ? "Creating..." : "Create Template"}
-              </Button>
-            </CardContent>
-          </Card>
+                  {createTemplateMutation.isPending ? "Creating..." : "Create Draft Template"}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
 
           {/* Existing Templates */}
           <Card>
@@ -251,43 +488,212 @@ export default function AdminPromptOptimization() {
               )}
             </CardContent>
           </Card>
+
+          <AdminSpend />
+
+          <AdminModeration canModerate={canModerate} />
+
+          <AdminSafetyLog />
+
+          <AdminGenerations canRemix={canEditPrompts} />
+
+          <AdminOutbox canReplay={user.role === "owner"} />
+
+          {user.role === "owner" && <AdminTeam currentUserId={user.id} />}
+
+          {user.role === "owner" && <AdminDeletionLog />}
         </div>
 
         {/* Prompt Variants Management */}
         <div className="space-y-6">
           {selectedTemplate && (
             <>
+              {canEditPrompts && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Edit className="h-5 w-5" />
+                      Edit "{selectedTemplate.name}"
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div>
+                      <Label htmlFor="edit-template-prompt">Base Prompt</Label>
+                      <Textarea
+                        id="edit-template-prompt"
+                        data-testid="textarea-edit-template-prompt"
+                        value={editedPrompt}
+                        onChange={(e) => setEditedPrompt(e.target.value)}
+                        rows={6}
+                      />
+                      {variableHint}
+                    </div>
+
+                    <PromptPreview template={editedPrompt} onValidityChange={setIsEditedPromptValid} />
+
+                    <div>
+                      <Label htmlFor="edit-template-note">Change Note</Label>
+                      <Input
+                        id="edit-template-note"
+                        data-testid="input-change-note"
+                        value={changeNote}
+                        onChange={(e) => setChangeNote(e.target.value)}
+                        placeholder="What changed and why?"
+                      />
+                    </div>
+
+                    <Button
+                      onClick={() => saveRevisionMutation.mutate()}
+                      disabled={saveRevisionMutation.isPending || editedPrompt === selectedTemplate.basePrompt || !isEditedPromptValid}
+                      className="w-full"
+                      data-testid="button-save-revision"
+                    >
+                      {saveRevisionMutation.isPending ? "Saving..." : "Save as New Revision"}
+                    </Button>
+
+                    <Button
+                      variant={selectedTemplate.isActive ? "outline" : "default"}
+                      onClick={() => toggleActiveMutation.mutate(selectedTemplate)}
+                      disabled={toggleActiveMutation.isPending || editedPrompt !== selectedTemplate.basePrompt || (!selectedTemplate.isActive && !isEditedPromptValid)}
+                      className="w-full"
+                      data-testid="button-toggle-active"
+                    >
+                      <Power className="h-4 w-4 mr-2" />
+                      {selectedTemplate.isActive ? "Deactivate Template" : "Activate Template"}
+                    </Button>
+                    {!selectedTemplate.isActive && editedPrompt !== selectedTemplate.basePrompt && (
+                      <p className="text-xs text-gray-500">Save or discard your edits to activate the previewed prompt.</p>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
-                    <Plus className="h-5 w-5" />
-                    Create Variant for "{selectedTemplate.name}"
+                    <History className="h-5 w-5" />
+                    Revision History
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <div>
-                    <Label htmlFor="variant-prompt">Variant Prompt</Label>
-                    <Textarea
-                      id="variant-prompt"
-                      data-testid="textarea-variant-prompt"
-                      value={newVariant.prompt}
-                      onChange={(e) => setNewVariant({ ...newVariant, prompt: e.target.value })}
-                      placeholder="Enter a variation of the base prompt..."
-                      rows={6}
-                    />
-                  </div>
-
-                  <Button
-                    onClick={handleCreateVariant}
-                    disabled={createVariantMutation.isPending}
-                    className="w-full"
-                    data-testid="button-create-variant"
-                  >
-                    {createVariantMutation.isPending ? "Creating..." : "Create Variant"}
-                  </Button>
+                  {revisions.length === 0 ? (
+                    <div className="text-gray-500">No revisions recorded yet.</div>
+                  ) : (
+                    <div className="space-y-3">
+                      {revisions.map((revision) => (
+                        <div key={revision.id} className="p-3 border rounded-lg" data-testid={`revision-${revision.id}`}>
+                          <div className="flex justify-between items-start gap-2">
+                            <div>
+                              <div className="font-medium flex items-center gap-2">
+                                Revision {revision.revision}
+                                {revision.id === currentRevisionId && (
+                                  <span className="px-2 py-0.5 text-xs rounded bg-green-100 text-green-800">Current</span>
+                                )}
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                {revision.author} · {new Date(revision.createdAt).toLocaleString()}
+                              </div>
+                              {revision.changeNote && (
+                                <p className="text-sm text-gray-600 mt-1">{revision.changeNote}</p>
+                              )}
+                            </div>
+                            {revision.id !== currentRevisionId && (
+                              <div className="flex gap-2 shrink-0">
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setDiffFromRevisionId(revision.id)}
+                                  data-testid={`button-diff-${revision.id}`}
+                                >
+                                  <GitCompare className="h-4 w-4" />
+                                </Button>
+                                {canEditPrompts && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => rollbackMutation.mutate(revision)}
+                                    disabled={rollbackMutation.isPending}
+                                    data-testid={`button-rollback-${revision.id}`}
+                                  >
+                                    <RotateCcw className="h-4 w-4 mr-1" />
+                                    Roll Back
+                                  </Button>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {diffFromRevisionId !== null && (
+                    <div className="border rounded-lg p-3 bg-gray-50 dark:bg-gray-900">
+                      <div className="flex justify-between items-center mb-2 text-sm font-medium">
+                        <span>
+                          Revision {revisionNumber(diffFromRevisionId)} → Revision {revisionNumber(currentRevisionId)} (current)
+                        </span>
+                        <Button variant="ghost" size="sm" onClick={() => setDiffFromRevisionId(null)}>
+                          Close
+                        </Button>
+                      </div>
+                      <p className="text-sm whitespace-pre-wrap font-mono" data-testid="revision-diff">
+                        {diffSegments.map((segment, index) => (
+                          <span
+                            key={index}
+                            className={
+                              segment.type === "added"
+                                ? "bg-green-100 text-green-900"
+                                : segment.type === "removed"
+                                  ? "bg-red-100 text-red-900 line-through"
+                                  : undefined
+                            }
+                          >
+                            {segment.text}
+                          </span>
+                        ))}
+                      </p>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
+              {canEditPrompts && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Plus className="h-5 w-5" />
+                      Create Variant for "{selectedTemplate.name}"
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div>
+                      <Label htmlFor="variant-prompt">Variant Prompt</Label>
+                      <Textarea
+                        id="variant-prompt"
+                        data-testid="textarea-variant-prompt"
+                        value={newVariant.prompt}
+                        onChange={(e) => setNewVariant({ ...newVariant, prompt: e.target.value })}
+                        placeholder="Enter a variation of the base prompt..."
+                        rows={6}
+                      />
+                      {variableHint}
+                    </div>
+
+                    <PromptPreview template={newVariant.prompt} onValidityChange={setIsNewVariantValid} />
+
+                    <Button
+                      onClick={handleCreateVariant}
+                      disabled={createVariantMutation.isPending || !isNewVariantValid}
+                      className="w-full"
+                      data-testid="button-create-variant"
+                    >
+                      {createVariantMutation.isPending ? "Creating..." : "Create Variant"}
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
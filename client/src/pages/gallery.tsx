@@ -0,0 +1,245 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Flame, Heart, Loader2, PawPrint, Wand2 } from "lucide-react";
+import { useThemes } from "@/hooks/use-themes";
+import type { GalleryItem, GalleryLeaderboards, GalleryPage } from "@/lib/types";
+
+type Period = "day" | "week" | "month" | "all";
+
+const ALL = "all";
+
+async function fetchGalleryPage(params: { theme: string; breed: string; period: Period; cursor?: string }): Promise<GalleryPage> {
+  const search = new URLSearchParams({ period: params.period });
+  if (params.theme !== ALL) search.set("theme", params.theme);
+  if (params.breed) search.set("breed", params.breed);
+  if (params.cursor) search.set("cursor", params.cursor);
+  const res = await fetch(`/api/gallery?${search.toString()}`);
+  if (!res.ok) {
+    throw new Error(`Failed to load gallery: ${res.status}`);
+  }
+  return res.json();
+}
+
+function LikeButton({ item, liked, onLiked }: { item: GalleryItem; liked: boolean; onLiked: (id: string, likes: number) => void }) {
+  const [pending, setPending] = useState(false);
+
+  const like = async () => {
+    if (liked || pending) return;
+    setPending(true);
+    try {
+      const res = await fetch(`/api/transformations/${item.id}/like`, {
+        method: "POST",
+      });
+      if (res.ok) {
+        const data = await res.json();
+        onLiked(item.id, data.likes);
+      }
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <Button variant="ghost" size="sm" onClick={like} disabled={liked || pending} data-testid={`button-like-${item.id}`}>
+      <Heart className={`w-4 h-4 mr-1 ${liked ? "fill-current text-accent" : ""}`} />
+      {item.likes}
+    </Button>
+  );
+}
+
+function LeaderboardList({ title, entries }: { title?: string; entries: GalleryLeaderboards["weekly"] }) {
+  return (
+    <div>
+      {title && <h4 className="font-semibold text-gray-800 mb-2">{title}</h4>}
+      <ol className="space-y-2">
+        {entries.map((entry, index) => (
+          <li key={entry.id}>
+            <a href={entry.shareUrl} className="flex items-center gap-3 hover:bg-gray-50 rounded-lg p-1">
+              <span className="w-5 text-sm font-bold text-gray-500">{index + 1}</span>
+              <img src={entry.thumbnailUrl} alt="" className="h-10 w-10 rounded object-cover" />
+              <span className="flex-1 truncate text-sm">{entry.petName}</span>
+              <span className="text-xs text-gray-500 flex items-center">
+                <Heart className="w-3 h-3 mr-1" />
+                {entry.likesThisWeek}
+              </span>
+            </a>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+/**
+ * Public gallery of transformations whose owners opted in, with this week's leaderboards.
+ */
+export default function Gallery() {
+  const { themes } = useThemes();
+  const [theme, setTheme] = useState(ALL);
+  const [period, setPeriod] = useState<Period>("all");
+  const [breedInput, setBreedInput] = useState("");
+  const [breed, setBreed] = useState("");
+  // Likes made on this page, layered over the server's answer
+  const [likedIds, setLikedIds] = useState<Set<string>>(new Set());
+  const [likeCounts, setLikeCounts] = useState<Record<string, number>>({});
+
+  // Debounce breed typing so every keystroke doesn't refetch
+  useEffect(() => {
+    const timer = window.setTimeout(() => setBreed(breedInput.trim()), 400);
+    return () => window.clearTimeout(timer);
+  }, [breedInput]);
+
+  const gallery = useInfiniteQuery({
+    queryKey: ["/api/gallery", theme, breed, period],
+    queryFn: ({ pageParam }) => fetchGalleryPage({ theme, breed, period, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  const { data: leaderboards } = useQuery<GalleryLeaderboards>({
+    queryKey: ["/api/gallery/leaderboards"],
+  });
+
+  const pages = gallery.data?.pages ?? [];
+  const serverLikedIds = new Set(pages.flatMap((page) => page.likedIds));
+  const items = pages.flatMap((page) => page.items).map((item) => ({ ...item, likes: likeCounts[item.id] ?? item.likes }));
+  const themeTitles = new Map(themes.map((t) => [t.slug, t.title]));
+
+  const handleLiked = (id: string, likes: number) => {
+    setLikedIds((prev) => new Set(prev).add(id));
+    setLikeCounts((prev) => ({ ...prev, [id]: likes }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+          <Link href="/">
+            <img src="/images/the-pet-pantry-logo.png" alt="The Pet Pantry logo" className="h-16 w-auto cursor-pointer" />
+          </Link>
+          <Link href="/">
+            <Button className="bg-brand-primary text-white hover:bg-brand-primary/90">
+              <Wand2 className="w-4 h-4 mr-2" />
+              Make your own
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold text-gray-800 mb-6">Pet Legends Gallery</h1>
+
+        <div className="grid gap-8 lg:grid-cols-[1fr_320px]">
+          <div>
+            <div className="flex flex-wrap gap-3 mb-6">
+              <Select value={theme} onValueChange={setTheme}>
+                <SelectTrigger className="w-44" data-testid="select-gallery-theme">
+                  <SelectValue placeholder="Theme" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All themes</SelectItem>
+                  {themes.map((t) => (
+                    <SelectItem key={t.slug} value={t.slug}>{t.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={breedInput}
+                onChange={(e) => setBreedInput(e.target.value)}
+                placeholder="Breed, e.g. Beagle"
+                className="w-48"
+                data-testid="input-gallery-breed"
+              />
+              <Select value={period} onValueChange={(value) => setPeriod(value as Period)}>
+                <SelectTrigger className="w-40" data-testid="select-gallery-period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Last 24 hours</SelectItem>
+                  <SelectItem value="week">This week</SelectItem>
+                  <SelectItem value="month">This month</SelectItem>
+                  <SelectItem value="all">All time</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {gallery.isLoading ? (
+              <div className="flex justify-center py-16"><Loader2 className="w-8 h-8 animate-spin text-gray-400" /></div>
+            ) : gallery.isError ? (
+              <div className="text-center text-gray-500 py-16">We couldn't load the gallery. Please try again.</div>
+            ) : items.length === 0 ? (
+              <div className="text-center text-gray-500 py-16">No pets here yet. Be the first!</div>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {items.map((item) => (
+                  <Card key={item.id} className="overflow-hidden" data-testid={`gallery-item-${item.id}`}>
+                    <a href={item.shareUrl}>
+                      <img src={item.thumbnailUrl} alt={item.petName} className="w-full aspect-square object-cover" loading="lazy" />
+                    </a>
+                    <CardContent className="p-3 flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="font-semibold truncate">{item.petName}</div>
+                        <div className="text-xs text-gray-500 truncate">
+                          {[item.petBreed, themeTitles.get(item.theme) ?? item.theme].filter(Boolean).join(" · ")}
+                        </div>
+                      </div>
+                      <LikeButton item={item} liked={likedIds.has(item.id) || serverLikedIds.has(item.id)} onLiked={handleLiked} />
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+
+            {gallery.hasNextPage && (
+              <div className="flex justify-center mt-6">
+                <Button variant="outline" onClick={() => gallery.fetchNextPage()} disabled={gallery.isFetchingNextPage}>
+                  {gallery.isFetchingNextPage ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+                  Load more
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <aside className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Flame className="w-5 h-5 text-orange-500" />
+                  Most liked this week
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {leaderboards?.weekly.length ? (
+                  <LeaderboardList entries={leaderboards.weekly} />
+                ) : (
+                  <p className="text-sm text-gray-500">No likes yet this week.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {leaderboards?.breeds.length ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <PawPrint className="w-5 h-5 text-brand-primary" />
+                    Top of the breed
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-5">
+                  {leaderboards.breeds.map((board) => (
+                    <LeaderboardList key={board.breed} title={board.breed} entries={board.entries} />
+                  ))}
+                </CardContent>
+              </Card>
+            ) : null}
+          </aside>
+        </div>
+      </main>
+    </div>
+  );
+}
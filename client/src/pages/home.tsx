@@ -1,40 +1,47 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link } from "wouter";
 import HeroSection from "@/components/hero-section";
 import UploadSection from "@/components/upload-section";
 import ThemeSelection from "@/components/theme-selection";
 import CustomizationForm from "@/components/customization-form";
 import EmailGate from "@/components/email-gate";
-import ProcessingSection from "@/components/processing-section";
+import ProcessingSection, { forgetPendingGeneration, pendingGeneration, rememberPendingGeneration } from "@/components/processing-section";
 import ResultSection from "@/components/result-section";
 
 import type { AppState, Theme } from "@/lib/types";
 
+const INITIAL_STATE: AppState = {
+  currentStep: 'hero',
+  uploadedPhotos: [],
+  selectedTheme: null,
+  petData: null,
+  userEmail: null,
+  userName: null,
+  jobId: null,
+  transformationResult: null,
+};
+
 export default function Home() {
-  const [appState, setAppState] = useState<AppState>({
-    currentStep: 'hero',
-    uploadedFile: null,
-    selectedTheme: null,
-    petData: null,
-    userEmail: null,
-    userName: null,
-    transformationResult: null,
-  });
+  // A reload during generation comes back to the same job instead of the start
+  const [resumed] = useState(pendingGeneration);
+  const [appState, setAppState] = useState<AppState>(() =>
+    resumed ? { ...INITIAL_STATE, ...resumed, currentStep: 'processing' } : INITIAL_STATE);
+
+  useEffect(() => {
+    const { currentStep, jobId, uploadedPhotos, selectedTheme, petData, userEmail, userName } = appState;
+    if (currentStep === 'processing' && jobId) {
+      rememberPendingGeneration({ jobId, uploadedPhotos, selectedTheme, petData, userEmail, userName });
+    } else {
+      forgetPendingGeneration();
+    }
+  }, [appState]);
 
   const updateState = (updates: Partial<AppState>) => {
     setAppState(prev => ({ ...prev, ...updates }));
   };
 
   const resetApp = () => {
-    setAppState({
-      currentStep: 'hero',
-      uploadedFile: null,
-      selectedTheme: null,
-      petData: null,
-      userEmail: null,
-      userName: null,
-      transformationResult: null,
-    });
+    setAppState(INITIAL_STATE);
   };
 
   return (
@@ -48,6 +55,14 @@ export default function Home() {
                 <img src="/images/the-pet-pantry-logo.png" alt="The Pet Pantry logo" className="h-16 w-auto" />
               </a>
             </div>
+            <div className="flex items-center gap-4">
+              <Link href="/gallery" className="text-sm font-semibold text-brand-primary hover:underline" data-testid="link-gallery">
+                Gallery
+              </Link>
+              <Link href="/my-creations" className="text-sm font-semibold text-brand-primary hover:underline" data-testid="link-my-creations">
+                My Creations
+              </Link>
+            </div>
             {/* <div className="flex items-center space-x-3">
               <span className="bg-green-500 text-white px-2 py-1 rounded-full text-xs font-medium">
                 FREE TOOL
@@ -65,8 +80,8 @@ export default function Home() {
 
         {appState.currentStep === 'upload' && (
           <UploadSection
-            onFileUploaded={(file) => updateState({ uploadedFile: file, currentStep: 'theme' })}
-            uploadedFile={appState.uploadedFile}
+            onPhotosUploaded={(photos) => updateState({ uploadedPhotos: photos, currentStep: 'theme' })}
+            uploadedPhotos={appState.uploadedPhotos}
           />
         )}
 
@@ -80,6 +95,7 @@ export default function Home() {
         {appState.currentStep === 'customize' && (
           <CustomizationForm
             selectedTheme={appState.selectedTheme!}
+            uploadedPhotos={appState.uploadedPhotos}
             onSubmit={(petData) => updateState({ petData, currentStep: 'email-gate' })}
           />
         )}
@@ -95,9 +111,11 @@ export default function Home() {
         {appState.currentStep === 'processing' && (
           <ProcessingSection
             selectedTheme={appState.selectedTheme!}
-            uploadedFile={appState.uploadedFile}
+            uploadedPhotoUrls={appState.uploadedPhotos.map((photo) => photo.fileUrl)}
             petData={appState.petData}
-            onComplete={(result) => updateState({ transformationResult: result, currentStep: 'result' })}
+            resumeJobId={appState.jobId}
+            onJobStarted={(jobId) => updateState({ jobId })}
+            onComplete={(result) => updateState({ transformationResult: result, currentStep: 'result', jobId: null })}
           />
         )}
 
@@ -109,6 +127,7 @@ export default function Home() {
             userEmail={appState.userEmail!}
             userName={appState.userName}
             onCreateAnother={resetApp}
+            onRegenerate={() => updateState({ transformationResult: null, currentStep: 'processing' })}
           />
         )}
       </main>
@@ -0,0 +1,441 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Download, Loader2, LogOut, Mail, Share2, ShieldCheck, Trash2, UserX, Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useThemes } from "@/hooks/use-themes";
+import { apiRequest, getQueryFn, ownerTokenClaims, queryClient } from "@/lib/queryClient";
+import type { AccountCreation, AccountUser } from "@/lib/types";
+import type { ModerationStatus } from "@shared/schema";
+
+const STATUS_LABELS: Record<ModerationStatus, string> = {
+  pending: "In review",
+  approved: "Ready to share",
+  rejected: "Not shareable",
+  taken_down: "Not shareable",
+};
+
+function SignInForm() {
+  const [email, setEmail] = useState("");
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const requestLink = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/account/magic-link", { email, claims: ownerTokenClaims() });
+      return response.json();
+    },
+    onSuccess: () => setSentTo(email.trim()),
+    onError: (error) => {
+      toast({
+        title: "Couldn't send link",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="w-5 h-5" />
+          Sign in to see your creations
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {sentTo ? (
+          <p className="text-gray-600" data-testid="text-link-sent">
+            We sent a sign-in link to <span className="font-semibold">{sentTo}</span>. Open it and your cards will be
+            waiting here.
+          </p>
+        ) : (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              requestLink.mutate();
+            }}
+          >
+            <p className="text-sm text-gray-600">
+              No password needed. Enter your email and we'll send you a link. Pets you've already transformed on this
+              device are added to your account automatically.
+            </p>
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              required
+              data-testid="input-login-email"
+            />
+            <Button type="submit" className="w-full" disabled={requestLink.isPending} data-testid="button-send-login-link">
+              {requestLink.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+              Email me a sign-in link
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CreationCard({ creation, themeTitle }: { creation: AccountCreation; themeTitle: string }) {
+  const { toast } = useToast();
+  const imageUrl = creation.transformedImageUrl;
+  const shareable = creation.moderationStatus === "approved";
+
+  const download = (url: string, label: string) => {
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${creation.petName}-${creation.theme}-${label}.jpg`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const remove = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/transformations/${creation.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/account/transformations"] });
+      toast({ title: "Deleted", description: `${creation.petName}'s creation has been deleted.` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't delete",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const share = async () => {
+    const url = new URL(creation.shareUrl, window.location.origin).toString();
+    if (typeof navigator.share === "function") {
+      try {
+        await navigator.share({ title: `${creation.petName} the Pet Legend`, url });
+        return;
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "AbortError") return;
+      }
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied!", description: "Share link has been copied to your clipboard." });
+    } catch {
+      toast({ title: "Failed to copy", description: url, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="overflow-hidden" data-testid={`creation-${creation.id}`}>
+      {imageUrl ? (
+        <img src={imageUrl} alt={creation.petName} className="w-full aspect-square object-cover" loading="lazy" />
+      ) : (
+        <div className="w-full aspect-square bg-gray-100 flex items-center justify-center text-sm text-gray-500">
+          No image yet
+        </div>
+      )}
+      <CardContent className="p-3 space-y-2">
+        <div className="min-w-0">
+          <div className="font-semibold truncate">{creation.petName}</div>
+          <div className="text-xs text-gray-500 truncate">
+            {themeTitle}
+            {creation.createdAt ? ` · ${new Date(creation.createdAt).toLocaleDateString()}` : ""}
+            {imageUrl ? ` · ${STATUS_LABELS[creation.moderationStatus]}` : ""}
+          </div>
+        </div>
+        {imageUrl && (
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant="outline" onClick={() => download(imageUrl, "legend")} data-testid={`button-download-${creation.id}`}>
+              <Download className="w-3 h-3 mr-1" />
+              Download
+            </Button>
+            {creation.cardBackImageUrl && (
+              <Button size="sm" variant="outline" onClick={() => download(creation.cardBackImageUrl!, "card-back")}>
+                <Download className="w-3 h-3 mr-1" />
+                Card back
+              </Button>
+            )}
+            {shareable && (
+              <Button size="sm" variant="outline" onClick={share} data-testid={`button-share-${creation.id}`}>
+                <Share2 className="w-3 h-3 mr-1" />
+                Share
+              </Button>
+            )}
+          </div>
+        )}
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button size="sm" variant="ghost" className="text-red-600" disabled={remove.isPending} data-testid={`button-delete-${creation.id}`}>
+              <Trash2 className="w-3 h-3 mr-1" />
+              Delete
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {creation.petName}'s creation?</AlertDialogTitle>
+              <AlertDialogDescription>
+                It will disappear from your account, the gallery and its share link. This can't be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => remove.mutate()}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+}
+
+function YourData({ user, onDeleted }: { user: AccountUser; onDeleted: () => void }) {
+  const { toast } = useToast();
+  const [confirmEmail, setConfirmEmail] = useState("");
+  const emailMatches = confirmEmail.trim().toLowerCase() === user.email.toLowerCase();
+
+  const exportData = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("GET", "/api/account/export");
+      return response.blob();
+    },
+    onSuccess: (archive) => {
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `pet-pantry-data-${new Date().toISOString().slice(0, 10)}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't export your data",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteAccount = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/account/delete", { confirmEmail });
+    },
+    onSuccess: () => {
+      toast({ title: "Account deleted", description: "Your account, creations and photos have been erased." });
+      onDeleted();
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't delete your account",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-12">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ShieldCheck className="w-5 h-5" />
+          Your data
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Download a copy of your account details, every pet photo you uploaded and every image we made, or erase all
+          of it for good.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => exportData.mutate()} disabled={exportData.isPending} data-testid="button-export-data">
+            {exportData.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Download my data
+          </Button>
+          <AlertDialog onOpenChange={(open) => !open && setConfirmEmail("")}>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" className="text-red-600" disabled={deleteAccount.isPending} data-testid="button-delete-account">
+                {deleteAccount.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <UserX className="w-4 h-4 mr-2" />}
+                Delete my account
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This erases your account, all your creations and share links, the photos you uploaded, and your
+                  email from our mailing list. This can't be undone. Type {user.email} to confirm.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <Input
+                type="email"
+                value={confirmEmail}
+                onChange={(e) => setConfirmEmail(e.target.value)}
+                placeholder={user.email}
+                data-testid="input-confirm-delete-email"
+              />
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  className="bg-red-600 hover:bg-red-700"
+                  disabled={!emailMatches}
+                  onClick={() => deleteAccount.mutate()}
+                  data-testid="button-confirm-delete-account"
+                >
+                  Delete everything
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Passwordless account page: opens magic links, then lists the signed-in customer's transformations.
+ */
+export default function MyCreations() {
+  const { themes } = useThemes();
+  const { toast } = useToast();
+  const verifyStarted = useRef(false);
+  const claimStarted = useRef(false);
+  const [verifying, setVerifying] = useState(() => new URLSearchParams(window.location.search).has("token"));
+
+  const { data: account, isLoading: accountLoading } = useQuery<{ user: AccountUser } | null>({
+    queryKey: ["/api/account/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled: !verifying,
+  });
+  const user = account?.user ?? null;
+
+  const { data: creations, isLoading: creationsLoading } = useQuery<{ transformations: AccountCreation[] }>({
+    queryKey: ["/api/account/transformations"],
+    enabled: Boolean(user),
+  });
+
+  // Open the magic link, then drop the token from the address bar so it isn't bookmarked or shared
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (!token || verifyStarted.current) return;
+    verifyStarted.current = true;
+    window.history.replaceState(null, "", "/my-creations");
+
+    apiRequest("POST", "/api/account/verify", { token, claims: ownerTokenClaims() })
+      .then(() => {
+        claimStarted.current = true;
+        queryClient.removeQueries({ queryKey: ["/api/account/me"] });
+        queryClient.removeQueries({ queryKey: ["/api/account/transformations"] });
+      })
+      .catch(() => {
+        toast({
+          title: "Link expired",
+          description: "This sign-in link has expired or was already used. Request a new one below.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setVerifying(false));
+  }, [toast]);
+
+  // Already signed in: pick up anything made on this device since the last visit
+  useEffect(() => {
+    if (!user || claimStarted.current) return;
+    claimStarted.current = true;
+    const claims = ownerTokenClaims();
+    if (claims.length === 0) return;
+    apiRequest("POST", "/api/account/claim", { claims })
+      .then((response) => response.json())
+      .then((result: { claimed: string[] }) => {
+        if (result.claimed.length > 0) {
+          queryClient.invalidateQueries({ queryKey: ["/api/account/transformations"] });
+        }
+      })
+      .catch((error) => console.warn("Failed to claim creations:", error));
+  }, [user]);
+
+  const signedOut = () => {
+    claimStarted.current = false;
+    queryClient.setQueryData(["/api/account/me"], null);
+    queryClient.removeQueries({ queryKey: ["/api/account/transformations"] });
+  };
+
+  const signOut = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/account/logout");
+    },
+    onSuccess: signedOut,
+  });
+
+  const themeTitles = new Map(themes.map((t) => [t.slug, t.title]));
+  const items = creations?.transformations ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+          <Link href="/">
+            <img src="/images/the-pet-pantry-logo.png" alt="The Pet Pantry logo" className="h-16 w-auto cursor-pointer" />
+          </Link>
+          <div className="flex items-center gap-2">
+            {user && (
+              <Button variant="ghost" onClick={() => signOut.mutate()} disabled={signOut.isPending} data-testid="button-sign-out">
+                <LogOut className="w-4 h-4 mr-2" />
+                Sign out
+              </Button>
+            )}
+            <Link href="/">
+              <Button className="bg-brand-primary text-white hover:bg-brand-primary/90">
+                <Wand2 className="w-4 h-4 mr-2" />
+                Make your own
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold text-gray-800 mb-2">My Creations</h1>
+        {user && <p className="text-sm text-gray-500 mb-6">Signed in as {user.email}</p>}
+
+        {verifying || accountLoading ? (
+          <div className="flex justify-center py-16"><Loader2 className="w-8 h-8 animate-spin text-gray-400" /></div>
+        ) : !user ? (
+          <div className="py-8"><SignInForm /></div>
+        ) : creationsLoading ? (
+          <div className="flex justify-center py-16"><Loader2 className="w-8 h-8 animate-spin text-gray-400" /></div>
+        ) : items.length === 0 ? (
+          <div className="text-center text-gray-500 py-16">
+            No creations yet. <Link href="/" className="text-brand-primary font-semibold hover:underline">Transform your pet</Link> and it will show up here.
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+            {items.map((creation) => (
+              <CreationCard key={creation.id} creation={creation} themeTitle={themeTitles.get(creation.theme) ?? creation.theme} />
+            ))}
+          </div>
+        )}
+
+        {user && !creationsLoading && <YourData user={user} onDeleted={signedOut} />}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+CREATE TABLE "generation_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"transformation_id" varchar NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"error" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"started_at" timestamp,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_transformation_id_pet_transformations_id_fk" FOREIGN KEY ("transformation_id") REFERENCES "public"."pet_transformations"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
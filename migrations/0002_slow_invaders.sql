@@ -0,0 +1,61 @@
+CREATE TABLE "themes" (
+	"slug" varchar(50) PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"subtitle" text NOT NULL,
+	"description" text NOT NULL,
+	"features" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"preview_image_url" text,
+	"icon" varchar(50) DEFAULT 'Sparkles' NOT NULL,
+	"palette" jsonb NOT NULL,
+	"copy" jsonb NOT NULL,
+	"generator" varchar(50) DEFAULT 'prompt' NOT NULL,
+	"prompt_category" varchar(50) NOT NULL,
+	"fallback_prompt" text,
+	"persona_type" text NOT NULL,
+	"persona_tone" varchar(30) DEFAULT 'whimsical' NOT NULL,
+	"stat_generator" varchar(50) DEFAULT 'random' NOT NULL,
+	"stat_labels" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+INSERT INTO "themes" ("slug", "title", "subtitle", "description", "features", "preview_image_url", "icon", "palette", "copy", "generator", "prompt_category", "persona_type", "persona_tone", "stat_generator", "stat_labels", "sort_order") VALUES
+(
+	'baseball',
+	'Sports Star',
+	'Trading Card',
+	'Transform your pet into a legendary sports trading card with professional stats and championship flair',
+	'["Professional trading card design", "Championship team aesthetics", "Athletic performance stats", "Hall of Fame worthy presentation"]'::jsonb,
+	'/images/baseball-star.jpg',
+	'Trophy',
+	'{"backgroundFrom": "#eff6ff", "backgroundTo": "#cffafe", "iconFrom": "#3b82f6", "iconTo": "#4f46e5"}'::jsonb,
+	'{"noun": "sports card", "nounTitle": "Sports Card", "emoji": "⚾", "badgeEmoji": "🏆", "shareHighlight": "a legendary baseball all-star ⚾", "statsHeading": "⚾ Player Stats", "processingSteps": {"queued": "Getting your pet in the lineup...", "generating": "Designing the perfect baseball card...", "watermarking": "Adding finishing touches...", "uploading": "Almost ready!"}}'::jsonb,
+	'baseball-card',
+	'baseball',
+	'baseball player',
+	'sportscaster',
+	'baseball',
+	'["Fetch Success Rate", "Treats Per Day", "Naps Completed", "Belly Rubs Given", "Squirrels Chased"]'::jsonb,
+	10
+),
+(
+	'superhero',
+	'Superhero',
+	'Comic Hero',
+	'Give your pet amazing superpowers and create their ultimate superhero identity with comic book style',
+	'["Epic superhero transformation", "Comic book art style", "Incredible superpowers", "Heroic origin story ready"]'::jsonb,
+	'/images/superhero.jpg',
+	'Zap',
+	'{"backgroundFrom": "#faf5ff", "backgroundTo": "#fee2e2", "iconFrom": "#a855f7", "iconTo": "#db2777"}'::jsonb,
+	'{"noun": "superhero identity", "nounTitle": "Superhero Identity", "emoji": "🦸", "badgeEmoji": "⚡", "shareHighlight": "an epic superhero 🦸‍♂️", "statsHeading": "🦸 Hero Stats", "processingSteps": {"queued": "Getting your pet suited up...", "generating": "Generating super powers and cape effects...", "watermarking": "Adding finishing touches...", "uploading": "Almost ready!"}}'::jsonb,
+	'superhero',
+	'superhero',
+	'superhero',
+	'whimsical',
+	'random',
+	'["Power Level", "Rescues", "Speed", "Loyalty", "Treat Detection"]'::jsonb,
+	20
+)
+ON CONFLICT ("slug") DO NOTHING;
@@ -0,0 +1,21 @@
+CREATE TABLE "transformation_outcomes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"transformation_id" varchar NOT NULL,
+	"prompt_variant_id" integer,
+	"signal" text NOT NULL,
+	"value" real,
+	"reward" real NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "prompt_template_id" integer;--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "prompt_variant_id" integer;--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "prompt_reward" real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "prompt_variants" ADD COLUMN "reward_total" real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "transformation_outcomes" ADD CONSTRAINT "transformation_outcomes_transformation_id_pet_transformations_id_fk" FOREIGN KEY ("transformation_id") REFERENCES "public"."pet_transformations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transformation_outcomes" ADD CONSTRAINT "transformation_outcomes_prompt_variant_id_prompt_variants_id_fk" FOREIGN KEY ("prompt_variant_id") REFERENCES "public"."prompt_variants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "transformation_outcomes_transformation_signal_idx" ON "transformation_outcomes" USING btree ("transformation_id","signal");--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD CONSTRAINT "pet_transformations_prompt_template_id_prompt_templates_id_fk" FOREIGN KEY ("prompt_template_id") REFERENCES "public"."prompt_templates"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD CONSTRAINT "pet_transformations_prompt_variant_id_prompt_variants_id_fk" FOREIGN KEY ("prompt_variant_id") REFERENCES "public"."prompt_variants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Past uses were never credited with outcomes; restart every variant from an uninformed prior
+UPDATE "prompt_variants" SET "times_used" = 0, "success_rate" = 0;
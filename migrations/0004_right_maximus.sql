@@ -0,0 +1,25 @@
+CREATE TABLE "prompt_template_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"template_id" integer NOT NULL,
+	"revision" integer NOT NULL,
+	"base_prompt" text NOT NULL,
+	"author" varchar(100) NOT NULL,
+	"change_note" text,
+	"restored_from_revision_id" integer,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "prompt_revision_id" integer;--> statement-breakpoint
+ALTER TABLE "prompt_templates" ADD COLUMN "current_revision_id" integer;--> statement-breakpoint
+ALTER TABLE "prompt_template_revisions" ADD CONSTRAINT "prompt_template_revisions_template_id_prompt_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."prompt_templates"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "prompt_template_revisions" ADD CONSTRAINT "prompt_template_revisions_restored_from_revision_id_prompt_template_revisions_id_fk" FOREIGN KEY ("restored_from_revision_id") REFERENCES "public"."prompt_template_revisions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "prompt_template_revisions_template_revision_idx" ON "prompt_template_revisions" USING btree ("template_id","revision");--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD CONSTRAINT "pet_transformations_prompt_revision_id_prompt_template_revisions_id_fk" FOREIGN KEY ("prompt_revision_id") REFERENCES "public"."prompt_template_revisions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "prompt_templates" ADD CONSTRAINT "prompt_templates_current_revision_id_prompt_template_revisions_id_fk" FOREIGN KEY ("current_revision_id") REFERENCES "public"."prompt_template_revisions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Existing prompts become revision 1 of their template
+INSERT INTO "prompt_template_revisions" ("template_id", "revision", "base_prompt", "author", "change_note", "created_at")
+SELECT "id", 1, "base_prompt", 'system', 'Imported from existing template', coalesce("updated_at", "created_at", now())
+FROM "prompt_templates";--> statement-breakpoint
+UPDATE "prompt_templates" SET "current_revision_id" = r."id"
+FROM "prompt_template_revisions" r
+WHERE r."template_id" = "prompt_templates"."id" AND r."revision" = 1;
@@ -0,0 +1,22 @@
+CREATE TABLE "admin_users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email" text NOT NULL,
+	"name" text NOT NULL,
+	"password_hash" text NOT NULL,
+	"role" text DEFAULT 'viewer' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"last_login_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "admin_users_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+CREATE TABLE "session" (
+	"sid" varchar PRIMARY KEY NOT NULL,
+	"sess" jsonb NOT NULL,
+	"expire" timestamp (6) NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "prompt_template_revisions" ADD COLUMN "author_id" varchar;--> statement-breakpoint
+CREATE INDEX "IDX_session_expire" ON "session" USING btree ("expire");--> statement-breakpoint
+ALTER TABLE "prompt_template_revisions" ADD CONSTRAINT "prompt_template_revisions_author_id_admin_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."admin_users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
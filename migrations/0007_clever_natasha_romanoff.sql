@@ -0,0 +1,20 @@
+CREATE TABLE "ai_usage_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"operation" text NOT NULL,
+	"transformation_id" varchar,
+	"theme" text,
+	"success" boolean NOT NULL,
+	"latency_ms" integer NOT NULL,
+	"input_tokens" integer,
+	"output_tokens" integer,
+	"compute_seconds" real,
+	"cost_usd" real DEFAULT 0 NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ai_usage_events" ADD CONSTRAINT "ai_usage_events_transformation_id_pet_transformations_id_fk" FOREIGN KEY ("transformation_id") REFERENCES "public"."pet_transformations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ai_usage_events_created_at_idx" ON "ai_usage_events" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "ai_usage_events_transformation_idx" ON "ai_usage_events" USING btree ("transformation_id");
\ No newline at end of file
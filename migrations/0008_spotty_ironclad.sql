@@ -0,0 +1,32 @@
+CREATE TABLE "generation_attempts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"transformation_id" varchar NOT NULL,
+	"job_id" varchar,
+	"status" text NOT NULL,
+	"rendered_prompt" text,
+	"prompt_template_id" integer,
+	"prompt_revision_id" integer,
+	"prompt_variant_id" integer,
+	"input_image_url" text,
+	"provider" text,
+	"model" text,
+	"model_version" text,
+	"prediction_id" text,
+	"seed" text,
+	"timings" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"watermarked" boolean,
+	"watermark_position" text,
+	"watermark_score" real,
+	"object_key" text,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "remix_of_attempt_id" integer;--> statement-breakpoint
+ALTER TABLE "generation_attempts" ADD CONSTRAINT "generation_attempts_transformation_id_pet_transformations_id_fk" FOREIGN KEY ("transformation_id") REFERENCES "public"."pet_transformations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_attempts" ADD CONSTRAINT "generation_attempts_job_id_generation_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."generation_jobs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_attempts" ADD CONSTRAINT "generation_attempts_prompt_template_id_prompt_templates_id_fk" FOREIGN KEY ("prompt_template_id") REFERENCES "public"."prompt_templates"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_attempts" ADD CONSTRAINT "generation_attempts_prompt_revision_id_prompt_template_revisions_id_fk" FOREIGN KEY ("prompt_revision_id") REFERENCES "public"."prompt_template_revisions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_attempts" ADD CONSTRAINT "generation_attempts_prompt_variant_id_prompt_variants_id_fk" FOREIGN KEY ("prompt_variant_id") REFERENCES "public"."prompt_variants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "generation_attempts_transformation_idx" ON "generation_attempts" USING btree ("transformation_id");--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD CONSTRAINT "pet_transformations_remix_of_attempt_id_generation_attempts_id_fk" FOREIGN KEY ("remix_of_attempt_id") REFERENCES "public"."generation_attempts"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
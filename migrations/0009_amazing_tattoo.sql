@@ -0,0 +1,2 @@
+ALTER TABLE "generation_attempts" ADD COLUMN "card" jsonb;--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "card_back_image_url" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "pet_transformations" ADD COLUMN "renditions" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
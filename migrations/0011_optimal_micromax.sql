@@ -0,0 +1,2 @@
+ALTER TABLE "pet_transformations" ADD COLUMN "visibility" text DEFAULT 'public' NOT NULL;--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "owner_token_hash" text;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "transformation_likes" (
+	"transformation_id" varchar NOT NULL,
+	"visitor_key" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "transformation_likes_transformation_id_visitor_key_pk" PRIMARY KEY("transformation_id","visitor_key")
+);
+--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "show_in_gallery" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "transformation_likes" ADD CONSTRAINT "transformation_likes_transformation_id_pet_transformations_id_fk" FOREIGN KEY ("transformation_id") REFERENCES "public"."pet_transformations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "transformation_likes_created_idx" ON "transformation_likes" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "pet_transformations" ADD COLUMN "moderation_status" text DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "moderation_flags" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "moderation_reason" text;--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "moderation_note" text;--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "moderated_by" varchar;--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "moderated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD CONSTRAINT "pet_transformations_moderated_by_admin_users_id_fk" FOREIGN KEY ("moderated_by") REFERENCES "public"."admin_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "pet_transformations_moderation_idx" ON "pet_transformations" USING btree ("moderation_status","created_at");
\ No newline at end of file
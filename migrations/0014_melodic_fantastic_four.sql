@@ -0,0 +1,15 @@
+CREATE TABLE "safety_decisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"subject" text NOT NULL,
+	"provider" text NOT NULL,
+	"allowed" boolean NOT NULL,
+	"categories" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"matches" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"excerpt" text,
+	"transformation_id" varchar,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "safety_decisions" ADD CONSTRAINT "safety_decisions_transformation_id_pet_transformations_id_fk" FOREIGN KEY ("transformation_id") REFERENCES "public"."pet_transformations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "safety_decisions_created_idx" ON "safety_decisions" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "generation_attempts" ADD COLUMN "input_image_urls" jsonb;--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "pets" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "visitor_sessions" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"merged_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "session_id" varchar;--> statement-breakpoint
+ALTER TABLE "visitor_sessions" ADD CONSTRAINT "visitor_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "pet_transformations_session_idx" ON "pet_transformations" USING btree ("session_id");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "deletion_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"subject_hash" text NOT NULL,
+	"user_id" varchar NOT NULL,
+	"requested_by" text NOT NULL,
+	"summary" jsonb NOT NULL,
+	"prev_hash" text NOT NULL,
+	"hash" text NOT NULL,
+	"created_at" timestamp NOT NULL,
+	CONSTRAINT "deletion_log_hash_unique" UNIQUE("hash")
+);
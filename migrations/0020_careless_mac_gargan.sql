@@ -0,0 +1,7 @@
+CREATE TABLE "uploads" (
+	"key" text PRIMARY KEY NOT NULL,
+	"session_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pet_transformations" ADD COLUMN "upload_keys" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
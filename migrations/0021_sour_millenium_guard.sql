@@ -0,0 +1 @@
+ALTER TABLE "generation_attempts" ADD COLUMN "input_upload_keys" jsonb;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "email_captures" (
+	"user_id" varchar NOT NULL,
+	"transformation_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "email_captures_user_id_transformation_id_pk" PRIMARY KEY("user_id","transformation_id")
+);
+--> statement-breakpoint
+ALTER TABLE "email_captures" ADD CONSTRAINT "email_captures_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "email_captures" ADD CONSTRAINT "email_captures_transformation_id_pet_transformations_id_fk" FOREIGN KEY ("transformation_id") REFERENCES "public"."pet_transformations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "email_captures_transformation_idx" ON "email_captures" USING btree ("transformation_id");
\ No newline at end of file
@@ -0,0 +1,232 @@
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
+import session from "express-session";
+import { createHash, randomBytes } from "node:crypto";
+import type { OwnershipClaim, PetTransformation, User } from "@shared/schema";
+import { createSessionStore, resolveSessionSecret } from "./admin-auth";
+import { hasDripConfig, sendLoginLinkInDrip } from "./drip";
+import { isTransformationOwner } from "./ownership";
+import { storage } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    /** Customer signed in through a magic link */
+    accountUserId?: string;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by requireAccount for the signed-in customer */
+      accountUser?: User;
+    }
+  }
+}
+
+const SESSION_COOKIE = "account.sid";
+const SESSION_TTL_MS = Number(process.env.ACCOUNT_SESSION_TTL_DAYS ?? 30) * 24 * 60 * 60 * 1000;
+const LOGIN_LINK_TTL_MS = Number(process.env.LOGIN_LINK_TTL_MINUTES ?? 30) * 60 * 1000;
+
+export interface LoginLink {
+  email: string;
+  loginUrl: string;
+  expiresAt: Date;
+}
+
+export interface LoginLinkSender {
+  readonly name: string;
+  send(link: LoginLink): Promise<void>;
+}
+
+/**
+ * Fires a Drip event; the Drip workflow for it sends the actual email.
+ */
+export class DripLoginLinkSender implements LoginLinkSender {
+  readonly name = "drip";
+
+  async send(link: LoginLink): Promise<void> {
+    await sendLoginLinkInDrip(link);
+  }
+}
+
+/**
+ * Development sender: prints the link to the server log instead of emailing it.
+ */
+export class ConsoleLoginLinkSender implements LoginLinkSender {
+  readonly name = "console";
+
+  async send(link: LoginLink): Promise<void> {
+    console.log(`Sign-in link for ${link.email} (expires ${link.expiresAt.toISOString()}): ${link.loginUrl}`);
+  }
+}
+
+let cachedSender: LoginLinkSender | null = null;
+
+export function createLoginLinkSender(name: string): LoginLinkSender {
+  switch (name) {
+    case "drip":
+      return new DripLoginLinkSender();
+    case "console":
+      if (process.env.NODE_ENV === "production") {
+        throw new Error('LOGIN_LINK_SENDER "console" would write sign-in links to the logs; use "drip" in production.');
+      }
+      return new ConsoleLoginLinkSender();
+    default:
+      throw new Error(`Unknown LOGIN_LINK_SENDER "${name}". Use "drip" or "console".`);
+  }
+}
+
+/**
+ * Sender selected by LOGIN_LINK_SENDER (defaults to Drip when it is configured).
+ */
+export function getLoginLinkSender(): LoginLinkSender {
+  if (!cachedSender) {
+    const name = process.env.LOGIN_LINK_SENDER || (hasDripConfig() ? "drip" : "console");
+    cachedSender = createLoginLinkSender(name.trim().toLowerCase());
+    console.log(`Using login link sender: ${cachedSender.name}`);
+  }
+  return cachedSender;
+}
+
+function hashLoginToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * HTTP-only cookie sessions for customers. Besides /api/account they cover /api/transformations,
+ * so new creations are linked to whoever is signed in.
+ */
+export function configureAccountSessions(app: Express) {
+  app.use(["/api/account", "/api/transformations", "/api/gallery"], session({
+    name: SESSION_COOKIE,
+    secret: resolveSessionSecret(),
+    store: createSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    rolling: true,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL_MS,
+    },
+  }));
+}
+
+export function clearAccountSessionCookie(res: Response) {
+  res.clearCookie(SESSION_COOKIE, { httpOnly: true, sameSite: "lax", secure: process.env.NODE_ENV === "production" });
+}
+
+/**
+ * Ids of the claimed transformations whose owner token checks out; the rest are dropped.
+ */
+export async function verifiedClaimIds(claims: OwnershipClaim[]): Promise<string[]> {
+  const ids: string[] = [];
+  for (const claim of claims) {
+    const transformation = await storage.getPetTransformation(claim.transformationId);
+    if (transformation && isTransformationOwner(transformation, claim.ownerToken)) {
+      ids.push(transformation.id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Email a single-use sign-in link, creating the customer on first use. Creations the requesting
+ * browser owns are remembered on the link and claimed when it is opened, even on another device.
+ */
+export async function sendLoginLink(options: { email: string; claims: OwnershipClaim[]; origin: string }): Promise<void> {
+  const user = await storage.getUserByEmail(options.email) ?? await storage.createUser({ email: options.email });
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + LOGIN_LINK_TTL_MS);
+  await storage.createLoginToken({
+    userId: user.id,
+    tokenHash: hashLoginToken(token),
+    claimTransformationIds: await verifiedClaimIds(options.claims),
+    expiresAt,
+  });
+
+  await getLoginLinkSender().send({
+    email: user.email,
+    loginUrl: `${options.origin}/my-creations?token=${encodeURIComponent(token)}`,
+    expiresAt,
+  });
+}
+
+/**
+ * Use a sign-in link: start a fresh session (new id, to prevent fixation), mark the email verified
+ * and claim this browser's anonymous creations. Returns undefined for an unknown, used or expired link.
+ */
+export async function completeLogin(req: Request, token: string, claims: OwnershipClaim[]): Promise<User | undefined> {
+  const loginToken = await storage.consumeLoginToken(hashLoginToken(token), new Date());
+  let user = loginToken ? await storage.getUser(loginToken.userId) : undefined;
+  if (!loginToken || !user) {
+    return undefined;
+  }
+
+  if (!user.emailVerifiedAt) {
+    user = await storage.updateUser(user.id, { emailVerifiedAt: new Date(), updatedAt: new Date() }) ?? user;
+  }
+  const claimIds = Array.from(new Set([...loginToken.claimTransformationIds, ...await verifiedClaimIds(claims)]));
+  await storage.assignTransformationsToUser(user.id, claimIds);
+  // Plus anything else this browser's visitor session made, owner token or not
+  if (req.visitorSessionId) {
+    await storage.mergeVisitorSession(req.visitorSessionId, user.id);
+  }
+
+  await new Promise<void>((resolve, reject) => req.session.regenerate((error) => (error ? reject(error) : resolve())));
+  req.session.accountUserId = user.id;
+  await new Promise<void>((resolve, reject) => req.session.save((error) => (error ? reject(error) : resolve())));
+  return user;
+}
+
+export async function endAccountSession(req: Request): Promise<void> {
+  await new Promise<void>((resolve, reject) => req.session.destroy((error) => (error ? reject(error) : resolve())));
+}
+
+/**
+ * Require a customer signed in through a magic link.
+ */
+export function requireAccount(): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.session?.accountUserId;
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user) {
+        if (userId) {
+          await endAccountSession(req);
+        }
+        return res.status(401).json({ message: "Sign in to see your creations" });
+      }
+      req.accountUser = user;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Account fields safe to send to the browser.
+ */
+export function toPublicAccountUser(user: User) {
+  return { id: user.id, email: user.email, name: user.name, emailVerifiedAt: user.emailVerifiedAt };
+}
+
+/**
+ * One "My Creations" entry. Unfinished or failed generations have no image yet.
+ */
+export function toAccountCreation(transformation: PetTransformation) {
+  return {
+    id: transformation.id,
+    petName: transformation.petName,
+    theme: transformation.theme,
+    transformedImageUrl: transformation.transformedImageUrl,
+    cardBackImageUrl: transformation.cardBackImageUrl,
+    renditions: transformation.renditions,
+    visibility: transformation.visibility,
+    moderationStatus: transformation.moderationStatus,
+    shareUrl: `/p/${transformation.id}`,
+    createdAt: transformation.createdAt,
+  };
+}
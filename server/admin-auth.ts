@@ -0,0 +1,237 @@
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "node:crypto";
+import type { AdminRole, AdminUser } from "@shared/schema";
+import { getPool } from "./db";
+import { DatabaseStorage, storage } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    adminUserId?: string;
+    csrfToken?: string;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by requireAdmin for the signed-in staff member */
+      adminUser?: AdminUser;
+    }
+  }
+}
+
+export const CSRF_HEADER = "x-csrf-token";
+const SESSION_COOKIE = "admin.sid";
+const SESSION_TTL_MS = Number(process.env.ADMIN_SESSION_TTL_HOURS ?? 8) * 60 * 60 * 1000;
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+const ROLE_RANK: Record<AdminRole, number> = {
+  viewer: 1,
+  moderator: 2,
+  prompt_editor: 3,
+  owner: 4,
+};
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1, keyLength: 64 };
+
+function scryptAsync(password: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, options, (error, derived) => (error ? reject(error) : resolve(derived)));
+  });
+}
+
+/**
+ * Hash a password as `scrypt$N$r$p$salt$hash` (base64), so parameters can be raised later
+ * without invalidating existing hashes.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const { N, r, p, keyLength } = SCRYPT_PARAMS;
+  const salt = randomBytes(16);
+  const derived = await scryptAsync(password, salt, keyLength, { N, r, p });
+  return ["scrypt", N, r, p, salt.toString("base64"), derived.toString("base64")].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "base64");
+  const derived = await scryptAsync(password, Buffer.from(salt, "base64"), expected.length, {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+  return timingSafeEqual(derived, expected);
+}
+
+// Compared against when the email is unknown, so response time doesn't reveal which accounts exist
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Check credentials; returns the account only when it exists, is active and the password matches.
+ */
+export async function authenticateAdmin(email: string, password: string): Promise<AdminUser | null> {
+  const user = await storage.getAdminUserByEmail(email);
+  if (!user) {
+    dummyHash ??= hashPassword(randomBytes(16).toString("hex"));
+    await verifyPassword(password, await dummyHash);
+    return null;
+  }
+  const valid = await verifyPassword(password, user.passwordHash);
+  return valid && user.isActive ? user : null;
+}
+
+export function hasAdminRole(user: Pick<AdminUser, "role">, role: AdminRole): boolean {
+  return (ROLE_RANK[user.role] ?? 0) >= ROLE_RANK[role];
+}
+
+/**
+ * Account fields safe to send to the browser.
+ */
+export function toPublicAdminUser(user: AdminUser) {
+  const { passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+let sessionSecret: string | null = null;
+
+/**
+ * Cookie signing secret shared by the admin and customer sessions.
+ */
+export function resolveSessionSecret(): string {
+  if (sessionSecret) {
+    return sessionSecret;
+  }
+  if (process.env.SESSION_SECRET) {
+    return (sessionSecret = process.env.SESSION_SECRET);
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production.");
+  }
+  console.warn("SESSION_SECRET is not set; using a random secret. Sessions end when the server restarts.");
+  return (sessionSecret = randomBytes(32).toString("hex"));
+}
+
+export function createSessionStore(): session.Store {
+  if (storage instanceof DatabaseStorage) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ pool: getPool(), tableName: "session" });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 60 * 60 * 1000 });
+}
+
+/**
+ * HTTP-only cookie sessions for /api/admin. Sessions live in Postgres alongside the app data,
+ * or in memory when the app runs on MemStorage.
+ */
+export function configureAdminSessions(app: Express) {
+  app.use("/api/admin", session({
+    name: SESSION_COOKIE,
+    secret: resolveSessionSecret(),
+    store: createSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    rolling: true,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL_MS,
+    },
+  }));
+}
+
+export function clearAdminSessionCookie(res: Response) {
+  res.clearCookie(SESSION_COOKIE, { httpOnly: true, sameSite: "lax", secure: process.env.NODE_ENV === "production" });
+}
+
+/**
+ * Start a fresh session for the user (new id, to prevent fixation) and return its CSRF token.
+ */
+export async function startAdminSession(req: Request, user: AdminUser): Promise<string> {
+  await new Promise<void>((resolve, reject) => req.session.regenerate((error) => (error ? reject(error) : resolve())));
+  req.session.adminUserId = user.id;
+  req.session.csrfToken = randomBytes(32).toString("base64url");
+  await new Promise<void>((resolve, reject) => req.session.save((error) => (error ? reject(error) : resolve())));
+  return req.session.csrfToken;
+}
+
+export async function endAdminSession(req: Request): Promise<void> {
+  await new Promise<void>((resolve, reject) => req.session.destroy((error) => (error ? reject(error) : resolve())));
+}
+
+function hasValidCsrfToken(req: Request): boolean {
+  const expected = req.session.csrfToken;
+  const provided = req.get(CSRF_HEADER);
+  if (!expected || !provided) {
+    return false;
+  }
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Require a signed-in, active admin with at least `role`. State-changing requests must also
+ * echo the session's CSRF token in the X-CSRF-Token header.
+ */
+export function requireAdmin(role: AdminRole = "viewer"): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.session?.adminUserId;
+      const user = userId ? await storage.getAdminUser(userId) : undefined;
+      if (!user || !user.isActive) {
+        if (userId) {
+          await endAdminSession(req);
+        }
+        return res.status(401).json({ success: false, error: "Sign in required" });
+      }
+
+      if (!SAFE_METHODS.has(req.method) && !hasValidCsrfToken(req)) {
+        return res.status(403).json({ success: false, error: "Invalid or missing CSRF token" });
+      }
+
+      if (!hasAdminRole(user, role)) {
+        return res.status(403).json({ success: false, error: `Requires the ${role} role` });
+      }
+
+      req.adminUser = user;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Create the first owner from ADMIN_BOOTSTRAP_EMAIL / ADMIN_BOOTSTRAP_PASSWORD when no admin
+ * accounts exist yet. There is no built-in default login.
+ */
+export async function ensureBootstrapOwner(): Promise<void> {
+  if ((await storage.getAdminUsers()).length > 0) {
+    return;
+  }
+
+  const email = process.env.ADMIN_BOOTSTRAP_EMAIL?.trim().toLowerCase();
+  const password = process.env.ADMIN_BOOTSTRAP_PASSWORD;
+  if (!email || !password) {
+    console.warn("No admin accounts exist. Set ADMIN_BOOTSTRAP_EMAIL and ADMIN_BOOTSTRAP_PASSWORD to create the first owner.");
+    return;
+  }
+  if (password.length < 12) {
+    throw new Error("ADMIN_BOOTSTRAP_PASSWORD must be at least 12 characters.");
+  }
+
+  await storage.createAdminUser({
+    email,
+    name: process.env.ADMIN_BOOTSTRAP_NAME?.trim() || email,
+    passwordHash: await hashPassword(password),
+    role: "owner",
+  });
+  console.log(`Created bootstrap admin owner ${email}`);
+}
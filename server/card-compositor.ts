@@ -0,0 +1,283 @@
+import path from "node:path";
+import sharp from "sharp";
+import type { BaseballCardDetails } from "@shared/schema";
+
+export type CardLayout = "front" | "back";
+
+// 2.5 x 3.5 in trading card at 300 dpi
+const CARD_WIDTH = 750;
+const CARD_HEIGHT = 1050;
+const BORDER = 28;
+
+const COLORS = {
+  frame: "#55005c",
+  accent: "#d5a800",
+  paper: "#fbf6e9",
+  rowTint: "#f1e7f2",
+  ink: "#2a1f2d",
+  muted: "#6d5a70",
+};
+
+type FontRole = "display" | "mono";
+
+// Bundled under server/assets/fonts so lettering never depends on the host's installed fonts
+const FONTS: Record<FontRole, { family: string; file: string; boldFile?: string }> = {
+  display: { family: "Lato", file: "Lato-Regular.ttf", boldFile: "Lato-Bold.ttf" },
+  mono: { family: "Source Code Pro", file: "SourceCodePro-Bold.ttf" },
+};
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface TextBlock {
+  text: string;
+  font: FontRole;
+  color: string;
+  bold?: boolean;
+  align?: "left" | "centre" | "right";
+  box: Box;
+}
+
+function fontDir(): string {
+  return process.env.CARD_FONT_DIR || path.resolve(process.cwd(), "server/assets/fonts");
+}
+
+function escapeMarkup(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Render one line of text as large as fits its box, positioned within the box by `align`.
+ * Long text shrinks rather than wrapping or overflowing.
+ */
+async function renderText(block: TextBlock): Promise<sharp.OverlayOptions> {
+  const font = FONTS[block.font];
+  const align = block.align ?? "centre";
+  const markup = `<span foreground="${block.color}"${block.bold ? ' weight="bold"' : ""}>${escapeMarkup(block.text)}</span>`;
+  const { data, info } = await sharp({
+    text: {
+      text: markup,
+      font: font.family,
+      // The real bold face, so Pango doesn't smear the regular one to fake it
+      fontfile: path.join(fontDir(), block.bold ? font.boldFile ?? font.file : font.file),
+      width: block.box.width,
+      height: block.box.height,
+      align,
+      wrap: "none",
+      rgba: true,
+    },
+  }).png().toBuffer({ resolveWithObject: true });
+
+  const slack = Math.max(0, block.box.width - info.width);
+  const offset = align === "left" ? 0 : align === "right" ? slack : Math.round(slack / 2);
+  return {
+    input: data,
+    left: block.box.left + offset,
+    top: block.box.top + Math.max(0, Math.round((block.box.height - info.height) / 2)),
+  };
+}
+
+function svgOverlay(body: string): sharp.OverlayOptions {
+  return {
+    input: Buffer.from(`<svg width="${CARD_WIDTH}" height="${CARD_HEIGHT}" xmlns="http://www.w3.org/2000/svg">${body}</svg>`),
+    left: 0,
+    top: 0,
+  };
+}
+
+async function portraitOverlay(portrait: Buffer, box: Box): Promise<sharp.OverlayOptions> {
+  const input = await sharp(portrait, { failOn: "none" })
+    .rotate()
+    .resize(box.width, box.height, { fit: "cover", position: sharp.strategy.attention })
+    .png()
+    .toBuffer();
+  return { input, left: box.left, top: box.top };
+}
+
+function subtitle(details: BaseballCardDetails): string {
+  return [details.position, details.team].filter(Boolean).join(" · ");
+}
+
+function isTeamCard(details: BaseballCardDetails): boolean {
+  return (details.roster?.length ?? 0) > 1;
+}
+
+async function frontLayers(portrait: Buffer, details: BaseballCardDetails): Promise<sharp.OverlayOptions[]> {
+  const window: Box = { left: BORDER + 12, top: BORDER + 12, width: CARD_WIDTH - 2 * (BORDER + 12), height: 760 };
+  const plate: Box = { left: window.left, top: window.top + window.height + 18, width: window.width, height: 192 };
+
+  return [
+    await portraitOverlay(portrait, window),
+    svgOverlay(`
+      <rect x="${window.left}" y="${window.top}" width="${window.width}" height="${window.height}" fill="none" stroke="${COLORS.accent}" stroke-width="6"/>
+      <rect x="${plate.left}" y="${plate.top}" width="${plate.width}" height="${plate.height}" rx="18" fill="${COLORS.paper}" stroke="${COLORS.accent}" stroke-width="6"/>
+      <rect x="${plate.left + 40}" y="${plate.top + 112}" width="${plate.width - 80}" height="3" fill="${COLORS.accent}"/>
+    `),
+    await renderText({
+      text: details.petName,
+      font: "display",
+      color: COLORS.ink,
+      bold: true,
+      box: { left: plate.left + 30, top: plate.top + 16, width: plate.width - 60, height: 88 },
+    }),
+    await renderText({
+      text: subtitle(details).toUpperCase(),
+      font: "display",
+      color: COLORS.muted,
+      box: { left: plate.left + 30, top: plate.top + 128, width: plate.width - 60, height: 40 },
+    }),
+  ];
+}
+
+/**
+ * Group front: a wider team photo over a plate with the team name and one roster line per pet.
+ */
+async function teamFrontLayers(portrait: Buffer, details: BaseballCardDetails): Promise<sharp.OverlayOptions[]> {
+  const roster = details.roster ?? [];
+  const window: Box = { left: BORDER + 12, top: BORDER + 12, width: CARD_WIDTH - 2 * (BORDER + 12), height: 560 };
+  const plateTop = window.top + window.height + 18;
+  const plate: Box = { left: window.left, top: plateTop, width: window.width, height: CARD_HEIGHT - BORDER - 12 - plateTop };
+  // Roster lines share the space under the team name, centred, and never outgrow the title
+  const rosterSpace = plate.height - 124 - 12;
+  const rowHeight = Math.min(80, Math.floor(rosterSpace / Math.max(roster.length, 1)));
+  const rosterTop = plate.top + 124 + Math.round((rosterSpace - rowHeight * roster.length) / 2);
+
+  const layers: sharp.OverlayOptions[] = [
+    await portraitOverlay(portrait, window),
+    svgOverlay(`
+      <rect x="${window.left}" y="${window.top}" width="${window.width}" height="${window.height}" fill="none" stroke="${COLORS.accent}" stroke-width="6"/>
+      <rect x="${plate.left}" y="${plate.top}" width="${plate.width}" height="${plate.height}" rx="18" fill="${COLORS.paper}" stroke="${COLORS.accent}" stroke-width="6"/>
+      <rect x="${plate.left + 40}" y="${plate.top + 112}" width="${plate.width - 80}" height="3" fill="${COLORS.accent}"/>
+    `),
+    await renderText({
+      text: details.team || details.petName,
+      font: "display",
+      color: COLORS.ink,
+      bold: true,
+      box: { left: plate.left + 30, top: plate.top + 16, width: plate.width - 60, height: 88 },
+    }),
+  ];
+  for (const [index, name] of Array.from(roster.entries())) {
+    layers.push(await renderText({
+      text: name,
+      font: "display",
+      color: COLORS.frame,
+      bold: true,
+      box: { left: plate.left + 30, top: rosterTop + index * rowHeight + Math.round(rowHeight * 0.15), width: plate.width - 60, height: Math.round(rowHeight * 0.7) },
+    }));
+  }
+  return layers;
+}
+
+async function backLayers(portrait: Buffer, details: BaseballCardDetails): Promise<sharp.OverlayOptions[]> {
+  const header: Box = { left: BORDER, top: BORDER, width: CARD_WIDTH - 2 * BORDER, height: 190 };
+  const thumb: Box = { left: header.left + 28, top: header.top + 20, width: 150, height: 150 };
+  const textLeft = thumb.left + thumb.width + 28;
+  const textWidth = header.left + header.width - 28 - textLeft;
+
+  const team = isTeamCard(details);
+  const stats = Object.entries(details.stats);
+  const tableTop = 320;
+  const tableBottom = 930;
+  const rowHeight = stats.length > 0 ? Math.min(84, Math.floor((tableBottom - tableTop) / stats.length)) : 0;
+  const rowsSvg = stats
+    .map((_, index) => index % 2 === 0
+      ? `<rect x="${BORDER + 24}" y="${tableTop + index * rowHeight}" width="${CARD_WIDTH - 2 * (BORDER + 24)}" height="${rowHeight}" fill="${COLORS.rowTint}"/>`
+      : "")
+    .join("");
+
+  const layers: sharp.OverlayOptions[] = [
+    svgOverlay(`
+      <rect x="${BORDER / 2}" y="${BORDER / 2}" width="${CARD_WIDTH - BORDER}" height="${CARD_HEIGHT - BORDER}" fill="none" stroke="${COLORS.frame}" stroke-width="${BORDER}"/>
+      <rect x="${header.left}" y="${header.top}" width="${header.width}" height="${header.height}" fill="${COLORS.frame}"/>
+      <rect x="${header.left}" y="${header.top + header.height}" width="${header.width}" height="6" fill="${COLORS.accent}"/>
+      <rect x="${thumb.left - 4}" y="${thumb.top - 4}" width="${thumb.width + 8}" height="${thumb.height + 8}" fill="${COLORS.accent}"/>
+      ${rowsSvg}
+      <rect x="${BORDER + 24}" y="${tableBottom + 20}" width="${CARD_WIDTH - 2 * (BORDER + 24)}" height="2" fill="${COLORS.muted}"/>
+    `),
+    await portraitOverlay(portrait, thumb),
+    await renderText({
+      text: team ? details.team || details.petName : details.petName,
+      font: "display",
+      color: COLORS.accent,
+      bold: true,
+      align: "left",
+      box: { left: textLeft, top: header.top + 28, width: textWidth, height: 72 },
+    }),
+    await renderText({
+      text: team ? (details.roster ?? []).join(" · ") : subtitle(details),
+      font: "display",
+      color: "#ffffff",
+      align: "left",
+      box: { left: textLeft, top: header.top + 112, width: textWidth, height: 40 },
+    }),
+    await renderText({
+      text: team ? "TEAM STATS" : "CAREER STATS",
+      font: "display",
+      color: COLORS.frame,
+      bold: true,
+      box: { left: BORDER + 24, top: 250, width: CARD_WIDTH - 2 * (BORDER + 24), height: 48 },
+    }),
+    await renderText({
+      text: "Certified by The Pet Pantry",
+      font: "display",
+      color: COLORS.muted,
+      box: { left: BORDER + 24, top: tableBottom + 40, width: CARD_WIDTH - 2 * (BORDER + 24), height: 34 },
+    }),
+  ];
+
+  for (const [index, [label, value]] of Array.from(stats.entries())) {
+    const top = tableTop + index * rowHeight + Math.round(rowHeight * 0.2);
+    const height = Math.round(rowHeight * 0.6);
+    layers.push(
+      await renderText({
+        text: label,
+        font: "display",
+        color: COLORS.ink,
+        align: "left",
+        box: { left: BORDER + 48, top, width: 460, height },
+      }),
+      await renderText({
+        text: String(value),
+        font: "mono",
+        color: COLORS.frame,
+        bold: true,
+        align: "right",
+        box: { left: CARD_WIDTH - BORDER - 48 - 160, top, width: 160, height },
+      }),
+    );
+  }
+  return layers;
+}
+
+/**
+ * Lay a baseball card frame over an AI portrait. All lettering (name, team, position, stats)
+ * is typeset here from the given details, so its spelling never depends on the image model.
+ * Details with a roster of two or more get the team photo layout.
+ * Returns a lossless PNG; the pipeline watermarks and converts it afterwards.
+ */
+export async function composeBaseballCard(portrait: Buffer, details: BaseballCardDetails, layout: CardLayout): Promise<Buffer> {
+  const layers = layout === "back"
+    ? await backLayers(portrait, details)
+    : isTeamCard(details) ? await teamFrontLayers(portrait, details) : await frontLayers(portrait, details);
+  return sharp({
+    create: {
+      width: CARD_WIDTH,
+      height: CARD_HEIGHT,
+      channels: 3,
+      background: layout === "front" ? COLORS.frame : COLORS.paper,
+    },
+  })
+    .composite(layers)
+    .png()
+    .toBuffer();
+}
@@ -6,11 +6,28 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+type Database = ReturnType<typeof drizzle<typeof schema>>;
+
+let pool: Pool | null = null;
+let db: Database | null = null;
+
+/**
+ * Connect on first use so the server can boot without Postgres (e.g. STORAGE_DRIVER=memory).
+ */
+export function getDb(): Database {
+  if (!db) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error(
+        "DATABASE_URL must be set. Did you forget to provision a database?",
+      );
+    }
+    pool = new Pool({ connectionString: process.env.DATABASE_URL });
+    db = drizzle({ client: pool, schema });
+  }
+  return db;
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+export function getPool(): Pool {
+  getDb();
+  return pool!;
+}
@@ -1,4 +1,4 @@
-interface DripEventOptions {
+export interface DripEventOptions {
     email: string;
     action?: string;
     transformationId?: string;
@@ -10,8 +10,9 @@ interface DripEventOptions {
 }
 
 const DEFAULT_DOWNLOAD_EVENT = "download_high_res_image";
+const DEFAULT_LOGIN_LINK_EVENT = "requested_login_link";
 
-function hasDripConfig() {
+export function hasDripConfig() {
     return Boolean(process.env.DRIP_ACCOUNT_ID && process.env.DRIP_API_TOKEN);
 }
 
@@ -90,9 +91,6 @@ async function syncSubscriber(email: string, transformationId?: string, userId?:
 }
 
 async function sendDownloadEvent({ email, action, transformationId, imageUrl, userId, occurredAt }: DripEventOptions): Promise<SendEventResult> {
-    const accountId = process.env.DRIP_ACCOUNT_ID as string;
-    const url = `https://api.getdrip.com/v2/${accountId}/events`;
-
     const eventAction = action || process.env.DRIP_DOWNLOAD_EVENT || DEFAULT_DOWNLOAD_EVENT;
 
     const properties: Record<string, string> = {};
@@ -119,6 +117,13 @@ async function sendDownloadEvent({ email, action, transformationId, imageUrl, us
         eventPayload.occurred_at = occurredAt;
     }
 
+    return postEvent(eventPayload);
+}
+
+async function postEvent(eventPayload: Record<string, unknown>): Promise<SendEventResult> {
+    const accountId = process.env.DRIP_ACCOUNT_ID as string;
+    const url = `https://api.getdrip.com/v2/${accountId}/events`;
+
     const payload = {
         events: [eventPayload],
     };
@@ -190,4 +195,49 @@ export async function trackDownloadInDrip(options: DripEventOptions): Promise<Tr
     return result;
 }
 
+/**
+ * Fire the event that triggers the "My Creations" sign-in email. The Drip workflow for
+ * DRIP_LOGIN_LINK_EVENT sends the email and uses the login_url property as its link.
+ */
+export async function sendLoginLinkInDrip(options: { email: string; loginUrl: string; expiresAt: Date }): Promise<SendEventResult> {
+    if (!hasDripConfig()) {
+        throw new Error("Drip is not configured: missing DRIP_ACCOUNT_ID or DRIP_API_TOKEN env vars");
+    }
+
+    await syncSubscriber(options.email);
+    return postEvent({
+        email: options.email,
+        action: process.env.DRIP_LOGIN_LINK_EVENT || DEFAULT_LOGIN_LINK_EVENT,
+        properties: {
+            login_url: options.loginUrl,
+            expires_at: options.expiresAt.toISOString(),
+        },
+        occurred_at: new Date().toISOString(),
+    });
+}
+
+/**
+ * Remove the subscriber and their event history from Drip (right to erasure).
+ */
+export async function deleteSubscriberFromDrip(email: string): Promise<"deleted" | "not_found" | "skipped"> {
+    if (!hasDripConfig()) {
+        console.warn("Skipping Drip subscriber deletion: missing DRIP_ACCOUNT_ID or DRIP_API_TOKEN env vars");
+        return "skipped";
+    }
 
+    const accountId = process.env.DRIP_ACCOUNT_ID as string;
+    const url = `https://api.getdrip.com/v2/${accountId}/subscribers/${encodeURIComponent(email)}`;
+    const response = await fetch(url, {
+        method: "DELETE",
+        headers: { Authorization: getAuthHeader() },
+    });
+
+    if (response.status === 404) {
+        return "not_found";
+    }
+    if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`Drip subscriber delete failed (${response.status}): ${text}`);
+    }
+    return "deleted";
+}
@@ -0,0 +1,76 @@
+import { createHash } from "node:crypto";
+import type { Request } from "express";
+import type { GalleryQuery, PetTransformation } from "@shared/schema";
+import { presentedVisitorId } from "./visitor-session";
+
+const PERIOD_MS: Record<Exclude<GalleryQuery["period"], "all">, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+export const LEADERBOARD_WINDOW_MS = PERIOD_MS.week;
+
+export interface GalleryItem {
+  id: string;
+  petName: string;
+  petBreed: string | null;
+  theme: string;
+  imageUrl: string;
+  thumbnailUrl: string;
+  shareUrl: string;
+  likes: number;
+  createdAt: string | null;
+}
+
+/**
+ * Stable, anonymous key for like dedupe: the signed-in customer, else the signed visitor cookie
+ * the browser sent back, otherwise its IP. Hashed so the likes table holds none of them.
+ */
+export function visitorKeyFor(req: Request): string {
+  const accountUserId = req.session?.accountUserId;
+  const visitorId = presentedVisitorId(req);
+  const source = accountUserId
+    ? `account:${accountUserId}`
+    : visitorId ? `visitor:${visitorId}` : `ip:${req.ip ?? req.socket.remoteAddress ?? "unknown"}`;
+  return createHash("sha256").update(source).digest("hex");
+}
+
+export function periodStart(period: GalleryQuery["period"], now = Date.now()): Date | undefined {
+  return period === "all" ? undefined : new Date(now - PERIOD_MS[period]);
+}
+
+/**
+ * The last row's id and creation time. Storage pages from the row's stored timestamp; the encoded
+ * one, cut to milliseconds, only stands in if that row has since been deleted.
+ */
+export function encodeGalleryCursor(transformation: PetTransformation): string {
+  return Buffer.from(`${transformation.createdAt?.toISOString() ?? ""}|${transformation.id}`).toString("base64url");
+}
+
+/**
+ * Returns undefined for a malformed cursor, which callers treat as a bad request.
+ */
+export function decodeGalleryCursor(cursor: string): { createdAt: Date; id: string } | undefined {
+  const [createdAt, id] = Buffer.from(cursor, "base64url").toString("utf8").split("|");
+  const date = new Date(createdAt ?? "");
+  if (!id || Number.isNaN(date.getTime())) {
+    return undefined;
+  }
+  return { createdAt: date, id };
+}
+
+export function toGalleryItem(transformation: PetTransformation): GalleryItem {
+  const imageUrl = transformation.transformedImageUrl ?? "";
+  return {
+    id: transformation.id,
+    petName: transformation.petName,
+    petBreed: transformation.petBreed,
+    theme: transformation.theme,
+    imageUrl,
+    thumbnailUrl: transformation.renditions.thumbnail ?? imageUrl,
+    shareUrl: `/p/${transformation.id}`,
+    likes: transformation.stats?.likes ?? 0,
+    createdAt: transformation.createdAt?.toISOString() ?? null,
+  };
+}
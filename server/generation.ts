@@ -0,0 +1,345 @@
+import { getImageGenerator, type TransformationResult } from "./image-generator";
+import { selectPromptVariant } from "./prompt-bandit";
+import { renderPromptTemplate, type PromptContext } from "./prompt-template";
+import { formatPetNames, type BaseballCardDetails, type GenerationAttempt, type PetProfile } from "@shared/schema";
+import type { UsageContext } from "./usage";
+import { signUploadKeys } from "./uploads";
+
+export type { TransformationResult } from "./image-generator";
+
+/** Result of a themed generation, tagged with the prompt that produced it */
+export interface ThemedTransformationResult extends TransformationResult {
+  /** Fully rendered prompt sent to the provider */
+  prompt?: string;
+  /** Lettering the pipeline composites over the image as a card front and back */
+  card?: BaseballCardDetails;
+  promptTemplateId?: number | null;
+  promptRevisionId?: number | null;
+  promptVariantId?: number | null;
+}
+
+interface ResolvedPrompt {
+  prompt: string;
+  templateId: number | null;
+  /** Template revision current at selection time, recorded even when a variant is served */
+  revisionId: number | null;
+  variantId: number | null;
+}
+
+// Inputs for the themed transformations. Each pet brings its own photo; with two or more the
+// model gets every photo and the prompts switch to group wording.
+export interface BaseballCardInput {
+  pets: PetProfile[];
+  team?: string;
+  position?: string;
+  stats?: Record<string, number>;
+  usage?: UsageContext;
+}
+
+export interface SuperheroInput {
+  pets: PetProfile[];
+  heroName?: string;
+  powers?: string[];
+  usage?: UsageContext;
+}
+
+export interface ThemedImageInput {
+  promptCategory: string;
+  fallbackPrompt: string;
+  pets: PetProfile[];
+  stats?: Record<string, number>;
+  usage?: UsageContext;
+}
+
+export interface CustomPromptInput {
+  prompt: string;
+  petName: string;
+  aspectRatio: string;
+  outputFormat: string;
+}
+
+// Wider frame for groups so nobody is cropped out of the team photo or hero lineup
+const GROUP_ASPECT_RATIO = "4:3";
+
+function isGroup(pets: PetProfile[]): boolean {
+  return pets.length > 1;
+}
+
+function describePet(pet: PetProfile): string {
+  const description = [...pet.traits.slice(0, 1), convertBreedToReadable(pet.breed || 'pet')].join(' ');
+  return `${pet.name}, ${/^[aeiou]/i.test(description) ? 'an' : 'a'} ${description}`;
+}
+
+/**
+ * Variables every prompt template can reference; theme-specific ones are empty unless supplied.
+ */
+function buildPromptContext(
+  input: { pets: PetProfile[]; stats?: Record<string, number> },
+  extra: Partial<PromptContext> = {},
+): PromptContext {
+  const { pets } = input;
+  return {
+    petName: formatPetNames(pets.map((pet) => pet.name)),
+    petBreed: Array.from(new Set(pets.map((pet) => convertBreedToReadable(pet.breed || 'pet')))).join(' and '),
+    gender: (!isGroup(pets) && pets[0]?.gender) || 'pet',
+    traits: Array.from(new Set(pets.flatMap((pet) => pet.traits))),
+    stats: Object.entries(input.stats || {}).map(([label, value]) => ({ label, value })),
+    team: '',
+    position: '',
+    heroName: '',
+    powers: [],
+    petCount: pets.length,
+    petNames: pets.map((pet) => pet.name),
+    pets: pets.map(describePet),
+    ...extra,
+  };
+}
+
+/**
+ * Resolve and render the prompt for a theme: a bandit-selected active variant, else the active
+ * template, else the fallback. A stored template that fails to render falls back too.
+ */
+async function resolveThemePrompt(category: string, fallbackPrompt: string, context: PromptContext): Promise<ResolvedPrompt> {
+  // Import storage here to avoid circular dependency
+  const { storage } = await import("./storage");
+
+  const fallback = (): ResolvedPrompt => ({
+    prompt: renderPromptTemplate(fallbackPrompt, context),
+    templateId: null,
+    revisionId: null,
+    variantId: null,
+  });
+
+  const template = await storage.getActivePromptTemplate(category);
+  if (!template) {
+    return fallback();
+  }
+
+  const variant = selectPromptVariant(await storage.getPromptVariants(template.id));
+  let prompt: string;
+  try {
+    prompt = renderPromptTemplate(variant?.prompt ?? template.basePrompt, context);
+  } catch (error) {
+    console.error(`Prompt ${variant ? `variant ${variant.id}` : `template ${template.id}`} failed to render; using fallback:`, error);
+    return fallback();
+  }
+
+  if (variant) {
+    // Every selection is a trial; outcome signals credit the reward later
+    await storage.recordPromptVariantUse(variant.id);
+  }
+  return { prompt, templateId: template.id, revisionId: template.currentRevisionId, variantId: variant?.id ?? null };
+}
+
+async function generateFromPrompt(resolved: ResolvedPrompt, pets: PetProfile[], usage?: UsageContext): Promise<ThemedTransformationResult> {
+  const result = await getImageGenerator().generate({
+    prompt: resolved.prompt,
+    // One reference photo per pet, in the order the prompt lists them
+    imageUrls: pets.map((pet) => pet.imageUrl).filter(Boolean),
+    outputFormat: "jpg",
+    aspectRatio: isGroup(pets) ? GROUP_ASPECT_RATIO : undefined,
+    usage,
+  });
+  return {
+    ...result,
+    prompt: resolved.prompt,
+    promptTemplateId: resolved.templateId,
+    promptRevisionId: resolved.revisionId,
+    promptVariantId: resolved.variantId,
+  };
+}
+
+/**
+ * Transform pet photos into a baseball card style image: a player portrait for one pet, a team
+ * photo for a group
+ */
+export async function createBaseballCard(input: BaseballCardInput): Promise<ThemedTransformationResult> {
+  try {
+    const context = buildPromptContext(input, {
+      team: input.team || '',
+      position: input.position || 'Good Boy/Girl',
+    });
+    // The card frame, name and stats are composited afterwards, so the model only paints the portrait
+    const resolved = await resolveThemePrompt('baseball', `{#if petCount != 1}Create a vintage baseball team photo of these {petCount} pets together, one from each reference photo:
+    {#each pets as pet}- {pet}
+    {/each}Style: Classic trading card team photo, every pet in a matching baseball uniform{#if team} in {team} colors{/if}, posed side by side on a sunny ballfield, all fully in frame.
+    {:else}Create a vintage baseball player portrait of this {petBreed} named {petName}.
+    Style: Classic trading card photo, {petName} in a baseball uniform{#if team} in {team} colors{/if}, posed as a {position} on a sunny ballfield.
+    {/if}Leave out all text, lettering, numbers, logos and card borders.
+    Professional sports photography style, high quality, detailed.`, context);
+
+    const result = await generateFromPrompt(resolved, input.pets, input.usage);
+    return {
+      ...result,
+      card: {
+        petName: context.petName,
+        team: input.team || '',
+        position: context.position,
+        stats: input.stats || {},
+        ...(isGroup(input.pets) ? { roster: context.petNames } : {}),
+      },
+    };
+  } catch (error) {
+    console.error("Baseball card generation error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Transform pet photos into a superhero style image: a solo hero for one pet, a squad lineup
+ * for a group
+ */
+export async function createSuperheroImage(input: SuperheroInput): Promise<ThemedTransformationResult> {
+  try {
+    const context = buildPromptContext(input, {
+      powers: input.powers?.length ? input.powers : ["super speed", "incredible loyalty", "treat detection"],
+    });
+    context.heroName = input.heroName || (isGroup(input.pets) ? `The ${context.petName} Squad` : `Super ${context.petName}`);
+    const resolved = await resolveThemePrompt('superhero', `{#if petCount != 1}Create a superhero team lineup featuring these {petCount} pets as "{heroName}", one from each reference photo:
+    {#each pets as pet}- {pet}
+    {/each}Style: Comic book superhero aesthetic, each pet with its own cape, mask and costume, standing side by side in a heroic lineup, all fully in frame.
+    {:else}Create a superhero-style image featuring a {petName} pet as "{heroName}".
+    Style: Comic book superhero aesthetic with cape, mask, and heroic pose.
+    Pet name: "{petName}"
+    {/if}Hero name: "{heroName}"
+    Powers: {powers | join}
+    Dynamic superhero pose, vibrant colors, cape flowing, heroic lighting.
+    Professional comic book art style, high quality, detailed.`, context);
+
+    return await generateFromPrompt(resolved, input.pets, input.usage);
+  } catch (error) {
+    console.error("Superhero generation error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Transform pet photos for a registry theme that has no dedicated generator
+ */
+export async function createThemedImage(input: ThemedImageInput): Promise<ThemedTransformationResult> {
+  try {
+    const resolved = await resolveThemePrompt(input.promptCategory, input.fallbackPrompt, buildPromptContext(input));
+    return await generateFromPrompt(resolved, input.pets, input.usage);
+  } catch (error) {
+    console.error(`Themed generation error (${input.promptCategory}):`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Re-run a recorded attempt with its exact rendered prompt and input images. The model version
+ * and seed are pinned too when the attempt came from the provider configured now.
+ * The variant is not carried over, so remixes never feed the prompt bandit.
+ */
+export async function replayGenerationAttempt(attempt: GenerationAttempt, usage?: UsageContext): Promise<ThemedTransformationResult> {
+  try {
+    if (!attempt.renderedPrompt) {
+      throw new Error(`Generation attempt ${attempt.id} has no recorded prompt`);
+    }
+
+    // The recorded URLs are signed and expire; attempts that kept their upload keys get fresh ones
+    const imageUrls = attempt.inputUploadKeys?.length
+      ? await signUploadKeys(attempt.inputUploadKeys)
+      : attempt.inputImageUrls?.length ? attempt.inputImageUrls : attempt.inputImageUrl ? [attempt.inputImageUrl] : [];
+    const generator = getImageGenerator();
+    const sameProvider = attempt.provider === generator.name;
+    const pinnedModel = attempt.model && attempt.modelVersion ? `${attempt.model}:${attempt.modelVersion}` : attempt.model;
+    const result = await generator.generate({
+      prompt: attempt.renderedPrompt,
+      imageUrls,
+      aspectRatio: imageUrls.length > 1 ? GROUP_ASPECT_RATIO : undefined,
+      outputFormat: "jpg",
+      model: sameProvider ? pinnedModel ?? undefined : undefined,
+      seed: sameProvider ? attempt.seed ?? undefined : undefined,
+      usage,
+    });
+    return {
+      ...result,
+      prompt: attempt.renderedPrompt,
+      card: attempt.card ?? undefined,
+      promptTemplateId: attempt.promptTemplateId,
+      promptRevisionId: attempt.promptRevisionId,
+      promptVariantId: null,
+    };
+  } catch (error) {
+    console.error(`Replay of generation attempt ${attempt.id} failed:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Generate a custom image using a user-provided prompt
+ */
+export async function createCustomPromptImage(input: CustomPromptInput): Promise<TransformationResult> {
+  // Use the custom prompt directly with the pet name integrated
+  const enhancedPrompt = `${input.prompt}. Pet name: "${input.petName}". High quality, detailed, professional.`;
+
+  return getImageGenerator().generate({
+    prompt: enhancedPrompt,
+    imageUrls: [], // No input image for custom prompts
+    outputFormat: input.outputFormat,
+    operation: "custom_image",
+  });
+}
+
+/**
+ * Convert breed form values to readable names
+ */
+export function convertBreedToReadable(breed: string): string {
+  const breedMap: Record<string, string> = {
+    'golden-retriever': 'Golden Retriever',
+    'labrador': 'Labrador',
+    'german-shepherd': 'German Shepherd',
+    'bulldog': 'Bulldog',
+    'poodle': 'Poodle',
+    'cat-persian': 'Persian Cat',
+    'cat-siamese': 'Siamese Cat',
+    'cat-maine-coon': 'Maine Coon',
+    'other': 'beloved pet',
+  };
+  return breedMap[breed] || breed || 'pet';
+}
+
+/**
+ * Generate mock stats for baseball cards
+ */
+export function generateBaseballStats(petName: string, traits: string[] = []): Record<string, number> {
+  const baseStats = {
+    "Fetch Success Rate": Math.floor(Math.random() * 15) + 85, // 85-99%
+    "Treats Per Day": Math.floor(Math.random() * 10) + 5, // 5-14
+    "Naps Completed": Math.floor(Math.random() * 5) + 8, // 8-12
+    "Belly Rubs Given": Math.floor(Math.random() * 20) + 30, // 30-49
+    "Squirrels Chased": Math.floor(Math.random() * 25) + 15, // 15-39
+  };
+
+  // Adjust stats based on traits
+  traits.forEach(trait => {
+    switch (trait.toLowerCase()) {
+      case 'energetic':
+        baseStats["Fetch Success Rate"] = Math.min(99, baseStats["Fetch Success Rate"] + 5);
+        baseStats["Squirrels Chased"] = Math.min(99, baseStats["Squirrels Chased"] + 10);
+        break;
+      case 'lazy':
+        baseStats["Naps Completed"] = Math.min(20, baseStats["Naps Completed"] + 5);
+        baseStats["Belly Rubs Given"] = Math.min(99, baseStats["Belly Rubs Given"] + 10);
+        break;
+      case 'foodie':
+        baseStats["Treats Per Day"] = Math.min(30, baseStats["Treats Per Day"] + 8);
+        break;
+    }
+  });
+
+  return baseStats;
+}
@@ -0,0 +1,109 @@
+import { ReplicateImageGenerator } from "./replicate";
+import { LocalImageGenerator } from "./local-generator";
+import type { AiOperation } from "@shared/schema";
+import { recordAiUsage, type UsageContext } from "./usage";
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  /** Reference images (http(s), object-store or data: URLs) the model should transform */
+  imageUrls: string[];
+  outputFormat?: string;
+  aspectRatio?: string;
+  /** Provider model (optionally pinned as "owner/name:version") instead of the configured one */
+  model?: string;
+  /** Fixed seed, for models that accept one */
+  seed?: string;
+  /** Ledger tags for the call; defaults to a themed image generation */
+  operation?: AiOperation;
+  usage?: UsageContext;
+}
+
+/**
+ * Normalized result returned by every provider. Exactly one of `imageUrl`
+ * or `imageBuffer` is set on success.
+ */
+export interface TransformationResult {
+  success: boolean;
+  imageUrl?: string;
+  imageBuffer?: Buffer;
+  contentType?: string;
+  provider?: string;
+  model?: string;
+  /** Billed model time, when the provider reports it */
+  computeSeconds?: number;
+  modelVersion?: string;
+  /** Provider-side id of the call, for looking it up in the provider's dashboard */
+  predictionId?: string;
+  /** Seed the provider used, when it reports one */
+  seed?: string;
+  error?: string;
+}
+
+export interface ImageGenerator {
+  readonly name: string;
+  generate(request: ImageGenerationRequest): Promise<TransformationResult>;
+}
+
+/**
+ * Records every call of the wrapped provider in the AI usage ledger.
+ */
+export class MeteredImageGenerator implements ImageGenerator {
+  constructor(private readonly inner: ImageGenerator) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  async generate(request: ImageGenerationRequest): Promise<TransformationResult> {
+    const startedAt = Date.now();
+    const result = await this.inner.generate(request);
+    await recordAiUsage({
+      provider: result.provider ?? this.inner.name,
+      model: result.model ?? this.inner.name,
+      operation: request.operation ?? "image_generation",
+      success: result.success,
+      latencyMs: Date.now() - startedAt,
+      computeSeconds: result.computeSeconds,
+      images: result.success ? 1 : 0,
+      error: result.error,
+    }, request.usage);
+    return result;
+  }
+}
+
+let cachedGenerator: ImageGenerator | null = null;
+
+export function createImageGenerator(name: string): ImageGenerator {
+  switch (name) {
+    case "replicate":
+      return new ReplicateImageGenerator();
+    case "local":
+      return new LocalImageGenerator();
+    default:
+      throw new Error(`Unknown IMAGE_GENERATOR "${name}". Use "replicate" or "local".`);
+  }
+}
+
+/**
+ * Provider selected by IMAGE_GENERATOR (defaults to Replicate), metered into the usage ledger.
+ */
+export function getImageGenerator(): ImageGenerator {
+  if (!cachedGenerator) {
+    cachedGenerator = new MeteredImageGenerator(createImageGenerator((process.env.IMAGE_GENERATOR || "replicate").trim().toLowerCase()));
+    console.log(`Using image generator: ${cachedGenerator.name}`);
+  }
+  return cachedGenerator;
+}
+
+/**
+ * URL the browser can display directly, inlining buffer results as a data URL.
+ */
+export function resultToDisplayUrl(result: TransformationResult): string | undefined {
+  if (result.imageUrl) {
+    return result.imageUrl;
+  }
+  if (result.imageBuffer) {
+    return `data:${result.contentType || "image/jpeg"};base64,${result.imageBuffer.toString("base64")}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,92 @@
+import sharp from "sharp";
+import convertHeic from "heic-convert";
+
+export type NormalizedImage = {
+    buffer: Buffer;
+    contentType: string;
+    extension: string; // without leading dot
+    width: number;
+    height: number;
+    /** Format detected in the original upload, e.g. "heic", "webp", "jpeg" */
+    sourceFormat: string;
+};
+
+/** Upload types accepted at intake; everything is re-encoded by normalizeUpload */
+export const ACCEPTED_UPLOAD_MIME_TYPES = [
+    "image/jpeg",
+    "image/jpg",
+    "image/png",
+    "image/webp",
+    "image/avif",
+    "image/heic",
+    "image/heif",
+];
+
+const ACCEPTED_UPLOAD_EXTENSIONS = /\.(jpe?g|png|webp|avif|heic|heif)$/i;
+
+/**
+ * Browsers frequently send HEIC files with an empty or generic mimetype, so fall back to the extension.
+ */
+export function isAcceptedUpload(mimetype: string, originalName: string): boolean {
+    if (ACCEPTED_UPLOAD_MIME_TYPES.includes(mimetype.toLowerCase())) {
+        return true;
+    }
+    const genericType = !mimetype || mimetype === "application/octet-stream";
+    return genericType && ACCEPTED_UPLOAD_EXTENSIONS.test(originalName);
+}
+
+/**
+ * HEIC/HEIF stills carry an ISO-BMFF "ftyp" box with an HEVC brand at byte 4.
+ * AVIF uses the same container with an "avif"/"avis" brand, which sharp decodes natively.
+ */
+function isHevcHeif(buffer: Buffer): boolean {
+    if (buffer.length < 12 || buffer.toString("ascii", 4, 8) !== "ftyp") {
+        return false;
+    }
+    const brand = buffer.toString("ascii", 8, 12);
+    return ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"].includes(brand);
+}
+
+function optionsFromEnv() {
+    return {
+        maxDimensionPx: Number(process.env.UPLOAD_MAX_DIMENSION_PX ?? 2048),
+        jpegQuality: Number(process.env.UPLOAD_JPEG_QUALITY ?? 90),
+    };
+}
+
+/**
+ * Canonicalize an uploaded photo before it is validated or persisted:
+ * decode HEIC via heic-convert, auto-orient from EXIF, cap the long edge,
+ * flatten transparency and re-encode as JPEG. sharp drops EXIF/XMP (GPS included)
+ * because metadata is never copied to the output.
+ */
+export async function normalizeUpload(input: Buffer): Promise<NormalizedImage> {
+    const { maxDimensionPx, jpegQuality } = optionsFromEnv();
+
+    let decodable = input;
+    let sourceFormat: string | undefined;
+    if (isHevcHeif(input)) {
+        // Prebuilt libvips ships without an HEVC decoder, so convert HEIC to a lossless PNG first
+        decodable = Buffer.from(await convertHeic({ buffer: input, format: "PNG" }));
+        sourceFormat = "heic";
+    }
+
+    const meta = await sharp(decodable, { failOn: "error" }).metadata();
+    sourceFormat = sourceFormat || meta.format || "unknown";
+
+    const { data, info } = await sharp(decodable, { failOn: "error" })
+        .rotate()
+        .resize(maxDimensionPx, maxDimensionPx, { fit: "inside", withoutEnlargement: true })
+        .flatten({ background: "#ffffff" })
+        .jpeg({ quality: jpegQuality, mozjpeg: true })
+        .toBuffer({ resolveWithObject: true });
+
+    return {
+        buffer: data,
+        contentType: "image/jpeg",
+        extension: "jpg",
+        width: info.width,
+        height: info.height,
+        sourceFormat,
+    };
+}
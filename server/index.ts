@@ -1,9 +1,15 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startGenerationWorker } from "./jobs";
+import { startOutboxDispatcher } from "./outbox";
 
 const app = express();
 app.disable('x-powered-by');
+if (process.env.NODE_ENV === 'production') {
+  // Behind the platform's TLS-terminating proxy: real client IPs for rate limits, secure admin cookies
+  app.set('trust proxy', 1);
+}
 app.use(express.json({ limit: '50mb' }));  // Increase limit for base64 images
 app.use(express.urlencoded({ extended: false, limit: '50mb' }));
 
@@ -68,5 +74,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startGenerationWorker();
+    startOutboxDispatcher();
   });
 })();
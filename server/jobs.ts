@@ -0,0 +1,209 @@
+import { EventEmitter } from "node:events";
+import type { GenerationJob, GenerationJobStatus, PetTransformation } from "@shared/schema";
+import { storage } from "./storage";
+import { runTransformationPipeline } from "./pipeline";
+import { isAiOperationAllowed } from "./usage";
+import { prescreenTransformation } from "./moderation";
+
+const POLL_INTERVAL_MS = Number(process.env.GENERATION_WORKER_POLL_MS ?? 2000);
+const CONCURRENCY = Math.max(1, Number(process.env.GENERATION_WORKER_CONCURRENCY ?? 2));
+const STALE_AFTER_MS = Number(process.env.GENERATION_JOB_STALE_MS ?? 10 * 60 * 1000);
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.GENERATION_JOB_MAX_ATTEMPTS ?? 3));
+
+const STAGE_PROGRESS: Record<GenerationJobStatus, number> = {
+  queued: 5,
+  generating: 25,
+  watermarking: 75,
+  uploading: 90,
+  done: 100,
+  failed: 100,
+};
+
+export interface JobStatusPayload {
+  id: string;
+  transformationId: string;
+  status: GenerationJobStatus;
+  progress: number;
+  error: string | null;
+  transformation?: {
+    id: string;
+    transformedImageUrl: string | null;
+    cardBackImageUrl: string | null;
+    renditions: PetTransformation["renditions"];
+    visibility: PetTransformation["visibility"];
+    showInGallery: boolean;
+    moderationStatus: PetTransformation["moderationStatus"];
+    stats: PetTransformation["stats"];
+  };
+}
+
+// In-process fan-out so SSE subscribers on this instance see stage changes immediately
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+let activeJobs = 0;
+let draining = false;
+let workerStarted = false;
+
+export function isTerminalStatus(status: GenerationJobStatus): boolean {
+  return status === "done" || status === "failed";
+}
+
+export async function describeJob(job: GenerationJob): Promise<JobStatusPayload> {
+  const payload: JobStatusPayload = {
+    id: job.id,
+    transformationId: job.transformationId,
+    status: job.status,
+    progress: STAGE_PROGRESS[job.status] ?? 0,
+    error: job.error,
+  };
+
+  if (job.status === "done") {
+    const transformation = await storage.getPetTransformation(job.transformationId);
+    if (transformation) {
+      payload.transformation = {
+        id: transformation.id,
+        transformedImageUrl: transformation.transformedImageUrl,
+        cardBackImageUrl: transformation.cardBackImageUrl,
+        renditions: transformation.renditions,
+        visibility: transformation.visibility,
+        showInGallery: transformation.showInGallery,
+        moderationStatus: transformation.moderationStatus,
+        stats: transformation.stats,
+      };
+    }
+  }
+
+  return payload;
+}
+
+export function subscribeToJob(jobId: string, listener: (job: GenerationJob) => void): () => void {
+  const eventName = `job:${jobId}`;
+  jobEvents.on(eventName, listener);
+  return () => {
+    jobEvents.off(eventName, listener);
+  };
+}
+
+async function setJobStatus(jobId: string, updates: Partial<GenerationJob>): Promise<void> {
+  const job = await storage.updateGenerationJob(jobId, updates);
+  if (job) {
+    jobEvents.emit(`job:${jobId}`, job);
+  }
+}
+
+/**
+ * Persist a queued job for the transformation and nudge the local worker.
+ */
+export async function enqueueTransformationJob(transformationId: string): Promise<GenerationJob> {
+  const job = await storage.createGenerationJob(transformationId);
+  kickGenerationWorker();
+  return job;
+}
+
+async function processJob(job: GenerationJob): Promise<void> {
+  jobEvents.emit(`job:${job.id}`, job);
+
+  try {
+    const transformation = await storage.getPetTransformation(job.transformationId);
+    if (!transformation) {
+      throw new Error("Transformation not found");
+    }
+
+    const result = await runTransformationPipeline(transformation, {
+      jobId: job.id,
+      onStage: async (stage) => {
+        if (stage !== job.status) {
+          await setJobStatus(job.id, { status: stage });
+        }
+      },
+    });
+
+    // The pipeline has just logged this run's attempt, so the newest one describes it
+    const [latestAttempt] = await storage.getGenerationAttempts(transformation.id);
+    await storage.updatePetTransformation(transformation.id, {
+      transformedImageUrl: result.transformedImageUrl,
+      cardBackImageUrl: result.cardBackImageUrl,
+      renditions: result.renditions,
+      promptTemplateId: result.promptTemplateId,
+      promptRevisionId: result.promptRevisionId,
+      promptVariantId: result.promptVariantId,
+      moderationFlags: prescreenTransformation(transformation, latestAttempt),
+    });
+    await setJobStatus(job.id, { status: "done", error: null, completedAt: new Date() });
+  } catch (error) {
+    console.error("Generation job failed:", { jobId: job.id, error });
+    try {
+      await setJobStatus(job.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+        completedAt: new Date(),
+      });
+    } catch (statusError) {
+      // The job stays in its running stage; recoverStaleJobs re-queues or fails it once it goes stale
+      console.error("Failed to mark generation job failed:", { jobId: job.id, error: statusError });
+    }
+  }
+}
+
+async function drainQueue(): Promise<void> {
+  if (draining) {
+    return;
+  }
+  draining = true;
+
+  try {
+    while (activeJobs < CONCURRENCY) {
+      // Over budget, jobs stay queued until the next budget window opens
+      if (!(await isAiOperationAllowed("image_generation"))) {
+        break;
+      }
+      const job = await storage.claimNextGenerationJob();
+      if (!job) {
+        break;
+      }
+
+      activeJobs += 1;
+      void processJob(job).finally(() => {
+        activeJobs -= 1;
+        kickGenerationWorker();
+      });
+    }
+  } catch (error) {
+    console.error("Generation worker failed to claim job:", error);
+  } finally {
+    draining = false;
+  }
+}
+
+async function recoverStaleJobs(): Promise<void> {
+  try {
+    const recovered = await storage.requeueStaleGenerationJobs(new Date(Date.now() - STALE_AFTER_MS), MAX_ATTEMPTS);
+    if (recovered > 0) {
+      console.warn(`Recovered ${recovered} stale generation job(s)`);
+    }
+  } catch (error) {
+    console.error("Failed to recover stale generation jobs:", error);
+  }
+}
+
+export function kickGenerationWorker(): void {
+  if (workerStarted) {
+    void drainQueue();
+  }
+}
+
+/**
+ * Start polling the job table. Jobs left running by a crashed instance are re-queued
+ * once they go stale, so every instance can pick up work enqueued by any other.
+ */
+export function startGenerationWorker(): void {
+  if (workerStarted) {
+    return;
+  }
+  workerStarted = true;
+
+  void recoverStaleJobs().then(() => drainQueue());
+  setInterval(() => void drainQueue(), POLL_INTERVAL_MS).unref();
+  setInterval(() => void recoverStaleJobs(), Math.min(STALE_AFTER_MS, 60_000)).unref();
+}
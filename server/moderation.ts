@@ -0,0 +1,61 @@
+import type { GenerationAttempt, ModerationFlag, PetTransformation } from "@shared/schema";
+
+// URLs, emails, @handles and phone numbers typed into a pet name or breed
+const CONTACT_INFO_PATTERNS = [
+  /https?:\/\/|www\.|\b[\w-]+\.(com|net|org|io|co|ly|gg|me|tv)\b/i,
+  /[\w.+-]+@[\w-]+\.[\w.]+/,
+  /(^|\s)@\w{3,}/,
+  /(\+?\d[\s().-]?){7,}/,
+];
+
+/**
+ * Extra terms that send an item to the front of the queue, from MODERATION_FLAG_TERMS
+ * (comma separated, matched case-insensitively as whole words).
+ */
+function flaggedTerms(): string[] {
+  return (process.env.MODERATION_FLAG_TERMS ?? "")
+    .split(",")
+    .map((term) => term.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function containsTerm(text: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|\\W)${escaped}($|\\W)`, "i").test(text);
+}
+
+/**
+ * Automated pre-screen run when generation finishes. It never approves or rejects on its own;
+ * flags only move the item up the review queue and tell the reviewer what to look at.
+ */
+export function prescreenTransformation(
+  transformation: Pick<PetTransformation, "petName" | "petBreed" | "pets">,
+  latestAttempt: Pick<GenerationAttempt, "watermarked" | "error"> | undefined,
+): ModerationFlag[] {
+  const flags: ModerationFlag[] = [];
+  const text = [
+    transformation.petName,
+    transformation.petBreed ?? "",
+    ...transformation.pets.map((pet) => pet.breed ?? ""),
+  ].join(" ");
+
+  if (CONTACT_INFO_PATTERNS.some((pattern) => pattern.test(text))) {
+    flags.push("contact_info");
+  }
+  if (flaggedTerms().some((term) => containsTerm(text, term))) {
+    flags.push("flagged_term");
+  }
+  // Unwatermarked or partially stored images need a closer look before going public
+  if (latestAttempt && (latestAttempt.error || latestAttempt.watermarked === false)) {
+    flags.push("generation_issue");
+  }
+  return flags;
+}
+
+/**
+ * Rejected and taken-down transformations are gone from every public surface; only their
+ * creator can still load them.
+ */
+export function isModerationHidden(transformation: Pick<PetTransformation, "moderationStatus">): boolean {
+  return transformation.moderationStatus === "rejected" || transformation.moderationStatus === "taken_down";
+}
@@ -0,0 +1,370 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+    uploadBufferToR2,
+    downloadBufferFromR2,
+    getPresignedGetUrl,
+    generatedPublicUrlForKey,
+    deleteObjectFromR2,
+    deletePrefixFromR2,
+    listKeysFromR2,
+} from "./r2";
+
+/** Logical buckets; each driver maps them to its own storage location */
+export type ObjectBucket = "uploads" | "generated";
+
+export const OBJECT_BUCKETS: ObjectBucket[] = ["uploads", "generated"];
+
+export type StoredObject = {
+    body: Buffer;
+    contentType?: string;
+};
+
+export type PutObjectParams = {
+    bucket: ObjectBucket;
+    key: string;
+    body: Buffer;
+    contentType?: string;
+    cacheControl?: string;
+};
+
+export interface ObjectStore {
+    readonly name: string;
+    put(params: PutObjectParams): Promise<void>;
+    get(bucket: ObjectBucket, key: string): Promise<StoredObject | null>;
+    /** Time-limited URL for a private object */
+    getSignedUrl(params: { bucket: ObjectBucket; key: string; expiresInSeconds?: number }): Promise<string>;
+    /** Permanent URL for objects in the public "generated" bucket, or null if none is configured */
+    publicUrl(bucket: ObjectBucket, key: string): string | null;
+    /** Keys of every object whose key starts with `prefix` */
+    list(bucket: ObjectBucket, prefix: string): Promise<string[]>;
+    /** Removes the object; missing objects are not an error */
+    delete(bucket: ObjectBucket, key: string): Promise<void>;
+    /** Removes every object whose key starts with `prefix`; returns how many there were */
+    deletePrefix(bucket: ObjectBucket, prefix: string): Promise<number>;
+    /** Bucket and key behind a URL this store produced (public or signed), or null for any other URL */
+    locate(url: string): { bucket: ObjectBucket; key: string } | null;
+}
+
+export function hasR2Config(): boolean {
+    return !!(
+        process.env.R2_ACCOUNT_ID &&
+        process.env.R2_ACCESS_KEY_ID &&
+        process.env.R2_SECRET_ACCESS_KEY &&
+        process.env.R2_UPLOADS_BUCKET &&
+        process.env.R2_GENERATED_BUCKET
+    );
+}
+
+export class R2ObjectStore implements ObjectStore {
+    readonly name = "r2";
+
+    private bucketName(bucket: ObjectBucket): string {
+        const name = bucket === "uploads" ? process.env.R2_UPLOADS_BUCKET : process.env.R2_GENERATED_BUCKET;
+        if (!name) {
+            throw new Error(`R2 bucket for "${bucket}" is not configured`);
+        }
+        return name;
+    }
+
+    async put(params: PutObjectParams): Promise<void> {
+        await uploadBufferToR2({
+            bucket: this.bucketName(params.bucket),
+            key: params.key,
+            body: params.body,
+            contentType: params.contentType,
+            cacheControl: params.cacheControl,
+        });
+    }
+
+    async get(bucket: ObjectBucket, key: string): Promise<StoredObject | null> {
+        return downloadBufferFromR2({ bucket: this.bucketName(bucket), key });
+    }
+
+    async getSignedUrl(params: { bucket: ObjectBucket; key: string; expiresInSeconds?: number }): Promise<string> {
+        return getPresignedGetUrl({
+            bucket: this.bucketName(params.bucket),
+            key: params.key,
+            expiresInSeconds: params.expiresInSeconds,
+        });
+    }
+
+    publicUrl(bucket: ObjectBucket, key: string): string | null {
+        return bucket === "generated" ? generatedPublicUrlForKey(key) : null;
+    }
+
+    async list(bucket: ObjectBucket, prefix: string): Promise<string[]> {
+        return listKeysFromR2({ bucket: this.bucketName(bucket), prefix });
+    }
+
+    async delete(bucket: ObjectBucket, key: string): Promise<void> {
+        await deleteObjectFromR2({ bucket: this.bucketName(bucket), key });
+    }
+
+    async deletePrefix(bucket: ObjectBucket, prefix: string): Promise<number> {
+        return deletePrefixFromR2({ bucket: this.bucketName(bucket), prefix });
+    }
+
+    locate(url: string): { bucket: ObjectBucket; key: string } | null {
+        let parsed: URL;
+        try {
+            parsed = new URL(url);
+        } catch {
+            return null;
+        }
+
+        // Public generated URLs: <public base>/<key>
+        const publicBase = generatedPublicUrlForKey("");
+        if (publicBase && url.startsWith(publicBase)) {
+            return { bucket: "generated", key: decodeURIComponent(parsed.pathname.slice(new URL(publicBase).pathname.length)) };
+        }
+
+        // Signed URLs use the path-style S3 endpoint: https://<account>.r2.cloudflarestorage.com/<bucket>/<key>
+        if (parsed.hostname !== `${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`) {
+            return null;
+        }
+        const [bucketName, ...rest] = parsed.pathname.replace(/^\//, "").split("/");
+        const bucket = OBJECT_BUCKETS.find((candidate) => {
+            const name = candidate === "uploads" ? process.env.R2_UPLOADS_BUCKET : process.env.R2_GENERATED_BUCKET;
+            return name === bucketName;
+        });
+        return bucket && rest.length > 0 ? { bucket, key: rest.map(decodeURIComponent).join("/") } : null;
+    }
+}
+
+const LOCAL_FILES_ROUTE = "/api/files";
+
+const CONTENT_TYPES: Record<string, string> = {
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".png": "image/png",
+    ".webp": "image/webp",
+    ".txt": "text/plain",
+};
+
+/**
+ * Stores objects on local disk and serves them through the /api/files route.
+ * Uploads are private and need an HMAC-signed, expiring URL; generated images are public.
+ */
+export class LocalObjectStore implements ObjectStore {
+    readonly name = "local";
+    private readonly secret: string;
+
+    constructor(
+        private readonly rootDir: string = process.env.LOCAL_STORAGE_DIR || path.resolve(process.cwd(), ".data", "objects"),
+        secret: string | undefined = process.env.LOCAL_STORAGE_SIGNING_SECRET,
+    ) {
+        if (!secret) {
+            console.warn("LOCAL_STORAGE_SIGNING_SECRET is not set; signed file URLs will not survive a restart or work across instances.");
+        }
+        this.secret = secret || crypto.randomBytes(32).toString("hex");
+    }
+
+    private filePath(bucket: ObjectBucket, key: string): string {
+        const bucketDir = path.join(this.rootDir, bucket);
+        const resolved = path.resolve(bucketDir, key);
+        if (!resolved.startsWith(bucketDir + path.sep)) {
+            throw new Error("Invalid object key");
+        }
+        return resolved;
+    }
+
+    async put(params: PutObjectParams): Promise<void> {
+        const target = this.filePath(params.bucket, params.key);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, params.body);
+    }
+
+    async get(bucket: ObjectBucket, key: string): Promise<StoredObject | null> {
+        try {
+            const body = await fs.readFile(this.filePath(bucket, key));
+            return { body, contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] || "application/octet-stream" };
+        } catch (error: any) {
+            if (error?.code === "ENOENT") {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    sign(bucket: ObjectBucket, key: string, expires: number): string {
+        return crypto.createHmac("sha256", this.secret).update(`${bucket}/${key}:${expires}`).digest("base64url");
+    }
+
+    verify(bucket: ObjectBucket, key: string, expires: number, signature: string): boolean {
+        if (!Number.isFinite(expires) || expires * 1000 < Date.now()) {
+            return false;
+        }
+        const expected = Buffer.from(this.sign(bucket, key, expires));
+        const actual = Buffer.from(signature);
+        return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+    }
+
+    async getSignedUrl(params: { bucket: ObjectBucket; key: string; expiresInSeconds?: number }): Promise<string> {
+        const expires = Math.floor(Date.now() / 1000) + (params.expiresInSeconds ?? 900);
+        const signature = this.sign(params.bucket, params.key, expires);
+        return `${localFileUrl(params.bucket, params.key)}?expires=${expires}&sig=${signature}`;
+    }
+
+    publicUrl(bucket: ObjectBucket, key: string): string | null {
+        return bucket === "generated" ? localFileUrl(bucket, key) : null;
+    }
+
+    async list(bucket: ObjectBucket, prefix: string): Promise<string[]> {
+        let entries: string[];
+        try {
+            entries = await fs.readdir(path.join(this.rootDir, bucket), { recursive: true });
+        } catch (error: any) {
+            if (error?.code === "ENOENT") {
+                return [];
+            }
+            throw error;
+        }
+        const keys: string[] = [];
+        for (const key of entries.map((entry) => entry.split(path.sep).join("/")).filter((entry) => entry.startsWith(prefix))) {
+            if ((await fs.stat(this.filePath(bucket, key))).isFile()) {
+                keys.push(key);
+            }
+        }
+        return keys;
+    }
+
+    async delete(bucket: ObjectBucket, key: string): Promise<void> {
+        await fs.rm(this.filePath(bucket, key), { force: true });
+    }
+
+    async deletePrefix(bucket: ObjectBucket, prefix: string): Promise<number> {
+        const keys = await this.list(bucket, prefix);
+        for (const key of keys) {
+            await fs.rm(this.filePath(bucket, key), { force: true });
+        }
+        return keys.length;
+    }
+
+    locate(url: string): { bucket: ObjectBucket; key: string } | null {
+        return parseLocalFileUrl(url);
+    }
+}
+
+function localFileUrl(bucket: ObjectBucket, key: string): string {
+    const base = (process.env.PUBLIC_BASE_URL || "").replace(/\/$/, "");
+    const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+    return `${base}${LOCAL_FILES_ROUTE}/${bucket}/${encodedKey}`;
+}
+
+/**
+ * Map a URL produced by LocalObjectStore back to its bucket and key, or null for any other URL.
+ */
+export function parseLocalFileUrl(url: string): { bucket: ObjectBucket; key: string } | null {
+    let pathname: string;
+    try {
+        pathname = new URL(url, "http://local").pathname;
+    } catch {
+        return null;
+    }
+    if (!pathname.startsWith(`${LOCAL_FILES_ROUTE}/`)) {
+        return null;
+    }
+    const [bucket, ...rest] = pathname.slice(LOCAL_FILES_ROUTE.length + 1).split("/");
+    if (!OBJECT_BUCKETS.includes(bucket as ObjectBucket) || rest.length === 0) {
+        return null;
+    }
+    return { bucket: bucket as ObjectBucket, key: rest.map(decodeURIComponent).join("/") };
+}
+
+let cachedStore: ObjectStore | null = null;
+
+export function createObjectStore(name: string): ObjectStore {
+    switch (name) {
+        case "r2":
+            return new R2ObjectStore();
+        case "local":
+            return new LocalObjectStore();
+        default:
+            throw new Error(`Unknown OBJECT_STORE "${name}". Use "r2" or "local".`);
+    }
+}
+
+/**
+ * Store selected by OBJECT_STORE; defaults to R2 when fully configured, local disk otherwise.
+ */
+export function getObjectStore(): ObjectStore {
+    if (!cachedStore) {
+        const name = (process.env.OBJECT_STORE || (hasR2Config() ? "r2" : "local")).trim().toLowerCase();
+        cachedStore = createObjectStore(name);
+        console.log(`Using object store: ${cachedStore.name}`);
+    }
+    return cachedStore;
+}
+
+async function fetchImage(url: string): Promise<StoredObject> {
+    // A redirect could point anywhere, including hosts the caller's allow-list was meant to keep out
+    const response = await fetch(url, { redirect: "error" });
+    if (!response.ok) {
+        throw new Error(`Failed to fetch image (${response.status})`);
+    }
+    return {
+        body: Buffer.from(await response.arrayBuffer()),
+        contentType: response.headers.get("content-type") || undefined,
+    };
+}
+
+/**
+ * Load the bytes behind an image reference: a URL this store produced or a data: URL. Upload URLs
+ * must carry a valid, unexpired signature; any other URL is refused rather than fetched.
+ */
+export async function readImageReference(url: string): Promise<StoredObject> {
+    if (url.startsWith("data:")) {
+        const contentType = url.slice(5, url.indexOf(";")) || undefined;
+        return { body: Buffer.from(url.slice(url.indexOf(",") + 1), "base64"), contentType };
+    }
+
+    const store = getObjectStore();
+    const located = store.locate(url);
+    if (!located) {
+        throw new Error("Image is not stored here");
+    }
+    if (located.bucket === "uploads") {
+        if (!(store instanceof LocalObjectStore)) {
+            // R2 checks the presigned URL's signature and expiry itself
+            return fetchImage(url);
+        }
+        const query = new URL(url, "http://local").searchParams;
+        if (!store.verify(located.bucket, located.key, Number(query.get("expires")), query.get("sig") ?? "")) {
+            throw new Error("Invalid or expired file link");
+        }
+    }
+
+    const object = await store.get(located.bucket, located.key);
+    if (!object) {
+        throw new Error("Uploaded file not found");
+    }
+    return object;
+}
+
+const PROVIDER_IMAGE_HOSTS = (process.env.PROVIDER_IMAGE_HOSTS || "replicate.delivery")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Download an image provider's output. Only https URLs on PROVIDER_IMAGE_HOSTS (or their
+ * subdomains) are fetched; URLs from this store are read like any other image reference.
+ */
+export async function fetchProviderImage(url: string): Promise<StoredObject> {
+    if (url.startsWith("data:") || getObjectStore().locate(url)) {
+        return readImageReference(url);
+    }
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new Error("Invalid provider image URL");
+    }
+    const host = parsed.hostname.toLowerCase();
+    if (parsed.protocol !== "https:" || !PROVIDER_IMAGE_HOSTS.some((allowed) => host === allowed || host.endsWith(`.${allowed}`))) {
+        throw new Error(`Refusing to fetch provider image from ${parsed.host}`);
+    }
+    return fetchImage(url);
+}
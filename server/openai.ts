@@ -1,4 +1,6 @@
 import OpenAI from "openai";
+import type { AiOperation } from "@shared/schema";
+import { recordAiUsage, type UsageContext } from "./usage";
 
 /*
 Follow these instructions when using this blueprint:
@@ -15,6 +17,40 @@ if (!process.env.OPENAI_API_KEY) {
 // Using GPT-4o-mini as requested by user (they mentioned "GPT-5 mini" but this is the latest efficient model)
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || 'dummy-key-for-startup' });
 
+/**
+ * Chat completion recorded in the AI usage ledger with its token counts and latency
+ */
+async function createMeteredCompletion(
+  operation: AiOperation,
+  params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+  usage?: UsageContext,
+): Promise<OpenAI.Chat.ChatCompletion> {
+  const startedAt = Date.now();
+  try {
+    const response = await openai.chat.completions.create(params);
+    await recordAiUsage({
+      provider: "openai",
+      model: params.model,
+      operation,
+      success: true,
+      latencyMs: Date.now() - startedAt,
+      inputTokens: response.usage?.prompt_tokens,
+      outputTokens: response.usage?.completion_tokens,
+    }, usage);
+    return response;
+  } catch (error) {
+    await recordAiUsage({
+      provider: "openai",
+      model: params.model,
+      operation,
+      success: false,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : "Unknown error",
+    }, usage);
+    throw error;
+  }
+}
+
 export interface PromptEnhancementResult {
   success: boolean;
   enhancedPrompt?: string;
@@ -48,7 +84,7 @@ Pet name: "${petName}"
 
 Please enhance this prompt to create a more detailed and effective image generation prompt.`;
 
-    const response = await openai.chat.completions.create({
+    const response = await createMeteredCompletion("prompt_enhancement", {
       model: "gpt-4o-mini", // Using GPT-4o-mini as the efficient model for text generation
       messages: [
         { role: "system", content: systemPrompt },
@@ -117,24 +153,25 @@ export async function generatePersonaStats(input: {
   petName: string;
   breed?: string;
   traits: string[];
-  theme: 'baseball' | 'superhero';
-  tone?: 'whimsical' | 'epic' | 'sportscaster';
+  theme: string;
+  /** What the pet becomes, e.g. "baseball player" or "astronaut" */
+  personaType: string;
+  tone: string;
   seed?: number;
   locale?: string;
-}): Promise<GeneratePersonaStatsResult> {
+}, usage?: UsageContext): Promise<GeneratePersonaStatsResult> {
   try {
-    const systemPrompt = `You are generating fun, family-friendly persona stats for ${input.petName} turned into a ${input.theme} character. Be specific to the pet’s traits (species/breed/color/size if provided) and keep responses safe and brand-neutral. Return STRICT JSON matching the schema. No extra text.`;
+    const systemPrompt = `You are generating fun, family-friendly persona stats for ${input.petName} turned into a ${input.personaType} character. Be specific to the pet’s traits (species/breed/color/size if provided) and keep responses safe and brand-neutral. Return STRICT JSON matching the schema. No extra text.`;
 
-    const tone = input.tone || (input.theme === 'baseball' ? 'sportscaster' : 'whimsical');
     const userPrompt = `Pet:
 - name: ${input.petName}
 - breed: ${input.breed || ''}
 - traits: ${input.traits && input.traits.length ? input.traits.join(', ') : 'cute, lovable'}
 
 Persona:
-- type: ${input.theme === 'baseball' ? 'sports' : 'superhero'}
-- sport: ${input.theme === 'baseball' ? 'baseball' : ''}
-- tone: ${tone}
+- type: ${input.personaType}
+- theme: ${input.theme}
+- tone: ${input.tone}
 
 Constraints:
 - Avoid real-world brand/trademark/team names.
@@ -152,7 +189,7 @@ Schema fields and max lengths:
 
 Return JSON only.`;
 
-    const response = await openai.chat.completions.create({
+    const response = await createMeteredCompletion("persona_stats", {
       model: "gpt-5-mini", // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
       messages: [
         { role: "system", content: systemPrompt },
@@ -161,7 +198,7 @@ Return JSON only.`;
       response_format: { type: "json_object" },
       reasoning_effort: "minimal" as any, // Use minimal reasoning for simple JSON generation tasks
       max_completion_tokens: 5000,
-    });
+    }, usage);
 
     const raw = response.choices?.[0]?.message?.content || '{}';
     const parsed = JSON.parse(raw);
@@ -205,7 +242,7 @@ Pet name: "${petName}"
 
 Generate 4 creative, detailed prompts for this theme and pet name.`;
 
-    const response = await openai.chat.completions.create({
+    const response = await createMeteredCompletion("prompt_suggestions", {
       model: "gpt-4o-mini", // Using GPT-4o-mini as the efficient model for text generation
       messages: [
         { role: "system", content: systemPrompt },
@@ -258,7 +295,7 @@ Traits: ${traitsText}
 
 Please write a creative description for this${breedText} pet.`;
 
-    const response = await openai.chat.completions.create({
+    const response = await createMeteredCompletion("pet_description", {
       model: "gpt-4o-mini", // Using GPT-4o-mini as the efficient model for text generation
       messages: [
         { role: "system", content: systemPrompt },
@@ -285,4 +322,112 @@ Please write a creative description for this${breedText} pet.`;
       error: error instanceof Error ? error.message : "Unknown error",
     };
   }
-}
\ No newline at end of file
+}
+export interface AnimalDetectionResult {
+  success: boolean;
+  animalCount?: number;
+  species?: string[];
+  error?: string;
+}
+
+/**
+ * Count the animals visible in a photo with a vision model
+ */
+export async function detectAnimalsInImage(image: Buffer, mimetype: string): Promise<AnimalDetectionResult> {
+  try {
+    const systemPrompt = `You check photos uploaded to a pet portrait tool. Count the real animals clearly visible in the photo (ignore toys, drawings and people).
+
+Return your response in JSON format: { "animalCount": number, "species": ["dog", ...] }`;
+
+    const response = await createMeteredCompletion("animal_detection", {
+      model: "gpt-4o-mini", // Using GPT-4o-mini as the efficient model for vision checks
+      messages: [
+        { role: "system", content: systemPrompt },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "How many animals are in this photo?" },
+            { type: "image_url", image_url: { url: `data:${mimetype};base64,${image.toString("base64")}`, detail: "low" } },
+          ],
+        },
+      ],
+      response_format: { type: "json_object" },
+      max_completion_tokens: 100,
+    });
+
+    const result = JSON.parse(response.choices[0].message.content || '{}');
+    if (typeof result.animalCount !== 'number') {
+      throw new Error("No animal count received from AI");
+    }
+
+    return {
+      success: true,
+      animalCount: result.animalCount,
+      species: Array.isArray(result.species) ? result.species : [],
+    };
+  } catch (error) {
+    console.error("Animal detection error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export interface ContentModerationResult {
+  success: boolean;
+  flagged?: boolean;
+  /** OpenAI category names that fired, e.g. "hate/threatening" */
+  categories?: string[];
+  error?: string;
+}
+
+const MODERATION_MODEL = "omni-moderation-latest";
+
+/**
+ * Classify text or an image with OpenAI's moderation model
+ */
+export async function moderateContent(
+  input: { text: string } | { image: Buffer; mimetype: string },
+  usage?: UsageContext,
+): Promise<ContentModerationResult> {
+  const startedAt = Date.now();
+  try {
+    const response = await openai.moderations.create({
+      model: MODERATION_MODEL,
+      input: "text" in input
+        ? input.text
+        : [{ type: "image_url", image_url: { url: `data:${input.mimetype};base64,${input.image.toString("base64")}` } }],
+    });
+    await recordAiUsage({
+      provider: "openai",
+      model: MODERATION_MODEL,
+      operation: "content_moderation",
+      success: true,
+      latencyMs: Date.now() - startedAt,
+    }, usage);
+
+    const result = response.results[0];
+    return {
+      success: true,
+      flagged: result?.flagged ?? false,
+      categories: Object.entries(result?.categories ?? {})
+        .filter(([, fired]) => fired === true)
+        .map(([category]) => category),
+    };
+  } catch (error) {
+    await recordAiUsage({
+      provider: "openai",
+      model: MODERATION_MODEL,
+      operation: "content_moderation",
+      success: false,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : "Unknown error",
+    }, usage);
+    console.error("Content moderation error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import type { OutboxMessage, OutboxTopic } from "@shared/schema";
+import { trackDownloadInDrip, type DripEventOptions } from "./drip";
+import { storage, type NewOutboxMessage } from "./storage";
+
+const POLL_INTERVAL_MS = Number(process.env.OUTBOX_POLL_MS ?? 5000);
+const BATCH_SIZE = Math.max(1, Number(process.env.OUTBOX_BATCH_SIZE ?? 10));
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.OUTBOX_MAX_ATTEMPTS ?? 8));
+const BASE_DELAY_MS = Number(process.env.OUTBOX_BASE_DELAY_MS ?? 30_000);
+const MAX_DELAY_MS = Number(process.env.OUTBOX_MAX_DELAY_MS ?? 60 * 60 * 1000);
+// A claim older than this belongs to a dispatcher that died mid-delivery
+const STALE_AFTER_MS = Number(process.env.OUTBOX_STALE_MS ?? 5 * 60 * 1000);
+
+type OutboxHandler = (payload: Record<string, unknown>) => Promise<void>;
+
+/**
+ * One handler per topic. Delivery is at least once: a handler that throws is retried with the
+ * same payload, so receivers should tolerate the occasional duplicate.
+ */
+const handlers: Record<OutboxTopic, OutboxHandler> = {
+  "drip.download": async (payload) => {
+    const result = await trackDownloadInDrip(payload as unknown as DripEventOptions);
+    if (result.errors?.length) {
+      throw new Error(result.errors.map((error) => `${error.stage}: ${error.error}`).join("; "));
+    }
+  },
+};
+
+let draining = false;
+let dispatcherStarted = false;
+
+/**
+ * Outbox row for a Drip download event; write it with storage.recordEmailCapture.
+ */
+export function dripDownloadMessage(event: DripEventOptions): NewOutboxMessage {
+  return { topic: "drip.download", payload: { ...event }, userId: event.userId ?? null };
+}
+
+/** Exponential backoff with ±20% jitter, so a recovering integration isn't hit all at once */
+export function outboxRetryDelayMs(attempts: number): number {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+async function deliver(message: OutboxMessage): Promise<void> {
+  try {
+    const handler = handlers[message.topic];
+    if (!handler) {
+      throw new Error(`No handler for outbox topic "${message.topic}"`);
+    }
+    await handler(message.payload);
+    await storage.updateOutboxMessage(message.id, { status: "delivered", deliveredAt: new Date(), lockedAt: null, lastError: null });
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+    if (message.attempts >= MAX_ATTEMPTS) {
+      console.error(`Outbox message ${message.id} (${message.topic}) is dead after ${message.attempts} attempts:`, lastError);
+      await storage.updateOutboxMessage(message.id, { status: "dead", lockedAt: null, lastError });
+    } else {
+      const nextAttemptAt = new Date(Date.now() + outboxRetryDelayMs(message.attempts));
+      console.warn(`Outbox message ${message.id} (${message.topic}) failed, retrying at ${nextAttemptAt.toISOString()}:`, lastError);
+      await storage.updateOutboxMessage(message.id, { status: "pending", nextAttemptAt, lockedAt: null, lastError });
+    }
+  }
+}
+
+async function drainOutbox(): Promise<void> {
+  if (draining) {
+    return;
+  }
+  draining = true;
+
+  try {
+    while (true) {
+      const now = new Date();
+      const messages = await storage.claimOutboxMessages({
+        now,
+        staleBefore: new Date(now.getTime() - STALE_AFTER_MS),
+        limit: BATCH_SIZE,
+      });
+      if (messages.length === 0) {
+        break;
+      }
+      await Promise.all(messages.map(deliver));
+    }
+  } catch (error) {
+    console.error("Outbox dispatcher failed to claim messages:", error);
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Deliver newly written messages now instead of waiting for the next poll.
+ */
+export function kickOutboxDispatcher(): void {
+  if (dispatcherStarted) {
+    void drainOutbox();
+  }
+}
+
+/**
+ * Start polling the outbox table. Any instance may deliver any message; claims are exclusive.
+ */
+export function startOutboxDispatcher(): void {
+  if (dispatcherStarted) {
+    return;
+  }
+  dispatcherStarted = true;
+
+  void drainOutbox();
+  setInterval(() => void drainOutbox(), POLL_INTERVAL_MS).unref();
+}
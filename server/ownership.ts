@@ -0,0 +1,50 @@
+import type { Request } from "express";
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import type { PetTransformation } from "@shared/schema";
+
+export const OWNER_TOKEN_HEADER = "x-owner-token";
+
+function hashOwnerToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Token handed to the browser that created a transformation; only its hash is stored.
+ */
+export function issueOwnerToken(): { token: string; hash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, hash: hashOwnerToken(token) };
+}
+
+export function isTransformationOwner(transformation: PetTransformation, token: string | undefined): boolean {
+  if (!token || !transformation.ownerTokenHash) {
+    return false;
+  }
+  const expected = Buffer.from(transformation.ownerTokenHash, "hex");
+  const actual = Buffer.from(hashOwnerToken(token), "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Whether the request comes from the transformation's creator: the visitor session that made it,
+ * the signed-in customer it belongs to, or a browser holding its owner token.
+ */
+export function isRequestOwner(req: Request, transformation: PetTransformation): boolean {
+  if (req.visitorSessionId && transformation.sessionId === req.visitorSessionId) {
+    return true;
+  }
+  // Customer sessions only exist under /api/account and /api/transformations
+  const accountUserId = req.session?.accountUserId;
+  if (accountUserId && transformation.userId === accountUserId) {
+    return true;
+  }
+  return isTransformationOwner(transformation, req.get(OWNER_TOKEN_HEADER));
+}
+
+/**
+ * Transformation as returned by the API, without the owner token hash or creating session.
+ */
+export function toPublicTransformation(transformation: PetTransformation): Omit<PetTransformation, "ownerTokenHash" | "sessionId"> {
+  const { ownerTokenHash, sessionId, ...publicTransformation } = transformation;
+  return publicTransformation;
+}
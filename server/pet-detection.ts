@@ -0,0 +1,209 @@
+import sharp from "sharp";
+import { detectAnimalsInImage } from "./openai";
+import { isAiOperationAllowed } from "./usage";
+
+export type PhotoIssueCode =
+  | "unreadable"
+  | "no_animal"
+  | "multiple_animals"
+  | "too_small"
+  | "too_dark"
+  | "too_blurry";
+
+export interface PhotoIssue {
+  code: PhotoIssueCode;
+  message: string;
+}
+
+export interface PhotoMetrics {
+  width: number;
+  height: number;
+  brightness: number;
+  sharpness: number;
+  animalCount: number | null;
+}
+
+export interface PhotoValidationResult {
+  ok: boolean;
+  issues: PhotoIssue[];
+  metrics: PhotoMetrics | null;
+  detector: string;
+}
+
+export interface PetDetection {
+  /** Number of animals found, or null when the detector cannot tell */
+  animalCount: number | null;
+  species?: string[];
+}
+
+export interface PetDetector {
+  readonly name: string;
+  detect(image: Buffer, mimetype: string): Promise<PetDetection>;
+}
+
+const ISSUE_MESSAGES: Record<PhotoIssueCode, string> = {
+  unreadable: "We couldn't read this image file. Please try a different photo.",
+  no_animal: "We couldn't find a pet in this photo. Make sure your pet is clearly visible.",
+  multiple_animals: "We found more than one animal. Please use a photo with just one pet.",
+  too_small: "This photo is too small. Please use a larger, higher-resolution image.",
+  too_dark: "This photo is too dark. Try one taken in brighter light.",
+  too_blurry: "This photo looks blurry. Try a sharper shot where your pet is in focus.",
+};
+
+function issue(code: PhotoIssueCode): PhotoIssue {
+  return { code, message: ISSUE_MESSAGES[code] };
+}
+
+/**
+ * Offline default: relies on the image quality checks only and never judges animal content.
+ */
+export class HeuristicPetDetector implements PetDetector {
+  readonly name = "heuristic";
+
+  async detect(): Promise<PetDetection> {
+    return { animalCount: null };
+  }
+}
+
+/**
+ * Vision-model detector that counts animals in the photo.
+ */
+export class OpenAIPetDetector implements PetDetector {
+  readonly name = "openai";
+
+  async detect(image: Buffer, mimetype: string): Promise<PetDetection> {
+    // Over budget, fall back to the quality checks alone rather than rejecting uploads
+    if (!(await isAiOperationAllowed("animal_detection"))) {
+      return { animalCount: null };
+    }
+    const result = await detectAnimalsInImage(image, mimetype);
+    if (!result.success) {
+      throw new Error(result.error || "Animal detection failed");
+    }
+    return { animalCount: result.animalCount ?? null, species: result.species };
+  }
+}
+
+let cachedDetector: PetDetector | null = null;
+
+export function createPetDetector(name: string): PetDetector {
+  switch (name) {
+    case "heuristic":
+      return new HeuristicPetDetector();
+    case "openai":
+      return new OpenAIPetDetector();
+    default:
+      throw new Error(`Unknown PET_DETECTOR "${name}". Use "heuristic" or "openai".`);
+  }
+}
+
+/**
+ * Detector selected by PET_DETECTOR (defaults to the offline heuristic).
+ */
+export function getPetDetector(): PetDetector {
+  if (!cachedDetector) {
+    cachedDetector = createPetDetector((process.env.PET_DETECTOR || "heuristic").trim().toLowerCase());
+    console.log(`Using pet detector: ${cachedDetector.name}`);
+  }
+  return cachedDetector;
+}
+
+function thresholdsFromEnv() {
+  return {
+    minDimensionPx: Number(process.env.PHOTO_MIN_DIMENSION_PX ?? 256),
+    minBrightness: Number(process.env.PHOTO_MIN_BRIGHTNESS ?? 35),
+    minSharpness: Number(process.env.PHOTO_MIN_SHARPNESS ?? 20),
+  };
+}
+
+const ANALYSIS_SIZE = 512;
+
+/**
+ * Mean luminance (0-255) and variance of the Laplacian on a downscaled greyscale copy.
+ * Low Laplacian variance means few edges, i.e. a blurry photo.
+ */
+async function measureImage(image: Buffer): Promise<{ width: number; height: number; brightness: number; sharpness: number }> {
+  const oriented = sharp(image, { failOn: "none" }).rotate();
+  const { width = 0, height = 0, orientation } = await sharp(image, { failOn: "none" }).metadata();
+  // EXIF orientations 5-8 swap the displayed width and height
+  const swapped = (orientation ?? 1) >= 5;
+
+  const { data, info } = await oriented
+    .greyscale()
+    .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: "inside", withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const w = info.width;
+  const h = info.height;
+  let luminance = 0;
+  for (let i = 0; i < data.length; i += 1) {
+    luminance += data[i];
+  }
+
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < h - 1; y += 1) {
+    for (let x = 1; x < w - 1; x += 1) {
+      const i = y * w + x;
+      const laplacian = data[i - 1] + data[i + 1] + data[i - w] + data[i + w] - 4 * data[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count += 1;
+    }
+  }
+  const mean = count ? sum / count : 0;
+
+  return {
+    width: swapped ? height : width,
+    height: swapped ? width : height,
+    brightness: data.length ? luminance / data.length : 0,
+    sharpness: count ? sumSquares / count - mean * mean : 0,
+  };
+}
+
+/**
+ * Check an uploaded photo for size, exposure, focus and (when the detector can tell) a single animal.
+ * Detector outages fail open so a flaky provider never blocks uploads.
+ */
+export async function validatePetPhoto(image: Buffer, mimetype: string): Promise<PhotoValidationResult> {
+  const detector = getPetDetector();
+  const thresholds = thresholdsFromEnv();
+
+  let measured: Awaited<ReturnType<typeof measureImage>>;
+  try {
+    measured = await measureImage(image);
+  } catch (error) {
+    console.warn("Photo validation could not decode image:", error);
+    return { ok: false, issues: [issue("unreadable")], metrics: null, detector: detector.name };
+  }
+
+  const issues: PhotoIssue[] = [];
+  if (Math.min(measured.width, measured.height) < thresholds.minDimensionPx) {
+    issues.push(issue("too_small"));
+  }
+  if (measured.brightness < thresholds.minBrightness) {
+    issues.push(issue("too_dark"));
+  }
+  if (measured.sharpness < thresholds.minSharpness) {
+    issues.push(issue("too_blurry"));
+  }
+
+  let animalCount: number | null = null;
+  try {
+    animalCount = (await detector.detect(image, mimetype)).animalCount;
+  } catch (error) {
+    console.warn(`Pet detector "${detector.name}" failed; skipping animal check:`, error);
+  }
+  if (animalCount === 0) {
+    issues.push(issue("no_animal"));
+  } else if (animalCount !== null && animalCount > 1) {
+    issues.push(issue("multiple_animals"));
+  }
+
+  const metrics: PhotoMetrics = { ...measured, animalCount };
+  console.log("Photo validation:", { detector: detector.name, metrics, issues: issues.map((i) => i.code) });
+
+  return { ok: issues.length === 0, issues, metrics, detector: detector.name };
+}
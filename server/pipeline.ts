@@ -0,0 +1,318 @@
+import type { InsertGenerationAttempt, PetTransformation, RenditionName, TransformationRenditions } from "@shared/schema";
+import { makeGeneratedKey, makeRenditionKey } from "./r2";
+import { fetchProviderImage, getObjectStore, type StoredObject } from "./object-store";
+import { isWatermarkPosition, watermarkAndPreferJpeg, WATERMARK_POSITIONS, type WatermarkOptions, type WatermarkPosition } from "./watermark";
+import { resultToDisplayUrl } from "./image-generator";
+import { storage } from "./storage";
+import { generateThemeImage } from "./themes";
+import { replayGenerationAttempt } from "./generation";
+import { composeBaseballCard } from "./card-compositor";
+import { renderRenditions } from "./renditions";
+import { assertSafeImage, ContentRejectedError } from "./safety";
+import { withFreshPhotoUrls } from "./uploads";
+
+export type PipelineStage = "generating" | "watermarking" | "uploading";
+
+export interface PipelineOptions {
+  onStage?: (stage: PipelineStage) => Promise<void> | void;
+  /** Job the run belongs to, recorded on the generation attempt */
+  jobId?: string;
+}
+
+export interface PipelineResult {
+  transformedImageUrl: string | null;
+  cardBackImageUrl: string | null;
+  /** Social-format copies; empty when rendering or storing them failed */
+  renditions: TransformationRenditions;
+  promptTemplateId: number | null;
+  promptRevisionId: number | null;
+  promptVariantId: number | null;
+}
+
+/**
+ * Generate, watermark and store the image for a stored transformation.
+ * Throws when generation fails or the output can't be screened; watermark and storage failures
+ * after screening degrade to the provider URL.
+ * Every run, successful or not, is recorded as a generation attempt.
+ */
+export async function runTransformationPipeline(
+  transformation: PetTransformation,
+  options: PipelineOptions = {}
+): Promise<PipelineResult> {
+  const startedAt = Date.now();
+  const attempt: InsertGenerationAttempt = {
+    transformationId: transformation.id,
+    jobId: options.jobId ?? null,
+    status: "failed",
+    timings: {},
+  };
+
+  try {
+    const result = await runPipelineStages(transformation, attempt, options.onStage ?? (() => undefined));
+    attempt.status = "succeeded";
+    return result;
+  } catch (error) {
+    attempt.error = error instanceof Error ? error.message : "Unknown error";
+    throw error;
+  } finally {
+    attempt.timings = { ...attempt.timings, totalMs: Date.now() - startedAt };
+    try {
+      await storage.createGenerationAttempt(attempt);
+    } catch (recordErr) {
+      console.error("Failed to record generation attempt:", { transformationId: transformation.id, error: recordErr });
+    }
+  }
+}
+
+async function runPipelineStages(
+  transformation: PetTransformation,
+  attempt: InsertGenerationAttempt,
+  onStage: NonNullable<PipelineOptions["onStage"]>,
+): Promise<PipelineResult> {
+  await onStage("generating");
+
+  const theme = await storage.getTheme(transformation.theme);
+  if (!theme) {
+    throw new Error(`Unknown theme "${transformation.theme}"`);
+  }
+
+  // Remixes replay the recorded settings instead of resolving the theme's prompt afresh
+  const remixOf = transformation.remixOfAttemptId
+    ? await storage.getGenerationAttempt(transformation.remixOfAttemptId)
+    : undefined;
+  if (transformation.remixOfAttemptId && !remixOf) {
+    throw new Error(`Generation attempt ${transformation.remixOfAttemptId} not found`);
+  }
+
+  // The URLs saved at creation expire, and a job can wait in the queue for longer than that
+  const subject = await withFreshPhotoUrls(transformation);
+  const generateStartedAt = Date.now();
+  const transformationResult = remixOf
+    ? await replayGenerationAttempt(remixOf, { transformationId: transformation.id, theme: theme.slug })
+    : await generateThemeImage(theme, subject);
+  Object.assign(attempt, {
+    renderedPrompt: transformationResult.prompt ?? null,
+    promptTemplateId: transformationResult.promptTemplateId ?? null,
+    promptRevisionId: transformationResult.promptRevisionId ?? null,
+    promptVariantId: transformationResult.promptVariantId ?? null,
+    inputImageUrl: remixOf ? remixOf.inputImageUrl : subject.originalImageUrl,
+    inputImageUrls: remixOf ? remixOf.inputImageUrls : subject.pets.length > 0 ? subject.pets.map((pet) => pet.imageUrl) : null,
+    inputUploadKeys: remixOf ? remixOf.inputUploadKeys : transformation.uploadKeys.length > 0 ? transformation.uploadKeys : null,
+    provider: transformationResult.provider ?? null,
+    model: transformationResult.model ?? null,
+    modelVersion: transformationResult.modelVersion ?? null,
+    predictionId: transformationResult.predictionId ?? null,
+    seed: transformationResult.seed ?? null,
+    timings: { generateMs: Date.now() - generateStartedAt },
+  });
+
+  if (!transformationResult.success) {
+    throw new Error(transformationResult.error || "AI image generation failed");
+  }
+
+  console.log("Transformation result:", {
+    provider: transformationResult.provider,
+    model: transformationResult.model,
+    imageUrl: transformationResult.imageUrl,
+    imageBytes: transformationResult.imageBuffer?.length,
+  });
+
+  let imageUrlToStore: string | null = transformationResult.imageUrl ?? null;
+  let cardBackImageUrl: string | null = null;
+  let renditions: TransformationRenditions = {};
+  const store = getObjectStore();
+  let screened = false;
+
+  // Fetch (or take the provider's buffer), composite any card, watermark with logo, convert to JPEG, and store in the public generated bucket
+  try {
+    await onStage("watermarking");
+
+    let source: StoredObject | null = transformationResult.imageBuffer
+      ? { body: transformationResult.imageBuffer, contentType: transformationResult.contentType }
+      : null;
+    if (!source && imageUrlToStore) {
+      console.log("Fetching generated image for watermark:", { source: imageUrlToStore });
+      source = await fetchProviderImage(imageUrlToStore);
+    }
+
+    if (source) {
+      // Screen the model's output before it is composited, stamped or stored anywhere
+      await assertSafeImage("output", source.body, source.contentType || 'image/jpeg', { transformationId: transformation.id });
+      screened = true;
+    }
+
+    let cardBack: Buffer | null = null;
+    if (source && transformationResult.card) {
+      // Typeset the card lettering ourselves rather than trusting the model's spelling
+      attempt.card = transformationResult.card;
+      const composeStartedAt = Date.now();
+      try {
+        const portrait = source.body;
+        const [front, back] = await Promise.all([
+          composeBaseballCard(portrait, transformationResult.card, "front"),
+          composeBaseballCard(portrait, transformationResult.card, "back"),
+        ]);
+        source = { body: front, contentType: 'image/png' };
+        cardBack = back;
+      } catch (composeErr) {
+        console.error("Card compositing failed; storing the bare portrait:", composeErr);
+        attempt.error = `Card compositing failed: ${composeErr instanceof Error ? composeErr.message : String(composeErr)}`;
+      }
+      attempt.timings = { ...attempt.timings, composeMs: Date.now() - composeStartedAt };
+    }
+
+    if (source) {
+      const sourceContentType = source.contentType || 'image/jpeg';
+      let uploadBuffer = source.body;
+      let uploadContentType = sourceContentType;
+      let uploadExt = 'jpg';
+      const watermarkStartedAt = Date.now();
+      try {
+        // Apply watermark and force JPEG output
+        const { buffer: stampedBuffer, extension, contentType, watermarked, metadata } = await watermarkAndPreferJpeg(source.body, sourceContentType, watermarkOptionsFromEnv());
+        console.log("Watermark result:", { watermarked, extension, contentType, metadata });
+        uploadBuffer = stampedBuffer;
+        uploadContentType = contentType;
+        uploadExt = extension || 'jpg';
+        Object.assign(attempt, {
+          watermarked,
+          watermarkPosition: metadata?.position ?? null,
+          watermarkScore: metadata?.score ?? null,
+        });
+      } catch (wmErr) {
+        console.error("Watermarking failed; storing original buffer:", wmErr);
+        attempt.watermarked = false;
+        attempt.error = `Watermarking failed: ${wmErr instanceof Error ? wmErr.message : String(wmErr)}`;
+      }
+      attempt.timings = { ...attempt.timings, watermarkMs: Date.now() - watermarkStartedAt };
+
+      await onStage("uploading");
+      const storeStartedAt = Date.now();
+      const key = makeGeneratedKey({ type: transformation.theme, resourceId: transformation.id, extension: uploadExt });
+      await store.put({
+        bucket: 'generated',
+        key,
+        body: uploadBuffer,
+        contentType: uploadContentType,
+        cacheControl: 'public, max-age=31536000, immutable',
+      });
+      console.log("Stored generated image:", { store: store.name, key });
+      attempt.objectKey = key;
+      attempt.timings = { ...attempt.timings, storeMs: Date.now() - storeStartedAt };
+
+      const publicUrl = store.publicUrl('generated', key);
+      if (publicUrl) {
+        imageUrlToStore = publicUrl;
+        console.log("Using public URL for transformation:", publicUrl);
+      } else if (!imageUrlToStore) {
+        // Buffer-only providers have no URL to fall back to
+        imageUrlToStore = await store.getSignedUrl({ bucket: 'generated', key, expiresInSeconds: 7 * 24 * 3600 });
+      } else {
+        console.warn("No public URL for generated bucket; leaving provider URL", { key });
+      }
+
+      if (cardBack) {
+        try {
+          // The back gets the same logo as the front, so neither side can be lifted unbranded
+          const back = await watermarkAndPreferJpeg(cardBack, 'image/png', watermarkOptionsFromEnv());
+          if (!back.watermarked) {
+            attempt.watermarked = false;
+          }
+          const backKey = makeGeneratedKey({ type: transformation.theme, resourceId: transformation.id, extension: back.extension || 'jpg', variant: 'back' });
+          await store.put({
+            bucket: 'generated',
+            key: backKey,
+            body: back.buffer,
+            contentType: back.contentType,
+            cacheControl: 'public, max-age=31536000, immutable',
+          });
+          cardBackImageUrl = store.publicUrl('generated', backKey)
+            ?? await store.getSignedUrl({ bucket: 'generated', key: backKey, expiresInSeconds: 7 * 24 * 3600 });
+        } catch (backErr) {
+          console.error("Failed to store card back:", backErr);
+          attempt.error = `Storing the card back failed: ${backErr instanceof Error ? backErr.message : String(backErr)}`;
+        }
+      }
+
+      const renditionsStartedAt = Date.now();
+      try {
+        renditions = await storeRenditions(transformation, uploadBuffer);
+      } catch (renditionErr) {
+        console.error("Failed to store renditions:", renditionErr);
+        attempt.error = `Storing renditions failed: ${renditionErr instanceof Error ? renditionErr.message : String(renditionErr)}`;
+      }
+      attempt.timings = { ...attempt.timings, renditionsMs: Date.now() - renditionsStartedAt };
+    }
+  } catch (mirrorErr) {
+    if (mirrorErr instanceof ContentRejectedError) {
+      throw mirrorErr;
+    }
+    if (!screened) {
+      // Never publish the provider's URL for an image nobody has screened
+      console.error('Could not screen generated image:', mirrorErr);
+      throw new Error("We couldn't check the generated image, so it wasn't published. Please try again.");
+    }
+    console.error('Failed to store generated image:', mirrorErr);
+    attempt.error = `Storing the image failed: ${mirrorErr instanceof Error ? mirrorErr.message : String(mirrorErr)}`;
+    if (!imageUrlToStore) {
+      imageUrlToStore = resultToDisplayUrl(transformationResult) ?? null;
+    }
+  }
+
+  return {
+    transformedImageUrl: imageUrlToStore,
+    cardBackImageUrl,
+    renditions,
+    promptTemplateId: transformationResult.promptTemplateId ?? null,
+    promptRevisionId: transformationResult.promptRevisionId ?? null,
+    promptVariantId: transformationResult.promptVariantId ?? null,
+  };
+}
+
+async function storeRenditions(transformation: PetTransformation, master: Buffer): Promise<TransformationRenditions> {
+  const store = getObjectStore();
+  const rendered = await renderRenditions(master);
+  const renditions: TransformationRenditions = {};
+  for (const [name, body] of Object.entries(rendered) as Array<[RenditionName, Buffer]>) {
+    const key = makeRenditionKey({ type: transformation.theme, resourceId: transformation.id, rendition: name });
+    await store.put({
+      bucket: 'generated',
+      key,
+      body,
+      contentType: 'image/jpeg',
+      // Keys are stable per transformation, so a retried job may overwrite them
+      cacheControl: 'public, max-age=86400',
+    });
+    renditions[name] = store.publicUrl('generated', key)
+      ?? await store.getSignedUrl({ bucket: 'generated', key, expiresInSeconds: 7 * 24 * 3600 });
+  }
+  return renditions;
+}
+
+/** Each listed position that is one; anything else is ignored with a warning */
+function watermarkPositionsFromEnv(name: string): WatermarkPosition[] {
+  return (process.env[name] ?? "").split(",").map((p) => p.trim()).filter(Boolean).flatMap((value): WatermarkPosition[] => {
+    if (isWatermarkPosition(value)) {
+      return [value];
+    }
+    console.warn(`Ignoring ${name} value "${value}"; expected one of ${WATERMARK_POSITIONS.join(", ")}`);
+    return [];
+  });
+}
+
+function watermarkOptionsFromEnv(): WatermarkOptions {
+  const candidatePositions = watermarkPositionsFromEnv("WATERMARK_CANDIDATE_POSITIONS");
+  const autoPlacementEnv = process.env.WATERMARK_AUTO_PLACEMENT;
+  const autoPlacement = autoPlacementEnv === undefined ? true : autoPlacementEnv !== "false";
+
+  return {
+    marginPx: Number(process.env.WATERMARK_MARGIN_PX ?? 32),
+    logoWidthRatio: Number(process.env.WATERMARK_LOGO_WIDTH_RATIO ?? 0.25),
+    minLogoWidthPx: Number(process.env.WATERMARK_MIN_LOGO_PX ?? 80),
+    jpegQuality: Number(process.env.WATERMARK_JPEG_QUALITY ?? 90),
+    forcePosition: watermarkPositionsFromEnv("WATERMARK_FORCE_POSITION")[0],
+    fallbackPosition: watermarkPositionsFromEnv("WATERMARK_FALLBACK_POSITION")[0] ?? "bottom-right",
+    candidatePositions: candidatePositions.length > 0 ? candidatePositions : undefined,
+    autoPlacement,
+  };
+}
@@ -0,0 +1,258 @@
+import { createHash } from "node:crypto";
+import path from "node:path";
+import type { DeletionLogEntry, DeletionSummary, GenerationAttempt, PetTransformation, User } from "@shared/schema";
+import { deleteSubscriberFromDrip } from "./drip";
+import { getObjectStore, type ObjectBucket } from "./object-store";
+import { storage } from "./storage";
+import { createZip, type ZipEntry } from "./zip";
+
+// prevHash of the first log entry
+export const DELETION_LOG_GENESIS_HASH = "0".repeat(64);
+
+/**
+ * Thrown when an account can't be erased yet, e.g. while one of its images is still generating.
+ */
+export class ErasureBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ErasureBlockedError";
+  }
+}
+
+interface ObjectRef {
+  bucket: ObjectBucket;
+  key: string;
+}
+
+/** Where the pipeline stores a transformation's generated images and renditions */
+function generatedPrefix(transformation: PetTransformation): string {
+  return `gen/${transformation.theme}/${transformation.id}/`;
+}
+
+/**
+ * Objects the transformation provably owns, de-duplicated: its recorded upload keys, everything
+ * under its generated prefix and its attempts' object keys. Stored URLs are never consulted, since
+ * they came from the client or may point at objects shared with someone else. `label` names the
+ * file in the export.
+ */
+async function transformationObjects(transformation: PetTransformation, attempts: GenerationAttempt[]): Promise<Array<ObjectRef & { label: string }>> {
+  const refs = new Map<string, ObjectRef & { label: string }>();
+  const add = (bucket: ObjectBucket, key: string, label: string) => {
+    if (!refs.has(`${bucket}/${key}`)) {
+      refs.set(`${bucket}/${key}`, { bucket, key, label });
+    }
+  };
+
+  transformation.uploadKeys.forEach((key, index) => add("uploads", key, `photo-${index + 1}`));
+  const prefix = generatedPrefix(transformation);
+  for (const key of await getObjectStore().list("generated", prefix)) {
+    add("generated", key, `generated/${key.slice(prefix.length).replace(/\.[^./]+$/, "")}`);
+  }
+  for (const attempt of attempts) {
+    if (attempt.objectKey) {
+      add("generated", attempt.objectKey, `attempt-${attempt.id}`);
+    }
+  }
+  return Array.from(refs.values());
+}
+
+/**
+ * Transformation fields that describe the customer's pet and choices; internal bookkeeping
+ * (owner token hash, session id, prompt ids, staff notes) stays out of the export.
+ */
+function exportedTransformation(transformation: PetTransformation, attempts: GenerationAttempt[], files: string[]) {
+  return {
+    id: transformation.id,
+    petName: transformation.petName,
+    petBreed: transformation.petBreed,
+    gender: transformation.gender,
+    traits: transformation.traits,
+    pets: transformation.pets.map(({ imageUrl, ...pet }) => pet),
+    theme: transformation.theme,
+    visibility: transformation.visibility,
+    showInGallery: transformation.showInGallery,
+    moderationStatus: transformation.moderationStatus,
+    moderationReason: transformation.moderationReason,
+    stats: transformation.stats,
+    createdAt: transformation.createdAt,
+    generations: attempts.map((attempt) => ({
+      id: attempt.id,
+      status: attempt.status,
+      prompt: attempt.renderedPrompt,
+      createdAt: attempt.createdAt,
+    })),
+    files,
+  };
+}
+
+/**
+ * Zip of everything stored about the customer: account.json, transformations.json and every
+ * uploaded photo and generated image under images/<transformation id>/.
+ */
+export async function buildUserExport(user: User): Promise<Buffer> {
+  const store = getObjectStore();
+  const entries: ZipEntry[] = [];
+  const transformations = [];
+
+  for (const transformation of await storage.getUserTransformations(user.id)) {
+    const attempts = await storage.getGenerationAttempts(transformation.id);
+    const files: string[] = [];
+    for (const ref of await transformationObjects(transformation, attempts)) {
+      const object = await store.get(ref.bucket, ref.key);
+      if (!object) {
+        continue;
+      }
+      const name = `images/${transformation.id}/${ref.label}${path.extname(ref.key) || ".jpg"}`;
+      entries.push({ name, data: object.body });
+      files.push(name);
+    }
+    transformations.push(exportedTransformation(transformation, attempts, files));
+  }
+
+  const account = {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    emailVerifiedAt: user.emailVerifiedAt,
+    createdAt: user.createdAt,
+    exportedAt: new Date(),
+  };
+  entries.unshift(
+    { name: "account.json", data: Buffer.from(JSON.stringify(account, null, 2)) },
+    { name: "transformations.json", data: Buffer.from(JSON.stringify(transformations, null, 2)) },
+  );
+  return createZip(entries);
+}
+
+/** JSON with object keys sorted, so jsonb's key reordering can't change a hash */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function deletionLogHash(prevHash: string, entry: Pick<DeletionLogEntry, "subjectHash" | "userId" | "requestedBy" | "summary" | "createdAt">): string {
+  const body = canonicalJson({
+    subjectHash: entry.subjectHash,
+    userId: entry.userId,
+    requestedBy: entry.requestedBy,
+    summary: entry.summary,
+    createdAt: entry.createdAt.toISOString(),
+  });
+  return createHash("sha256").update(prevHash).update(body).digest("hex");
+}
+
+export function deletionSubjectHash(email: string): string {
+  return createHash("sha256").update(email.trim().toLowerCase()).digest("hex");
+}
+
+/**
+ * Admin remixes made from the transformations, and remixes of those; they replay the customer's
+ * photos and prompt.
+ */
+async function remixesOf(transformations: PetTransformation[]): Promise<PetTransformation[]> {
+  const seen = new Set(transformations.map((transformation) => transformation.id));
+  const remixes: PetTransformation[] = [];
+  const pending = [...transformations];
+  for (let next = pending.shift(); next; next = pending.shift()) {
+    for (const remix of await storage.getRemixTransformations(next.id)) {
+      if (!seen.has(remix.id)) {
+        seen.add(remix.id);
+        remixes.push(remix);
+        pending.push(remix);
+      }
+    }
+  }
+  return remixes;
+}
+
+/**
+ * Erase the customer: their uploads and generated images in both buckets, every transformation
+ * with its admin remixes and safety log rows, the Drip subscriber and the user row, then append a
+ * hash-chained entry to the deletion log. Safe to retry after a failure part way; only the final
+ * step removes the user.
+ */
+export async function eraseUser(user: User, requestedBy: string): Promise<DeletionLogEntry> {
+  const owned = await storage.getUserTransformations(user.id);
+  const remixes = await remixesOf(owned);
+  const remixIds = new Set(remixes.map((remix) => remix.id));
+  const transformations = [...owned, ...remixes];
+  for (const transformation of transformations) {
+    if (await storage.hasPendingGenerationJob(transformation.id)) {
+      throw new ErasureBlockedError("One of your pets is still being transformed. Please try again in a few minutes.");
+    }
+  }
+
+  // Queued Drip events would re-create the subscriber, and their payloads hold the email
+  const { inFlight } = await storage.discardUserOutboxMessages(user.id);
+  if (inFlight > 0) {
+    throw new ErasureBlockedError("We're still syncing a recent download for you. Please try again in a minute.");
+  }
+
+  // Drip first: once the user row is gone there's nothing left to retry from
+  const drip = await deleteSubscriberFromDrip(user.email);
+
+  const store = getObjectStore();
+  const summary: Required<DeletionSummary> = { transformations: 0, remixes: 0, uploadObjects: 0, generatedObjects: 0, safetyDecisions: 0, drip };
+  for (const transformation of transformations) {
+    const prefix = generatedPrefix(transformation);
+    summary.generatedObjects += await store.deletePrefix("generated", prefix);
+    for (const attempt of await storage.getGenerationAttempts(transformation.id)) {
+      if (attempt.objectKey && !attempt.objectKey.startsWith(prefix)) {
+        await store.delete("generated", attempt.objectKey);
+        summary.generatedObjects += 1;
+      }
+    }
+    for (const key of Array.from(new Set(transformation.uploadKeys))) {
+      // One browser can reuse a photo across creations that end up with different owners
+      if (await storage.isUploadInUse(key, transformation.id)) {
+        continue;
+      }
+      await store.delete("uploads", key);
+      await storage.deleteUpload(key);
+      summary.uploadObjects += 1;
+    }
+    summary.safetyDecisions += await storage.deleteSafetyDecisions(transformation.id);
+    if (await storage.deletePetTransformation(transformation.id)) {
+      if (remixIds.has(transformation.id)) {
+        summary.remixes += 1;
+      } else {
+        summary.transformations += 1;
+      }
+    }
+  }
+  await storage.deleteUser(user.id);
+
+  const entry = { subjectHash: deletionSubjectHash(user.email), userId: user.id, requestedBy, summary, createdAt: new Date() };
+  const logged = await storage.appendDeletionLogEntry(entry, (previous) => {
+    const prevHash = previous?.hash ?? DELETION_LOG_GENESIS_HASH;
+    return { prevHash, hash: deletionLogHash(prevHash, entry) };
+  });
+  console.log(`Erased user ${user.id} (requested by ${requestedBy}):`, summary);
+  return logged;
+}
+
+export interface DeletionLogVerification {
+  valid: boolean;
+  /** First entry whose hash doesn't match its contents or the entry before it */
+  brokenAtId: number | null;
+}
+
+/**
+ * Recompute the hash chain over the log, oldest first.
+ */
+export function verifyDeletionLog(entries: DeletionLogEntry[]): DeletionLogVerification {
+  let prevHash = DELETION_LOG_GENESIS_HASH;
+  for (const entry of entries) {
+    if (entry.prevHash !== prevHash || entry.hash !== deletionLogHash(prevHash, entry)) {
+      return { valid: false, brokenAtId: entry.id };
+    }
+    prevHash = entry.hash;
+  }
+  return { valid: true, brokenAtId: null };
+}
@@ -0,0 +1,126 @@
+import type { OutcomeSignal, PromptVariantSelect } from "@shared/schema";
+
+export type BanditStrategy = "thompson" | "ucb";
+
+export interface BanditOptions {
+  strategy: BanditStrategy;
+  /**
+   * Thompson: evidence is divided by this, so values above 1 widen the posterior.
+   * UCB: multiplier on the confidence bonus.
+   */
+  exploration: number;
+  random?: () => number;
+}
+
+type BanditArm = Pick<PromptVariantSelect, "id" | "timesUsed" | "rewardTotal">;
+
+/**
+ * Reward for each outcome signal. A transformation's total is clamped to [0, 1],
+ * so it counts as at most one success for its variant.
+ */
+export function rewardForSignal(signal: OutcomeSignal, value?: number | null): number {
+  switch (signal) {
+    case "download":
+      return 0.5;
+    case "share":
+      return 0.5;
+    case "like":
+      return 0.5;
+    case "rating":
+      // 1 star = -1, 3 stars = 0, 5 stars = +1
+      return ((value ?? 3) - 3) / 2;
+    case "regenerate":
+      return -1;
+  }
+}
+
+export function banditOptionsFromEnv(): BanditOptions {
+  const strategy = (process.env.PROMPT_BANDIT_STRATEGY || "thompson").trim().toLowerCase();
+  if (strategy !== "thompson" && strategy !== "ucb") {
+    throw new Error(`Unknown PROMPT_BANDIT_STRATEGY "${strategy}". Use "thompson" or "ucb".`);
+  }
+  const exploration = Number(process.env.PROMPT_BANDIT_EXPLORATION ?? 1);
+  return {
+    strategy,
+    exploration: Number.isFinite(exploration) && exploration > 0 ? exploration : 1,
+  };
+}
+
+/**
+ * Pick the variant to serve next. Each use is a trial and its credited reward the
+ * successes, giving a Beta(1 + successes, 1 + failures) posterior per variant.
+ */
+export function selectPromptVariant<T extends BanditArm>(arms: T[], options: BanditOptions = banditOptionsFromEnv()): T | undefined {
+  if (arms.length <= 1) {
+    return arms[0];
+  }
+  const random = options.random ?? Math.random;
+
+  let best: T | undefined;
+  let bestScore = -Infinity;
+  const totalTrials = arms.reduce((sum, arm) => sum + (arm.timesUsed ?? 0), 0);
+
+  for (const arm of arms) {
+    const trials = Math.max(0, arm.timesUsed ?? 0);
+    const successes = Math.min(trials, Math.max(0, arm.rewardTotal));
+
+    let score: number;
+    if (options.strategy === "ucb") {
+      // Untried variants are served first
+      score = trials === 0
+        ? Infinity
+        : successes / trials + options.exploration * Math.sqrt((2 * Math.log(totalTrials)) / trials);
+    } else {
+      score = sampleBeta(
+        1 + successes / options.exploration,
+        1 + (trials - successes) / options.exploration,
+        random,
+      );
+    }
+
+    // Break ties randomly so equal arms share traffic
+    if (score > bestScore || (score === bestScore && random() < 0.5)) {
+      best = arm;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function sampleBeta(alpha: number, beta: number, random: () => number): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x / (x + y);
+}
+
+/**
+ * Marsaglia–Tsang gamma sampler; shape < 1 is boosted via the u^(1/shape) trick.
+ */
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x * x * x * x || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v;
+    }
+  }
+}
+
+function sampleNormal(random: () => number): number {
+  // Box–Muller; 1 - random() keeps the log argument in (0, 1]
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
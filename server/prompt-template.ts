@@ -0,0 +1,543 @@
+/**
+ * Small, logic-light template language for prompt templates and variants.
+ *
+ *   {petName}                        variable
+ *   {petName | upper}                filters, chained with "|"; arguments after ":"
+ *   {traits | join: " and "}
+ *   {#if team}...{:else}...{/if}     conditionals: `x`, `not x`, `x == "literal"`, `x != "literal"`
+ *   {#each stats as stat}{stat.label}: {stat.value}{#if not loop.last}, {/if}{/each}
+ *
+ *   {{                               literal "{"
+ *
+ * Templates only read from a fixed set of variables and can't call code, so an admin-authored
+ * template can never reach anything but the pet's details. A "{" that doesn't start a tag
+ * (e.g. "{ " or "{}") is also kept as literal text.
+ */
+
+export interface PromptStat {
+  label: string;
+  value: number;
+}
+
+export interface PromptContext {
+  petName: string;
+  petBreed: string;
+  gender: string;
+  traits: string[];
+  stats: PromptStat[];
+  team: string;
+  position: string;
+  heroName: string;
+  powers: string[];
+  petCount: number;
+  petNames: string[];
+  pets: string[];
+}
+
+type ValueKind = "text" | "number" | "boolean" | "list" | "stats" | "stat" | "loop";
+
+interface VariableSpec {
+  kind: ValueKind;
+  description: string;
+}
+
+export const PROMPT_VARIABLES: Record<keyof PromptContext, VariableSpec> = {
+  petName: { kind: "text", description: "Pet's name; for a group, every name joined, e.g. \"Rex, Luna & Max\"" },
+  petBreed: { kind: "text", description: "Readable breed, e.g. \"Golden Retriever\"; for a group, each distinct breed" },
+  gender: { kind: "text", description: "\"male\", \"female\" or \"pet\"" },
+  traits: { kind: "list", description: "Personality traits picked by the owner" },
+  stats: { kind: "stats", description: "Theme stats; each item has .label and .value" },
+  team: { kind: "text", description: "Baseball team (baseball themes)" },
+  position: { kind: "text", description: "Baseball position (baseball themes)" },
+  heroName: { kind: "text", description: "Superhero name (superhero themes)" },
+  powers: { kind: "list", description: "Superhero powers (superhero themes)" },
+  petCount: { kind: "number", description: "Pets in the photos, 1 to 3; use {#if petCount != 1} for group wording" },
+  petNames: { kind: "list", description: "Each pet's name, in photo order" },
+  pets: { kind: "list", description: "One line per pet, e.g. \"Rex, a playful Golden Retriever\", in photo order" },
+};
+
+// Fields reachable with "." on loop aliases
+const MEMBER_KINDS: Partial<Record<ValueKind, Record<string, ValueKind>>> = {
+  stat: { label: "text", value: "number" },
+  loop: { index: "number", first: "boolean", last: "boolean" },
+};
+
+type FilterArg = string | number;
+type TemplateValue = string | number | boolean | string[] | PromptStat[] | PromptStat | Record<string, unknown> | null | undefined;
+
+interface FilterSpec {
+  minArgs: number;
+  maxArgs: number;
+  description: string;
+  apply: (value: TemplateValue, args: FilterArg[]) => TemplateValue;
+}
+
+const titleCase = (text: string) => text.replace(/\b\w/g, (char) => char.toUpperCase());
+
+export const PROMPT_FILTERS: Record<string, FilterSpec> = {
+  upper: { minArgs: 0, maxArgs: 0, description: "UPPERCASE", apply: (value) => stringify(value).toUpperCase() },
+  lower: { minArgs: 0, maxArgs: 0, description: "lowercase", apply: (value) => stringify(value).toLowerCase() },
+  capitalize: {
+    minArgs: 0,
+    maxArgs: 0,
+    description: "Uppercase the first letter",
+    apply: (value) => {
+      const text = stringify(value);
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    },
+  },
+  title: { minArgs: 0, maxArgs: 0, description: "Title Case Every Word", apply: (value) => titleCase(stringify(value)) },
+  trim: { minArgs: 0, maxArgs: 0, description: "Strip surrounding whitespace", apply: (value) => stringify(value).trim() },
+  join: {
+    minArgs: 0,
+    maxArgs: 1,
+    description: "Join a list with a separator (default \", \")",
+    apply: (value, [separator = ", "]) => Array.isArray(value)
+      ? value.map((item) => stringify(item)).join(String(separator))
+      : stringify(value),
+  },
+  default: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: "Fallback when the value is empty",
+    apply: (value, [fallback]) => (isTruthy(value) ? value : String(fallback)),
+  },
+  truncate: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: "Cut to at most N characters",
+    apply: (value, [length]) => stringify(value).slice(0, Math.max(0, Number(length) || 0)),
+  },
+};
+
+export type PromptTemplateIssueCode =
+  | "syntax"
+  | "unknown_variable"
+  | "unknown_filter"
+  | "invalid_filter_args"
+  | "not_iterable";
+
+export interface PromptTemplateIssue {
+  code: PromptTemplateIssueCode;
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface PromptTemplateValidation {
+  ok: boolean;
+  issues: PromptTemplateIssue[];
+  /** Top-level variables the template reads */
+  variables: string[];
+}
+
+/** Pet used by the admin preview when no sample is supplied */
+export const SAMPLE_PROMPT_CONTEXT: PromptContext = {
+  petName: "Biscuit",
+  petBreed: "Golden Retriever",
+  gender: "female",
+  traits: ["energetic", "foodie", "loyal"],
+  stats: [
+    { label: "Fetch Success Rate", value: 94 },
+    { label: "Treats Per Day", value: 11 },
+    { label: "Naps Completed", value: 9 },
+  ],
+  team: "Raleigh Retrievers",
+  position: "Center Fielder",
+  heroName: "Captain Biscuit",
+  powers: ["super speed", "treat detection"],
+  petCount: 1,
+  petNames: ["Biscuit"],
+  pets: ["Biscuit, an energetic Golden Retriever"],
+};
+
+interface Expression {
+  path: string[];
+  filters: { name: string; args: FilterArg[] }[];
+}
+
+interface Condition {
+  path: string[];
+  negate: boolean;
+  compare?: { op: "==" | "!="; value: FilterArg };
+}
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "output"; expr: Expression; offset: number }
+  | { type: "if"; cond: Condition; then: TemplateNode[]; otherwise: TemplateNode[]; offset: number }
+  | { type: "each"; path: string[]; alias: string; body: TemplateNode[]; offset: number };
+
+interface ParsedTemplate {
+  nodes: TemplateNode[];
+  issues: PromptTemplateIssue[];
+  variables: Set<string>;
+}
+
+const IDENT = "[A-Za-z_][A-Za-z0-9_]*";
+const PATH = `${IDENT}(?:\\.${IDENT})*`;
+const LITERAL = `"(?:[^"\\\\]|\\\\.)*"|'(?:[^'\\\\]|\\\\.)*'|-?\\d+(?:\\.\\d+)?`;
+const IF_PATTERN = new RegExp(`^#if\\s+(not\\s+)?(${PATH})(?:\\s*(==|!=)\\s*(${LITERAL}))?$`);
+const EACH_PATTERN = new RegExp(`^#each\\s+(${PATH})\\s+as\\s+(${IDENT})$`);
+const PATH_PATTERN = new RegExp(`^${PATH}$`);
+const FILTER_PATTERN = new RegExp(`^(${IDENT})(?:\\s*:\\s*(.*))?$`, "s");
+const LITERAL_PATTERN = new RegExp(`^(?:${LITERAL})$`);
+
+function parseLiteral(raw: string): FilterArg {
+  if (raw.startsWith("\"") || raw.startsWith("'")) {
+    return raw.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+  return Number(raw);
+}
+
+/**
+ * Split on a separator outside of quoted strings.
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      current += char;
+      if (char === "\\" && i + 1 < text.length) {
+        current += text[++i];
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === "\"" || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim());
+}
+
+function positionOf(source: string, offset: number): { line: number; column: number } {
+  const before = source.slice(0, offset);
+  const line = before.split("\n").length;
+  return { line, column: offset - before.lastIndexOf("\n") };
+}
+
+/**
+ * Index of the "}" closing the tag that opens at `start`, skipping quoted strings.
+ */
+function findTagEnd(source: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = null;
+    } else if (char === "\"" || char === "'") {
+      quote = char;
+    } else if (char === "}") {
+      return i;
+    } else if (char === "{" || char === "\n") {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+function parse(source: string): ParsedTemplate {
+  const issues: PromptTemplateIssue[] = [];
+  const variables = new Set<string>();
+  const issue = (code: PromptTemplateIssueCode, message: string, offset: number) => {
+    issues.push({ code, message, ...positionOf(source, offset) });
+  };
+
+  type Frame =
+    | { kind: "root"; nodes: TemplateNode[] }
+    | { kind: "if"; node: Extract<TemplateNode, { type: "if" }>; inElse: boolean }
+    | { kind: "each"; node: Extract<TemplateNode, { type: "each" }> };
+  const stack: Frame[] = [{ kind: "root", nodes: [] }];
+  // Loop aliases in scope, innermost last
+  const scopes: { alias: string; kind: ValueKind }[] = [];
+
+  const currentNodes = (): TemplateNode[] => {
+    const frame = stack[stack.length - 1];
+    if (frame.kind === "root") return frame.nodes;
+    if (frame.kind === "each") return frame.node.body;
+    return frame.inElse ? frame.node.otherwise : frame.node.then;
+  };
+  const pushText = (value: string) => {
+    const nodes = currentNodes();
+    const last = nodes[nodes.length - 1];
+    if (last && last.type === "text") last.value += value;
+    else nodes.push({ type: "text", value });
+  };
+
+  const resolveKind = (path: string[], offset: number): ValueKind | null => {
+    const [root, ...members] = path;
+    let kind: ValueKind | undefined;
+    const scoped = [...scopes].reverse().find((scope) => scope.alias === root);
+    if (scoped) {
+      kind = scoped.kind;
+    } else if (root === "loop" && scopes.length > 0) {
+      kind = "loop";
+    } else if (root in PROMPT_VARIABLES) {
+      kind = PROMPT_VARIABLES[root as keyof PromptContext].kind;
+      variables.add(root);
+    } else {
+      issue("unknown_variable", `Unknown variable "${root}". Available: ${Object.keys(PROMPT_VARIABLES).join(", ")}`, offset);
+      return null;
+    }
+
+    for (const member of members) {
+      const memberKind: ValueKind | undefined = MEMBER_KINDS[kind]?.[member];
+      if (!memberKind) {
+        issue("unknown_variable", `"${path.join(".")}" has no field "${member}"`, offset);
+        return null;
+      }
+      kind = memberKind;
+    }
+    return kind;
+  };
+
+  const parseExpression = (content: string, offset: number): Expression | null => {
+    const [head, ...filterParts] = splitOutsideQuotes(content, "|");
+    if (!PATH_PATTERN.test(head)) {
+      issue("syntax", `Invalid expression "{${content}}"`, offset);
+      return null;
+    }
+    resolveKind(head.split("."), offset);
+
+    const filters: Expression["filters"] = [];
+    for (const part of filterParts) {
+      const match = FILTER_PATTERN.exec(part);
+      if (!match) {
+        issue("syntax", `Invalid filter "${part}"`, offset);
+        continue;
+      }
+      const [, name, rawArgs] = match;
+      const spec = PROMPT_FILTERS[name];
+      if (!spec) {
+        issue("unknown_filter", `Unknown filter "${name}". Available: ${Object.keys(PROMPT_FILTERS).join(", ")}`, offset);
+        continue;
+      }
+      const argTexts = rawArgs === undefined ? [] : splitOutsideQuotes(rawArgs, ",");
+      if (argTexts.some((arg) => !LITERAL_PATTERN.test(arg))) {
+        issue("syntax", `Filter "${name}" arguments must be quoted strings or numbers`, offset);
+        continue;
+      }
+      if (argTexts.length < spec.minArgs || argTexts.length > spec.maxArgs) {
+        const expected = spec.minArgs === spec.maxArgs ? `${spec.minArgs}` : `${spec.minArgs}-${spec.maxArgs}`;
+        issue("invalid_filter_args", `Filter "${name}" takes ${expected} argument(s), got ${argTexts.length}`, offset);
+        continue;
+      }
+      filters.push({ name, args: argTexts.map(parseLiteral) });
+    }
+    return { path: head.split("."), filters };
+  };
+
+  let cursor = 0;
+  while (cursor < source.length) {
+    const open = source.indexOf("{", cursor);
+    if (open === -1) {
+      pushText(source.slice(cursor));
+      break;
+    }
+    pushText(source.slice(cursor, open));
+
+    if (source[open + 1] === "{") {
+      pushText("{");
+      cursor = open + 2;
+      continue;
+    }
+    // Only "{" followed by a name or block marker opens a tag
+    if (!/[A-Za-z_#/:]/.test(source[open + 1] ?? "")) {
+      pushText("{");
+      cursor = open + 1;
+      continue;
+    }
+    const close = findTagEnd(source, open);
+    if (close === -1) {
+      issue("syntax", "Unclosed tag: missing \"}\"", open);
+      pushText(source.slice(open));
+      break;
+    }
+    const content = source.slice(open + 1, close).trim();
+    cursor = close + 1;
+
+    if (content.startsWith("#if")) {
+      const match = IF_PATTERN.exec(content);
+      if (!match) {
+        issue("syntax", `Invalid condition "{${content}}"`, open);
+        continue;
+      }
+      const [, negate, path, op, literal] = match;
+      resolveKind(path.split("."), open);
+      const node: Extract<TemplateNode, { type: "if" }> = {
+        type: "if",
+        cond: {
+          path: path.split("."),
+          negate: Boolean(negate),
+          compare: op ? { op: op as "==" | "!=", value: parseLiteral(literal) } : undefined,
+        },
+        then: [],
+        otherwise: [],
+        offset: open,
+      };
+      currentNodes().push(node);
+      stack.push({ kind: "if", node, inElse: false });
+    } else if (content.startsWith("#each")) {
+      const match = EACH_PATTERN.exec(content);
+      if (!match) {
+        issue("syntax", `Invalid loop "{${content}}"; use {#each list as item}`, open);
+        continue;
+      }
+      const [, path, alias] = match;
+      const kind = resolveKind(path.split("."), open);
+      if (kind && kind !== "list" && kind !== "stats") {
+        issue("not_iterable", `"${path}" is not a list`, open);
+      }
+      if (alias === "loop" || alias in PROMPT_VARIABLES) {
+        issue("syntax", `Loop name "${alias}" shadows a built-in variable`, open);
+      }
+      const node: Extract<TemplateNode, { type: "each" }> = { type: "each", path: path.split("."), alias, body: [], offset: open };
+      currentNodes().push(node);
+      stack.push({ kind: "each", node });
+      scopes.push({ alias, kind: kind === "stats" ? "stat" : "text" });
+    } else if (content === ":else") {
+      const frame = stack[stack.length - 1];
+      if (frame.kind !== "if" || frame.inElse) {
+        issue("syntax", "{:else} without a matching {#if}", open);
+        continue;
+      }
+      frame.inElse = true;
+    } else if (content === "/if" || content === "/each") {
+      const frame = stack[stack.length - 1];
+      const expected = content.slice(1);
+      if (frame.kind !== expected) {
+        issue("syntax", `{${content}} without a matching {#${expected}}`, open);
+        continue;
+      }
+      stack.pop();
+      if (frame.kind === "each") scopes.pop();
+    } else {
+      const expr = parseExpression(content, open);
+      if (expr) {
+        currentNodes().push({ type: "output", expr, offset: open });
+      }
+    }
+  }
+
+  for (const frame of stack.slice(1).reverse()) {
+    const node = frame.kind === "root" ? null : frame.node;
+    if (node) {
+      issue("syntax", `{#${node.type}} is never closed with {/${node.type}}`, node.offset);
+    }
+  }
+
+  const root = stack[0];
+  return { nodes: root.kind === "root" ? root.nodes : [], issues, variables };
+}
+
+function stringify(value: TemplateValue): string {
+  if (value === null || value === undefined || typeof value === "boolean") {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return (value as unknown[]).map((item) => stringify(item as TemplateValue)).join(", ");
+  }
+  if (typeof value === "object") {
+    if ("label" in value && "value" in value) {
+      return `${value.label}: ${value.value}`;
+    }
+    return "";
+  }
+  return String(value);
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "string") return value.trim().length > 0;
+  return Boolean(value);
+}
+
+type Scope = Record<string, TemplateValue>;
+
+function lookup(path: string[], scope: Scope): TemplateValue {
+  let value: TemplateValue = scope[path[0]];
+  for (const member of path.slice(1)) {
+    value = value && typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, TemplateValue>)[member]
+      : undefined;
+  }
+  return value;
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Scope): string {
+  let output = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.value;
+        break;
+      case "output": {
+        let value = lookup(node.expr.path, scope);
+        for (const filter of node.expr.filters) {
+          value = PROMPT_FILTERS[filter.name].apply(value, filter.args);
+        }
+        output += stringify(value);
+        break;
+      }
+      case "if": {
+        const value = lookup(node.cond.path, scope);
+        let result = node.cond.compare
+          ? (stringify(value) === String(node.cond.compare.value)) === (node.cond.compare.op === "==")
+          : isTruthy(value);
+        if (node.cond.negate) result = !result;
+        output += renderNodes(result ? node.then : node.otherwise, scope);
+        break;
+      }
+      case "each": {
+        const items = lookup(node.path, scope);
+        if (!Array.isArray(items)) break;
+        items.forEach((item, index) => {
+          output += renderNodes(node.body, {
+            ...scope,
+            [node.alias]: item as TemplateValue,
+            loop: { index: index + 1, first: index === 0, last: index === items.length - 1 },
+          });
+        });
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Quote arbitrary text (e.g. a theme description) so it renders verbatim.
+ */
+export function escapePromptText(text: string): string {
+  return text.replaceAll("{", "{{");
+}
+
+/**
+ * Check syntax, variable names and filter usage without rendering.
+ */
+export function validatePromptTemplate(source: string): PromptTemplateValidation {
+  const { issues, variables } = parse(source);
+  return { ok: issues.length === 0, issues, variables: Array.from(variables) };
+}
+
+/**
+ * Render a template against a pet. Throws on an invalid template, listing every issue.
+ */
+export function renderPromptTemplate(source: string, context: PromptContext): string {
+  const { nodes, issues } = parse(source);
+  if (issues.length > 0) {
+    throw new Error(`Invalid prompt template: ${issues.map((i) => `${i.message} (line ${i.line}, column ${i.column})`).join("; ")}`);
+  }
+  return renderNodes(nodes, { ...context } as unknown as Scope).trim();
+}
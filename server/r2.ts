@@ -1,4 +1,4 @@
-import { S3Client, PutObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3";
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, DeleteObjectsCommand, ListObjectsV2Command } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 
 const requiredEnv = [
@@ -47,6 +47,65 @@ export async function uploadBufferToR2(params: {
     await r2.send(command);
 }
 
+export async function downloadBufferFromR2(params: {
+    bucket: string;
+    key: string;
+}): Promise<{ body: Buffer; contentType?: string } | null> {
+    try {
+        const result = await r2.send(new GetObjectCommand({ Bucket: params.bucket, Key: params.key }));
+        if (!result.Body) {
+            return null;
+        }
+        const bytes = await result.Body.transformToByteArray();
+        return { body: Buffer.from(bytes), contentType: result.ContentType };
+    } catch (error: any) {
+        if (error?.name === "NoSuchKey" || error?.$metadata?.httpStatusCode === 404) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+export async function deleteObjectFromR2(params: { bucket: string; key: string }): Promise<void> {
+    await r2.send(new DeleteObjectCommand({ Bucket: params.bucket, Key: params.key }));
+}
+
+/**
+ * Keys of every object under `prefix`, following ListObjectsV2 pages.
+ */
+export async function listKeysFromR2(params: { bucket: string; prefix: string }): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+        const page = await r2.send(new ListObjectsV2Command({
+            Bucket: params.bucket,
+            Prefix: params.prefix,
+            ContinuationToken: continuationToken,
+        }));
+        keys.push(...(page.Contents ?? []).map((object: { Key?: string }) => object.Key).filter((key: string | undefined): key is string => Boolean(key)));
+        continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return keys;
+}
+
+/**
+ * Delete every object under `prefix`, up to 1000 keys per request. Returns how many were removed.
+ */
+export async function deletePrefixFromR2(params: { bucket: string; prefix: string }): Promise<number> {
+    const keys = await listKeysFromR2(params);
+    for (let start = 0; start < keys.length; start += 1000) {
+        const batch = keys.slice(start, start + 1000);
+        const result = await r2.send(new DeleteObjectsCommand({
+            Bucket: params.bucket,
+            Delete: { Objects: batch.map((Key) => ({ Key })), Quiet: true },
+        }));
+        if (result.Errors?.length) {
+            throw new Error(`Failed to delete ${result.Errors.length} object(s) under ${params.prefix}: ${result.Errors[0].Message}`);
+        }
+    }
+    return keys.length;
+}
+
 export async function getPresignedGetUrl(params: {
     bucket: string;
     key: string;
@@ -108,13 +167,15 @@ export function generatedPublicUrlForKey(key: string): string | null {
 export function makeUploadKey(options: {
     userId?: string;
     originalName?: string;
+    /** Overrides the extension taken from originalName (e.g. after re-encoding) */
+    extension?: string;
     prefix?: string;
 }): string {
     const now = new Date();
     const yyyy = now.getUTCFullYear();
     const mm = String(now.getUTCMonth() + 1).padStart(2, "0");
     const uuid = cryptoRandomUUID();
-    const ext = options.originalName?.split(".").pop()?.toLowerCase() || "jpg";
+    const ext = options.extension || options.originalName?.split(".").pop()?.toLowerCase() || "jpg";
     const basePrefix = options.prefix || "uploads";
     const userPrefix = options.userId ? `user/${options.userId}` : "anon";
     return `${basePrefix}/${userPrefix}/${yyyy}/${mm}/${uuid}.${ext}`;
@@ -124,10 +185,27 @@ export function makeGeneratedKey(options: {
     type: string;
     resourceId: string;
     extension?: string;
+    /** Distinguishes companion images stored together, e.g. a card back */
+    variant?: string;
 }): string {
     const now = Date.now();
     const ext = (options.extension || "jpg").replace(/^\./, "");
-    return `gen/${options.type}/${options.resourceId}/${now}.${ext}`;
+    const suffix = options.variant ? `-${options.variant}` : "";
+    return `gen/${options.type}/${options.resourceId}/${now}${suffix}.${ext}`;
+}
+
+/**
+ * Stable key for a named social-format copy, so clients and the share page can derive it
+ * from the transformation alone, e.g. gen/baseball/<id>/renditions/story.jpg
+ */
+export function makeRenditionKey(options: {
+    type: string;
+    resourceId: string;
+    rendition: string;
+    extension?: string;
+}): string {
+    const ext = (options.extension || "jpg").replace(/^\./, "");
+    return `gen/${options.type}/${options.resourceId}/renditions/${options.rendition}.${ext}`;
 }
 
 function cryptoRandomUUID(): string {
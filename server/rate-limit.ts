@@ -0,0 +1,313 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { and, eq, inArray, lt, sql } from "drizzle-orm";
+import { rateLimitBuckets } from "@shared/schema";
+import { getDb } from "./db";
+import { DatabaseStorage, storage } from "./storage";
+
+export type RateLimitScope = "ip" | "email" | "session";
+
+export interface RateLimitRule {
+  scope: RateLimitScope;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Wait before a retry can succeed; 0 when allowed */
+  retryAfterMs: number;
+  /** Time until the current window's requests stop counting in full */
+  resetMs: number;
+}
+
+/**
+ * Per-window request counters. The limiter keeps one counter per key and fixed window,
+ * and weights the previous window by how much of it still overlaps the sliding window.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  /** Counts for the window starting at `windowStart` and the one before it */
+  getCounts(key: string, windowStart: number, windowMs: number): Promise<{ previous: number; current: number }>;
+  /**
+   * Add one to the current window only if the result stays within `maxCount`.
+   * Returns the new count, or null when the increment was refused.
+   */
+  incrementIfBelow(key: string, windowStart: number, windowMs: number, maxCount: number): Promise<number | null>;
+  /** Take back one increment from the window starting at `windowStart` */
+  decrement(key: string, windowStart: number): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = "memory";
+  private buckets = new Map<string, { count: number; expiresAt: number }>();
+  private nextSweepAt = 0;
+
+  async getCounts(key: string, windowStart: number, windowMs: number) {
+    this.sweep();
+    return {
+      previous: this.buckets.get(`${key}@${windowStart - windowMs}`)?.count ?? 0,
+      current: this.buckets.get(`${key}@${windowStart}`)?.count ?? 0,
+    };
+  }
+
+  async incrementIfBelow(key: string, windowStart: number, windowMs: number, maxCount: number) {
+    const bucketKey = `${key}@${windowStart}`;
+    const bucket = this.buckets.get(bucketKey) ?? { count: 0, expiresAt: windowStart + 2 * windowMs };
+    if (bucket.count + 1 > maxCount) {
+      return null;
+    }
+    bucket.count += 1;
+    this.buckets.set(bucketKey, bucket);
+    return bucket.count;
+  }
+
+  async decrement(key: string, windowStart: number) {
+    const bucket = this.buckets.get(`${key}@${windowStart}`);
+    if (bucket && bucket.count > 0) {
+      bucket.count -= 1;
+    }
+  }
+
+  private sweep() {
+    const now = Date.now();
+    if (now < this.nextSweepAt) {
+      return;
+    }
+    this.nextSweepAt = now + 60_000;
+    this.buckets.forEach((bucket, bucketKey) => {
+      if (bucket.expiresAt <= now) {
+        this.buckets.delete(bucketKey);
+      }
+    });
+  }
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = "postgres";
+  private nextSweepAt = 0;
+
+  async getCounts(key: string, windowStart: number, windowMs: number) {
+    this.sweep();
+    const rows = await getDb()
+      .select({ windowStart: rateLimitBuckets.windowStart, count: rateLimitBuckets.count })
+      .from(rateLimitBuckets)
+      .where(and(
+        eq(rateLimitBuckets.key, key),
+        inArray(rateLimitBuckets.windowStart, [new Date(windowStart - windowMs), new Date(windowStart)]),
+      ));
+    const countAt = (start: number) => rows.find((row) => row.windowStart.getTime() === start)?.count ?? 0;
+    return { previous: countAt(windowStart - windowMs), current: countAt(windowStart) };
+  }
+
+  async incrementIfBelow(key: string, windowStart: number, windowMs: number, maxCount: number) {
+    if (maxCount < 1) {
+      return null;
+    }
+    // Conditional upsert, so concurrent requests can't both take the last slot
+    const [row] = await getDb()
+      .insert(rateLimitBuckets)
+      .values({ key, windowStart: new Date(windowStart), count: 1, expiresAt: new Date(windowStart + 2 * windowMs) })
+      .onConflictDoUpdate({
+        target: [rateLimitBuckets.key, rateLimitBuckets.windowStart],
+        set: { count: sql`${rateLimitBuckets.count} + 1` },
+        setWhere: sql`${rateLimitBuckets.count} + 1 <= ${maxCount}`,
+      })
+      .returning({ count: rateLimitBuckets.count });
+    return row?.count ?? null;
+  }
+
+  async decrement(key: string, windowStart: number) {
+    await getDb()
+      .update(rateLimitBuckets)
+      .set({ count: sql`greatest(${rateLimitBuckets.count} - 1, 0)` })
+      .where(and(eq(rateLimitBuckets.key, key), eq(rateLimitBuckets.windowStart, new Date(windowStart))));
+  }
+
+  private sweep() {
+    const now = Date.now();
+    if (now < this.nextSweepAt) {
+      return;
+    }
+    this.nextSweepAt = now + 60_000;
+    getDb()
+      .delete(rateLimitBuckets)
+      .where(lt(rateLimitBuckets.expiresAt, new Date(now)))
+      .catch((error) => console.error("Failed to sweep expired rate limit buckets:", error));
+  }
+}
+
+let cachedStore: RateLimitStore | null = null;
+
+export function createRateLimitStore(name: string): RateLimitStore {
+  switch (name) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "postgres":
+      return new PostgresRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${name}". Use "memory" or "postgres".`);
+  }
+}
+
+/**
+ * Store selected by RATE_LIMIT_STORE; defaults to Postgres when the app stores its data there,
+ * so limits hold across instances.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!cachedStore) {
+    const fallback = storage instanceof DatabaseStorage ? "postgres" : "memory";
+    const name = (process.env.RATE_LIMIT_STORE || fallback).trim().toLowerCase();
+    cachedStore = createRateLimitStore(name);
+    console.log(`Using rate limit store: ${cachedStore.name}`);
+  }
+  return cachedStore;
+}
+
+/**
+ * Sliding-window check for one key: the previous fixed window counts in proportion to how
+ * much of it still falls inside the last `windowMs`. Refused requests are not counted.
+ */
+export async function consumeRateLimit(
+  store: RateLimitStore,
+  key: string,
+  limit: number,
+  windowMs: number,
+  now: number = Date.now(),
+): Promise<RateLimitDecision> {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const elapsed = now - windowStart;
+  const { previous, current } = await store.getCounts(key, windowStart, windowMs);
+  const carried = previous * (1 - elapsed / windowMs);
+  const resetMs = windowStart + windowMs - now;
+
+  const count = await store.incrementIfBelow(key, windowStart, windowMs, Math.floor(limit - carried));
+  if (count !== null) {
+    return { allowed: true, limit, remaining: Math.max(0, Math.floor(limit - carried - count)), retryAfterMs: 0, resetMs };
+  }
+
+  // How long until the estimate drops far enough for one more request
+  let retryAfterMs: number;
+  if (current + 1 <= limit && previous > 0) {
+    retryAfterMs = windowMs * (1 - (limit - 1 - current) / previous) - elapsed;
+  } else {
+    retryAfterMs = resetMs + (current > 0 ? windowMs * Math.max(0, 1 - (limit - 1) / current) : 0);
+  }
+  return { allowed: false, limit, remaining: 0, retryAfterMs: Math.max(1000, Math.ceil(retryAfterMs)), resetMs };
+}
+
+// Budgets per route; override with RATE_LIMIT_<POLICY>, e.g. RATE_LIMIT_TRANSFORMATIONS="ip=30/1h,session=10/1h"
+export const DEFAULT_RATE_LIMIT_POLICIES = {
+  "transformations": "ip=30/1h,session=12/1h",
+  "custom-prompt": "ip=20/1h,session=10/1h",
+  "enhance-prompt": "ip=60/1h,session=30/1h",
+  "persona-stats": "ip=60/1h,session=30/1h",
+  "email-capture": "ip=30/1h,email=10/1d",
+  "likes": "ip=120/1h,session=60/1h",
+  "login-link": "ip=20/1h,email=5/1h",
+  // Every attempt counts, failed ones included, so guessing passwords runs out quickly
+  "admin-login": "ip=20/15m,email=5/15m",
+  "data-export": "ip=10/1h",
+} as const;
+
+export type RateLimitPolicyName = keyof typeof DEFAULT_RATE_LIMIT_POLICIES;
+
+const DURATION_UNITS_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/**
+ * Parse "scope=limit/window" rules separated by commas, e.g. "ip=30/1h,email=10/1d".
+ */
+export function parseRateLimitRules(spec: string): RateLimitRule[] {
+  return spec.split(",").map((part) => part.trim()).filter(Boolean).map((part) => {
+    const match = /^(ip|email|session)\s*=\s*(\d+)\s*\/\s*(\d+)?\s*([smhd])$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid rate limit rule "${part}". Expected e.g. "ip=30/1h".`);
+    }
+    const [, scope, limit, amount, unit] = match;
+    return {
+      scope: scope as RateLimitScope,
+      limit: Number(limit),
+      windowMs: Number(amount ?? 1) * DURATION_UNITS_MS[unit],
+    };
+  });
+}
+
+export function rateLimitRulesFromEnv(policy: RateLimitPolicyName): RateLimitRule[] {
+  const envName = `RATE_LIMIT_${policy.toUpperCase().replace(/-/g, "_")}`;
+  return parseRateLimitRules(process.env[envName] ?? DEFAULT_RATE_LIMIT_POLICIES[policy]);
+}
+
+function scopeValue(req: Request, scope: RateLimitScope): string | null {
+  switch (scope) {
+    case "ip":
+      return req.ip ?? req.socket.remoteAddress ?? null;
+    case "email": {
+      const email = typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : "";
+      return email || null;
+    }
+    case "session": {
+      // The signed-in customer, else the signed visitor cookie; clearing cookies only mints a
+      // fresh visitor, which the per-IP budget still bounds
+      const accountUserId = req.session?.accountUserId;
+      if (accountUserId) {
+        return `account:${accountUserId}`;
+      }
+      return req.visitorSessionId ? `visitor:${req.visitorSessionId}` : null;
+    }
+  }
+}
+
+/**
+ * Enforce a named policy. Rules are checked in order and the first refusal answers 429 with
+ * Retry-After, taking back what the earlier rules counted so a refused request costs nothing;
+ * rules without a value for their scope are skipped. Store failures let the request through.
+ */
+export function rateLimit(policy: RateLimitPolicyName): RequestHandler {
+  const rules = rateLimitRulesFromEnv(policy);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    let tightest: RateLimitDecision | undefined;
+    try {
+      const store = getRateLimitStore();
+      const now = Date.now();
+      const counted: Array<{ key: string; windowStart: number }> = [];
+      for (const rule of rules) {
+        const value = scopeValue(req, rule.scope);
+        if (!value) {
+          continue;
+        }
+        const key = `${policy}:${rule.scope}:${value}`;
+        const decision = await consumeRateLimit(store, key, rule.limit, rule.windowMs, now);
+        if (!tightest || !decision.allowed || decision.remaining < tightest.remaining) {
+          tightest = decision;
+        }
+        if (!decision.allowed) {
+          await Promise.all(counted.map((entry) => store.decrement(entry.key, entry.windowStart)));
+          break;
+        }
+        counted.push({ key, windowStart: Math.floor(now / rule.windowMs) * rule.windowMs });
+      }
+    } catch (error) {
+      console.error(`Rate limit check failed for ${policy}; allowing request:`, error);
+      return next();
+    }
+
+    if (tightest) {
+      res.setHeader("RateLimit-Limit", tightest.limit);
+      res.setHeader("RateLimit-Remaining", tightest.remaining);
+      res.setHeader("RateLimit-Reset", Math.ceil(tightest.resetMs / 1000));
+    }
+    if (!tightest || tightest.allowed) {
+      return next();
+    }
+
+    const retryAfterSeconds = Math.ceil(tightest.retryAfterMs / 1000);
+    res.setHeader("Retry-After", retryAfterSeconds);
+    res.status(429).json({
+      success: false,
+      message: "Too many requests. Please wait a little and try again.",
+      retryAfter: retryAfterSeconds,
+    });
+  };
+}
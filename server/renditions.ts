@@ -0,0 +1,75 @@
+import sharp from "sharp";
+import type { RenditionName } from "@shared/schema";
+
+interface RenditionSpec {
+  width: number;
+  height: number;
+  /**
+   * Area the artwork must stay inside, as pixels kept clear from each edge. Everything outside is
+   * backdrop, so platform chrome (story header, reply bar) never covers the pet.
+   */
+  safeArea?: { top: number; bottom: number; side: number };
+  /** Crop to fill instead of fitting the whole image over a backdrop */
+  crop?: boolean;
+  quality: number;
+}
+
+export const RENDITION_SPECS: Record<RenditionName, RenditionSpec> = {
+  // Instagram/Facebook feed post
+  feed: { width: 1080, height: 1080, safeArea: { top: 40, bottom: 40, side: 40 }, quality: 88 },
+  // Stories and Reels: the top 250px and bottom 340px sit under the profile header and caption/reply UI
+  story: { width: 1080, height: 1920, safeArea: { top: 250, bottom: 340, side: 60 }, quality: 88 },
+  // Open Graph / Twitter card link preview
+  og: { width: 1200, height: 630, safeArea: { top: 30, bottom: 30, side: 30 }, quality: 85 },
+  thumbnail: { width: 400, height: 400, crop: true, quality: 80 },
+};
+
+async function renderRendition(master: Buffer, spec: RenditionSpec): Promise<Buffer> {
+  if (spec.crop) {
+    return sharp(master, { failOn: "none" })
+      .rotate()
+      .resize(spec.width, spec.height, { fit: "cover", position: sharp.strategy.attention })
+      .jpeg({ quality: spec.quality, mozjpeg: true })
+      .toBuffer();
+  }
+
+  const safe = spec.safeArea ?? { top: 0, bottom: 0, side: 0 };
+  const boxWidth = spec.width - 2 * safe.side;
+  const boxHeight = spec.height - safe.top - safe.bottom;
+
+  // Blurred, darkened enlargement of the artwork fills the frame around it
+  const backdrop = await sharp(master, { failOn: "none" })
+    .rotate()
+    .resize(spec.width, spec.height, { fit: "cover" })
+    .blur(40)
+    .modulate({ brightness: 0.7 })
+    .toBuffer();
+
+  const { data: artwork, info } = await sharp(master, { failOn: "none" })
+    .rotate()
+    .resize(boxWidth, boxHeight, { fit: "inside" })
+    .toBuffer({ resolveWithObject: true });
+
+  return sharp(backdrop)
+    .composite([{
+      input: artwork,
+      left: safe.side + Math.round((boxWidth - info.width) / 2),
+      top: safe.top + Math.round((boxHeight - info.height) / 2),
+    }])
+    .jpeg({ quality: spec.quality, mozjpeg: true })
+    .toBuffer();
+}
+
+/**
+ * Render every social format from the finished (watermarked) image. The whole artwork stays visible
+ * in the share formats, so the watermark and any card lettering survive; only the thumbnail crops.
+ */
+export async function renderRenditions(master: Buffer): Promise<Record<RenditionName, Buffer>> {
+  const entries = Object.entries(RENDITION_SPECS) as Array<[RenditionName, RenditionSpec]>;
+  const rendered: Partial<Record<RenditionName, Buffer>> = {};
+  // One at a time: each holds a full-size decode in memory
+  for (const [name, spec] of entries) {
+    rendered[name] = await renderRendition(master, spec);
+  }
+  return rendered as Record<RenditionName, Buffer>;
+}
@@ -1,589 +1,178 @@
-import Replicate from "replicate";
+import Replicate, { type Prediction } from "replicate";
+import type { ImageGenerator, ImageGenerationRequest, TransformationResult } from "./image-generator";
+import { parseLocalFileUrl, readImageReference } from "./object-store";
 
-if (!process.env.REPLICATE_API_TOKEN) {
-  console.warn("Warning: REPLICATE_API_TOKEN environment variable is not set. Image generation features will not work.");
-}
+const DEFAULT_MODEL = "google/nano-banana";
+
+let replicateClient: Replicate | null = null;
 
-export const replicate = new Replicate({
-  auth: process.env.REPLICATE_API_TOKEN || 'dummy-key-for-startup',
-});
+function getReplicate(): Replicate {
+  if (!replicateClient) {
+    if (!process.env.REPLICATE_API_TOKEN) {
+      console.warn("Warning: REPLICATE_API_TOKEN environment variable is not set. Image generation features will not work.");
+    }
+    replicateClient = new Replicate({
+      auth: process.env.REPLICATE_API_TOKEN || 'dummy-key-for-startup',
+    });
+  }
+  return replicateClient;
+}
 
 /**
- * Helper function to resolve different image input types for Replicate
+ * Resolve an image reference to something Replicate can fetch. Local object-store and
+ * data: URLs are not reachable from Replicate, so their bytes are uploaded to Replicate Files.
  */
 async function resolveImageInput(imageUrl: string): Promise<string> {
-  if (imageUrl.startsWith('temp://')) {
-    // Handle temporary uploaded files by uploading to Replicate first
-    const tempFileId = imageUrl.replace('temp://', '');
-    const tempFiles = (global as any).tempFiles || new Map();
-    const fileData = tempFiles.get(tempFileId);
-
-    if (!fileData) {
-      throw new Error('Uploaded file not found or expired');
-    }
-
-    console.log("Uploading temp file to Replicate...");
-    console.log("File buffer size:", fileData.buffer.length, "bytes");
-    console.log("File MIME type:", fileData.mimetype);
-
-    // Upload the buffer to Replicate and get a URL
-    const uploadedFile = await replicate.files.create(fileData.buffer);
-    console.log("Replicate upload successful:", uploadedFile.id);
-    console.log("Available URLs:", uploadedFile.urls);
-
-    // Always return a string URL for downstream consumers
-    if (uploadedFile?.urls?.get && typeof uploadedFile.urls.get === 'string') {
-      return uploadedFile.urls.get as string;
-    }
-    if (typeof (uploadedFile as any)?.url === 'function') {
-      const u = (uploadedFile as any).url();
-      return typeof u === 'string' ? u : u?.toString?.() || String(u);
-    }
-    throw new Error('Failed to obtain URL for uploaded temp file');
-  } else {
+  if (!parseLocalFileUrl(imageUrl) && !imageUrl.startsWith('data:')) {
     // Handle regular HTTP URLs
     return imageUrl;
   }
-}
 
-// Types for Replicate model inputs and outputs
-export interface BaseballCardInput {
-  petImageUrl: string;
-  petName: string;
-  petBreed?: string;
-  gender?: string;
-  team?: string;
-  position?: string;
-  stats?: Record<string, number>;
-}
+  const object = await readImageReference(imageUrl);
+  console.log("Uploading local image to Replicate...", { size: object.body.length, contentType: object.contentType });
 
-export interface SuperheroInput {
-  petImageUrl: string;
-  petName: string;
-  petBreed?: string;
-  gender?: string;
-  heroName?: string;
-  powers?: string[];
-}
+  // Upload the buffer to Replicate and get a URL
+  const uploadedFile = await getReplicate().files.create(object.body);
+  console.log("Replicate upload successful:", uploadedFile.id);
 
-export interface CustomPromptInput {
-  prompt: string;
-  petName: string;
-  aspectRatio: string;
-  outputFormat: string;
+  // Always return a string URL for downstream consumers
+  if (uploadedFile?.urls?.get && typeof uploadedFile.urls.get === 'string') {
+    return uploadedFile.urls.get as string;
+  }
+  if (typeof (uploadedFile as any)?.url === 'function') {
+    const u = (uploadedFile as any).url();
+    return typeof u === 'string' ? u : u?.toString?.() || String(u);
+  }
+  throw new Error('Failed to obtain URL for uploaded image');
 }
 
-export interface TransformationResult {
-  success: boolean;
-  imageUrl?: string;
-  error?: string;
+function toUrlString(value: unknown): string | null {
+  if (!value) {
+    return null;
+  }
+  const str = typeof value === 'string' ? value : (value as any)?.toString?.();
+  return typeof str === 'string' && /^https?:\/\//.test(str) ? str : null;
 }
 
 /**
- * Transform a pet photo into a baseball card style image
+ * Collapse the many output shapes Replicate returns (URL strings, arrays,
+ * FileOutput streams, plain objects) into a single image URL.
  */
-export async function createBaseballCard(input: BaseballCardInput): Promise<TransformationResult> {
-  try {
-    // Import storage here to avoid circular dependency
-    const { storage } = await import("./storage");
-
-    // Get the active baseball prompt template from backend
-    const template = await storage.getActivePromptTemplate('baseball');
-    let basePrompt = template?.basePrompt || `Create a professional baseball card featuring a ${input.petName} pet. 
-    Style: Vintage baseball card design with clean borders, team colors, and stats section.
-    Pet name: "${input.petName}"
-    ${input.team ? `Team: "${input.team}"` : ''}
-    ${input.position ? `Position: "${input.position}"` : 'Position: "Good Boy/Girl"'}
-    Include realistic pet stats like "Fetch Success Rate", "Treats Consumed", "Naps Per Day".
-    Professional sports photography style, high quality, detailed.`;
-
-    // Get the best performing variant if available
-    if (template) {
-      const bestVariant = await storage.getBestPromptVariant(template.id);
-      if (bestVariant && bestVariant.id) {
-        basePrompt = bestVariant.prompt;
-        // Update usage stats
-        await storage.updatePromptVariantStats(bestVariant.id, bestVariant.successRate || 0);
-      }
-    }
-
-    // Replace placeholders with actual values - use replaceAll for multiple occurrences
-    const prompt = basePrompt
-      .replaceAll('{petName}', input.petName)
-      .replaceAll('{petBreed}', convertBreedToReadable(input.petBreed || 'pet'))
-      .replaceAll('{team}', input.team || '')
-      .replaceAll('{position}', input.position || 'Good Boy/Girl')
-      .replaceAll('{gender}', input.gender || 'pet');
-
-    // Resolve the image input using our shared helper
-    const resolvedImage = await resolveImageInput(input.petImageUrl);
-
-    console.log("=== BEFORE NANO-BANANA CALL ===");
-    console.log("Model: google/nano-banana");
-    console.log("Prompt:", prompt);
-    console.log("Image type:", typeof resolvedImage);
-    console.log("Image URL:", resolvedImage);
-    console.log("=== CALLING REPLICATE ===");
-
-    const output = await replicate.run(
-      "google/nano-banana",
-      {
-        input: {
-          image_input: [resolvedImage], // nano-banana expects image_input as array
-          prompt: prompt,
-          output_format: "jpg",
-        }
-      }
-    );
-
-    // Wait for the prediction to complete if it's a stream/promise
-    let finalOutput: any = output;
-    if (output && typeof output === 'object' && 'then' in output) {
-      finalOutput = await (output as Promise<any>);
-    }
-
-    console.log("=== BASEBALL CARD TRANSFORMATION DEBUG ===");
-    console.log("Input prompt:", prompt);
-    console.log("Resolved image URL:", resolvedImage);
-    console.log("Output constructor:", finalOutput?.constructor?.name);
-    console.log("Output type:", typeof finalOutput);
-    console.log("Is array:", Array.isArray(finalOutput));
-    console.log("Output keys:", finalOutput && typeof finalOutput === 'object' ? Object.keys(finalOutput) : 'N/A');
-    console.log("=== END DEBUG ===");
-
-    // Handle Blob/file outputs by uploading them to get a URL
-    if ((typeof Blob !== 'undefined' && finalOutput instanceof Blob) || (finalOutput && typeof finalOutput.arrayBuffer === 'function')) {
-      console.log("Detected Blob output, uploading to get URL...");
-      try {
-        const uploadedResult = await replicate.files.create(finalOutput);
-        console.log("Successfully uploaded result:", uploadedResult.id);
-        return {
-          success: true,
-          imageUrl: uploadedResult.urls.get,
-        };
-      } catch (error) {
-        console.error("Failed to upload result blob:", error);
-        return {
-          success: false,
-          error: "Failed to process generated image",
-        };
-      }
-    }
-
-    // Handle direct URL string responses
-    if (typeof finalOutput === 'string' && finalOutput && finalOutput.includes('http')) {
-      console.log("Successfully returning image URL:", finalOutput);
-      return {
-        success: true,
-        imageUrl: finalOutput,
-      };
-    }
-
-    // Handle array responses
-    if (Array.isArray(finalOutput) && finalOutput.length > 0) {
-      let imageUrl = finalOutput[0];
-
-      // Handle ReadableStream or other non-string responses
-      if (typeof imageUrl !== 'string') {
-        console.log("Non-string response detected, type:", typeof imageUrl);
-        console.log("Response value:", imageUrl);
-
-        // If it's a ReadableStream or URL object, try to extract the actual URL
-        if (imageUrl && typeof imageUrl === 'object' && imageUrl.toString) {
-          imageUrl = imageUrl.toString();
-        } else {
-          console.error("Unable to extract URL from response:", imageUrl);
-          return {
-            success: false,
-            error: "Invalid image URL response from AI service",
-          };
-        }
-      }
+async function normalizeReplicateOutput(output: unknown): Promise<string | null> {
+  let finalOutput: any = output;
+  if (finalOutput && typeof finalOutput === 'object' && 'then' in finalOutput) {
+    finalOutput = await finalOutput;
+  }
 
-      console.log("Successfully returning image URL:", imageUrl);
-      return {
-        success: true,
-        imageUrl: imageUrl,
-      };
-    }
+  if (Array.isArray(finalOutput)) {
+    return finalOutput.length > 0 ? normalizeReplicateOutput(finalOutput[0]) : null;
+  }
 
-    // Handle object responses that might contain URLs
-    if (finalOutput && typeof finalOutput === 'object') {
-      console.log("Object output detected, checking for URL fields...");
-      if (finalOutput.image && typeof finalOutput.image === 'string') {
-        return {
-          success: true,
-          imageUrl: finalOutput.image,
-        };
-      }
-      if (finalOutput.images && Array.isArray(finalOutput.images) && finalOutput.images.length > 0) {
-        return {
-          success: true,
-          imageUrl: finalOutput.images[0],
-        };
-      }
+  if (typeof finalOutput === 'string') {
+    return toUrlString(finalOutput);
+  }
 
-      // Check if it's a FileOutput with url() method
-      console.log("Checking FileOutput object properties...");
-      console.log("Available methods/properties:", Object.getOwnPropertyNames(finalOutput));
-      console.log("Prototype methods:", Object.getOwnPropertyNames(Object.getPrototypeOf(finalOutput)));
+  if (!finalOutput || typeof finalOutput !== 'object') {
+    return null;
+  }
 
-      // Check if FileOutput has a url property or method
-      if (finalOutput.url) {
-        if (typeof finalOutput.url === 'function') {
-          const imageUrl = finalOutput.url();
-          console.log("Called URL function, got:", imageUrl);
-          // Convert URL object to string if needed
-          const urlString = typeof imageUrl === 'string' ? imageUrl : imageUrl.toString();
-          return {
-            success: true,
-            imageUrl: urlString,
-          };
-        } else {
-          console.log("Found URL property:", finalOutput.url);
-          return {
-            success: true,
-            imageUrl: finalOutput.url,
-          };
-        }
-      }
+  // FileOutput exposes url() as a method; older clients returned a plain property
+  if (typeof finalOutput.url === 'function') {
+    const url = toUrlString(finalOutput.url());
+    if (url) return url;
+  } else if (finalOutput.url) {
+    const url = toUrlString(finalOutput.url);
+    if (url) return url;
+  }
 
-      // If no URL method found, try uploading the object as a stream/binary
-      console.log("Attempting to upload stream/binary output to Replicate Files...");
-      try {
-        const uploadedFile = await replicate.files.create(finalOutput as any);
-        console.log("Successfully uploaded stream output:", uploadedFile.id);
-        return {
-          success: true,
-          imageUrl: uploadedFile.urls.get,
-        };
-      } catch (uploadError) {
-        console.log("Failed to upload stream output:", uploadError);
-        // Continue to error
-      }
-    }
+  if (typeof finalOutput.image === 'string') {
+    return toUrlString(finalOutput.image);
+  }
+  if (Array.isArray(finalOutput.images) && finalOutput.images.length > 0) {
+    return normalizeReplicateOutput(finalOutput.images[0]);
+  }
+  if (finalOutput.urls?.get) {
+    return toUrlString(finalOutput.urls.get);
+  }
 
-    console.log("No valid output format detected");
-    return {
-      success: false,
-      error: "No image generated",
-    };
-  } catch (error) {
-    console.error("=== BASEBALL CARD ERROR ===");
-    console.error("Full error object:", error);
-    console.error("Error message:", error instanceof Error ? error.message : "Unknown error");
-    console.error("Error stack:", error instanceof Error ? error.stack : "No stack");
-    console.error("=== END ERROR ===");
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error",
-    };
+  // Blob or stream without a URL: upload it to Replicate Files to obtain one
+  try {
+    const uploadedFile = await getReplicate().files.create(finalOutput);
+    console.log("Uploaded stream output to Replicate Files:", uploadedFile.id);
+    return toUrlString(uploadedFile.urls.get);
+  } catch (uploadError) {
+    console.error("Failed to upload stream output:", uploadError);
+    return null;
   }
 }
 
 /**
- * Transform a pet photo into a superhero style image
+ * Seed a prediction ran with: the explicit input, else the "Using seed: N" line many models log.
  */
-export async function createSuperheroImage(input: SuperheroInput): Promise<TransformationResult> {
-  try {
-    // Import storage here to avoid circular dependency
-    const { storage } = await import("./storage");
-
-    const heroName = input.heroName || `Super ${input.petName}`;
-    const powers = input.powers?.join(", ") || "super speed, incredible loyalty, treat detection";
-
-    // Get the active superhero prompt template from backend
-    const template = await storage.getActivePromptTemplate('superhero');
-    let basePrompt = template?.basePrompt || `Create a superhero-style image featuring a {petName} pet as "{heroName}".
-    Style: Comic book superhero aesthetic with cape, mask, and heroic pose.
-    Pet name: "{petName}"
-    Hero name: "{heroName}"
-    Powers: {powers}
-    Dynamic superhero pose, vibrant colors, cape flowing, heroic lighting.
-    Professional comic book art style, high quality, detailed.`;
-
-    // Get the best performing variant if available
-    if (template) {
-      const bestVariant = await storage.getBestPromptVariant(template.id);
-      if (bestVariant && bestVariant.id) {
-        basePrompt = bestVariant.prompt;
-        // Update usage stats
-        await storage.updatePromptVariantStats(bestVariant.id, bestVariant.successRate || 0);
-      }
-    }
-
-    // Replace placeholders with actual values - use replaceAll for multiple occurrences
-    const prompt = basePrompt
-      .replaceAll('{petName}', input.petName)
-      .replaceAll('{petBreed}', convertBreedToReadable(input.petBreed || 'pet'))
-      .replaceAll('{heroName}', heroName)
-      .replaceAll('{powers}', powers)
-      .replaceAll('{gender}', input.gender || 'pet');
-
-    // Resolve the image input using our shared helper
-    const resolvedImage = await resolveImageInput(input.petImageUrl);
-
-    console.log("=== BEFORE NANO-BANANA CALL ===");
-    console.log("Model: google/nano-banana");
-    console.log("Prompt:", prompt);
-    console.log("Image type:", typeof resolvedImage);
-    console.log("Image URL:", resolvedImage);
-    console.log("=== CALLING REPLICATE ===");
-
-    const output = await replicate.run(
-      "google/nano-banana",
-      {
-        input: {
-          image_input: [resolvedImage], // nano-banana expects image_input as array
-          prompt: prompt,
-          output_format: "jpg",
-        }
-      }
-    );
-
-    // Wait for the prediction to complete if it's a stream/promise
-    let finalOutput: any = output;
-    if (output && typeof output === 'object' && 'then' in output) {
-      finalOutput = await (output as Promise<any>);
-    }
-
-    console.log("=== SUPERHERO TRANSFORMATION DEBUG ===");
-    console.log("Input prompt:", prompt);
-    console.log("Resolved image type:", typeof resolvedImage);
-    console.log("Resolved image URL:", resolvedImage);
-    console.log("Output constructor:", finalOutput?.constructor?.name);
-    console.log("Output type:", typeof finalOutput);
-    console.log("Is array:", Array.isArray(finalOutput));
-    console.log("Output keys:", finalOutput && typeof finalOutput === 'object' ? Object.keys(finalOutput) : 'N/A');
-    console.log("=== END DEBUG ===");
-
-    // nano-banana returns a direct URL string, not an array
-    if (typeof finalOutput === 'string' && finalOutput && finalOutput.includes('http')) {
-      console.log("Successfully returning image URL:", finalOutput);
-      return {
-        success: true,
-        imageUrl: finalOutput,
-      };
-    } else if (Array.isArray(finalOutput) && finalOutput.length > 0) {
-      let imageUrl = finalOutput[0];
-
-      // Handle ReadableStream or other non-string responses
-      if (typeof imageUrl !== 'string') {
-        console.log("Non-string response detected, type:", typeof imageUrl);
-        console.log("Response value:", imageUrl);
-
-        // If it's a ReadableStream or URL object, try to extract the actual URL
-        if (imageUrl && typeof imageUrl === 'object' && imageUrl.toString) {
-          imageUrl = imageUrl.toString();
-        } else {
-          console.error("Unable to extract URL from response:", imageUrl);
-          return {
-            success: false,
-            error: "Invalid image URL response from AI service",
-          };
-        }
-      }
-
-      console.log("Successfully returning image URL:", imageUrl);
-      return {
-        success: true,
-        imageUrl: imageUrl,
-      };
-    }
-
-    // Handle stream/binary outputs - first check if it's a FileOutput with direct URL access
-    if (finalOutput && typeof finalOutput === 'object' && !Array.isArray(finalOutput)) {
-      console.log("Checking FileOutput object properties...");
-      console.log("Available methods/properties:", Object.getOwnPropertyNames(finalOutput));
-      console.log("Prototype methods:", Object.getOwnPropertyNames(Object.getPrototypeOf(finalOutput)));
-
-      // Check if FileOutput has a url property or method
-      if (finalOutput.url) {
-        if (typeof finalOutput.url === 'function') {
-          const imageUrl = finalOutput.url();
-          console.log("Called URL function, got:", imageUrl);
-          // Convert URL object to string if needed
-          const urlString = typeof imageUrl === 'string' ? imageUrl : imageUrl.toString();
-          return {
-            success: true,
-            imageUrl: urlString,
-          };
-        } else {
-          console.log("Found URL property:", finalOutput.url);
-          return {
-            success: true,
-            imageUrl: finalOutput.url,
-          };
-        }
-      }
-
-      // Check if FileOutput has a file method or property that gives us a URL
-      if (finalOutput.urls && finalOutput.urls.get) {
-        console.log("Found URLs object:", finalOutput.urls.get);
-        return {
-          success: true,
-          imageUrl: finalOutput.urls.get,
-        };
-      }
-
-      console.log("Attempting to upload stream/binary output to Replicate Files...");
-      try {
-        const uploadedFile = await replicate.files.create(finalOutput as any);
-        console.log("Successfully uploaded stream output:", uploadedFile.id);
-        return {
-          success: true,
-          imageUrl: uploadedFile.urls.get,
-        };
-      } catch (uploadError) {
-        console.log("Failed to upload stream output:", uploadError);
-        // Continue to other checks
-      }
-    }
-
-    return {
-      success: false,
-      error: "No image generated",
-    };
-  } catch (error) {
-    console.error("=== SUPERHERO ERROR ===");
-    console.error("Full error object:", error);
-    console.error("Error message:", error instanceof Error ? error.message : "Unknown error");
-    console.error("Error stack:", error instanceof Error ? error.stack : "No stack");
-    console.error("=== END ERROR ===");
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error",
-    };
+function predictionSeed(prediction: Prediction | undefined): string | undefined {
+  const inputSeed = (prediction?.input as { seed?: unknown } | undefined)?.seed;
+  if (inputSeed !== undefined && inputSeed !== null) {
+    return String(inputSeed);
   }
+  return /\bseed\b\s*[:=]?\s*(\d+)/i.exec(prediction?.logs ?? '')?.[1];
 }
 
 /**
- * Generate a custom image using a user-provided prompt
+ * Image generation backed by a Replicate-hosted model (google/nano-banana by default).
  */
-export async function createCustomPromptImage(input: CustomPromptInput): Promise<TransformationResult> {
-  try {
-    // Use the custom prompt directly with the pet name integrated
-    const enhancedPrompt = `${input.prompt}. Pet name: "${input.petName}". High quality, detailed, professional.`;
+export class ReplicateImageGenerator implements ImageGenerator {
+  readonly name = "replicate";
+  private readonly model: `${string}/${string}`;
 
-    const output = await replicate.run(
-      "google/nano-banana",
-      {
-        input: {
-          prompt: enhancedPrompt,
-          image_input: [], // No input image for custom prompts
-          output_format: input.outputFormat,
-        }
-      }
-    );
+  constructor(model: string = process.env.REPLICATE_IMAGE_MODEL || DEFAULT_MODEL) {
+    this.model = model as `${string}/${string}`;
+  }
 
-    // Wait for the prediction to complete if it's a stream/promise
-    let finalOutput: any = output;
-    if (output && typeof output === 'object' && 'then' in output) {
-      finalOutput = await (output as Promise<any>);
-    }
+  async generate(request: ImageGenerationRequest): Promise<TransformationResult> {
+    try {
+      const imageInputs = await Promise.all(request.imageUrls.map(resolveImageInput));
+      const identifier = (request.model || this.model) as `${string}/${string}` | `${string}/${string}:${string}`;
 
-    console.log("Custom prompt Replicate output:", JSON.stringify(finalOutput, null, 2));
-    console.log("Output type:", typeof finalOutput);
-    console.log("Is array:", Array.isArray(finalOutput));
+      console.log("=== CALLING REPLICATE ===", { model: identifier, prompt: request.prompt, imageInputs });
 
-    // nano-banana returns a direct URL string, not an array
-    if (typeof finalOutput === 'string' && finalOutput && finalOutput.includes('http')) {
-      console.log("Successfully returning image URL:", finalOutput);
-      return {
-        success: true,
-        imageUrl: finalOutput,
+      // The progress callback sees the final prediction, which carries the billed predict_time
+      let prediction: Prediction | undefined;
+      const output = await getReplicate().run(identifier, {
+        input: {
+          image_input: imageInputs, // nano-banana expects image_input as array
+          prompt: request.prompt,
+          output_format: request.outputFormat || "jpg",
+          ...(request.aspectRatio ? { aspect_ratio: request.aspectRatio } : {}),
+          ...(request.seed !== undefined ? { seed: Number(request.seed) } : {}),
+        },
+      }, (update) => {
+        prediction = update;
+      });
+      const details = {
+        provider: this.name,
+        model: identifier.split(':')[0],
+        modelVersion: prediction?.version,
+        predictionId: prediction?.id,
+        seed: predictionSeed(prediction),
+        computeSeconds: prediction?.metrics?.predict_time,
       };
-    } else if (Array.isArray(finalOutput) && finalOutput.length > 0) {
-      let imageUrl = finalOutput[0];
 
-      // Handle ReadableStream or other non-string responses
-      if (typeof imageUrl !== 'string') {
-        console.log("Non-string response detected, type:", typeof imageUrl);
-        console.log("Response value:", imageUrl);
-
-        // If it's a ReadableStream or URL object, try to extract the actual URL
-        if (imageUrl && typeof imageUrl === 'object' && imageUrl.toString) {
-          imageUrl = imageUrl.toString();
-        } else {
-          console.error("Unable to extract URL from response:", imageUrl);
-          return {
-            success: false,
-            error: "Invalid image URL response from AI service",
-          };
-        }
+      const imageUrl = await normalizeReplicateOutput(output);
+      if (!imageUrl) {
+        console.error("No valid output format detected:", output);
+        return { success: false, ...details, error: "No image generated" };
       }
 
-      console.log("Successfully returning custom prompt image URL:", imageUrl);
+      console.log("Successfully returning image URL:", imageUrl);
+      return { success: true, imageUrl, ...details };
+    } catch (error) {
+      console.error("Replicate generation error:", error);
       return {
-        success: true,
-        imageUrl: imageUrl,
+        success: false,
+        provider: this.name,
+        model: (request.model || this.model).split(':')[0],
+        error: error instanceof Error ? error.message : "Unknown error",
       };
     }
-
-    return {
-      success: false,
-      error: "No image generated",
-    };
-  } catch (error) {
-    console.error("Custom prompt image generation error:", error);
-    console.error("Error details:", JSON.stringify(error, null, 2));
-    if (error instanceof Error) {
-      console.error("Error message:", error.message);
-      console.error("Error stack:", error.stack);
-    }
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error",
-    };
   }
 }
-
-/**
- * Convert breed form values to readable names
- */
-function convertBreedToReadable(breed: string): string {
-  const breedMap: Record<string, string> = {
-    'golden-retriever': 'Golden Retriever',
-    'labrador': 'Labrador',
-    'german-shepherd': 'German Shepherd',
-    'bulldog': 'Bulldog',
-    'poodle': 'Poodle',
-    'cat-persian': 'Persian Cat',
-    'cat-siamese': 'Siamese Cat',
-    'cat-maine-coon': 'Maine Coon',
-    'other': 'beloved pet',
-  };
-  return breedMap[breed] || breed || 'pet';
-}
-
-/**
- * Generate mock stats for baseball cards
- */
-export function generateBaseballStats(petName: string, traits: string[] = []): Record<string, number> {
-  const baseStats = {
-    "Fetch Success Rate": Math.floor(Math.random() * 15) + 85, // 85-99%
-    "Treats Per Day": Math.floor(Math.random() * 10) + 5, // 5-14
-    "Naps Completed": Math.floor(Math.random() * 5) + 8, // 8-12
-    "Belly Rubs Given": Math.floor(Math.random() * 20) + 30, // 30-49
-    "Squirrels Chased": Math.floor(Math.random() * 25) + 15, // 15-39
-  };
-
-  // Adjust stats based on traits
-  traits.forEach(trait => {
-    switch (trait.toLowerCase()) {
-      case 'energetic':
-        baseStats["Fetch Success Rate"] = Math.min(99, baseStats["Fetch Success Rate"] + 5);
-        baseStats["Squirrels Chased"] = Math.min(99, baseStats["Squirrels Chased"] + 10);
-        break;
-      case 'lazy':
-        baseStats["Naps Completed"] = Math.min(20, baseStats["Naps Completed"] + 5);
-        baseStats["Belly Rubs Given"] = Math.min(99, baseStats["Belly Rubs Given"] + 10);
-        break;
-      case 'foodie':
-        baseStats["Treats Per Day"] = Math.min(30, baseStats["Treats Per Day"] + 8);
-        break;
-    }
-  });
-
-  return baseStats;
-}
\ No newline at end of file
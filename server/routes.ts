@@ -2,13 +2,34 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import { z } from "zod";
-import { storage } from "./storage";
-import { makeUploadKey, uploadBufferToR2, getPresignedGetUrl, makeGeneratedKey, generatedPublicUrlForKey } from "./r2";
-import { insertUserSchema, insertPetTransformationSchema, promptTemplateSchema, promptVariantSchema } from "@shared/schema";
+import { storage, type LikedTransformation } from "./storage";
+import { makeUploadKey, uploadBufferToR2 } from "./r2";
+import { fetchProviderImage, getObjectStore, LocalObjectStore, OBJECT_BUCKETS, type ObjectBucket } from "./object-store";
+import { insertUserSchema, insertPetTransformationSchema, createPromptTemplateSchema, updatePromptTemplateSchema, promptChangeNoteSchema, adminLoginSchema, createAdminUserSchema, updateAdminUserSchema, type AdminUser, promptVariantSchema, insertThemeSchema, updateThemeSchema, transformationFeedbackSchema, updateTransformationVisibilitySchema, galleryQuerySchema, moderationQueueQuerySchema, moderationDecisionSchema, outboxQuerySchema, outboxReplaySchema, magicLinkRequestSchema, verifyLoginSchema, claimTransformationsSchema, accountDeletionSchema, formatPetNames, type GenerationJob, type OutcomeSignal, type SafetySubject } from "@shared/schema";
 import { watermarkAndPreferJpeg } from "./watermark";
-import { createBaseballCard, createSuperheroImage, generateBaseballStats, createCustomPromptImage } from "./replicate";
+import { createCustomPromptImage } from "./generation";
+import { resultToDisplayUrl } from "./image-generator";
 import { enhancePrompt, generatePromptSuggestions, generatePetDescription, generatePersonaStats } from "./openai";
-import { trackDownloadInDrip } from "./drip";
+import { dripDownloadMessage, kickOutboxDispatcher } from "./outbox";
+import { enqueueTransformationJob, describeJob, subscribeToJob, isTerminalStatus } from "./jobs";
+import { validatePetPhoto } from "./pet-detection";
+import { isAcceptedUpload, normalizeUpload, type NormalizedImage } from "./image-normalize";
+import { themeGeneratorKeys, themeStatGeneratorKeys, toPublicTheme } from "./themes";
+import { rewardForSignal } from "./prompt-bandit";
+import { diffText } from "./text-diff";
+import { rateLimit } from "./rate-limit";
+import { getBudgetStatus, requireAiBudget } from "./usage";
+import { clearAccountSessionCookie, completeLogin, configureAccountSessions, endAccountSession, requireAccount, sendLoginLink, toAccountCreation, toPublicAccountUser, verifiedClaimIds } from "./accounts";
+import { authenticateAdmin, clearAdminSessionCookie, configureAdminSessions, endAdminSession, ensureBootstrapOwner, hashPassword, requireAdmin, startAdminSession, toPublicAdminUser } from "./admin-auth";
+import { issueOwnerToken, isRequestOwner, toPublicTransformation } from "./ownership";
+import { visitorSessions } from "./visitor-session";
+import { resolveUploadReferences, UploadReferenceError, UPLOAD_URL_TTL_SECONDS } from "./uploads";
+import { buildUserExport, eraseUser, ErasureBlockedError, verifyDeletionLog } from "./privacy";
+import { decodeGalleryCursor, encodeGalleryCursor, LEADERBOARD_WINDOW_MS, periodStart, toGalleryItem, visitorKeyFor } from "./gallery";
+import { renderShareInReviewPage, renderShareNotFoundPage, renderSharePage, siteOrigin } from "./share-page";
+import { isModerationHidden } from "./moderation";
+import { assertSafeImage, assertSafeText, ContentRejectedError } from "./safety";
+import { PROMPT_FILTERS, PROMPT_VARIABLES, SAMPLE_PROMPT_CONTEXT, renderPromptTemplate, validatePromptTemplate } from "./prompt-template";
 
 const visitIncrementSchema = z.object({
   transformsDelta: z.number().min(1).max(50).default(5),
@@ -22,14 +43,38 @@ const upload = multer({
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
   fileFilter: (req, file, cb) => {
-    if (file.mimetype.match(/^image\/(jpeg|jpg|png)$/)) {
+    if (isAcceptedUpload(file.mimetype, file.originalname)) {
       cb(null, true);
     } else {
-      cb(new Error('Only JPEG and PNG files are allowed'));
+      cb(new Error('Only JPEG, PNG, WebP, AVIF and HEIC files are allowed'));
     }
   },
 });
 
+/**
+ * Credit an outcome signal to the prompt variant behind a transformation. Best-effort:
+ * scoring failures are logged and never fail the user's action.
+ */
+async function recordPromptOutcome(transformationId: string, signal: OutcomeSignal, value?: number): Promise<boolean> {
+  try {
+    const outcome = await storage.recordTransformationOutcome({
+      transformationId,
+      signal,
+      value,
+      reward: rewardForSignal(signal, value),
+    });
+    return outcome !== undefined;
+  } catch (error) {
+    console.error("Failed to record prompt outcome:", { transformationId, signal, error });
+    return false;
+  }
+}
+
+// Prompt revisions are attributed to the signed-in admin
+function revisionAuthor(user: AdminUser) {
+  return { author: user.name, authorId: user.id };
+}
+
 const emailCaptureSchema = z.object({
   email: z.string().email(),
   name: z.string().optional(),
@@ -61,6 +106,11 @@ const petDescriptionSchema = z.object({
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Anonymous visitor cookie, then customer sessions; both must be in place before
+  // /api/transformations so new creations record who made them
+  app.use(["/api", "/p"], visitorSessions());
+  configureAccountSessions(app);
+
   // Health check endpoint
   app.get("/api/health", (req, res) => {
     res.json({ status: "ok", timestamp: new Date().toISOString() });
@@ -111,6 +161,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Active themes for the theme picker
+  app.get("/api/themes", async (req, res) => {
+    try {
+      const themes = await storage.getThemes();
+      res.json({ success: true, themes: themes.map(toPublicTheme) });
+    } catch (error) {
+      console.error("Failed to get themes:", error);
+      res.status(500).json({ success: false, message: "Failed to load themes", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
   // Get site-wide metrics
   app.get("/api/stats", async (req, res) => {
     try {
@@ -153,6 +214,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Serve objects from the local-disk object store (R2 serves its own URLs)
+  app.get("/api/files/:bucket/*", async (req, res) => {
+    try {
+      const store = getObjectStore();
+      const bucket = req.params.bucket as ObjectBucket;
+      const key = (req.params as Record<string, string>)[0];
+      if (!(store instanceof LocalObjectStore) || !OBJECT_BUCKETS.includes(bucket) || !key) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      // Uploads are private: require an unexpired signature. Generated images are public.
+      if (bucket === 'uploads') {
+        const expires = Number(req.query.expires);
+        const signature = typeof req.query.sig === 'string' ? req.query.sig : '';
+        if (!store.verify(bucket, key, expires, signature)) {
+          return res.status(403).json({ message: "Invalid or expired file link" });
+        }
+      }
+
+      const object = await store.get(bucket, key);
+      if (!object) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      res.setHeader('Content-Type', object.contentType || 'application/octet-stream');
+      res.setHeader('Cache-Control', bucket === 'generated' ? 'public, max-age=31536000, immutable' : 'private, max-age=0, no-store');
+      res.send(object.body);
+    } catch (error) {
+      console.error("File serve error:", error);
+      res.status(500).json({ message: "Failed to load file", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
   // File upload endpoint
   app.post("/api/upload", upload.single('petPhoto'), async (req, res) => {
     try {
@@ -160,235 +254,145 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      // Mock pet detection (in real app, this would use AI)
-      const isPetDetected = Math.random() > 0.1; // 90% success rate
-
-      if (!isPetDetected) {
-        return res.status(400).json({
-          message: "We couldn't detect a pet in this image. Please try another photo."
+      // Re-encode before anything else touches the bytes so EXIF/GPS never reaches storage
+      let normalized: NormalizedImage;
+      try {
+        normalized = await normalizeUpload(req.file.buffer);
+      } catch (normalizeError) {
+        console.warn("Upload normalization failed:", normalizeError);
+        return res.status(422).json({
+          success: false,
+          message: "We couldn't read this image file. Please try a different photo.",
+          reasons: [{ code: "unreadable", message: "We couldn't read this image file. Please try a different photo." }],
         });
       }
-
-      const hasR2Config = !!(process.env.R2_ACCOUNT_ID && process.env.R2_ACCESS_KEY_ID && process.env.R2_SECRET_ACCESS_KEY && process.env.R2_UPLOADS_BUCKET);
-      console.log("/api/upload hasR2Config:", hasR2Config, {
-        accountId: !!process.env.R2_ACCOUNT_ID,
-        accessKey: !!process.env.R2_ACCESS_KEY_ID,
-        secretKey: !!process.env.R2_SECRET_ACCESS_KEY,
-        uploadsBucket: process.env.R2_UPLOADS_BUCKET,
+      console.log("Normalized upload:", {
+        sourceFormat: normalized.sourceFormat,
+        originalBytes: req.file.buffer.length,
+        bytes: normalized.buffer.length,
+        width: normalized.width,
+        height: normalized.height,
       });
 
-      if (!hasR2Config) {
-        // Fallback to in-memory temp storage if R2 not configured
-        const tempFileId = `temp_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-        (global as any).tempFiles = (global as any).tempFiles || new Map();
-        (global as any).tempFiles.set(tempFileId, {
-          buffer: req.file.buffer,
-          mimetype: req.file.mimetype,
-          originalname: req.file.originalname,
-          uploadedAt: Date.now()
-        });
-
-        for (const [id, fileData] of (global as any).tempFiles.entries()) {
-          if (Date.now() - fileData.uploadedAt > 3600000) {
-            (global as any).tempFiles.delete(id);
-          }
-        }
-
-        return res.json({
-          success: true,
-          fileUrl: `temp://${tempFileId}`,
-          message: "Pet photo uploaded successfully (temp storage)",
+      const validation = await validatePetPhoto(normalized.buffer, normalized.contentType);
+      if (!validation.ok) {
+        return res.status(422).json({
+          success: false,
+          message: validation.issues[0]?.message || "This photo can't be used. Please try another one.",
+          reasons: validation.issues,
         });
       }
-
-      // Upload directly to R2 uploads bucket and return a presigned GET URL for downstream use
-      const key = makeUploadKey({ userId: 'anon', originalName: req.file.originalname });
-      console.log("Uploading to R2:", { bucket: process.env.R2_UPLOADS_BUCKET, key, contentType: req.file.mimetype, size: req.file.buffer.length });
-      await uploadBufferToR2({
-        bucket: process.env.R2_UPLOADS_BUCKET as string,
+      await assertSafeImage("upload", normalized.buffer, normalized.contentType);
+
+      // Store in the private uploads bucket and return a signed GET URL for downstream use
+      const store = getObjectStore();
+      const key = makeUploadKey({ userId: 'anon', originalName: req.file.originalname, extension: normalized.extension });
+      console.log("Storing upload:", { store: store.name, key, contentType: normalized.contentType, size: normalized.buffer.length });
+      await store.put({
+        bucket: 'uploads',
         key,
-        body: req.file.buffer,
-        contentType: req.file.mimetype,
+        body: normalized.buffer,
+        contentType: normalized.contentType,
         cacheControl: 'private, max-age=0, no-store',
       });
-      console.log("Upload to R2 successful:", { bucket: process.env.R2_UPLOADS_BUCKET, key });
+      // Transformations may only use uploads issued to the visitor creating them
+      await storage.recordUpload({ key, sessionId: req.visitorSessionId! });
 
-      const signedUrl = await getPresignedGetUrl({
-        bucket: process.env.R2_UPLOADS_BUCKET as string,
-        key,
-        expiresInSeconds: 3600,
-      });
-      console.log("Generated presigned GET URL for upload");
+      const signedUrl = await store.getSignedUrl({ bucket: 'uploads', key, expiresInSeconds: UPLOAD_URL_TTL_SECONDS });
 
       return res.json({
         success: true,
         fileUrl: signedUrl,
-        r2Key: key,
+        objectKey: key,
+        width: normalized.width,
+        height: normalized.height,
         message: "Pet photo uploaded successfully",
       });
     } catch (error) {
+      if (error instanceof ContentRejectedError) {
+        return res.status(422).json(error.toResponse());
+      }
       res.status(500).json({ message: "Upload failed", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  // Create pet transformation
-  app.post("/api/transformations", async (req, res) => {
+  // Create pet transformation (queues generation and returns immediately)
+  app.post("/api/transformations", rateLimit("transformations"), async (req, res) => {
     try {
-      const validatedData = insertPetTransformationSchema.parse(req.body);
-
-      // Create transformation record first
-      const transformation = await storage.createPetTransformation({
-        ...validatedData,
-        originalImageUrl: req.body.originalImageUrl || "https://images.unsplash.com/photo-1551717743-49959800b1f6?auto=format&fit=crop&w=500&h=500",
-      });
-
-      // Generate AI transformation based on theme
-      let transformationResult;
-
-      if (validatedData.theme === 'baseball') {
-        // Generate baseball card stats
-        const stats = generateBaseballStats(validatedData.petName, (validatedData.traits as string[]) || []);
-
-        transformationResult = await createBaseballCard({
-          petImageUrl: transformation.originalImageUrl || "",
-          petName: validatedData.petName,
-          petBreed: validatedData.petBreed || 'pet',
-          gender: validatedData.gender || undefined,
-          team: "Pet Pantry All-Stars",
-          position: "Good Boy/Girl",
-          stats: stats,
-        });
-      } else if (validatedData.theme === 'superhero') {
-        transformationResult = await createSuperheroImage({
-          petImageUrl: transformation.originalImageUrl || "",
-          petName: validatedData.petName,
-          petBreed: validatedData.petBreed || 'pet',
-          gender: validatedData.gender || undefined,
-          heroName: `Super ${validatedData.petName}`,
-          powers: (validatedData.traits as string[]) || ["loyalty", "cuteness", "treat detection"],
-        });
-      } else {
+      const { pets: requestedPets, ...requested } = insertPetTransformationSchema.parse(req.body);
+      // Swap the photo references for freshly signed URLs of uploads this visitor made
+      const photos = await resolveUploadReferences(
+        requestedPets?.length ? requestedPets.map((pet) => pet.imageUrl) : [requested.originalImageUrl ?? ""],
+        req.visitorSessionId,
+      );
+      const pets = requestedPets?.map((pet, index) => ({ ...pet, imageUrl: photos[index].url }));
+      const petData = { ...requested, originalImageUrl: photos[0].url };
+      const uploadKeys = photos.map((photo) => photo.key);
+      // Groups describe themselves through `pets`; the top-level fields then name the whole group
+      const validatedData = pets?.length
+        ? {
+          ...petData,
+          petName: formatPetNames(pets.map((pet) => pet.name)),
+          petBreed: pets[0].breed,
+          traits: pets[0].traits,
+          gender: pets[0].gender,
+          originalImageUrl: pets[0].imageUrl,
+          pets,
+        }
+        : petData;
+      // The names and breeds go into the prompt and onto the card
+      const safetyDecisionIds = await assertSafeText((pets?.length ? pets : [{ name: petData.petName, breed: petData.petBreed ?? undefined, traits: petData.traits }])
+        .flatMap((pet): Array<[SafetySubject, string | string[] | undefined]> => [
+          ["pet_name", pet.name],
+          ["pet_breed", pet.breed],
+          ["pet_traits", pet.traits],
+        ]));
+
+      const theme = await storage.getTheme(validatedData.theme);
+      if (!theme || !theme.isActive) {
         return res.status(400).json({
-          message: "Invalid theme. Must be 'baseball' or 'superhero'"
-        });
-      }
-
-      // Check if AI generation was successful
-      if (!transformationResult.success) {
-        return res.status(500).json({
-          success: false,
-          message: "AI image generation failed",
-          error: transformationResult.error,
+          message: `Unknown theme "${validatedData.theme}"`
         });
       }
 
-      // Optionally mirror generated image to R2 public bucket
-      console.log("Transformation result:", JSON.stringify(transformationResult, null, 2));
-      console.log("Image URL type:", typeof transformationResult.imageUrl);
-      console.log("Image URL value:", transformationResult.imageUrl);
-
-      // Handle the case where imageUrl might be an object or stream
-      let imageUrlToStore = null;
-      if (transformationResult.imageUrl) {
-        if (typeof transformationResult.imageUrl === 'string') {
-          imageUrlToStore = transformationResult.imageUrl;
-        } else if (typeof transformationResult.imageUrl === 'object') {
-          // Convert URL-like objects to strings (e.g., URL objects from FileOutput)
-          const maybeAny: any = transformationResult.imageUrl as any;
-          const urlStr = typeof maybeAny === 'string' ? maybeAny : (maybeAny?.toString?.() || String(maybeAny));
-          // Only store the converted URL if it looks like a valid HTTP(S) URL
-          if (urlStr.startsWith('http://') || urlStr.startsWith('https://')) {
-            imageUrlToStore = urlStr;
-            console.log("Converted URL object to string:", urlStr);
-          } else {
-            imageUrlToStore = 'ai-generated-placeholder-url';
-            console.log("Could not convert URL object to valid HTTP URL, using placeholder:", transformationResult.imageUrl);
-          }
-        } else {
-          imageUrlToStore = String(transformationResult.imageUrl);
-        }
-      }
-
-      // If we have a usable image URL, fetch, watermark with logo, convert to JPEG, and upload to the public R2 generated bucket
-      try {
-        if (imageUrlToStore && typeof imageUrlToStore === 'string' && process.env.R2_GENERATED_BUCKET) {
-          console.log("Watermarking + mirroring generated image to R2:", { source: imageUrlToStore, bucket: process.env.R2_GENERATED_BUCKET });
-          const resFetch = await fetch(imageUrlToStore);
-          console.log("Fetch source for watermark:", { ok: resFetch.ok, status: resFetch.status, url: imageUrlToStore });
-          if (resFetch.ok) {
-            const sourceContentType = resFetch.headers.get('content-type') || 'image/jpeg';
-            const arrayBuffer = await resFetch.arrayBuffer();
-            let uploadBuffer = Buffer.from(arrayBuffer);
-            let uploadContentType = sourceContentType;
-            let uploadExt = 'jpg';
-            try {
-              // Apply watermark and force JPEG output
-              const candidatePositionsEnv = process.env.WATERMARK_CANDIDATE_POSITIONS;
-              const candidatePositions = candidatePositionsEnv
-                ? candidatePositionsEnv.split(",").map((p) => p.trim()).filter(Boolean)
-                : undefined;
-              const autoPlacementEnv = process.env.WATERMARK_AUTO_PLACEMENT;
-              const autoPlacement = autoPlacementEnv === undefined ? true : autoPlacementEnv !== "false";
-
-              const { buffer: stampedBuffer, extension, contentType, watermarked, metadata } = await watermarkAndPreferJpeg(Buffer.from(arrayBuffer), sourceContentType, {
-                marginPx: Number(process.env.WATERMARK_MARGIN_PX ?? 32),
-                logoWidthRatio: Number(process.env.WATERMARK_LOGO_WIDTH_RATIO ?? 0.25),
-                minLogoWidthPx: Number(process.env.WATERMARK_MIN_LOGO_PX ?? 80),
-                jpegQuality: Number(process.env.WATERMARK_JPEG_QUALITY ?? 90),
-                forcePosition: process.env.WATERMARK_FORCE_POSITION as any,
-                fallbackPosition: (process.env.WATERMARK_FALLBACK_POSITION as any) || "bottom-right",
-                candidatePositions: candidatePositions as any,
-                autoPlacement,
-              });
-              console.log("Watermark result:", { watermarked, extension, contentType, metadata });
-              uploadBuffer = stampedBuffer;
-              uploadContentType = contentType;
-              uploadExt = extension || 'jpg';
-            } catch (wmErr) {
-              console.error("Watermarking failed; uploading original buffer:", wmErr);
-            }
-
-            const key = makeGeneratedKey({ type: validatedData.theme, resourceId: transformation.id, extension: uploadExt });
-            await uploadBufferToR2({
-              bucket: process.env.R2_GENERATED_BUCKET as string,
-              key,
-              body: uploadBuffer,
-              contentType: uploadContentType,
-              cacheControl: 'public, max-age=31536000, immutable',
-            });
-            console.log("Mirror to R2 successful:", { bucket: process.env.R2_GENERATED_BUCKET, key });
-            const publicUrl = generatedPublicUrlForKey(key);
-            if (publicUrl) {
-              imageUrlToStore = publicUrl;
-              console.log("Using public R2 URL for transformation:", publicUrl);
-            } else {
-              console.warn("Failed to construct public R2 URL; leaving Replicate URL", { key });
-            }
-          } else {
-            console.warn("Failed to fetch source image for watermarking", { status: resFetch.status, source: imageUrlToStore });
-          }
-        }
-      } catch (mirrorErr) {
-        console.error('Failed to mirror generated image to R2:', mirrorErr);
-      }
+      const ownerToken = issueOwnerToken();
+      const sessionId = req.visitorSessionId ?? null;
+      // A visitor who already gave their email keeps collecting creations under it
+      const userId = req.session.accountUserId ?? (sessionId ? (await storage.getVisitorSession(sessionId))?.userId : undefined) ?? null;
+      const transformation = await storage.createPetTransformation({
+        ...validatedData,
+        uploadKeys,
+        ownerTokenHash: ownerToken.hash,
+        sessionId,
+        userId,
+      });
+      // Erasing the transformation then also removes the screened names
+      await storage.linkSafetyDecisions(safetyDecisionIds, transformation.id);
 
-      const updatedTransformation = await storage.updatePetTransformation(
-        transformation.id,
-        { transformedImageUrl: imageUrlToStore }
-      );
+      const job = await enqueueTransformationJob(transformation.id);
 
-      res.json({
+      res.status(202).json({
         success: true,
+        jobId: job.id,
+        statusUrl: `/api/jobs/${job.id}`,
+        eventsUrl: `/api/jobs/${job.id}/events`,
+        // Only this response carries the token; the browser keeps it to manage the share page
+        ownerToken: ownerToken.token,
+        shareUrl: `/p/${transformation.id}`,
         transformation: {
           id: transformation.id,
-          transformedImageUrl: updatedTransformation?.transformedImageUrl || null,
-          stats: updatedTransformation?.stats || transformation.stats,
+          transformedImageUrl: null,
+          stats: transformation.stats,
         },
       });
     } catch (error) {
       console.error("Transformation error:", error);
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else if (error instanceof UploadReferenceError) {
+        res.status(400).json({ message: error.message });
+      } else if (error instanceof ContentRejectedError) {
+        res.status(422).json(error.toResponse());
       } else {
         res.status(500).json({
           message: "Transformation failed",
@@ -398,57 +402,125 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Email capture endpoint
-  app.post("/api/email-capture", async (req, res) => {
+  // Poll generation job status
+  app.get("/api/jobs/:id", async (req, res) => {
     try {
-      const validatedData = emailCaptureSchema.parse(req.body);
-
-      // Check if user exists, create if not
-      let user = await storage.getUserByEmail(validatedData.email);
-      if (!user) {
-        user = await storage.createUser({
-          email: validatedData.email,
-          name: validatedData.name,
-        });
-      } else if (validatedData.name && !user.name) {
-        user = await storage.updateUser(user.id, { name: validatedData.name }) ?? user;
+      const job = await storage.getGenerationJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ success: false, message: "Job not found" });
       }
 
-      const transformation = await storage.getPetTransformation(validatedData.transformationId);
-      let transformedImageUrl: string | null = null;
-      if (transformation) {
-        const currentStats = transformation.stats || { likes: 0, shares: 0, downloads: 0 };
-        await storage.updatePetTransformationStats(validatedData.transformationId, {
-          ...currentStats,
-          downloads: currentStats.downloads + 1,
-        });
-        transformedImageUrl = transformation.transformedImageUrl || null;
-      }
+      res.json({ success: true, job: await describeJob(job) });
+    } catch (error) {
+      res.status(500).json({ success: false, message: "Failed to get job status", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
 
-      const synthesizeName = () => {
-        if (validatedData.name) {
-          return validatedData.name;
-        }
-        if (user?.name) {
-          return user.name;
+  // Stream generation job status as Server-Sent Events
+  app.get("/api/jobs/:id/events", async (req, res) => {
+    let job: GenerationJob | undefined;
+    try {
+      job = await storage.getGenerationJob(req.params.id);
+    } catch (error) {
+      return res.status(500).json({ success: false, message: "Failed to get job status", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+    if (!job) {
+      return res.status(404).json({ success: false, message: "Job not found" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    let lastStatus: string | null = null;
+    let closed = false;
+    const timers: NodeJS.Timeout[] = [];
+    let unsubscribe = () => { };
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      timers.forEach(clearInterval);
+      unsubscribe();
+      res.end();
+    };
+
+    // Never rejects: a storage failure ends the stream with an error event, and the client falls back to polling
+    const send = async (current: GenerationJob | undefined) => {
+      if (closed || !current || current.status === lastStatus) return;
+      try {
+        lastStatus = current.status;
+        const payload = await describeJob(current);
+        if (closed) return;
+        res.write(`data: ${JSON.stringify(payload)}\n\n`);
+        if (isTerminalStatus(current.status)) {
+          close();
         }
-        if (transformation?.petName) {
-          return transformation.petName;
+      } catch (error) {
+        console.error("SSE job update failed:", { jobId: current.id, error });
+        if (!closed) {
+          res.write(`event: error\ndata: ${JSON.stringify({ message: "Failed to get job status" })}\n\n`);
         }
-        return undefined;
-      };
+        close();
+      }
+    };
+
+    unsubscribe = subscribeToJob(job.id, (updated) => void send(updated));
+    req.on("close", close);
+
+    // Jobs may be processed by another instance, so fall back to polling the row as well
+    timers.push(setInterval(async () => {
+      try {
+        await send(await storage.getGenerationJob(job.id));
+      } catch (error) {
+        console.error("SSE job poll failed:", error);
+      }
+    }, 3000));
+    timers.push(setInterval(() => {
+      if (!closed) res.write(": keep-alive\n\n");
+    }, 15000));
+
+    await send(job);
+  });
 
-      const resolvedName = synthesizeName();
+  // Email capture endpoint
+  app.post("/api/email-capture", rateLimit("email-capture"), async (req, res) => {
+    try {
+      const validatedData = emailCaptureSchema.parse(req.body);
+      const transformation = await storage.getPetTransformation(validatedData.transformationId);
+      if (!transformation) {
+        return res.status(404).json({ message: "Transformation not found" });
+      }
+      if (!isRequestOwner(req, transformation)) {
+        return res.status(403).json({ message: "Only the creator of this transformation can download it this way" });
+      }
 
-      const dripResult = await trackDownloadInDrip({
+      // One transaction: the lead, its capture of this transformation, its download count and the
+      // queued Drip event. Anyone can type any email, so the capture only attributes the download;
+      // the creations move to the user once they sign in with a magic link.
+      const transformedImageUrl = transformation.transformedImageUrl || null;
+      let resolvedName: string | undefined;
+      const { user } = await storage.recordEmailCapture({
         email: validatedData.email,
-        name: resolvedName,
-        petName: transformation?.petName ?? undefined,
-        transformationId: validatedData.transformationId,
-        imageUrl: transformedImageUrl,
-        userId: user?.id,
-        occurredAt: new Date().toISOString(),
+        name: validatedData.name,
+        transformationId: transformation.id,
+      }, (user) => {
+        resolvedName = validatedData.name || user.name || transformation.petName || undefined;
+        return [dripDownloadMessage({
+          email: validatedData.email,
+          name: resolvedName,
+          petName: transformation.petName,
+          transformationId: transformation.id,
+          imageUrl: transformedImageUrl,
+          userId: user.id,
+          occurredAt: new Date().toISOString(),
+        })];
       });
+      kickOutboxDispatcher();
+      await recordPromptOutcome(transformation.id, 'download');
 
       res.json({
         success: true,
@@ -456,7 +528,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId: user.id,
         userName: resolvedName ?? null,
         imageUrl: transformedImageUrl,
-        drip: dripResult,
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -467,20 +538,283 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Email a "My Creations" sign-in link. The response is the same whether or not the email is known.
+  app.post("/api/account/magic-link", rateLimit("login-link"), async (req, res) => {
+    try {
+      const { email, claims } = magicLinkRequestSchema.parse(req.body);
+      await sendLoginLink({ email, claims, origin: siteOrigin(req) });
+      res.json({ success: true, message: "Check your email for a sign-in link." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Please enter a valid email address", errors: error.errors });
+      } else {
+        console.error("Failed to send sign-in link:", error);
+        res.status(500).json({ message: "We couldn't send the sign-in email. Please try again." });
+      }
+    }
+  });
+
+  // Open a sign-in link: verifies the email and claims this browser's anonymous creations
+  app.post("/api/account/verify", async (req, res) => {
+    try {
+      const { token, claims } = verifyLoginSchema.parse(req.body);
+      const user = await completeLogin(req, token, claims);
+      if (!user) {
+        return res.status(400).json({ message: "This sign-in link has expired or was already used. Request a new one." });
+      }
+      res.json({ success: true, user: toPublicAccountUser(user) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid sign-in link", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Sign-in failed", error: error instanceof Error ? error.message : "Unknown error" });
+      }
+    }
+  });
+
+  app.get("/api/account/me", requireAccount(), (req, res) => {
+    res.json({ user: toPublicAccountUser(req.accountUser!) });
+  });
+
+  app.get("/api/account/transformations", requireAccount(), async (req, res) => {
+    try {
+      const transformations = await storage.getUserTransformations(req.accountUser!.id);
+      res.json({ transformations: transformations.map(toAccountCreation) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load your creations", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Link creations made on this device before signing in
+  app.post("/api/account/claim", requireAccount(), async (req, res) => {
+    try {
+      const { claims } = claimTransformationsSchema.parse(req.body);
+      const claimed = await storage.assignTransformationsToUser(req.accountUser!.id, await verifiedClaimIds(claims));
+      res.json({ success: true, claimed });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid claims", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to claim creations", error: error instanceof Error ? error.message : "Unknown error" });
+      }
+    }
+  });
+
+  // Download everything stored about the signed-in customer as a zip
+  app.get("/api/account/export", requireAccount(), rateLimit("data-export"), async (req, res) => {
+    try {
+      const archive = await buildUserExport(req.accountUser!);
+      res.set({
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="pet-pantry-data-${new Date().toISOString().slice(0, 10)}.zip"`,
+        "Cache-Control": "no-store",
+      });
+      res.send(archive);
+    } catch (error) {
+      console.error("Failed to export account data:", error);
+      res.status(500).json({ message: "Failed to export your data", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Right to erasure: removes the account, its creations and images, and the Drip subscriber
+  app.post("/api/account/delete", requireAccount(), async (req, res) => {
+    try {
+      const { confirmEmail } = accountDeletionSchema.parse(req.body);
+      const user = req.accountUser!;
+      if (confirmEmail !== user.email.toLowerCase()) {
+        return res.status(400).json({ message: "The email you typed doesn't match your account." });
+      }
+      await eraseUser(user, "self");
+      await endAccountSession(req);
+      clearAccountSessionCookie(res);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Please type your email address to confirm", errors: error.errors });
+      } else if (error instanceof ErasureBlockedError) {
+        res.status(409).json({ message: error.message });
+      } else {
+        console.error("Failed to erase account:", error);
+        res.status(500).json({ message: "We couldn't delete your account. Please try again.", error: error instanceof Error ? error.message : "Unknown error" });
+      }
+    }
+  });
+
+  app.post("/api/account/logout", async (req, res) => {
+    try {
+      await endAccountSession(req);
+      clearAccountSessionCookie(res);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Sign-out failed", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Public share page, server-rendered so crawlers see the pet's Open Graph/Twitter card tags
+  app.get("/p/:id", async (req, res) => {
+    const origin = siteOrigin(req);
+    try {
+      // Revalidate every time so a rejection or takedown applies on the very next request
+      res.set("Cache-Control", "no-cache");
+      const transformation = await storage.getPetTransformation(req.params.id);
+      if (!transformation || isModerationHidden(transformation)) {
+        return res.status(404).type("html").send(renderShareNotFoundPage(origin));
+      }
+
+      const theme = await storage.getTheme(transformation.theme);
+      if (transformation.moderationStatus !== "approved") {
+        res.set("X-Robots-Tag", "noindex, nofollow");
+        return res.type("html").send(renderShareInReviewPage({ transformation, theme, origin }));
+      }
+      if (transformation.visibility !== "public") {
+        res.set("X-Robots-Tag", "noindex, nofollow");
+      }
+      res.type("html").send(renderSharePage({ transformation, theme, origin }));
+    } catch (error) {
+      console.error("Failed to render share page:", error);
+      res.status(500).type("html").send(renderShareNotFoundPage(origin));
+    }
+  });
+
   // Get transformation by ID
   app.get("/api/transformations/:id", async (req, res) => {
     try {
       const transformation = await storage.getPetTransformation(req.params.id);
-      if (!transformation) {
+      // Others only see what the share page would show them
+      if (!transformation || (transformation.moderationStatus !== "approved" && !isRequestOwner(req, transformation))) {
         return res.status(404).json({ message: "Transformation not found" });
       }
 
-      res.json({ transformation });
+      // Reviewer identity and notes stay internal
+      const { moderatedBy, moderationNote, ...visible } = toPublicTransformation(transformation);
+      res.json({ transformation: visible });
     } catch (error) {
       res.status(500).json({ message: "Failed to get transformation", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
+  // Owner-only: switch the share page between public and unlisted, and opt in to the public gallery
+  app.patch("/api/transformations/:id/visibility", async (req, res) => {
+    try {
+      const updates = updateTransformationVisibilitySchema.parse(req.body);
+      const transformation = await storage.getPetTransformation(req.params.id);
+      if (!transformation) {
+        return res.status(404).json({ message: "Transformation not found" });
+      }
+      if (!isRequestOwner(req, transformation)) {
+        return res.status(403).json({ message: "Only the creator of this transformation can change who sees it" });
+      }
+
+      const updated = await storage.updatePetTransformation(transformation.id, updates) ?? { ...transformation, ...updates };
+      res.json({ success: true, visibility: updated.visibility, showInGallery: updated.showInGallery });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid sharing settings", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update sharing settings", error: error instanceof Error ? error.message : "Unknown error" });
+      }
+    }
+  });
+
+  // Owner-only: delete the transformation and its generation history
+  app.delete("/api/transformations/:id", async (req, res) => {
+    try {
+      const transformation = await storage.getPetTransformation(req.params.id);
+      if (!transformation) {
+        return res.status(404).json({ message: "Transformation not found" });
+      }
+      if (!isRequestOwner(req, transformation)) {
+        return res.status(403).json({ message: "Only the creator of this transformation can delete it" });
+      }
+      if (await storage.hasPendingGenerationJob(transformation.id)) {
+        return res.status(409).json({ message: "This transformation is still being created. Try again once it's finished." });
+      }
+
+      await storage.deletePetTransformation(transformation.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete transformation", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // One like per visitor; also credits the prompt that produced the image
+  app.post("/api/transformations/:id/like", rateLimit("likes"), async (req, res) => {
+    try {
+      const transformation = await storage.getPetTransformation(req.params.id);
+      if (!transformation || isModerationHidden(transformation)) {
+        return res.status(404).json({ message: "Transformation not found" });
+      }
+      const result = await storage.likePetTransformation(req.params.id, visitorKeyFor(req));
+      if (!result) {
+        return res.status(404).json({ message: "Transformation not found" });
+      }
+      if (result.liked) {
+        await recordPromptOutcome(req.params.id, 'like');
+      }
+      res.json({ success: true, ...result });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to record like", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Public gallery of opted-in transformations, newest first with keyset cursor pagination
+  app.get("/api/gallery", async (req, res) => {
+    try {
+      const query = galleryQuerySchema.parse(req.query);
+      const before = query.cursor ? decodeGalleryCursor(query.cursor) : undefined;
+      if (query.cursor && !before) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      // One extra row tells us whether another page exists
+      const rows = await storage.getGalleryTransformations({
+        theme: query.theme,
+        breed: query.breed,
+        since: periodStart(query.period),
+        before,
+        limit: query.limit + 1,
+      });
+      const page = rows.slice(0, query.limit);
+      const likedIds = await storage.getLikedTransformationIds(visitorKeyFor(req), page.map((t) => t.id));
+
+      res.json({
+        items: page.map(toGalleryItem),
+        nextCursor: rows.length > query.limit ? encodeGalleryCursor(page[page.length - 1]) : null,
+        likedIds,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid gallery query", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to load gallery", error: error instanceof Error ? error.message : "Unknown error" });
+      }
+    }
+  });
+
+  // Most liked this week overall and per breed
+  app.get("/api/gallery/leaderboards", async (_req, res) => {
+    try {
+      const likedSince = new Date(Date.now() - LEADERBOARD_WINDOW_MS);
+      const toEntry = ({ transformation, likes }: LikedTransformation) => ({ ...toGalleryItem(transformation), likesThisWeek: likes });
+
+      const [weekly, breeds] = await Promise.all([
+        storage.getMostLikedGalleryTransformations({ likedSince, limit: 10 }),
+        storage.getGalleryBreeds(6),
+      ]);
+      const breedBoards = await Promise.all(breeds.map(async (breed) => ({
+        ...breed,
+        entries: (await storage.getMostLikedGalleryTransformations({ breed: breed.breed, likedSince, limit: 3 })).map(toEntry),
+      })));
+
+      res.json({
+        weekly: weekly.map(toEntry),
+        breeds: breedBoards.filter((board) => board.entries.length > 0),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load leaderboards", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
   // Social sharing endpoint (increments share count)
   app.post("/api/transformations/:id/share", async (req, res) => {
     try {
@@ -488,12 +822,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!transformation) {
         return res.status(404).json({ message: "Transformation not found" });
       }
+      // Shares are counted when the creator shares; anyone else could inflate them at will
+      if (!isRequestOwner(req, transformation)) {
+        return res.status(403).json({ message: "Only the creator of this transformation can record a share" });
+      }
 
       const currentStats = transformation.stats || { likes: 0, shares: 0, downloads: 0 };
       await storage.updatePetTransformationStats(req.params.id, {
         ...currentStats,
         shares: currentStats.shares + 1,
       });
+      await recordPromptOutcome(transformation.id, 'share');
 
       res.json({ success: true, message: "Share recorded" });
     } catch (error) {
@@ -501,10 +840,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Like, star rating or regenerate request; feeds the prompt variant bandit
+  app.post("/api/transformations/:id/feedback", async (req, res) => {
+    try {
+      const feedback = transformationFeedbackSchema.parse(req.body);
+      const transformation = await storage.getPetTransformation(req.params.id);
+      if (!transformation) {
+        return res.status(404).json({ message: "Transformation not found" });
+      }
+      if (!isRequestOwner(req, transformation)) {
+        return res.status(403).json({ message: "Only the creator of this transformation can rate it" });
+      }
+
+      // Like counts come from POST /api/transformations/:id/like; this only credits the prompt
+      const recorded = await recordPromptOutcome(
+        transformation.id,
+        feedback.signal,
+        feedback.signal === 'rating' ? feedback.rating : undefined,
+      );
+
+      res.json({ success: true, recorded });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid feedback", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to record feedback", error: error instanceof Error ? error.message : "Unknown error" });
+      }
+    }
+  });
+
   // Custom prompt generation endpoint
-  app.post("/api/custom-prompt", async (req, res) => {
+  app.post("/api/custom-prompt", rateLimit("custom-prompt"), requireAiBudget("custom_image"), async (req, res) => {
     try {
       const validatedData = customPromptSchema.parse(req.body);
+      await assertSafeText([
+        ["custom_prompt", validatedData.prompt],
+        ["pet_name", validatedData.petName],
+      ]);
 
       // Generate AI image with custom prompt
       const transformationResult = await createCustomPromptImage({
@@ -523,15 +895,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      const output = transformationResult.imageBuffer
+        ? { body: transformationResult.imageBuffer, contentType: transformationResult.contentType }
+        : transformationResult.imageUrl ? await fetchProviderImage(transformationResult.imageUrl) : null;
+      if (output) {
+        await assertSafeImage("output", output.body, output.contentType || "image/jpeg");
+      }
+
       res.json({
         success: true,
-        imageUrl: transformationResult.imageUrl,
+        imageUrl: resultToDisplayUrl(transformationResult),
         message: "Custom prompt image generated successfully",
       });
     } catch (error) {
       console.error("Custom prompt generation error:", error);
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else if (error instanceof ContentRejectedError) {
+        res.status(422).json(error.toResponse());
       } else {
         res.status(500).json({
           message: "Custom prompt generation failed",
@@ -542,9 +923,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Enhance prompt with AI
-  app.post("/api/enhance-prompt", async (req, res) => {
+  app.post("/api/enhance-prompt", rateLimit("enhance-prompt"), requireAiBudget("prompt_enhancement"), async (req, res) => {
     try {
       const validatedData = promptEnhancementSchema.parse(req.body);
+      await assertSafeText([
+        ["custom_prompt", validatedData.prompt],
+        ["pet_name", validatedData.petName],
+      ]);
 
       const result = await enhancePrompt(validatedData.prompt, validatedData.petName);
 
@@ -565,6 +950,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.error("Prompt enhancement error:", error);
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else if (error instanceof ContentRejectedError) {
+        res.status(422).json(error.toResponse());
       } else {
         res.status(500).json({
           message: "Prompt enhancement failed",
@@ -575,9 +962,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate prompt suggestions
-  app.post("/api/prompt-suggestions", async (req, res) => {
+  app.post("/api/prompt-suggestions", requireAiBudget("prompt_suggestions"), async (req, res) => {
     try {
       const validatedData = promptSuggestionsSchema.parse(req.body);
+      await assertSafeText([["pet_name", validatedData.petName]]);
 
       const result = await generatePromptSuggestions(validatedData.theme, validatedData.petName);
 
@@ -598,6 +986,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.error("Prompt suggestions generation error:", error);
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else if (error instanceof ContentRejectedError) {
+        res.status(422).json(error.toResponse());
       } else {
         res.status(500).json({
           message: "Prompt suggestions generation failed",
@@ -607,38 +997,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Debug endpoint to test watermarking on any image URL (dev use only)
-  app.get("/api/debug/watermark", async (req, res) => {
-    try {
-      const url = req.query.url as string | undefined;
-      if (!url) {
-        return res.status(400).json({ success: false, message: "Missing url query param" });
-      }
-      const r = await fetch(url);
-      if (!r.ok) {
-        return res.status(400).json({ success: false, message: `Failed to fetch source image: ${r.status}` });
-      }
-      const ct = r.headers.get('content-type') || undefined;
-      const ab = await r.arrayBuffer();
-      const { buffer } = await watermarkAndPreferJpeg(Buffer.from(ab), ct, {
-        marginPx: 24,
-        logoWidthRatio: 0.08,
-        minLogoWidthPx: 64,
-        jpegQuality: 90,
-      });
-      res.setHeader('Content-Type', 'image/jpeg');
-      res.setHeader('Cache-Control', 'no-store');
-      return res.send(buffer);
-    } catch (err: any) {
-      console.error("/api/debug/watermark error:", err);
-      return res.status(500).json({ success: false, message: err?.message || 'Watermark failed' });
-    }
-  });
-
-  // Generate pet description
-  app.post("/api/pet-description", async (req, res) => {
+  // Generate pet description
+  app.post("/api/pet-description", requireAiBudget("pet_description"), async (req, res) => {
     try {
       const validatedData = petDescriptionSchema.parse(req.body);
+      await assertSafeText([
+        ["pet_name", validatedData.petName],
+        ["pet_breed", validatedData.breed],
+        ["pet_traits", validatedData.traits],
+      ]);
 
       const result = await generatePetDescription(
         validatedData.petName,
@@ -663,6 +1030,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.error("Pet description generation error:", error);
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else if (error instanceof ContentRejectedError) {
+        res.status(422).json(error.toResponse());
       } else {
         res.status(500).json({
           message: "Pet description generation failed",
@@ -673,20 +1042,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate persona stats/content for final screen
-  app.post("/api/persona-stats", async (req, res) => {
+  app.post("/api/persona-stats", rateLimit("persona-stats"), requireAiBudget("persona_stats"), async (req, res) => {
     try {
       const schema = z.object({
         petName: z.string().min(1),
         breed: z.string().optional(),
         traits: z.array(z.string()).default([]),
-        theme: z.enum(['baseball', 'superhero']),
+        theme: z.string().min(1),
         tone: z.enum(['whimsical', 'epic', 'sportscaster']).optional(),
         seed: z.number().optional(),
         locale: z.string().optional(),
+        /** Transformation the stats are for, so their cost is attributed to it */
+        transformationId: z.string().optional(),
       });
 
       const input = schema.parse(req.body);
-      const result = await generatePersonaStats(input);
+      await assertSafeText([
+        ["pet_name", input.petName],
+        ["pet_breed", input.breed],
+        ["pet_traits", input.traits],
+      ], { transformationId: input.transformationId });
+      const theme = await storage.getTheme(input.theme);
+      if (!theme) {
+        return res.status(400).json({ success: false, message: `Unknown theme "${input.theme}"` });
+      }
+
+      const { transformationId, ...personaInput } = input;
+      const result = await generatePersonaStats({
+        ...personaInput,
+        personaType: theme.personaType,
+        tone: input.tone || theme.personaTone,
+      }, { transformationId, theme: theme.slug });
 
       if (!result.success || !result.content) {
         return res.status(500).json({ success: false, message: "Persona stat generation failed", error: result.error });
@@ -697,24 +1083,143 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
+      if (error instanceof ContentRejectedError) {
+        return res.status(422).json(error.toResponse());
+      }
       console.error("Persona stats endpoint error:", error);
       res.status(500).json({ success: false, message: "Persona stat generation failed" });
     }
   });
 
-  // Simple admin authentication middleware
-  const adminAuth = (req: any, res: any, next: any) => {
-    const adminToken = process.env.ADMIN_TOKEN || 'admin123'; // Change this in production
-    const authHeader = req.headers.authorization;
+  // Admin accounts: cookie sessions with per-route roles (see admin-auth.ts)
+  configureAdminSessions(app);
+  await ensureBootstrapOwner();
+
+  app.post("/api/admin/login", rateLimit("admin-login"), async (req, res) => {
+    try {
+      // Only JSON bodies, which a cross-site form cannot send
+      if (!req.is("application/json")) {
+        return res.status(415).json({ success: false, error: "Expected a JSON body" });
+      }
+      const { email, password } = adminLoginSchema.parse(req.body);
+      const user = await authenticateAdmin(email, password);
+      if (!user) {
+        return res.status(401).json({ success: false, error: "Invalid email or password" });
+      }
+
+      const csrfToken = await startAdminSession(req, user);
+      const updated = await storage.updateAdminUser(user.id, { lastLoginAt: new Date() });
+      res.json({ success: true, user: toPublicAdminUser(updated ?? user), csrfToken });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid login", errors: error.errors });
+      }
+      console.error("Admin login failed:", error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/admin/logout", requireAdmin(), async (req, res) => {
+    try {
+      await endAdminSession(req);
+      clearAdminSessionCookie(res);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Admin logout failed:", error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Current admin and the CSRF token for this session; 401 when signed out
+  app.get("/api/admin/session", requireAdmin(), (req, res) => {
+    res.json({ success: true, user: toPublicAdminUser(req.adminUser!), csrfToken: req.session.csrfToken });
+  });
+
+  // Debug endpoint to test watermarking on a provider or stored image (admins only)
+  app.get("/api/admin/debug/watermark", requireAdmin(), async (req, res) => {
+    try {
+      const url = req.query.url as string | undefined;
+      if (!url) {
+        return res.status(400).json({ success: false, error: "Missing url query param" });
+      }
+      // Same host allow-list as the pipeline, so this can't be pointed at internal addresses
+      const source = await fetchProviderImage(url);
+      const { buffer } = await watermarkAndPreferJpeg(source.body, source.contentType, {
+        marginPx: 24,
+        logoWidthRatio: 0.08,
+        minLogoWidthPx: 64,
+        jpegQuality: 90,
+      });
+      res.setHeader('Content-Type', 'image/jpeg');
+      res.setHeader('Cache-Control', 'no-store');
+      return res.send(buffer);
+    } catch (err: any) {
+      console.error("/api/admin/debug/watermark error:", err);
+      return res.status(500).json({ success: false, error: err?.message || 'Watermark failed' });
+    }
+  });
+
+  app.get("/api/admin/users", requireAdmin("owner"), async (req, res) => {
+    try {
+      const users = await storage.getAdminUsers();
+      res.json({ success: true, users: users.map(toPublicAdminUser) });
+    } catch (error) {
+      console.error("Failed to get admin users:", error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/admin/users", requireAdmin("owner"), async (req, res) => {
+    try {
+      const { password, ...userData } = createAdminUserSchema.parse(req.body);
+      if (await storage.getAdminUserByEmail(userData.email)) {
+        return res.status(409).json({ success: false, error: `An admin with email ${userData.email} already exists` });
+      }
+      const user = await storage.createAdminUser({ ...userData, passwordHash: await hashPassword(password) });
+      res.json({ success: true, user: toPublicAdminUser(user) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid admin user", errors: error.errors });
+      }
+      console.error("Failed to create admin user:", error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.put("/api/admin/users/:id", requireAdmin("owner"), async (req, res) => {
+    try {
+      const { password, ...updates } = updateAdminUserSchema.parse(req.body);
+      const existing = await storage.getAdminUser(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ success: false, error: "Admin user not found" });
+      }
 
-    if (!authHeader || !authHeader.startsWith('Bearer ') || authHeader.split(' ')[1] !== adminToken) {
-      return res.status(401).json({ success: false, error: 'Unauthorized' });
+      // Never leave the admin without an active owner
+      const losesOwner = existing.role === "owner" && existing.isActive
+        && ((updates.role !== undefined && updates.role !== "owner") || updates.isActive === false);
+      if (losesOwner) {
+        const owners = (await storage.getAdminUsers()).filter((user) => user.role === "owner" && user.isActive);
+        if (owners.length <= 1) {
+          return res.status(409).json({ success: false, error: "At least one active owner is required" });
+        }
+      }
+
+      const user = await storage.updateAdminUser(existing.id, {
+        ...updates,
+        ...(password !== undefined ? { passwordHash: await hashPassword(password) } : {}),
+      });
+      res.json({ success: true, user: user && toPublicAdminUser(user) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid admin user", errors: error.errors });
+      }
+      console.error("Failed to update admin user:", error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
     }
-    next();
-  };
+  });
 
   // Backend prompt optimization routes (protected)
-  app.get("/api/admin/prompt-templates", adminAuth, async (req, res) => {
+  app.get("/api/admin/prompt-templates", requireAdmin(), async (req, res) => {
     try {
       const templates = await storage.getAllPromptTemplates();
       res.json({ success: true, templates });
@@ -724,33 +1229,182 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/prompt-templates", adminAuth, async (req, res) => {
+  app.post("/api/admin/prompt-templates", requireAdmin("prompt_editor"), async (req, res) => {
     try {
-      const templateData = promptTemplateSchema.parse(req.body);
-      const template = await storage.createPromptTemplate(templateData);
+      const { changeNote, ...templateData } = createPromptTemplateSchema.parse(req.body);
+      const validation = validatePromptTemplate(templateData.basePrompt);
+      if (!validation.ok) {
+        return res.status(400).json({ success: false, error: "Invalid prompt template", issues: validation.issues });
+      }
+      const template = await storage.createPromptTemplate(templateData, { ...revisionAuthor(req.adminUser!), changeNote });
       res.json({ success: true, template });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid prompt template", errors: error.errors });
+      }
       console.error("Failed to create prompt template:", error);
       res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  app.put("/api/admin/prompt-templates/:id", adminAuth, async (req, res) => {
+  // Metadata edits apply in place; a changed prompt is appended as a new revision
+  app.put("/api/admin/prompt-templates/:id", requireAdmin("prompt_editor"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = req.body;
-      const template = await storage.updatePromptTemplate(id, updates);
+      const { changeNote, basePrompt, ...updates } = updatePromptTemplateSchema.parse(req.body);
+      let template = await storage.getPromptTemplate(id);
       if (!template) {
         return res.status(404).json({ success: false, error: "Template not found" });
       }
-      res.json({ success: true, template });
+
+      let revision = null;
+      if (basePrompt !== undefined && basePrompt !== template.basePrompt) {
+        const validation = validatePromptTemplate(basePrompt);
+        if (!validation.ok) {
+          return res.status(400).json({ success: false, error: "Invalid prompt template", issues: validation.issues });
+        }
+        revision = await storage.createPromptTemplateRevision(id, { basePrompt, ...revisionAuthor(req.adminUser!), changeNote });
+      }
+      template = Object.keys(updates).length > 0
+        ? await storage.updatePromptTemplate(id, updates)
+        : await storage.getPromptTemplate(id);
+
+      res.json({ success: true, template, revision });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid prompt template", errors: error.errors });
+      }
       console.error("Failed to update prompt template:", error);
       res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  app.get("/api/admin/prompt-variants/:templateId", adminAuth, async (req, res) => {
+  app.get("/api/admin/prompt-templates/:id/revisions", requireAdmin(), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const template = await storage.getPromptTemplate(id);
+      if (!template) {
+        return res.status(404).json({ success: false, error: "Template not found" });
+      }
+      const revisions = await storage.getPromptTemplateRevisions(id);
+      res.json({ success: true, revisions, currentRevisionId: template.currentRevisionId });
+    } catch (error) {
+      console.error("Failed to get prompt template revisions:", error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  const revisionDiffQuerySchema = z.object({
+    from: z.coerce.number().int().positive(),
+    to: z.coerce.number().int().positive().optional(), // defaults to the current revision
+  });
+
+  app.get("/api/admin/prompt-templates/:id/diff", requireAdmin(), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const query = revisionDiffQuerySchema.parse(req.query);
+      const template = await storage.getPromptTemplate(id);
+      if (!template) {
+        return res.status(404).json({ success: false, error: "Template not found" });
+      }
+
+      const toId = query.to ?? template.currentRevisionId;
+      const [from, to] = await Promise.all([
+        storage.getPromptTemplateRevision(query.from),
+        toId ? storage.getPromptTemplateRevision(toId) : undefined,
+      ]);
+      if (!from || !to || from.templateId !== id || to.templateId !== id) {
+        return res.status(404).json({ success: false, error: "Revision not found" });
+      }
+
+      res.json({ success: true, from, to, segments: diffText(from.basePrompt, to.basePrompt) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid diff query", errors: error.errors });
+      }
+      console.error("Failed to diff prompt template revisions:", error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Rollback appends a copy of an old revision, so history is never rewritten
+  app.post("/api/admin/prompt-templates/:id/revisions/:revisionId/rollback", requireAdmin("prompt_editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { changeNote } = promptChangeNoteSchema.parse(req.body);
+      const target = await storage.getPromptTemplateRevision(parseInt(req.params.revisionId));
+      if (!target || target.templateId !== id) {
+        return res.status(404).json({ success: false, error: "Revision not found" });
+      }
+
+      const revision = await storage.createPromptTemplateRevision(id, {
+        basePrompt: target.basePrompt,
+        ...revisionAuthor(req.adminUser!),
+        changeNote: changeNote || `Rolled back to revision ${target.revision}`,
+        restoredFromRevisionId: target.id,
+      });
+      if (!revision) {
+        return res.status(404).json({ success: false, error: "Template not found" });
+      }
+      const template = await storage.getPromptTemplate(id);
+      res.json({ success: true, template, revision });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid rollback", errors: error.errors });
+      }
+      console.error("Failed to roll back prompt template:", error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  const promptPreviewSchema = z.object({
+    template: z.string(),
+    sample: z.object({
+      petName: z.string(),
+      petBreed: z.string(),
+      gender: z.string(),
+      traits: z.array(z.string()),
+      stats: z.array(z.object({ label: z.string(), value: z.number() })),
+      team: z.string(),
+      position: z.string(),
+      heroName: z.string(),
+      powers: z.array(z.string()),
+      petCount: z.number().int().min(1),
+      petNames: z.array(z.string()),
+      pets: z.array(z.string()),
+    }).partial().optional(),
+  });
+
+  // Variables and filters the prompt template language understands, for the admin editor
+  app.get("/api/admin/prompt-language", requireAdmin(), (_req, res) => {
+    res.json({
+      success: true,
+      variables: Object.entries(PROMPT_VARIABLES).map(([name, spec]) => ({ name, kind: spec.kind, description: spec.description })),
+      filters: Object.entries(PROMPT_FILTERS).map(([name, spec]) => ({ name, description: spec.description })),
+      sample: SAMPLE_PROMPT_CONTEXT,
+    });
+  });
+
+  // Render a draft template against a sample pet without saving it
+  app.post("/api/admin/prompt-templates/preview", requireAdmin("prompt_editor"), (req, res) => {
+    try {
+      const { template, sample } = promptPreviewSchema.parse(req.body);
+      const validation = validatePromptTemplate(template);
+      if (!validation.ok) {
+        return res.status(400).json({ success: false, error: "Invalid prompt template", issues: validation.issues });
+      }
+      const prompt = renderPromptTemplate(template, { ...SAMPLE_PROMPT_CONTEXT, ...sample });
+      res.json({ success: true, prompt, variables: validation.variables });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid preview request", errors: error.errors });
+      }
+      console.error("Failed to preview prompt template:", error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/admin/prompt-variants/:templateId", requireAdmin(), async (req, res) => {
     try {
       const templateId = parseInt(req.params.templateId);
       const variants = await storage.getPromptVariants(templateId);
@@ -761,17 +1415,273 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/prompt-variants", adminAuth, async (req, res) => {
+  app.post("/api/admin/prompt-variants", requireAdmin("prompt_editor"), async (req, res) => {
     try {
       const variantData = promptVariantSchema.parse(req.body);
+      const validation = validatePromptTemplate(variantData.prompt);
+      if (!validation.ok) {
+        return res.status(400).json({ success: false, error: "Invalid prompt template", issues: validation.issues });
+      }
       const variant = await storage.createPromptVariant(variantData);
       res.json({ success: true, variant });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid prompt variant", errors: error.errors });
+      }
       console.error("Failed to create prompt variant:", error);
       res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
+  // AI spend over the last `days` days, with the current budget status
+  app.get("/api/admin/usage", requireAdmin(), async (req, res) => {
+    try {
+      const { days } = z.object({ days: z.coerce.number().int().min(1).max(366).default(30) }).parse(req.query);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const [report, budget] = await Promise.all([storage.getAiSpendReport(since), getBudgetStatus()]);
+      res.json({ success: true, days, report, budget });
+    } catch (error) {
+      console.error("Failed to get AI usage:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Generation audit log and remixes
+  app.get("/api/admin/transformations", requireAdmin(), async (req, res) => {
+    try {
+      const { limit } = z.object({ limit: z.coerce.number().int().min(1).max(100).default(25) }).parse(req.query);
+      const transformations = await storage.getRecentPetTransformations(limit);
+      res.json({ success: true, transformations: transformations.map(toPublicTransformation) });
+    } catch (error) {
+      console.error("Failed to get transformations:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/admin/transformations/:id/attempts", requireAdmin(), async (req, res) => {
+    try {
+      const transformation = await storage.getPetTransformation(req.params.id);
+      if (!transformation) {
+        return res.status(404).json({ success: false, error: "Transformation not found" });
+      }
+      const attempts = await storage.getGenerationAttempts(transformation.id);
+      res.json({ success: true, transformation: toPublicTransformation(transformation), attempts });
+    } catch (error) {
+      console.error("Failed to get generation attempts:", error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Re-run an attempt's exact prompt, model, seed and input image as a new transformation
+  app.post("/api/admin/generation-attempts/:id/remix", requireAdmin("prompt_editor"), async (req, res) => {
+    try {
+      const attempt = await storage.getGenerationAttempt(parseInt(req.params.id));
+      if (!attempt) {
+        return res.status(404).json({ success: false, error: "Generation attempt not found" });
+      }
+      if (!attempt.renderedPrompt) {
+        return res.status(400).json({ success: false, error: "This attempt failed before a prompt was rendered, so there is nothing to remix" });
+      }
+      const source = await storage.getPetTransformation(attempt.transformationId);
+      if (!source) {
+        return res.status(404).json({ success: false, error: "Transformation not found" });
+      }
+
+      // Not linked to the lead: remixes are staff diagnostics, not customer creations
+      const transformation = await storage.createPetTransformation({
+        petName: source.petName,
+        petBreed: source.petBreed,
+        theme: source.theme,
+        traits: source.traits ?? [],
+        gender: (source.gender ?? undefined) as "male" | "female" | "neutral" | undefined,
+        originalImageUrl: attempt.inputImageUrl,
+        pets: source.pets,
+        remixOfAttemptId: attempt.id,
+        visibility: "unlisted",
+      });
+      const job = await enqueueTransformationJob(transformation.id);
+
+      res.status(202).json({ success: true, transformation: toPublicTransformation(transformation), jobId: job.id, statusUrl: `/api/jobs/${job.id}` });
+    } catch (error) {
+      console.error("Failed to remix generation attempt:", error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Brand review queue for everything that can reach a public surface
+  app.get("/api/admin/moderation", requireAdmin(), async (req, res) => {
+    try {
+      const query = moderationQueueQuerySchema.parse(req.query);
+      const [transformations, counts] = await Promise.all([
+        storage.getModerationQueue(query),
+        storage.getModerationCounts(),
+      ]);
+      res.json({ success: true, status: query.status, counts, transformations: transformations.map(toPublicTransformation) });
+    } catch (error) {
+      console.error("Failed to get moderation queue:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/admin/moderation/decisions", requireAdmin("moderator"), async (req, res) => {
+    try {
+      const decision = moderationDecisionSchema.parse(req.body);
+      const moderated = await storage.moderatePetTransformations(Array.from(new Set(decision.ids)), {
+        moderationStatus: decision.status,
+        moderationReason: decision.status === "approved" ? null : decision.reason ?? null,
+        moderationNote: decision.note || null,
+        moderatedBy: req.adminUser!.id,
+        moderatedAt: new Date(),
+      });
+      console.log("Moderation decision:", {
+        status: decision.status,
+        reason: decision.reason,
+        count: moderated.length,
+        adminUserId: req.adminUser!.id,
+      });
+      res.json({ success: true, updated: moderated.map((t) => t.id) });
+    } catch (error) {
+      console.error("Failed to record moderation decision:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid moderation decision", errors: error.errors });
+      }
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Safety screening log, newest first
+  app.get("/api/admin/safety-decisions", requireAdmin(), async (req, res) => {
+    try {
+      const query = z.object({
+        blocked: z.enum(["true", "false"]).default("true").transform((value) => value === "true"),
+        limit: z.coerce.number().int().min(1).max(200).default(50),
+      }).parse(req.query);
+      const decisions = await storage.getSafetyDecisions({ blockedOnly: query.blocked, limit: query.limit });
+      res.json({ success: true, decisions });
+    } catch (error) {
+      console.error("Failed to get safety decisions:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Outbound integration deliveries in one state, newest first
+  app.get("/api/admin/outbox", requireAdmin(), async (req, res) => {
+    try {
+      const query = outboxQuerySchema.parse(req.query);
+      const [messages, counts] = await Promise.all([
+        storage.getOutboxMessages(query),
+        storage.getOutboxCounts(),
+      ]);
+      res.json({ success: true, status: query.status, counts, messages });
+    } catch (error) {
+      console.error("Failed to get outbox messages:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Queue dead deliveries again, e.g. once Drip is back up or its credentials are fixed
+  app.post("/api/admin/outbox/replay", requireAdmin("owner"), async (req, res) => {
+    try {
+      const { ids } = outboxReplaySchema.parse(req.body);
+      const replayed = await storage.replayOutboxMessages(Array.from(new Set(ids)));
+      console.log("Outbox replay:", { count: replayed.length, adminUserId: req.adminUser!.id });
+      kickOutboxDispatcher();
+      res.json({ success: true, replayed: replayed.map((message) => message.id) });
+    } catch (error) {
+      console.error("Failed to replay outbox messages:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid replay request", errors: error.errors });
+      }
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Account erasures, oldest first, with the result of re-checking the hash chain
+  app.get("/api/admin/deletion-log", requireAdmin("owner"), async (req, res) => {
+    try {
+      const entries = await storage.getDeletionLog();
+      res.json({ success: true, entries, verification: verifyDeletionLog(entries) });
+    } catch (error) {
+      console.error("Failed to get deletion log:", error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Theme registry management (protected)
+  const themeGeneratorSchema = z.object({
+    generator: z.enum(themeGeneratorKeys as [string, ...string[]]).optional(),
+    statGenerator: z.enum(themeStatGeneratorKeys as [string, ...string[]]).optional(),
+  });
+
+  app.get("/api/admin/themes", requireAdmin(), async (req, res) => {
+    try {
+      const themes = await storage.getThemes({ includeInactive: true });
+      res.json({ success: true, themes, generators: themeGeneratorKeys, statGenerators: themeStatGeneratorKeys });
+    } catch (error) {
+      console.error("Failed to get themes:", error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/admin/themes", requireAdmin("owner"), async (req, res) => {
+    try {
+      const themeData = insertThemeSchema.parse(req.body);
+      themeGeneratorSchema.parse(themeData);
+      const fallbackValidation = validatePromptTemplate(themeData.fallbackPrompt ?? "");
+      if (!fallbackValidation.ok) {
+        return res.status(400).json({ success: false, error: "Invalid fallback prompt", issues: fallbackValidation.issues });
+      }
+      if (await storage.getTheme(themeData.slug)) {
+        return res.status(409).json({ success: false, error: `Theme "${themeData.slug}" already exists` });
+      }
+      const theme = await storage.createTheme(themeData);
+      res.json({ success: true, theme });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid theme", errors: error.errors });
+      }
+      console.error("Failed to create theme:", error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.put("/api/admin/themes/:slug", requireAdmin("owner"), async (req, res) => {
+    try {
+      const updates = updateThemeSchema.parse(req.body);
+      themeGeneratorSchema.parse(updates);
+      const fallbackValidation = validatePromptTemplate(updates.fallbackPrompt ?? "");
+      if (!fallbackValidation.ok) {
+        return res.status(400).json({ success: false, error: "Invalid fallback prompt", issues: fallbackValidation.issues });
+      }
+      const theme = await storage.updateTheme(req.params.slug, updates);
+      if (!theme) {
+        return res.status(404).json({ success: false, error: "Theme not found" });
+      }
+      res.json({ success: true, theme });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid theme", errors: error.errors });
+      }
+      console.error("Failed to update theme:", error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
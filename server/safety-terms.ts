@@ -0,0 +1,36 @@
+import type { SafetyCategory } from "@shared/schema";
+
+/**
+ * Built-in wordlist for the local safety engine. Entries are regular expression fragments matched
+ * as whole words against lowercased text with accents and common letter swaps (0→o, 3→e, $→s...)
+ * undone. SAFETY_WORDLIST_PATH adds plain-word entries from a JSON file keyed by category.
+ *
+ * Kept deliberately short: broad terms here block real pet names, so anything ambiguous belongs
+ * in the review queue (MODERATION_FLAG_TERMS) rather than in this list.
+ */
+export const DEFAULT_SAFETY_TERMS: Record<SafetyCategory, string[]> = {
+  profanity: [
+    "f+u+c+k\\w*", "\\w*f+u+c+k+e+r\\w*", "sh[i1]+t+(s|ty|head)?", "bullshit", "bitch\\w*", "cunt\\w*",
+    "asshole\\w*", "arsehole\\w*", "bastards?", "dickhead\\w*", "cocksucker\\w*", "twats?", "wank\\w*",
+    "whores?", "sluts?", "piss(ed)?", "bollocks", "jackass",
+  ],
+  hate: [
+    "nazis?", "heil hitler", "sieg heil", "kkk", "white power", "white pride", "14 ?88", "neo ?nazis?",
+    "gas the \\w+", "ethnic cleansing", "genocide",
+  ],
+  sexual: [
+    "nude\\w*", "naked", "porn\\w*", "nsfw", "xxx", "hentai", "topless", "sexy", "sexual\\w*", "erotic\\w*",
+    "fetish\\w*", "lingerie", "onlyfans", "boobs?", "penis", "vagina", "orgasm\\w*",
+  ],
+  violence: [
+    "gore", "gory", "bloody", "blood ?bath", "decapitat\\w*", "behead\\w*", "dismember\\w*", "mutilat\\w*",
+    "corpses?", "torture\\w*", "massacre\\w*", "suicide", "self ?harm", "school shooting", "terroris[mt]s?",
+  ],
+  // Other companies' brands and characters, including competitors in pet retail
+  brand_abuse: [
+    "disney", "pixar", "marvel", "dc comics", "mickey mouse", "minnie mouse", "pokemon", "pikachu", "nintendo",
+    "mario bros", "hello kitty", "spider ?man", "batman", "superman", "iron ?man", "star wars", "harry potter",
+    "nike", "adidas", "gucci", "louis vuitton", "coca ?cola", "pepsi", "starbucks", "mcdonalds?", "nfl", "nba",
+    "petco", "petsmart", "purina", "blue buffalo", "hills science diet", "royal canin", "iams",
+  ],
+};
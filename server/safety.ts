@@ -0,0 +1,276 @@
+import { readFileSync } from "node:fs";
+import sharp from "sharp";
+import { z } from "zod";
+import { safetyCategories, type SafetyCategory, type SafetySubject } from "@shared/schema";
+import { storage } from "./storage";
+import { moderateContent } from "./openai";
+import { DEFAULT_SAFETY_TERMS } from "./safety-terms";
+
+export interface SafetyVerdict {
+  allowed: boolean;
+  categories: SafetyCategory[];
+  /** Wordlist terms or provider labels that fired */
+  matches: string[];
+  /** Set when the provider failed and the verdict fell back to allowing */
+  error?: string;
+}
+
+export interface SafetyProvider {
+  readonly name: string;
+  screenText(text: string): Promise<SafetyVerdict>;
+  screenImage(image: Buffer, mimetype: string): Promise<SafetyVerdict>;
+}
+
+export interface SafetyContext {
+  transformationId?: string | null;
+}
+
+const ALLOWED: SafetyVerdict = { allowed: true, categories: [], matches: [] };
+const EXCERPT_LENGTH = 200;
+
+const SUBJECT_MESSAGES: Record<SafetySubject, string> = {
+  pet_name: "Let's pick a different name. We can't print that one on a card.",
+  pet_breed: "The breed includes words we can't use. Please describe it another way.",
+  pet_traits: "One of the traits includes words we can't use. Please choose different ones.",
+  custom_prompt: "We can't create that scene. Please describe something family-friendly.",
+  upload: "This photo can't be used. Please upload a different picture of your pet.",
+  output: "We couldn't create an image we're happy to share this time. Please try again or pick another theme.",
+};
+
+const BRAND_MESSAGE = "We can't use other brands' names or characters. Try describing the look you want instead, like \"a caped hero over a city at night\".";
+
+/**
+ * Raised when screened content is blocked; the message is safe to show to the user.
+ */
+export class ContentRejectedError extends Error {
+  constructor(
+    public readonly subject: SafetySubject,
+    public readonly categories: SafetyCategory[],
+  ) {
+    super(categories.includes("brand_abuse") && !isImageSubject(subject) ? BRAND_MESSAGE : SUBJECT_MESSAGES[subject]);
+    this.name = "ContentRejectedError";
+  }
+
+  /** Body for the 422 response, in the same shape as upload photo issues */
+  toResponse() {
+    return {
+      success: false,
+      message: this.message,
+      reasons: [{ code: "unsafe_content", field: this.subject, message: this.message }],
+    };
+  }
+}
+
+function isImageSubject(subject: SafetySubject): boolean {
+  return subject === "upload" || subject === "output";
+}
+
+const LEET_SWAPS: Record<string, string> = { "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t", "@": "a", "$": "s", "!": "i" };
+
+/**
+ * Lowercase, strip accents, undo common letter swaps and join spaced-out letters ("f u c k"),
+ * so simple obfuscation doesn't slip past the wordlist.
+ */
+export function normalizeForScreening(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[013457@$!]/g, (char) => LEET_SWAPS[char] ?? char)
+    .replace(/\b(?:[a-z][\s._*-]){2,}[a-z]\b/g, (run) => run.replace(/[\s._*-]/g, ""));
+}
+
+const wordlistFileSchema = z.record(z.enum(safetyCategories), z.array(z.string().trim().min(1)));
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Offline default: built-in wordlist plus SAFETY_WORDLIST_PATH entries. Image content cannot be
+ * judged locally, so decodable images are allowed (and still logged); anything that doesn't decode
+ * throws, the same as a provider that can't screen it.
+ */
+export class LocalSafetyProvider implements SafetyProvider {
+  readonly name = "local";
+  private readonly patterns: Array<{ category: SafetyCategory; term: string; pattern: RegExp }>;
+
+  constructor(extraTerms: Partial<Record<SafetyCategory, string[]>> = {}) {
+    this.patterns = safetyCategories.flatMap((category) => [
+      ...DEFAULT_SAFETY_TERMS[category].map((term) => ({ category, term, source: term })),
+      ...(extraTerms[category] ?? []).map((term) => ({ category, term, source: escapeRegExp(term.toLowerCase()) })),
+    ].map(({ category, term, source }) => ({
+      category,
+      term,
+      pattern: new RegExp(`(^|[^a-z0-9])(?:${source})(?=$|[^a-z0-9])`, "i"),
+    })));
+  }
+
+  async screenText(text: string): Promise<SafetyVerdict> {
+    // Raw lowercase catches digit-based terms ("1488") that leet undoing would rewrite
+    const variants = [text.toLowerCase(), normalizeForScreening(text)];
+    const hits = this.patterns.filter(({ pattern }) => variants.some((variant) => pattern.test(variant)));
+    if (hits.length === 0) {
+      return ALLOWED;
+    }
+    return {
+      allowed: false,
+      categories: Array.from(new Set(hits.map((hit) => hit.category))),
+      matches: Array.from(new Set(hits.map((hit) => hit.term))),
+    };
+  }
+
+  async screenImage(image: Buffer): Promise<SafetyVerdict> {
+    const metadata = await sharp(image).metadata().catch(() => null);
+    if (!metadata?.width || !metadata.height) {
+      throw new Error("Image could not be decoded for screening");
+    }
+    return ALLOWED;
+  }
+}
+
+// OpenAI moderation labels mapped onto our categories; anything unmapped counts as violence
+const OPENAI_CATEGORY_MAP: Array<[string, SafetyCategory]> = [
+  ["hate", "hate"],
+  ["harassment", "hate"],
+  ["sexual", "sexual"],
+];
+
+/**
+ * OpenAI moderation model for images and text, layered on the local wordlist, which still covers
+ * profanity and brand abuse. Fails open on provider errors so an outage doesn't stop every upload.
+ */
+export class OpenAISafetyProvider implements SafetyProvider {
+  readonly name = "openai";
+
+  constructor(private readonly local: LocalSafetyProvider) {}
+
+  async screenText(text: string): Promise<SafetyVerdict> {
+    const localVerdict = await this.local.screenText(text);
+    if (!localVerdict.allowed) {
+      return localVerdict;
+    }
+    return this.classify({ text });
+  }
+
+  async screenImage(image: Buffer, mimetype: string): Promise<SafetyVerdict> {
+    return this.classify({ image, mimetype });
+  }
+
+  private async classify(input: Parameters<typeof moderateContent>[0]): Promise<SafetyVerdict> {
+    const result = await moderateContent(input);
+    if (!result.success) {
+      return { ...ALLOWED, error: result.error || "Content moderation failed" };
+    }
+    if (!result.flagged) {
+      return ALLOWED;
+    }
+    const labels = result.categories ?? [];
+    const categories = labels.map((label) =>
+      OPENAI_CATEGORY_MAP.find(([prefix]) => label.startsWith(prefix))?.[1] ?? "violence");
+    return { allowed: false, categories: Array.from(new Set(categories)), matches: labels };
+  }
+}
+
+function extraTermsFromEnv(): Partial<Record<SafetyCategory, string[]>> {
+  const path = process.env.SAFETY_WORDLIST_PATH;
+  if (!path) {
+    return {};
+  }
+  return wordlistFileSchema.parse(JSON.parse(readFileSync(path, "utf8")));
+}
+
+let cachedProvider: SafetyProvider | null = null;
+
+export function createSafetyProvider(name: string): SafetyProvider {
+  switch (name) {
+    case "local":
+      return new LocalSafetyProvider(extraTermsFromEnv());
+    case "openai":
+      return new OpenAISafetyProvider(new LocalSafetyProvider(extraTermsFromEnv()));
+    default:
+      throw new Error(`Unknown SAFETY_PROVIDER "${name}". Use "local" or "openai".`);
+  }
+}
+
+/**
+ * Provider selected by SAFETY_PROVIDER (defaults to the offline wordlist).
+ */
+export function getSafetyProvider(): SafetyProvider {
+  if (!cachedProvider) {
+    cachedProvider = createSafetyProvider((process.env.SAFETY_PROVIDER || "local").trim().toLowerCase());
+    console.log(`Using safety provider: ${cachedProvider.name}`);
+  }
+  return cachedProvider;
+}
+
+async function logDecision(
+  subject: SafetySubject,
+  verdict: SafetyVerdict,
+  excerpt: string | null,
+  context: SafetyContext,
+): Promise<number | null> {
+  const provider = getSafetyProvider().name;
+  if (!verdict.allowed) {
+    console.warn("Safety screening blocked content:", { subject, provider, categories: verdict.categories, matches: verdict.matches });
+  }
+  try {
+    const recorded = await storage.recordSafetyDecision({
+      subject,
+      provider,
+      allowed: verdict.allowed,
+      categories: verdict.categories,
+      matches: verdict.matches,
+      excerpt: excerpt === null ? null : excerpt.slice(0, EXCERPT_LENGTH),
+      transformationId: context.transformationId ?? null,
+      error: verdict.error ?? null,
+    });
+    return recorded.id;
+  } catch (error) {
+    console.error("Failed to record safety decision:", { subject, error });
+    return null;
+  }
+}
+
+/**
+ * Screen each non-empty text field and throw ContentRejectedError for the first one blocked.
+ * Every decision is logged; returns the logged ids so a caller can link them to a transformation
+ * created afterwards.
+ */
+export async function assertSafeText(
+  fields: Array<[SafetySubject, string | string[] | null | undefined]>,
+  context: SafetyContext = {},
+): Promise<number[]> {
+  const decisionIds: number[] = [];
+  for (const [subject, value] of fields) {
+    const text = (Array.isArray(value) ? value.join(", ") : value ?? "").trim();
+    if (!text) {
+      continue;
+    }
+    const verdict = await getSafetyProvider().screenText(text);
+    const decisionId = await logDecision(subject, verdict, text, context);
+    if (decisionId !== null) {
+      decisionIds.push(decisionId);
+    }
+    if (!verdict.allowed) {
+      throw new ContentRejectedError(subject, verdict.categories);
+    }
+  }
+  return decisionIds;
+}
+
+/**
+ * Screen an uploaded photo or generated image; throws ContentRejectedError when blocked.
+ */
+export async function assertSafeImage(
+  subject: Extract<SafetySubject, "upload" | "output">,
+  image: Buffer,
+  mimetype: string,
+  context: SafetyContext = {},
+): Promise<void> {
+  const verdict = await getSafetyProvider().screenImage(image, mimetype);
+  await logDecision(subject, verdict, null, context);
+  if (!verdict.allowed) {
+    throw new ContentRejectedError(subject, verdict.categories);
+  }
+}
@@ -0,0 +1,176 @@
+import type { Request } from "express";
+import type { PetTransformation, Theme } from "@shared/schema";
+
+const SITE_NAME = "The Pet Pantry Transformations";
+const TWITTER_SITE = "@FeedYourPetsCom";
+const FALLBACK_IMAGE_PATH = "/images/raleigh-hero.jpg";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Origin used for absolute share URLs: PUBLIC_BASE_URL when set, otherwise the request's own host.
+ */
+export function siteOrigin(req: Request): string {
+  const configured = process.env.PUBLIC_BASE_URL;
+  if (configured) {
+    return configured.replace(/\/+$/, "");
+  }
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+function absoluteUrl(origin: string, url: string): string {
+  return /^https?:\/\//i.test(url) ? url : `${origin}${url.startsWith("/") ? "" : "/"}${url}`;
+}
+
+function pageShell(options: { title: string; head: string; body: string; accentFrom: string; accentTo: string }): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>${escapeHtml(options.title)}</title>
+${options.head}
+  <style>
+    body { margin: 0; min-height: 100vh; font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #1f2937;
+      background: linear-gradient(135deg, ${options.accentFrom}, ${options.accentTo}); display: flex; align-items: center; justify-content: center; }
+    main { max-width: 520px; margin: 32px 16px; padding: 24px; background: #fff; border-radius: 20px; text-align: center; box-shadow: 0 20px 40px rgba(0,0,0,.12); }
+    img { width: 100%; height: auto; border-radius: 12px; }
+    h1 { font-size: 1.75rem; margin: 20px 0 4px; }
+    p { color: #4b5563; margin: 0 0 20px; }
+    a.cta { display: inline-block; padding: 14px 28px; border-radius: 9999px; background: #55005c; color: #fff; font-weight: 600; text-decoration: none; }
+  </style>
+</head>
+<body>
+  <main>
+${options.body}
+  </main>
+</body>
+</html>`;
+}
+
+/**
+ * Server-rendered share page for one transformation, so link previews on Facebook and X show the
+ * pet's own image instead of the landing page's defaults.
+ */
+export function renderSharePage(options: {
+  transformation: PetTransformation;
+  theme: Theme | undefined;
+  origin: string;
+}): string {
+  const { transformation, theme, origin } = options;
+  const petName = transformation.petName;
+  const themeNoun = theme?.copy.noun ?? "legend";
+  const title = `${petName}'s ${theme?.copy.nounTitle ?? "Transformation"} | The Pet Pantry`;
+  const description = theme
+    ? `Meet ${petName}, ${theme.copy.shareHighlight}. Turn your own pet into a ${themeNoun} in seconds.`
+    : `Meet ${petName}! Turn your own pet into a legend in seconds.`;
+  const pageUrl = `${origin}/p/${encodeURIComponent(transformation.id)}`;
+  const displayImage = transformation.transformedImageUrl;
+  const previewImage = absoluteUrl(origin, transformation.renditions.og ?? displayImage ?? FALLBACK_IMAGE_PATH);
+
+  const meta: Array<[string, string, string]> = [
+    ["name", "description", description],
+    ["property", "og:type", "website"],
+    ["property", "og:site_name", SITE_NAME],
+    ["property", "og:url", pageUrl],
+    ["property", "og:title", title],
+    ["property", "og:description", description],
+    ["property", "og:image", previewImage],
+    ["property", "og:image:alt", `${petName} as a ${themeNoun}`],
+    ["name", "twitter:card", "summary_large_image"],
+    ["name", "twitter:site", TWITTER_SITE],
+    ["name", "twitter:title", title],
+    ["name", "twitter:description", description],
+    ["name", "twitter:image", previewImage],
+  ];
+  if (transformation.renditions.og) {
+    meta.push(["property", "og:image:width", "1200"], ["property", "og:image:height", "630"]);
+  }
+  if (transformation.visibility !== "public") {
+    meta.push(["name", "robots", "noindex, nofollow"]);
+  }
+
+  const head = [
+    `  <link rel="canonical" href="${escapeHtml(pageUrl)}" />`,
+    ...meta.map(([attr, key, value]) => `  <meta ${attr}="${key}" content="${escapeHtml(value)}" />`),
+  ].join("\n");
+
+  const body = [
+    displayImage
+      ? `    <img src="${escapeHtml(absoluteUrl(origin, displayImage))}" alt="${escapeHtml(`${petName} as a ${themeNoun}`)}" />`
+      : `    <p>${escapeHtml(petName)}'s ${escapeHtml(themeNoun)} is still being created. Check back in a minute!</p>`,
+    `    <h1>${escapeHtml(petName)}</h1>`,
+    `    <p>${escapeHtml(theme ? `${theme.title} · ${theme.subtitle}` : SITE_NAME)}</p>`,
+    `    <a class="cta" href="${escapeHtml(origin)}/">Make your own ${escapeHtml(themeNoun)}</a>`,
+  ].join("\n");
+
+  return pageShell({
+    title,
+    head,
+    body,
+    accentFrom: theme?.palette.backgroundFrom ?? "#f5f3ff",
+    accentTo: theme?.palette.backgroundTo ?? "#fdf2f8",
+  });
+}
+
+/**
+ * Stand-in share page while a transformation awaits brand review: no pet image in the page or
+ * its previews, and kept out of search results.
+ */
+export function renderShareInReviewPage(options: {
+  transformation: PetTransformation;
+  theme: Theme | undefined;
+  origin: string;
+}): string {
+  const { transformation, theme, origin } = options;
+  const themeNoun = theme?.copy.noun ?? "legend";
+  const title = `${transformation.petName}'s ${theme?.copy.nounTitle ?? "Transformation"} | The Pet Pantry`;
+  const description = `Turn your own pet into a ${themeNoun} in seconds.`;
+  const previewImage = absoluteUrl(origin, FALLBACK_IMAGE_PATH);
+
+  const meta: Array<[string, string, string]> = [
+    ["name", "robots", "noindex, nofollow"],
+    ["name", "description", description],
+    ["property", "og:type", "website"],
+    ["property", "og:site_name", SITE_NAME],
+    ["property", "og:title", title],
+    ["property", "og:description", description],
+    ["property", "og:image", previewImage],
+    ["name", "twitter:card", "summary_large_image"],
+    ["name", "twitter:site", TWITTER_SITE],
+    ["name", "twitter:image", previewImage],
+  ];
+
+  return pageShell({
+    title,
+    head: meta.map(([attr, key, value]) => `  <meta ${attr}="${key}" content="${escapeHtml(value)}" />`).join("\n"),
+    body: [
+      `    <h1>${escapeHtml(transformation.petName)}</h1>`,
+      `    <p>This ${escapeHtml(themeNoun)} is getting a quick look from our team. Check back soon!</p>`,
+      `    <a class="cta" href="${escapeHtml(origin)}/">Make your own ${escapeHtml(themeNoun)}</a>`,
+    ].join("\n"),
+    accentFrom: theme?.palette.backgroundFrom ?? "#f5f3ff",
+    accentTo: theme?.palette.backgroundTo ?? "#fdf2f8",
+  });
+}
+
+export function renderShareNotFoundPage(origin: string): string {
+  return pageShell({
+    title: `Not found | ${SITE_NAME}`,
+    head: `  <meta name="robots" content="noindex" />`,
+    body: [
+      `    <h1>This pet isn't here</h1>`,
+      `    <p>The link may be mistyped, or the card was removed.</p>`,
+      `    <a class="cta" href="${escapeHtml(origin)}/">Make your own</a>`,
+    ].join("\n"),
+    accentFrom: "#f5f3ff",
+    accentTo: "#fdf2f8",
+  });
+}
@@ -1,51 +1,303 @@
-import { type User, type InsertUser, type PetTransformation, type InsertPetTransformation, type PromptTemplateInsert, type PromptTemplateSelect, type PromptVariantInsert, type PromptVariantSelect, type SiteMetrics, users, petTransformations, promptTemplates, promptVariants, siteMetrics } from "@shared/schema";
+import { type User, type InsertUser, type LoginToken, type InsertLoginToken, type VisitorSession, type Upload, type EmailCaptureRow, type InsertUpload, type DeletionLogEntry, type InsertDeletionLogEntry, type OutboxMessage, type InsertOutboxMessage, type OutboxStatus, type AdminUser, type InsertAdminUser, type PetTransformation, type InsertPetTransformation, type TransformationVisibility, type ModerationStatus, type ModerationQueueQuery, type PromptTemplateInsert, type PromptTemplateSelect, type PromptTemplateRevision, type PromptRevisionMeta, type PromptVariantInsert, type PromptVariantSelect, type OutcomeSignal, type TransformationOutcome, type TransformationLike, type AiUsageEvent, type InsertAiUsageEvent, type SafetyDecision, type InsertSafetyDecision, type SiteMetrics, type GenerationJob, type GenerationAttempt, type InsertGenerationAttempt, type Theme, type InsertTheme, type UpdateTheme, users, loginTokens, visitorSessions, uploads, emailCaptures, deletionLog, outboxMessages, adminUsers, petTransformations, promptTemplates, promptTemplateRevisions, promptVariants, transformationOutcomes, aiUsageEvents, siteMetrics, generationJobs, generationAttempts, themes, transformationLikes, safetyDecisions } from "@shared/schema";
 import { randomUUID } from "crypto";
-import { db } from "./db";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { getDb } from "./db";
+import { eq, desc, asc, and, or, gt, gte, inArray, isNotNull, isNull, lt, lte, ne, sql } from "drizzle-orm";
+import { alias, union } from "drizzle-orm/pg-core";
+import { defaultThemes } from "./theme-seeds";
 
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
+  /** Matched case-insensitively */
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
+  /**
+   * Removes the user with their login tokens and visitor sessions; false when unknown. Their
+   * transformations must be deleted first.
+   */
+  deleteUser(id: string): Promise<boolean>;
+
+  // Magic-link sign-in methods
+  createLoginToken(token: InsertLoginToken): Promise<LoginToken>;
+  /** Marks the token used and returns it, or undefined when it is unknown, used or expired */
+  consumeLoginToken(tokenHash: string, now: Date): Promise<LoginToken | undefined>;
+
+  // Anonymous visitor session methods
+  getVisitorSession(id: string): Promise<VisitorSession | undefined>;
+  /**
+   * Link the visitor session to the user (replacing any earlier link) and hand the user every
+   * transformation the session created that doesn't belong to anyone yet. Returns the ids it linked.
+   */
+  mergeVisitorSession(sessionId: string, userId: string): Promise<string[]>;
+
+  // Upload methods
+  recordUpload(upload: InsertUpload): Promise<Upload>;
+  /** The recorded uploads among `keys`, in no particular order */
+  getUploads(keys: string[]): Promise<Upload[]>;
+  /** Whether any transformation besides `exceptTransformationId` lists the upload in `uploadKeys` */
+  isUploadInUse(key: string, exceptTransformationId: string): Promise<boolean>;
+  deleteUpload(key: string): Promise<void>;
+
+  // Email capture
+  /**
+   * Record a download lead in one transaction: find or create the user (filling in a missing name),
+   * count the download and queue the outbox messages `messages` builds for the user. The email is
+   * unverified, so ownership doesn't change; signing in with a magic link links the creations.
+   */
+  recordEmailCapture(capture: EmailCapture, messages: (user: User) => NewOutboxMessage[]): Promise<{ user: User; messages: OutboxMessage[] }>;
+
+  // Admin account methods
+  getAdminUser(id: string): Promise<AdminUser | undefined>;
+  getAdminUserByEmail(email: string): Promise<AdminUser | undefined>;
+  getAdminUsers(): Promise<AdminUser[]>;
+  createAdminUser(user: NewAdminUser): Promise<AdminUser>;
+  updateAdminUser(id: string, updates: AdminUserUpdate): Promise<AdminUser | undefined>;
 
   // Pet transformation methods
   getPetTransformation(id: string): Promise<PetTransformation | undefined>;
-  createPetTransformation(transformation: InsertPetTransformation): Promise<PetTransformation>;
+  createPetTransformation(transformation: NewPetTransformation): Promise<PetTransformation>;
   updatePetTransformation(id: string, updates: Partial<PetTransformation>): Promise<PetTransformation | undefined>;
   updatePetTransformationStats(id: string, stats: { likes: number; shares: number; downloads: number }): Promise<void>;
+  /** Newest first */
   getUserTransformations(userId: string): Promise<PetTransformation[]>;
+  /** Links the transformations that don't belong to anyone yet; returns the ids it linked */
+  assignTransformationsToUser(userId: string, transformationIds: string[]): Promise<string[]>;
+  /** Removes the transformation with its jobs, attempts, likes and outcomes; false when unknown */
+  deletePetTransformation(id: string): Promise<boolean>;
+  /** Admin remixes made from the transformation's generation attempts */
+  getRemixTransformations(transformationId: string): Promise<PetTransformation[]>;
+  /** Newest first */
+  getRecentPetTransformations(limit: number): Promise<PetTransformation[]>;
+
+  // Likes and public gallery methods
+  /**
+   * Count one like per visitor. Returns the transformation's like total and whether this call
+   * added a like, or undefined for an unknown transformation.
+   */
+  likePetTransformation(transformationId: string, visitorKey: string): Promise<{ liked: boolean; likes: number } | undefined>;
+  /** Which of `transformationIds` the visitor has liked */
+  getLikedTransformationIds(visitorKey: string, transformationIds: string[]): Promise<string[]>;
+  /** Public, opted-in, finished transformations, newest first */
+  getGalleryTransformations(query: GalleryPageQuery): Promise<PetTransformation[]>;
+  /** Gallery transformations ranked by likes received since `likedSince` (all time when omitted) */
+  getMostLikedGalleryTransformations(query: GalleryFilter & { likedSince?: Date; limit: number }): Promise<LikedTransformation[]>;
+  /** Breeds with the most gallery transformations, matched case-insensitively */
+  getGalleryBreeds(limit: number): Promise<GalleryBreed[]>;
+
+  // Moderation methods
+  /**
+   * Finished transformations in one review state. Pending items come flagged first, then oldest
+   * first; decided items come most recently decided first.
+   */
+  getModerationQueue(query: ModerationQueueQuery): Promise<PetTransformation[]>;
+  /** Finished transformations per review state */
+  getModerationCounts(): Promise<Record<ModerationStatus, number>>;
+  /** Applies one decision to every id; returns the transformations that exist */
+  moderatePetTransformations(ids: string[], decision: ModerationUpdate): Promise<PetTransformation[]>;
+
+  // Generation job queue methods
+  createGenerationJob(transformationId: string): Promise<GenerationJob>;
+  getGenerationJob(id: string): Promise<GenerationJob | undefined>;
+  updateGenerationJob(id: string, updates: Partial<GenerationJob>): Promise<GenerationJob | undefined>;
+  claimNextGenerationJob(): Promise<GenerationJob | undefined>;
+  /** Whether a job for the transformation is queued or running */
+  hasPendingGenerationJob(transformationId: string): Promise<boolean>;
+  requeueStaleGenerationJobs(staleBefore: Date, maxAttempts: number): Promise<number>;
+
+  // Generation audit log methods
+  createGenerationAttempt(attempt: InsertGenerationAttempt): Promise<GenerationAttempt>;
+  getGenerationAttempt(id: number): Promise<GenerationAttempt | undefined>;
+  /** Newest first */
+  getGenerationAttempts(transformationId: string): Promise<GenerationAttempt[]>;
 
   // Site metrics methods
   getSiteMetrics(): Promise<SiteMetrics>;
   incrementSiteMetrics(updates: { transforms?: number; shares?: number }): Promise<SiteMetrics>;
 
+  // Theme registry methods
+  getThemes(options?: { includeInactive?: boolean }): Promise<Theme[]>;
+  getTheme(slug: string): Promise<Theme | undefined>;
+  createTheme(theme: InsertTheme): Promise<Theme>;
+  updateTheme(slug: string, updates: UpdateTheme): Promise<Theme | undefined>;
+
   // Backend prompt optimization methods
   getActivePromptTemplate(category: string): Promise<PromptTemplateSelect | undefined>;
   getAllPromptTemplates(): Promise<PromptTemplateSelect[]>;
-  createPromptTemplate(template: PromptTemplateInsert): Promise<PromptTemplateSelect>;
-  updatePromptTemplate(id: number, updates: Partial<PromptTemplateSelect>): Promise<PromptTemplateSelect | undefined>;
+  getPromptTemplate(id: number): Promise<PromptTemplateSelect | undefined>;
+  /** Creates the template together with its first revision */
+  createPromptTemplate(template: PromptTemplateInsert, meta: PromptRevisionMeta): Promise<PromptTemplateSelect>;
+  /** Metadata only; prompt text changes go through createPromptTemplateRevision */
+  updatePromptTemplate(id: number, updates: PromptTemplateMetadataUpdate): Promise<PromptTemplateSelect | undefined>;
+  getPromptTemplateRevisions(templateId: number): Promise<PromptTemplateRevision[]>;
+  getPromptTemplateRevision(id: number): Promise<PromptTemplateRevision | undefined>;
+  /** Appends the next revision and makes it the template's current prompt */
+  createPromptTemplateRevision(templateId: number, revision: NewPromptRevision): Promise<PromptTemplateRevision | undefined>;
   getPromptVariants(templateId: number): Promise<PromptVariantSelect[]>;
-  getBestPromptVariant(templateId: number): Promise<PromptVariantSelect | undefined>;
   createPromptVariant(variant: PromptVariantInsert): Promise<PromptVariantSelect>;
-  updatePromptVariantStats(id: number, successRate: number): Promise<void>;
+  recordPromptVariantUse(id: number): Promise<void>;
+  /**
+   * Credit an outcome signal once per transformation. The transformation's running reward is
+   * clamped to [0, 1] and the applied change is added to the variant that produced it.
+   * Returns undefined for an unknown transformation or a signal that was already recorded.
+   */
+  recordTransformationOutcome(outcome: OutcomeInput): Promise<TransformationOutcome | undefined>;
+  recordAiUsage(event: InsertAiUsageEvent): Promise<AiUsageEvent>;
+  /** Estimated AI spend (USD) recorded since `since` */
+  getAiSpendSince(since: Date): Promise<number>;
+  /** Spend since `since` by theme, by operation and by lead (the customer a transformation was delivered to) */
+  getAiSpendReport(since: Date): Promise<AiSpendReport>;
+
+  // Safety screening log methods
+  recordSafetyDecision(decision: InsertSafetyDecision): Promise<SafetyDecision>;
+  /** Attributes decisions screened before their transformation existed */
+  linkSafetyDecisions(ids: number[], transformationId: string): Promise<void>;
+  /** Removes the transformation's decisions, screened text included; returns how many */
+  deleteSafetyDecisions(transformationId: string): Promise<number>;
+  /** Newest first */
+  getSafetyDecisions(query: { blockedOnly: boolean; limit: number }): Promise<SafetyDecision[]>;
+
+  // Outbox methods
+  /**
+   * Claim up to `limit` messages that are due, or whose earlier claim went stale, marking them
+   * delivering and counting an attempt on each.
+   */
+  claimOutboxMessages(options: { now: Date; staleBefore: Date; limit: number }): Promise<OutboxMessage[]>;
+  updateOutboxMessage(id: number, updates: Partial<OutboxMessage>): Promise<OutboxMessage | undefined>;
+  /** Newest first */
+  getOutboxMessages(query: { status: OutboxStatus; limit: number }): Promise<OutboxMessage[]>;
+  getOutboxCounts(): Promise<Record<OutboxStatus, number>>;
+  /** Puts dead messages back in the queue, due now with a fresh attempt count; returns those it requeued */
+  replayOutboxMessages(ids: number[]): Promise<OutboxMessage[]>;
+  /**
+   * Drops the user's undelivered messages, except ones a dispatcher is sending right now; returns
+   * how many of those are still in flight.
+   */
+  discardUserOutboxMessages(userId: string): Promise<{ discarded: number; inFlight: number }>;
+
+  // Erasure log methods
+  /**
+   * Append an entry. `seal` is given the current last entry and returns the chain hashes for the
+   * new one; appends are serialized so two erasures can't chain off the same entry.
+   */
+  appendDeletionLogEntry(entry: NewDeletionLogEntry, seal: (previous: DeletionLogEntry | undefined) => DeletionLogSeal): Promise<DeletionLogEntry>;
+  /** Oldest first */
+  getDeletionLog(): Promise<DeletionLogEntry[]>;
+}
+
+export type NewPetTransformation = InsertPetTransformation & {
+  uploadKeys?: string[];
+  userId?: string | null;
+  sessionId?: string | null;
+  remixOfAttemptId?: number | null;
+  ownerTokenHash?: string | null;
+  visibility?: TransformationVisibility;
+};
+
+export interface EmailCapture {
+  email: string;
+  name?: string;
+  transformationId: string;
+}
+
+export type NewOutboxMessage = Pick<InsertOutboxMessage, "topic" | "payload" | "userId">;
+
+export type NewDeletionLogEntry = Omit<InsertDeletionLogEntry, "id" | "prevHash" | "hash" | "createdAt"> & { createdAt: Date };
+export type DeletionLogSeal = Pick<DeletionLogEntry, "prevHash" | "hash">;
+
+export type ModerationUpdate = Pick<PetTransformation, "moderationStatus" | "moderationReason" | "moderationNote" | "moderatedBy" | "moderatedAt">;
+
+export interface GalleryFilter {
+  theme?: string;
+  /** Matched case-insensitively, ignoring surrounding whitespace */
+  breed?: string;
+  /** Only transformations created at or after this time */
+  since?: Date;
+}
+
+export interface GalleryPageQuery extends GalleryFilter {
+  /** Keyset cursor: only transformations ordered after this one (older, then lower id) */
+  before?: { createdAt: Date; id: string };
+  limit: number;
+}
+
+export interface LikedTransformation {
+  transformation: PetTransformation;
+  likes: number;
+}
+
+export interface GalleryBreed {
+  breed: string;
+  transformations: number;
+}
+
+export type NewAdminUser = Pick<InsertAdminUser, "email" | "name" | "passwordHash" | "role">;
+export type AdminUserUpdate = Partial<Pick<AdminUser, "name" | "passwordHash" | "role" | "isActive" | "lastLoginAt">>;
+
+export type PromptTemplateMetadataUpdate = Partial<Omit<PromptTemplateSelect, "id" | "basePrompt" | "currentRevisionId" | "createdAt" | "updatedAt">>;
+
+export interface NewPromptRevision extends PromptRevisionMeta {
+  basePrompt: string;
+  restoredFromRevisionId?: number | null;
+}
+
+export interface OutcomeInput {
+  transformationId: string;
+  signal: OutcomeSignal;
+  value?: number | null;
+  reward: number;
+}
+
+export interface AiSpendBreakdown {
+  key: string | null;
+  costUsd: number;
+  calls: number;
+}
+
+export interface AiLeadSpend {
+  userId: string;
+  email: string;
+  costUsd: number;
+  calls: number;
+  transformations: number;
+}
+
+export interface AiSpendReport {
+  totalUsd: number;
+  calls: number;
+  failedCalls: number;
+  byTheme: AiSpendBreakdown[];
+  byOperation: AiSpendBreakdown[];
+  /** Top leads by spend */
+  byLead: AiLeadSpend[];
+}
+
+const AI_SPEND_REPORT_LEAD_LIMIT = 50;
+
+function clampReward(value: number): number {
+  return Math.min(1, Math.max(0, value));
 }
 
-// Referenced from javascript_database integration - using DatabaseStorage instead of MemStorage
+// Referenced from javascript_database integration
+const OUTBOX_STATUS_COUNTS: Record<OutboxStatus, number> = { pending: 0, delivering: 0, delivered: 0, dead: 0 };
+
 export class DatabaseStorage implements IStorage {
+  private get db() {
+    return getDb();
+  }
+
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await this.db.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
     return user || undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .insert(users)
       .values([insertUser])
       .returning();
@@ -58,11 +310,11 @@ export class DatabaseStorage implements IStorage {
     ) as Partial<User>;
 
     if (Object.keys(sanitizedUpdates).length === 0) {
-      const [user] = await db.select().from(users).where(eq(users.id, id));
+      const [user] = await this.db.select().from(users).where(eq(users.id, id));
       return user || undefined;
     }
 
-    const [user] = await db
+    const [user] = await this.db
       .update(users)
       .set(sanitizedUpdates)
       .where(eq(users.id, id))
@@ -70,13 +322,139 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async deleteUser(id: string): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(loginTokens).where(eq(loginTokens.userId, id));
+      await tx.delete(visitorSessions).where(eq(visitorSessions.userId, id));
+      await tx.delete(emailCaptures).where(eq(emailCaptures.userId, id));
+      await tx.delete(outboxMessages).where(eq(outboxMessages.userId, id));
+      const deleted = await tx.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async createLoginToken(token: InsertLoginToken): Promise<LoginToken> {
+    const [created] = await this.db.insert(loginTokens).values(token).returning();
+    return created;
+  }
+
+  async consumeLoginToken(tokenHash: string, now: Date): Promise<LoginToken | undefined> {
+    // Conditional update, so two clicks on the same link can't both sign in
+    const [token] = await this.db
+      .update(loginTokens)
+      .set({ usedAt: now })
+      .where(and(eq(loginTokens.tokenHash, tokenHash), isNull(loginTokens.usedAt), gt(loginTokens.expiresAt, now)))
+      .returning();
+    return token || undefined;
+  }
+
+  async getVisitorSession(id: string): Promise<VisitorSession | undefined> {
+    const [visitorSession] = await this.db.select().from(visitorSessions).where(eq(visitorSessions.id, id));
+    return visitorSession || undefined;
+  }
+
+  async mergeVisitorSession(sessionId: string, userId: string): Promise<string[]> {
+    return await this.db.transaction(async (tx) => {
+      const now = new Date();
+      await tx
+        .insert(visitorSessions)
+        .values({ id: sessionId, userId, mergedAt: now })
+        .onConflictDoUpdate({ target: visitorSessions.id, set: { userId, mergedAt: now } });
+      const linked = await tx
+        .update(petTransformations)
+        .set({ userId })
+        .where(and(eq(petTransformations.sessionId, sessionId), isNull(petTransformations.userId)))
+        .returning({ id: petTransformations.id });
+      return linked.map((row) => row.id);
+    });
+  }
+
+  async recordUpload(upload: InsertUpload): Promise<Upload> {
+    const [row] = await this.db.insert(uploads).values(upload).returning();
+    return row;
+  }
+
+  async getUploads(keys: string[]): Promise<Upload[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+    return await this.db.select().from(uploads).where(inArray(uploads.key, keys));
+  }
+
+  async isUploadInUse(key: string, exceptTransformationId: string): Promise<boolean> {
+    const [row] = await this.db
+      .select({ id: petTransformations.id })
+      .from(petTransformations)
+      .where(and(
+        sql`${petTransformations.uploadKeys} @> ${JSON.stringify([key])}::jsonb`,
+        ne(petTransformations.id, exceptTransformationId),
+      ))
+      .limit(1);
+    return !!row;
+  }
+
+  async deleteUpload(key: string): Promise<void> {
+    await this.db.delete(uploads).where(eq(uploads.key, key));
+  }
+
+  async recordEmailCapture(capture: EmailCapture, messages: (user: User) => NewOutboxMessage[]): Promise<{ user: User; messages: OutboxMessage[] }> {
+    return await this.db.transaction(async (tx) => {
+      let [user] = await tx.select().from(users).where(sql`lower(${users.email}) = ${capture.email.toLowerCase()}`);
+      if (!user) {
+        [user] = await tx.insert(users).values({ email: capture.email, name: capture.name }).returning();
+      } else if (capture.name && !user.name) {
+        [user] = await tx.update(users).set({ name: capture.name }).where(eq(users.id, user.id)).returning();
+      }
+
+      await tx
+        .update(petTransformations)
+        .set({
+          stats: sql`jsonb_set(coalesce(${petTransformations.stats}, '{"likes": 0, "shares": 0, "downloads": 0}'::jsonb), '{downloads}', to_jsonb(coalesce((${petTransformations.stats}->>'downloads')::int, 0) + 1))`,
+        })
+        .where(eq(petTransformations.id, capture.transformationId));
+      await tx.insert(emailCaptures).values({ userId: user.id, transformationId: capture.transformationId }).onConflictDoNothing();
+
+      const queued = messages(user);
+      const created = queued.length > 0 ? await tx.insert(outboxMessages).values(queued).returning() : [];
+      return { user, messages: created };
+    });
+  }
+
+  async getAdminUser(id: string): Promise<AdminUser | undefined> {
+    const [user] = await this.db.select().from(adminUsers).where(eq(adminUsers.id, id));
+    return user || undefined;
+  }
+
+  async getAdminUserByEmail(email: string): Promise<AdminUser | undefined> {
+    const [user] = await this.db.select().from(adminUsers).where(eq(adminUsers.email, email));
+    return user || undefined;
+  }
+
+  async getAdminUsers(): Promise<AdminUser[]> {
+    return await this.db.select().from(adminUsers).orderBy(asc(adminUsers.createdAt));
+  }
+
+  async createAdminUser(user: NewAdminUser): Promise<AdminUser> {
+    const [created] = await this.db.insert(adminUsers).values(user).returning();
+    return created;
+  }
+
+  async updateAdminUser(id: string, updates: AdminUserUpdate): Promise<AdminUser | undefined> {
+    const [user] = await this.db
+      .update(adminUsers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(adminUsers.id, id))
+      .returning();
+    return user || undefined;
+  }
+
   async getPetTransformation(id: string): Promise<PetTransformation | undefined> {
-    const [transformation] = await db.select().from(petTransformations).where(eq(petTransformations.id, id));
+    const [transformation] = await this.db.select().from(petTransformations).where(eq(petTransformations.id, id));
     return transformation || undefined;
   }
 
-  async createPetTransformation(insertTransformation: InsertPetTransformation): Promise<PetTransformation> {
-    const [transformation] = await db
+  async createPetTransformation(insertTransformation: NewPetTransformation): Promise<PetTransformation> {
+    const [transformation] = await this.db
       .insert(petTransformations)
       .values(insertTransformation)
       .returning();
@@ -84,7 +462,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updatePetTransformation(id: string, updates: Partial<PetTransformation>): Promise<PetTransformation | undefined> {
-    const [transformation] = await db
+    const [transformation] = await this.db
       .update(petTransformations)
       .set(updates)
       .where(eq(petTransformations.id, id))
@@ -93,24 +471,315 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updatePetTransformationStats(id: string, stats: { likes: number; shares: number; downloads: number }): Promise<void> {
-    await db
+    await this.db
       .update(petTransformations)
       .set({ stats })
       .where(eq(petTransformations.id, id));
   }
 
   async getUserTransformations(userId: string): Promise<PetTransformation[]> {
-    return await db.select().from(petTransformations).where(eq(petTransformations.userId, userId));
+    return await this.db
+      .select()
+      .from(petTransformations)
+      .where(eq(petTransformations.userId, userId))
+      .orderBy(desc(petTransformations.createdAt));
+  }
+
+  async assignTransformationsToUser(userId: string, transformationIds: string[]): Promise<string[]> {
+    if (transformationIds.length === 0) {
+      return [];
+    }
+    const linked = await this.db
+      .update(petTransformations)
+      .set({ userId })
+      .where(and(inArray(petTransformations.id, transformationIds), isNull(petTransformations.userId)))
+      .returning({ id: petTransformations.id });
+    return linked.map((row) => row.id);
+  }
+
+  async deletePetTransformation(id: string): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      const attemptIds = tx.select({ id: generationAttempts.id }).from(generationAttempts).where(eq(generationAttempts.transformationId, id));
+      // Admin remixes of this transformation keep their own images and only lose the pointer
+      await tx.update(petTransformations).set({ remixOfAttemptId: null }).where(inArray(petTransformations.remixOfAttemptId, attemptIds));
+      // The spend ledger and safety log keep their rows for reporting
+      await tx.update(aiUsageEvents).set({ transformationId: null }).where(eq(aiUsageEvents.transformationId, id));
+      await tx.update(safetyDecisions).set({ transformationId: null }).where(eq(safetyDecisions.transformationId, id));
+      await tx.delete(transformationLikes).where(eq(transformationLikes.transformationId, id));
+      await tx.delete(emailCaptures).where(eq(emailCaptures.transformationId, id));
+      await tx.delete(transformationOutcomes).where(eq(transformationOutcomes.transformationId, id));
+      await tx.delete(generationAttempts).where(eq(generationAttempts.transformationId, id));
+      await tx.delete(generationJobs).where(eq(generationJobs.transformationId, id));
+      const deleted = await tx.delete(petTransformations).where(eq(petTransformations.id, id)).returning({ id: petTransformations.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getRemixTransformations(transformationId: string): Promise<PetTransformation[]> {
+    const attemptIds = this.db.select({ id: generationAttempts.id }).from(generationAttempts).where(eq(generationAttempts.transformationId, transformationId));
+    return await this.db.select().from(petTransformations).where(inArray(petTransformations.remixOfAttemptId, attemptIds));
+  }
+
+  async getRecentPetTransformations(limit: number): Promise<PetTransformation[]> {
+    return await this.db.select().from(petTransformations).orderBy(desc(petTransformations.createdAt)).limit(limit);
+  }
+
+  async likePetTransformation(transformationId: string, visitorKey: string): Promise<{ liked: boolean; likes: number } | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [transformation] = await tx.select({ stats: petTransformations.stats })
+        .from(petTransformations)
+        .where(eq(petTransformations.id, transformationId))
+        .for("update");
+      if (!transformation) {
+        return undefined;
+      }
+
+      const [inserted] = await tx.insert(transformationLikes)
+        .values({ transformationId, visitorKey })
+        .onConflictDoNothing()
+        .returning();
+      const stats = transformation.stats ?? { likes: 0, shares: 0, downloads: 0 };
+      if (!inserted) {
+        return { liked: false, likes: stats.likes };
+      }
+
+      const likes = stats.likes + 1;
+      await tx.update(petTransformations)
+        .set({ stats: { ...stats, likes } })
+        .where(eq(petTransformations.id, transformationId));
+      return { liked: true, likes };
+    });
+  }
+
+  async getLikedTransformationIds(visitorKey: string, transformationIds: string[]): Promise<string[]> {
+    if (transformationIds.length === 0) {
+      return [];
+    }
+    const rows = await this.db.select({ transformationId: transformationLikes.transformationId })
+      .from(transformationLikes)
+      .where(and(
+        eq(transformationLikes.visitorKey, visitorKey),
+        inArray(transformationLikes.transformationId, transformationIds),
+      ));
+    return rows.map((row) => row.transformationId);
+  }
+
+  private galleryConditions(filter: GalleryFilter) {
+    const conditions = [
+      eq(petTransformations.visibility, "public"),
+      eq(petTransformations.showInGallery, true),
+      eq(petTransformations.moderationStatus, "approved"),
+      isNotNull(petTransformations.transformedImageUrl),
+    ];
+    if (filter.theme) {
+      conditions.push(eq(petTransformations.theme, filter.theme));
+    }
+    if (filter.breed) {
+      conditions.push(sql`lower(trim(${petTransformations.petBreed})) = ${filter.breed.trim().toLowerCase()}`);
+    }
+    if (filter.since) {
+      conditions.push(gte(petTransformations.createdAt, filter.since));
+    }
+    return conditions;
+  }
+
+  async getGalleryTransformations(query: GalleryPageQuery): Promise<PetTransformation[]> {
+    const conditions = this.galleryConditions(query);
+    if (query.before) {
+      // Compare against the cursor row's stored timestamp: the cursor's copy is cut to milliseconds,
+      // Postgres keeps microseconds, and rows sharing the millisecond would be skipped or repeated
+      const cursorRow = alias(petTransformations, "cursor_row");
+      const cursorCreatedAt = this.db.select({ createdAt: cursorRow.createdAt }).from(cursorRow).where(eq(cursorRow.id, query.before.id));
+      conditions.push(sql`(${petTransformations.createdAt}, ${petTransformations.id}) < (coalesce(${cursorCreatedAt}, ${query.before.createdAt}), ${query.before.id})`);
+    }
+    return await this.db.select()
+      .from(petTransformations)
+      .where(and(...conditions))
+      .orderBy(desc(petTransformations.createdAt), desc(petTransformations.id))
+      .limit(query.limit);
+  }
+
+  async getMostLikedGalleryTransformations(query: GalleryFilter & { likedSince?: Date; limit: number }): Promise<LikedTransformation[]> {
+    const likes = sql<number>`count(*)`.mapWith(Number);
+    const likeConditions = [eq(transformationLikes.transformationId, petTransformations.id)];
+    if (query.likedSince) {
+      likeConditions.push(gte(transformationLikes.createdAt, query.likedSince));
+    }
+    const rows = await this.db.select({ transformation: petTransformations, likes })
+      .from(petTransformations)
+      .innerJoin(transformationLikes, and(...likeConditions))
+      .where(and(...this.galleryConditions(query)))
+      .groupBy(petTransformations.id)
+      .orderBy(desc(likes), desc(petTransformations.createdAt))
+      .limit(query.limit);
+    return rows;
+  }
+
+  async getGalleryBreeds(limit: number): Promise<GalleryBreed[]> {
+    const breedKey = sql`lower(trim(${petTransformations.petBreed}))`;
+    const transformations = sql<number>`count(*)`.mapWith(Number);
+    const rows = await this.db.select({
+      breed: sql<string>`min(trim(${petTransformations.petBreed}))`,
+      transformations,
+    })
+      .from(petTransformations)
+      .where(and(...this.galleryConditions({}), sql`coalesce(trim(${petTransformations.petBreed}), '') <> ''`))
+      .groupBy(breedKey)
+      .orderBy(desc(transformations))
+      .limit(limit);
+    return rows;
+  }
+
+  async getModerationQueue(query: ModerationQueueQuery): Promise<PetTransformation[]> {
+    const order = query.status === "pending"
+      ? [desc(sql`jsonb_array_length(${petTransformations.moderationFlags}) > 0`), asc(petTransformations.createdAt)]
+      : [desc(petTransformations.moderatedAt)];
+    return await this.db.select()
+      .from(petTransformations)
+      .where(and(
+        eq(petTransformations.moderationStatus, query.status),
+        isNotNull(petTransformations.transformedImageUrl),
+      ))
+      .orderBy(...order)
+      .limit(query.limit);
+  }
+
+  async getModerationCounts(): Promise<Record<ModerationStatus, number>> {
+    const rows = await this.db.select({
+      status: petTransformations.moderationStatus,
+      count: sql<number>`count(*)`.mapWith(Number),
+    })
+      .from(petTransformations)
+      .where(isNotNull(petTransformations.transformedImageUrl))
+      .groupBy(petTransformations.moderationStatus);
+    const counts: Record<ModerationStatus, number> = { pending: 0, approved: 0, rejected: 0, taken_down: 0 };
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+    return counts;
+  }
+
+  async moderatePetTransformations(ids: string[], decision: ModerationUpdate): Promise<PetTransformation[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return await this.db
+      .update(petTransformations)
+      .set(decision)
+      .where(inArray(petTransformations.id, ids))
+      .returning();
+  }
+
+  async createGenerationJob(transformationId: string): Promise<GenerationJob> {
+    const [job] = await this.db
+      .insert(generationJobs)
+      .values({ transformationId })
+      .returning();
+    return job;
+  }
+
+  async getGenerationJob(id: string): Promise<GenerationJob | undefined> {
+    const [job] = await this.db.select().from(generationJobs).where(eq(generationJobs.id, id));
+    return job || undefined;
+  }
+
+  async updateGenerationJob(id: string, updates: Partial<GenerationJob>): Promise<GenerationJob | undefined> {
+    const [job] = await this.db
+      .update(generationJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(generationJobs.id, id))
+      .returning();
+    return job || undefined;
+  }
+
+  async claimNextGenerationJob(): Promise<GenerationJob | undefined> {
+    const [next] = await this.db.select().from(generationJobs)
+      .where(eq(generationJobs.status, "queued"))
+      .orderBy(asc(generationJobs.createdAt))
+      .limit(1);
+
+    if (!next) {
+      return undefined;
+    }
+
+    // Conditional update so two workers racing for the same row cannot both claim it
+    const now = new Date();
+    const [claimed] = await this.db
+      .update(generationJobs)
+      .set({
+        status: "generating",
+        attempts: sql`${generationJobs.attempts} + 1`,
+        startedAt: now,
+        updatedAt: now,
+      })
+      .where(and(eq(generationJobs.id, next.id), eq(generationJobs.status, "queued")))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async hasPendingGenerationJob(transformationId: string): Promise<boolean> {
+    const [job] = await this.db
+      .select({ id: generationJobs.id })
+      .from(generationJobs)
+      .where(and(
+        eq(generationJobs.transformationId, transformationId),
+        inArray(generationJobs.status, ["queued", "generating", "watermarking", "uploading"]),
+      ))
+      .limit(1);
+    return Boolean(job);
+  }
+
+  async requeueStaleGenerationJobs(staleBefore: Date, maxAttempts: number): Promise<number> {
+    const running = ["generating", "watermarking", "uploading"] as const;
+
+    const failed = await this.db
+      .update(generationJobs)
+      .set({ status: "failed", error: "Generation timed out", updatedAt: new Date(), completedAt: new Date() })
+      .where(and(
+        inArray(generationJobs.status, [...running]),
+        lt(generationJobs.updatedAt, staleBefore),
+        sql`${generationJobs.attempts} >= ${maxAttempts}`,
+      ))
+      .returning({ id: generationJobs.id });
+
+    const requeued = await this.db
+      .update(generationJobs)
+      .set({ status: "queued", updatedAt: new Date() })
+      .where(and(
+        inArray(generationJobs.status, [...running]),
+        lt(generationJobs.updatedAt, staleBefore),
+      ))
+      .returning({ id: generationJobs.id });
+
+    return failed.length + requeued.length;
+  }
+
+  async createGenerationAttempt(attempt: InsertGenerationAttempt): Promise<GenerationAttempt> {
+    const [row] = await this.db.insert(generationAttempts).values(attempt).returning();
+    return row;
+  }
+
+  async getGenerationAttempt(id: number): Promise<GenerationAttempt | undefined> {
+    const [attempt] = await this.db.select().from(generationAttempts).where(eq(generationAttempts.id, id));
+    return attempt || undefined;
+  }
+
+  async getGenerationAttempts(transformationId: string): Promise<GenerationAttempt[]> {
+    return await this.db
+      .select()
+      .from(generationAttempts)
+      .where(eq(generationAttempts.transformationId, transformationId))
+      .orderBy(desc(generationAttempts.id));
   }
 
   async getSiteMetrics(): Promise<SiteMetrics> {
-    const [metrics] = await db.select().from(siteMetrics).limit(1);
+    const [metrics] = await this.db.select().from(siteMetrics).limit(1);
 
     if (metrics) {
       return metrics;
     }
 
-    const [created] = await db
+    const [created] = await this.db
       .insert(siteMetrics)
       .values({ id: "global" })
       .onConflictDoNothing()
@@ -120,7 +789,7 @@ export class DatabaseStorage implements IStorage {
       return created;
     }
 
-    const [retried] = await db.select().from(siteMetrics).limit(1);
+    const [retried] = await this.db.select().from(siteMetrics).limit(1);
     if (!retried) {
       throw new Error("Failed to initialize site metrics");
     }
@@ -130,7 +799,7 @@ export class DatabaseStorage implements IStorage {
   async incrementSiteMetrics(updates: { transforms?: number; shares?: number }): Promise<SiteMetrics> {
     const { transforms = 0, shares = 0 } = updates;
 
-    const result = await db
+    const result = await this.db
       .update(siteMetrics)
       .set({
         transforms: sql`${siteMetrics.transforms} + ${transforms}`,
@@ -149,10 +818,37 @@ export class DatabaseStorage implements IStorage {
     return this.incrementSiteMetrics(updates);
   }
 
+  // Theme registry methods
+  async getThemes(options: { includeInactive?: boolean } = {}): Promise<Theme[]> {
+    const query = this.db.select().from(themes);
+    const rows = options.includeInactive
+      ? await query.orderBy(asc(themes.sortOrder), asc(themes.slug))
+      : await query.where(eq(themes.isActive, true)).orderBy(asc(themes.sortOrder), asc(themes.slug));
+    return rows;
+  }
+
+  async getTheme(slug: string): Promise<Theme | undefined> {
+    const [theme] = await this.db.select().from(themes).where(eq(themes.slug, slug));
+    return theme || undefined;
+  }
+
+  async createTheme(theme: InsertTheme): Promise<Theme> {
+    const [created] = await this.db.insert(themes).values(theme).returning();
+    return created;
+  }
+
+  async updateTheme(slug: string, updates: UpdateTheme): Promise<Theme | undefined> {
+    const [updated] = await this.db.update(themes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(themes.slug, slug))
+      .returning();
+    return updated || undefined;
+  }
+
   // Backend prompt optimization methods
   async getActivePromptTemplate(category: string): Promise<PromptTemplateSelect | undefined> {
     // Get all active templates for the category
-    const templates = await db.select().from(promptTemplates)
+    const templates = await this.db.select().from(promptTemplates)
       .where(and(eq(promptTemplates.category, category), eq(promptTemplates.isActive, true)));
 
     if (templates.length === 0) {
@@ -165,49 +861,1425 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAllPromptTemplates(): Promise<PromptTemplateSelect[]> {
-    return await db.select().from(promptTemplates).orderBy(desc(promptTemplates.createdAt));
+    return await this.db.select().from(promptTemplates).orderBy(desc(promptTemplates.createdAt));
+  }
+
+  async getPromptTemplate(id: number): Promise<PromptTemplateSelect | undefined> {
+    const [template] = await this.db.select().from(promptTemplates).where(eq(promptTemplates.id, id));
+    return template || undefined;
   }
 
-  async createPromptTemplate(template: PromptTemplateInsert): Promise<PromptTemplateSelect> {
-    const [newTemplate] = await db.insert(promptTemplates).values(template).returning();
-    return newTemplate;
+  async createPromptTemplate(template: PromptTemplateInsert, meta: PromptRevisionMeta): Promise<PromptTemplateSelect> {
+    return await this.db.transaction(async (tx) => {
+      const [newTemplate] = await tx.insert(promptTemplates).values(template).returning();
+      const [revision] = await tx.insert(promptTemplateRevisions)
+        .values({
+          templateId: newTemplate.id,
+          revision: 1,
+          basePrompt: newTemplate.basePrompt,
+          author: meta.author,
+          authorId: meta.authorId ?? null,
+          changeNote: meta.changeNote ?? null,
+        })
+        .returning();
+      const [withRevision] = await tx.update(promptTemplates)
+        .set({ currentRevisionId: revision.id })
+        .where(eq(promptTemplates.id, newTemplate.id))
+        .returning();
+      return withRevision;
+    });
   }
 
-  async updatePromptTemplate(id: number, updates: Partial<PromptTemplateSelect>): Promise<PromptTemplateSelect | undefined> {
-    const [updated] = await db.update(promptTemplates)
+  async updatePromptTemplate(id: number, updates: PromptTemplateMetadataUpdate): Promise<PromptTemplateSelect | undefined> {
+    const [updated] = await this.db.update(promptTemplates)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(promptTemplates.id, id))
       .returning();
     return updated || undefined;
   }
 
-  async getPromptVariants(templateId: number): Promise<PromptVariantSelect[]> {
-    return await db.select().from(promptVariants)
-      .where(and(eq(promptVariants.templateId, templateId), eq(promptVariants.isActive, true)))
-      .orderBy(desc(promptVariants.successRate));
+  async getPromptTemplateRevisions(templateId: number): Promise<PromptTemplateRevision[]> {
+    return await this.db.select().from(promptTemplateRevisions)
+      .where(eq(promptTemplateRevisions.templateId, templateId))
+      .orderBy(desc(promptTemplateRevisions.revision));
+  }
+
+  async getPromptTemplateRevision(id: number): Promise<PromptTemplateRevision | undefined> {
+    const [revision] = await this.db.select().from(promptTemplateRevisions).where(eq(promptTemplateRevisions.id, id));
+    return revision || undefined;
   }
 
-  async getBestPromptVariant(templateId: number): Promise<PromptVariantSelect | undefined> {
-    const [variant] = await db.select().from(promptVariants)
+  async createPromptTemplateRevision(templateId: number, revision: NewPromptRevision): Promise<PromptTemplateRevision | undefined> {
+    return await this.db.transaction(async (tx) => {
+      // Row lock so concurrent edits get consecutive revision numbers
+      const [template] = await tx.select({ id: promptTemplates.id })
+        .from(promptTemplates)
+        .where(eq(promptTemplates.id, templateId))
+        .for("update");
+      if (!template) {
+        return undefined;
+      }
+
+      const [{ latest }] = await tx.select({ latest: sql<number>`coalesce(max(${promptTemplateRevisions.revision}), 0)` })
+        .from(promptTemplateRevisions)
+        .where(eq(promptTemplateRevisions.templateId, templateId));
+      const [created] = await tx.insert(promptTemplateRevisions)
+        .values({
+          templateId,
+          revision: Number(latest) + 1,
+          basePrompt: revision.basePrompt,
+          author: revision.author,
+          authorId: revision.authorId ?? null,
+          changeNote: revision.changeNote ?? null,
+          restoredFromRevisionId: revision.restoredFromRevisionId ?? null,
+        })
+        .returning();
+      await tx.update(promptTemplates)
+        .set({ basePrompt: created.basePrompt, currentRevisionId: created.id, updatedAt: new Date() })
+        .where(eq(promptTemplates.id, templateId));
+      return created;
+    });
+  }
+
+  async getPromptVariants(templateId: number): Promise<PromptVariantSelect[]> {
+    return await this.db.select().from(promptVariants)
       .where(and(eq(promptVariants.templateId, templateId), eq(promptVariants.isActive, true)))
-      .orderBy(desc(promptVariants.successRate))
-      .limit(1);
-    return variant || undefined;
+      .orderBy(desc(promptVariants.successRate));
   }
 
   async createPromptVariant(variant: PromptVariantInsert): Promise<PromptVariantSelect> {
-    const [newVariant] = await db.insert(promptVariants).values(variant).returning();
+    const [newVariant] = await this.db.insert(promptVariants).values(variant).returning();
     return newVariant;
   }
 
-  async updatePromptVariantStats(id: number, successRate: number): Promise<void> {
-    await db.update(promptVariants)
+  async recordPromptVariantUse(id: number): Promise<void> {
+    await this.db.update(promptVariants)
       .set({
-        successRate,
-        timesUsed: sql`${promptVariants.timesUsed} + 1`
+        timesUsed: sql`coalesce(${promptVariants.timesUsed}, 0) + 1`,
+        successRate: sql`${promptVariants.rewardTotal} / (coalesce(${promptVariants.timesUsed}, 0) + 1)`,
       })
       .where(eq(promptVariants.id, id));
   }
+
+  async recordTransformationOutcome(outcome: OutcomeInput): Promise<TransformationOutcome | undefined> {
+    return await this.db.transaction(async (tx) => {
+      // Row lock serializes concurrent signals for the same transformation
+      const [transformation] = await tx.select({
+        promptVariantId: petTransformations.promptVariantId,
+        promptReward: petTransformations.promptReward,
+      })
+        .from(petTransformations)
+        .where(eq(petTransformations.id, outcome.transformationId))
+        .for("update");
+      if (!transformation) {
+        return undefined;
+      }
+
+      const nextReward = clampReward(transformation.promptReward + outcome.reward);
+      const [recorded] = await tx.insert(transformationOutcomes)
+        .values({
+          transformationId: outcome.transformationId,
+          promptVariantId: transformation.promptVariantId,
+          signal: outcome.signal,
+          value: outcome.value ?? null,
+          reward: nextReward - transformation.promptReward,
+        })
+        .onConflictDoNothing()
+        .returning();
+      if (!recorded) {
+        return undefined;
+      }
+
+      if (recorded.reward !== 0) {
+        await tx.update(petTransformations)
+          .set({ promptReward: nextReward })
+          .where(eq(petTransformations.id, outcome.transformationId));
+
+        if (transformation.promptVariantId !== null) {
+          await tx.update(promptVariants)
+            .set({
+              rewardTotal: sql`${promptVariants.rewardTotal} + ${recorded.reward}`,
+              successRate: sql`(${promptVariants.rewardTotal} + ${recorded.reward}) / greatest(coalesce(${promptVariants.timesUsed}, 0), 1)`,
+            })
+            .where(eq(promptVariants.id, transformation.promptVariantId));
+        }
+      }
+
+      return recorded;
+    });
+  }
+
+  async recordAiUsage(event: InsertAiUsageEvent): Promise<AiUsageEvent> {
+    const [recorded] = await this.db.insert(aiUsageEvents).values(event).returning();
+    return recorded;
+  }
+
+  async recordSafetyDecision(decision: InsertSafetyDecision): Promise<SafetyDecision> {
+    const [recorded] = await this.db.insert(safetyDecisions).values(decision).returning();
+    return recorded;
+  }
+
+  async linkSafetyDecisions(ids: number[], transformationId: string): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await this.db.update(safetyDecisions).set({ transformationId }).where(inArray(safetyDecisions.id, ids));
+  }
+
+  async deleteSafetyDecisions(transformationId: string): Promise<number> {
+    const deleted = await this.db.delete(safetyDecisions).where(eq(safetyDecisions.transformationId, transformationId)).returning({ id: safetyDecisions.id });
+    return deleted.length;
+  }
+
+  async getSafetyDecisions(query: { blockedOnly: boolean; limit: number }): Promise<SafetyDecision[]> {
+    return await this.db.select()
+      .from(safetyDecisions)
+      .where(query.blockedOnly ? eq(safetyDecisions.allowed, false) : undefined)
+      .orderBy(desc(safetyDecisions.createdAt), desc(safetyDecisions.id))
+      .limit(query.limit);
+  }
+
+  async claimOutboxMessages(options: { now: Date; staleBefore: Date; limit: number }): Promise<OutboxMessage[]> {
+    const claimable = or(
+      and(eq(outboxMessages.status, "pending"), lte(outboxMessages.nextAttemptAt, options.now)),
+      and(eq(outboxMessages.status, "delivering"), lt(outboxMessages.lockedAt, options.staleBefore)),
+    );
+    const due = await this.db.select({ id: outboxMessages.id })
+      .from(outboxMessages)
+      .where(claimable)
+      .orderBy(asc(outboxMessages.nextAttemptAt))
+      .limit(options.limit);
+    if (due.length === 0) {
+      return [];
+    }
+
+    // Conditional update so two dispatchers racing for the same rows cannot both claim them
+    return await this.db
+      .update(outboxMessages)
+      .set({
+        status: "delivering",
+        attempts: sql`${outboxMessages.attempts} + 1`,
+        lockedAt: options.now,
+        updatedAt: options.now,
+      })
+      .where(and(inArray(outboxMessages.id, due.map((row) => row.id)), claimable))
+      .returning();
+  }
+
+  async updateOutboxMessage(id: number, updates: Partial<OutboxMessage>): Promise<OutboxMessage | undefined> {
+    const [message] = await this.db
+      .update(outboxMessages)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(outboxMessages.id, id))
+      .returning();
+    return message || undefined;
+  }
+
+  async getOutboxMessages(query: { status: OutboxStatus; limit: number }): Promise<OutboxMessage[]> {
+    return await this.db.select()
+      .from(outboxMessages)
+      .where(eq(outboxMessages.status, query.status))
+      .orderBy(desc(outboxMessages.createdAt), desc(outboxMessages.id))
+      .limit(query.limit);
+  }
+
+  async getOutboxCounts(): Promise<Record<OutboxStatus, number>> {
+    const rows = await this.db.select({
+      status: outboxMessages.status,
+      count: sql<number>`count(*)`.mapWith(Number),
+    })
+      .from(outboxMessages)
+      .groupBy(outboxMessages.status);
+    const counts = { ...OUTBOX_STATUS_COUNTS };
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+    return counts;
+  }
+
+  async replayOutboxMessages(ids: number[]): Promise<OutboxMessage[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const now = new Date();
+    return await this.db
+      .update(outboxMessages)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: now, lockedAt: null, updatedAt: now })
+      .where(and(inArray(outboxMessages.id, ids), eq(outboxMessages.status, "dead")))
+      .returning();
+  }
+
+  async discardUserOutboxMessages(userId: string): Promise<{ discarded: number; inFlight: number }> {
+    const discarded = await this.db
+      .delete(outboxMessages)
+      .where(and(eq(outboxMessages.userId, userId), ne(outboxMessages.status, "delivering")))
+      .returning({ id: outboxMessages.id });
+    const [inFlight] = await this.db.select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(outboxMessages)
+      .where(and(eq(outboxMessages.userId, userId), eq(outboxMessages.status, "delivering")));
+    return { discarded: discarded.length, inFlight: inFlight?.count ?? 0 };
+  }
+
+  async appendDeletionLogEntry(entry: NewDeletionLogEntry, seal: (previous: DeletionLogEntry | undefined) => DeletionLogSeal): Promise<DeletionLogEntry> {
+    return await this.db.transaction(async (tx) => {
+      // Blocks other appends (but not reads) until this one commits
+      await tx.execute(sql`lock table ${deletionLog} in exclusive mode`);
+      const [previous] = await tx.select().from(deletionLog).orderBy(desc(deletionLog.id)).limit(1);
+      const [created] = await tx.insert(deletionLog).values({ ...entry, ...seal(previous) }).returning();
+      return created;
+    });
+  }
+
+  async getDeletionLog(): Promise<DeletionLogEntry[]> {
+    return await this.db.select().from(deletionLog).orderBy(asc(deletionLog.id));
+  }
+
+  async getAiSpendSince(since: Date): Promise<number> {
+    const [row] = await this.db.select({
+      costUsd: sql<number>`coalesce(sum(${aiUsageEvents.costUsd}), 0)`.mapWith(Number),
+    })
+      .from(aiUsageEvents)
+      .where(gte(aiUsageEvents.createdAt, since));
+    return row?.costUsd ?? 0;
+  }
+
+  async getAiSpendReport(since: Date): Promise<AiSpendReport> {
+    const inRange = gte(aiUsageEvents.createdAt, since);
+    const costUsd = sql<number>`coalesce(sum(${aiUsageEvents.costUsd}), 0)`.mapWith(Number);
+    const calls = sql<number>`count(*)`.mapWith(Number);
+
+    // A lead's transformations: the ones they asked for at the email gate and the ones they own
+    const leadTransformations = union(
+      this.db.select({ userId: emailCaptures.userId, transformationId: emailCaptures.transformationId }).from(emailCaptures),
+      this.db.select({ userId: sql<string>`${petTransformations.userId}`.as("user_id"), transformationId: sql<string>`${petTransformations.id}`.as("transformation_id") })
+        .from(petTransformations)
+        .where(isNotNull(petTransformations.userId)),
+    ).as("lead_transformations");
+
+    const [[totals], byTheme, byOperation, byLead] = await Promise.all([
+      this.db.select({
+        costUsd,
+        calls,
+        failedCalls: sql<number>`count(*) filter (where not ${aiUsageEvents.success})`.mapWith(Number),
+      }).from(aiUsageEvents).where(inRange),
+      this.db.select({ key: aiUsageEvents.theme, costUsd, calls })
+        .from(aiUsageEvents)
+        .where(inRange)
+        .groupBy(aiUsageEvents.theme)
+        .orderBy(desc(costUsd)),
+      this.db.select({ key: aiUsageEvents.operation, costUsd, calls })
+        .from(aiUsageEvents)
+        .where(inRange)
+        .groupBy(aiUsageEvents.operation)
+        .orderBy(desc(costUsd)),
+      this.db.select({
+        userId: users.id,
+        email: users.email,
+        costUsd,
+        calls,
+        transformations: sql<number>`count(distinct ${aiUsageEvents.transformationId})`.mapWith(Number),
+      })
+        .from(aiUsageEvents)
+        .innerJoin(leadTransformations, eq(aiUsageEvents.transformationId, leadTransformations.transformationId))
+        .innerJoin(users, eq(leadTransformations.userId, users.id))
+        .where(inRange)
+        .groupBy(users.id, users.email)
+        .orderBy(desc(costUsd))
+        .limit(AI_SPEND_REPORT_LEAD_LIMIT),
+    ]);
+
+    return {
+      totalUsd: totals?.costUsd ?? 0,
+      calls: totals?.calls ?? 0,
+      failedCalls: totals?.failedCalls ?? 0,
+      byTheme,
+      byOperation,
+      byLead,
+    };
+  }
+}
+
+const RUNNING_JOB_STATUSES: GenerationJob["status"][] = ["generating", "watermarking", "uploading"];
+
+/**
+ * In-process IStorage for development and tests. Mirrors the Postgres column defaults and
+ * ordering; every method runs synchronously between awaits, so read-modify-write updates are atomic.
+ */
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private loginTokens = new Map<string, LoginToken>(); // keyed by token hash
+  private visitorSessions = new Map<string, VisitorSession>();
+  private uploads = new Map<string, Upload>(); // keyed by object key
+  private emailCaptures: EmailCaptureRow[] = [];
+  private adminUsers = new Map<string, AdminUser>();
+  private transformations = new Map<string, PetTransformation>();
+  private jobs = new Map<string, GenerationJob>();
+  private attempts = new Map<number, GenerationAttempt>();
+  // Keyed "<transformationId>:<visitorKey>"
+  private likes = new Map<string, TransformationLike>();
+  private metrics: SiteMetrics | null = null;
+  private themes = new Map<string, Theme>();
+  private templates = new Map<number, PromptTemplateSelect>();
+  private revisions = new Map<number, PromptTemplateRevision>();
+  private variants = new Map<number, PromptVariantSelect>();
+  private outcomes: TransformationOutcome[] = [];
+  private usageEvents: AiUsageEvent[] = [];
+  private safetyDecisions: SafetyDecision[] = [];
+  private deletionLog: DeletionLogEntry[] = [];
+  private outbox = new Map<number, OutboxMessage>();
+  private nextTemplateId = 1;
+  private nextRevisionId = 1;
+  private nextVariantId = 1;
+  private nextOutcomeId = 1;
+  private nextUsageEventId = 1;
+  private nextAttemptId = 1;
+  private nextSafetyDecisionId = 1;
+  private nextLoginTokenId = 1;
+  private nextOutboxMessageId = 1;
+
+  constructor(options: { seedThemes?: InsertTheme[] } = {}) {
+    for (const theme of options.seedThemes ?? defaultThemes) {
+      this.insertTheme(theme);
+    }
+  }
+
+  // Rows are cloned on the way in and out so callers can't mutate stored state
+  private clone<T>(row: T): T {
+    return structuredClone(row);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user ? this.clone(user) : undefined;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find((u) => u.email.toLowerCase() === email.toLowerCase());
+    return user ? this.clone(user) : undefined;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (Array.from(this.users.values()).some((u) => u.email === insertUser.email)) {
+      throw new Error(`duplicate key value violates unique constraint "users_email_unique"`);
+    }
+    const user: User = {
+      id: randomUUID(),
+      email: insertUser.email,
+      name: insertUser.name ?? null,
+      emailVerifiedAt: null,
+      createdAt: new Date(),
+      updatedAt: insertUser.updatedAt ?? null,
+    };
+    this.users.set(user.id, user);
+    return this.clone(user);
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) {
+      return undefined;
+    }
+    const sanitizedUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined && value !== null)
+    ) as Partial<User>;
+    Object.assign(user, sanitizedUpdates);
+    return this.clone(user);
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    if (Array.from(this.transformations.values()).some((t) => t.userId === id)) {
+      throw new Error(`update or delete on table "users" violates foreign key constraint "pet_transformations_user_id_users_id_fk"`);
+    }
+    for (const [hash, token] of Array.from(this.loginTokens.entries())) {
+      if (token.userId === id) {
+        this.loginTokens.delete(hash);
+      }
+    }
+    for (const visitorSession of Array.from(this.visitorSessions.values())) {
+      if (visitorSession.userId === id) {
+        this.visitorSessions.delete(visitorSession.id);
+      }
+    }
+    this.emailCaptures = this.emailCaptures.filter((capture) => capture.userId !== id);
+    for (const message of Array.from(this.outbox.values())) {
+      if (message.userId === id) {
+        this.outbox.delete(message.id);
+      }
+    }
+    return this.users.delete(id);
+  }
+
+  async createLoginToken(token: InsertLoginToken): Promise<LoginToken> {
+    const created: LoginToken = {
+      id: this.nextLoginTokenId++,
+      userId: token.userId,
+      tokenHash: token.tokenHash,
+      claimTransformationIds: token.claimTransformationIds ?? [],
+      expiresAt: token.expiresAt,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.loginTokens.set(created.tokenHash, created);
+    return this.clone(created);
+  }
+
+  async consumeLoginToken(tokenHash: string, now: Date): Promise<LoginToken | undefined> {
+    const token = this.loginTokens.get(tokenHash);
+    if (!token || token.usedAt || token.expiresAt <= now) {
+      return undefined;
+    }
+    token.usedAt = now;
+    return this.clone(token);
+  }
+
+  async getVisitorSession(id: string): Promise<VisitorSession | undefined> {
+    const visitorSession = this.visitorSessions.get(id);
+    return visitorSession ? this.clone(visitorSession) : undefined;
+  }
+
+  async mergeVisitorSession(sessionId: string, userId: string): Promise<string[]> {
+    const now = new Date();
+    const existing = this.visitorSessions.get(sessionId);
+    this.visitorSessions.set(sessionId, { id: sessionId, userId, createdAt: existing?.createdAt ?? now, mergedAt: now });
+    const linked: string[] = [];
+    for (const transformation of Array.from(this.transformations.values())) {
+      if (transformation.sessionId === sessionId && !transformation.userId) {
+        transformation.userId = userId;
+        linked.push(transformation.id);
+      }
+    }
+    return linked;
+  }
+
+  async recordUpload(upload: InsertUpload): Promise<Upload> {
+    const row: Upload = { key: upload.key, sessionId: upload.sessionId, createdAt: upload.createdAt ?? new Date() };
+    this.uploads.set(row.key, row);
+    return this.clone(row);
+  }
+
+  async getUploads(keys: string[]): Promise<Upload[]> {
+    return keys.flatMap((key) => {
+      const upload = this.uploads.get(key);
+      return upload ? [this.clone(upload)] : [];
+    });
+  }
+
+  async isUploadInUse(key: string, exceptTransformationId: string): Promise<boolean> {
+    return Array.from(this.transformations.values())
+      .some((transformation) => transformation.id !== exceptTransformationId && transformation.uploadKeys.includes(key));
+  }
+
+  async deleteUpload(key: string): Promise<void> {
+    this.uploads.delete(key);
+  }
+
+  async recordEmailCapture(capture: EmailCapture, messages: (user: User) => NewOutboxMessage[]): Promise<{ user: User; messages: OutboxMessage[] }> {
+    let user = await this.getUserByEmail(capture.email);
+    if (!user) {
+      user = await this.createUser({ email: capture.email, name: capture.name });
+    } else if (capture.name && !user.name) {
+      user = await this.updateUser(user.id, { name: capture.name }) ?? user;
+    }
+    const transformation = this.transformations.get(capture.transformationId);
+    if (transformation) {
+      const stats = transformation.stats ?? { likes: 0, shares: 0, downloads: 0 };
+      transformation.stats = { ...stats, downloads: stats.downloads + 1 };
+    }
+    if (!this.emailCaptures.some((row) => row.userId === user.id && row.transformationId === capture.transformationId)) {
+      this.emailCaptures.push({ userId: user.id, transformationId: capture.transformationId, createdAt: new Date() });
+    }
+
+    const now = new Date();
+    const created = messages(user).map((message) => {
+      const row: OutboxMessage = {
+        id: this.nextOutboxMessageId++,
+        topic: message.topic,
+        payload: message.payload,
+        userId: message.userId ?? null,
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: now,
+        lockedAt: null,
+        lastError: null,
+        deliveredAt: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.outbox.set(row.id, row);
+      return this.clone(row);
+    });
+    return { user, messages: created };
+  }
+
+  async getAdminUser(id: string): Promise<AdminUser | undefined> {
+    const user = this.adminUsers.get(id);
+    return user ? this.clone(user) : undefined;
+  }
+
+  async getAdminUserByEmail(email: string): Promise<AdminUser | undefined> {
+    const user = Array.from(this.adminUsers.values()).find((u) => u.email === email);
+    return user ? this.clone(user) : undefined;
+  }
+
+  async getAdminUsers(): Promise<AdminUser[]> {
+    return Array.from(this.adminUsers.values())
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0))
+      .map((user) => this.clone(user));
+  }
+
+  async createAdminUser(user: NewAdminUser): Promise<AdminUser> {
+    if (Array.from(this.adminUsers.values()).some((u) => u.email === user.email)) {
+      throw new Error(`duplicate key value violates unique constraint "admin_users_email_unique"`);
+    }
+    const now = new Date();
+    const row: AdminUser = {
+      id: randomUUID(),
+      email: user.email,
+      name: user.name,
+      passwordHash: user.passwordHash,
+      role: user.role ?? "viewer",
+      isActive: true,
+      lastLoginAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.adminUsers.set(row.id, row);
+    return this.clone(row);
+  }
+
+  async updateAdminUser(id: string, updates: AdminUserUpdate): Promise<AdminUser | undefined> {
+    const user = this.adminUsers.get(id);
+    if (!user) {
+      return undefined;
+    }
+    Object.assign(user, this.clone(updates), { updatedAt: new Date() });
+    return this.clone(user);
+  }
+
+  async getPetTransformation(id: string): Promise<PetTransformation | undefined> {
+    const transformation = this.transformations.get(id);
+    return transformation ? this.clone(transformation) : undefined;
+  }
+
+  async createPetTransformation(insertTransformation: NewPetTransformation): Promise<PetTransformation> {
+    const transformation: PetTransformation = {
+      id: randomUUID(),
+      userId: insertTransformation.userId ?? null,
+      petName: insertTransformation.petName,
+      petBreed: insertTransformation.petBreed ?? null,
+      theme: insertTransformation.theme,
+      traits: insertTransformation.traits ?? [],
+      gender: insertTransformation.gender ?? null,
+      originalImageUrl: insertTransformation.originalImageUrl ?? null,
+      pets: insertTransformation.pets ?? [],
+      uploadKeys: insertTransformation.uploadKeys ?? [],
+      transformedImageUrl: null,
+      cardBackImageUrl: null,
+      renditions: {},
+      visibility: insertTransformation.visibility ?? "public",
+      showInGallery: false,
+      ownerTokenHash: insertTransformation.ownerTokenHash ?? null,
+      sessionId: insertTransformation.sessionId ?? null,
+      moderationStatus: "pending",
+      moderationFlags: [],
+      moderationReason: null,
+      moderationNote: null,
+      moderatedBy: null,
+      moderatedAt: null,
+      stats: { likes: 0, shares: 0, downloads: 0 },
+      promptTemplateId: null,
+      promptVariantId: null,
+      promptRevisionId: null,
+      promptReward: 0,
+      remixOfAttemptId: insertTransformation.remixOfAttemptId ?? null,
+      createdAt: new Date(),
+    };
+    this.transformations.set(transformation.id, this.clone(transformation));
+    return transformation;
+  }
+
+  async updatePetTransformation(id: string, updates: Partial<PetTransformation>): Promise<PetTransformation | undefined> {
+    const transformation = this.transformations.get(id);
+    if (!transformation) {
+      return undefined;
+    }
+    Object.assign(transformation, this.clone(updates));
+    return this.clone(transformation);
+  }
+
+  async updatePetTransformationStats(id: string, stats: { likes: number; shares: number; downloads: number }): Promise<void> {
+    const transformation = this.transformations.get(id);
+    if (transformation) {
+      transformation.stats = { ...stats };
+    }
+  }
+
+  async getUserTransformations(userId: string): Promise<PetTransformation[]> {
+    return Array.from(this.transformations.values())
+      .filter((t) => t.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .map((t) => this.clone(t));
+  }
+
+  async assignTransformationsToUser(userId: string, transformationIds: string[]): Promise<string[]> {
+    const linked: string[] = [];
+    for (const id of Array.from(new Set(transformationIds))) {
+      const transformation = this.transformations.get(id);
+      if (transformation && !transformation.userId) {
+        transformation.userId = userId;
+        linked.push(id);
+      }
+    }
+    return linked;
+  }
+
+  async deletePetTransformation(id: string): Promise<boolean> {
+    if (!this.transformations.has(id)) {
+      return false;
+    }
+    const attemptIds = new Set(Array.from(this.attempts.values()).filter((a) => a.transformationId === id).map((a) => a.id));
+    for (const transformation of Array.from(this.transformations.values())) {
+      if (transformation.remixOfAttemptId !== null && attemptIds.has(transformation.remixOfAttemptId)) {
+        transformation.remixOfAttemptId = null;
+      }
+    }
+    for (const row of [...this.usageEvents, ...this.safetyDecisions]) {
+      if (row.transformationId === id) {
+        row.transformationId = null;
+      }
+    }
+    for (const [key, like] of Array.from(this.likes.entries())) {
+      if (like.transformationId === id) {
+        this.likes.delete(key);
+      }
+    }
+    this.outcomes = this.outcomes.filter((o) => o.transformationId !== id);
+    this.emailCaptures = this.emailCaptures.filter((capture) => capture.transformationId !== id);
+    Array.from(attemptIds).forEach((attemptId) => this.attempts.delete(attemptId));
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.transformationId === id) {
+        this.jobs.delete(job.id);
+      }
+    }
+    return this.transformations.delete(id);
+  }
+
+  async getRemixTransformations(transformationId: string): Promise<PetTransformation[]> {
+    const attemptIds = new Set(Array.from(this.attempts.values()).filter((a) => a.transformationId === transformationId).map((a) => a.id));
+    return Array.from(this.transformations.values())
+      .filter((t) => t.remixOfAttemptId !== null && attemptIds.has(t.remixOfAttemptId))
+      .map((t) => this.clone(t));
+  }
+
+  async getRecentPetTransformations(limit: number): Promise<PetTransformation[]> {
+    return Array.from(this.transformations.values())
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(0, limit)
+      .map((t) => this.clone(t));
+  }
+
+  async likePetTransformation(transformationId: string, visitorKey: string): Promise<{ liked: boolean; likes: number } | undefined> {
+    const transformation = this.transformations.get(transformationId);
+    if (!transformation) {
+      return undefined;
+    }
+    const stats = transformation.stats ?? { likes: 0, shares: 0, downloads: 0 };
+    const key = `${transformationId}:${visitorKey}`;
+    if (this.likes.has(key)) {
+      return { liked: false, likes: stats.likes };
+    }
+    this.likes.set(key, { transformationId, visitorKey, createdAt: new Date() });
+    transformation.stats = { ...stats, likes: stats.likes + 1 };
+    return { liked: true, likes: stats.likes + 1 };
+  }
+
+  async getLikedTransformationIds(visitorKey: string, transformationIds: string[]): Promise<string[]> {
+    return transformationIds.filter((id) => this.likes.has(`${id}:${visitorKey}`));
+  }
+
+  private matchesGallery(transformation: PetTransformation, filter: GalleryFilter): boolean {
+    return transformation.visibility === "public"
+      && transformation.showInGallery
+      && transformation.moderationStatus === "approved"
+      && transformation.transformedImageUrl !== null
+      && (!filter.theme || transformation.theme === filter.theme)
+      && (!filter.breed || (transformation.petBreed ?? "").trim().toLowerCase() === filter.breed.trim().toLowerCase())
+      && (!filter.since || (transformation.createdAt?.getTime() ?? 0) >= filter.since.getTime());
+  }
+
+  private newestFirst(a: PetTransformation, b: PetTransformation): number {
+    return (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0) || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+  }
+
+  async getGalleryTransformations(query: GalleryPageQuery): Promise<PetTransformation[]> {
+    const before = query.before;
+    return Array.from(this.transformations.values())
+      .filter((t) => this.matchesGallery(t, query))
+      .filter((t) => {
+        if (!before) return true;
+        const createdAt = t.createdAt?.getTime() ?? 0;
+        return createdAt < before.createdAt.getTime() || (createdAt === before.createdAt.getTime() && t.id < before.id);
+      })
+      .sort((a, b) => this.newestFirst(a, b))
+      .slice(0, query.limit)
+      .map((t) => this.clone(t));
+  }
+
+  async getMostLikedGalleryTransformations(query: GalleryFilter & { likedSince?: Date; limit: number }): Promise<LikedTransformation[]> {
+    const counts = new Map<string, number>();
+    for (const like of Array.from(this.likes.values())) {
+      if (!query.likedSince || like.createdAt.getTime() >= query.likedSince.getTime()) {
+        counts.set(like.transformationId, (counts.get(like.transformationId) ?? 0) + 1);
+      }
+    }
+    return Array.from(counts.entries())
+      .map(([id, likes]) => ({ transformation: this.transformations.get(id), likes }))
+      .filter((entry): entry is LikedTransformation => !!entry.transformation && this.matchesGallery(entry.transformation, query))
+      .sort((a, b) => b.likes - a.likes || this.newestFirst(a.transformation, b.transformation))
+      .slice(0, query.limit)
+      .map((entry) => ({ transformation: this.clone(entry.transformation), likes: entry.likes }));
+  }
+
+  async getGalleryBreeds(limit: number): Promise<GalleryBreed[]> {
+    const breeds = new Map<string, GalleryBreed>();
+    for (const transformation of Array.from(this.transformations.values())) {
+      const breed = transformation.petBreed?.trim();
+      if (!breed || !this.matchesGallery(transformation, {})) {
+        continue;
+      }
+      const key = breed.toLowerCase();
+      const entry = breeds.get(key) ?? { breed, transformations: 0 };
+      entry.transformations += 1;
+      breeds.set(key, entry);
+    }
+    return Array.from(breeds.values())
+      .sort((a, b) => b.transformations - a.transformations)
+      .slice(0, limit);
+  }
+
+  async getModerationQueue(query: ModerationQueueQuery): Promise<PetTransformation[]> {
+    const time = (date: Date | null) => date?.getTime() ?? 0;
+    return Array.from(this.transformations.values())
+      .filter((t) => t.moderationStatus === query.status && t.transformedImageUrl !== null)
+      .sort((a, b) => query.status === "pending"
+        ? Number(b.moderationFlags.length > 0) - Number(a.moderationFlags.length > 0) || time(a.createdAt) - time(b.createdAt)
+        : time(b.moderatedAt) - time(a.moderatedAt))
+      .slice(0, query.limit)
+      .map((t) => this.clone(t));
+  }
+
+  async getModerationCounts(): Promise<Record<ModerationStatus, number>> {
+    const counts: Record<ModerationStatus, number> = { pending: 0, approved: 0, rejected: 0, taken_down: 0 };
+    for (const transformation of Array.from(this.transformations.values())) {
+      if (transformation.transformedImageUrl !== null) {
+        counts[transformation.moderationStatus] += 1;
+      }
+    }
+    return counts;
+  }
+
+  async moderatePetTransformations(ids: string[], decision: ModerationUpdate): Promise<PetTransformation[]> {
+    const moderated: PetTransformation[] = [];
+    for (const id of ids) {
+      const transformation = this.transformations.get(id);
+      if (transformation) {
+        Object.assign(transformation, this.clone(decision));
+        moderated.push(this.clone(transformation));
+      }
+    }
+    return moderated;
+  }
+
+  async createGenerationJob(transformationId: string): Promise<GenerationJob> {
+    if (!this.transformations.has(transformationId)) {
+      throw new Error(`insert or update on table "generation_jobs" violates foreign key constraint`);
+    }
+    const now = new Date();
+    const job: GenerationJob = {
+      id: randomUUID(),
+      transformationId,
+      status: "queued",
+      error: null,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+      startedAt: null,
+      completedAt: null,
+    };
+    this.jobs.set(job.id, job);
+    return this.clone(job);
+  }
+
+  async getGenerationJob(id: string): Promise<GenerationJob | undefined> {
+    const job = this.jobs.get(id);
+    return job ? this.clone(job) : undefined;
+  }
+
+  async updateGenerationJob(id: string, updates: Partial<GenerationJob>): Promise<GenerationJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+    Object.assign(job, this.clone(updates), { updatedAt: new Date() });
+    return this.clone(job);
+  }
+
+  async claimNextGenerationJob(): Promise<GenerationJob | undefined> {
+    const next = Array.from(this.jobs.values())
+      .filter((job) => job.status === "queued")
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0))[0];
+    if (!next) {
+      return undefined;
+    }
+
+    const now = new Date();
+    Object.assign(next, { status: "generating", attempts: next.attempts + 1, startedAt: now, updatedAt: now });
+    return this.clone(next);
+  }
+
+  async hasPendingGenerationJob(transformationId: string): Promise<boolean> {
+    return Array.from(this.jobs.values())
+      .some((job) => job.transformationId === transformationId && (job.status === "queued" || RUNNING_JOB_STATUSES.includes(job.status)));
+  }
+
+  async requeueStaleGenerationJobs(staleBefore: Date, maxAttempts: number): Promise<number> {
+    let changed = 0;
+    const now = new Date();
+    for (const job of Array.from(this.jobs.values())) {
+      if (!RUNNING_JOB_STATUSES.includes(job.status) || !job.updatedAt || job.updatedAt >= staleBefore) {
+        continue;
+      }
+      if (job.attempts >= maxAttempts) {
+        Object.assign(job, { status: "failed", error: "Generation timed out", updatedAt: now, completedAt: now });
+      } else {
+        Object.assign(job, { status: "queued", updatedAt: now });
+      }
+      changed += 1;
+    }
+    return changed;
+  }
+
+  async createGenerationAttempt(attempt: InsertGenerationAttempt): Promise<GenerationAttempt> {
+    if (!this.transformations.has(attempt.transformationId)) {
+      throw new Error(`insert or update on table "generation_attempts" violates foreign key constraint`);
+    }
+    const row: GenerationAttempt = {
+      id: this.nextAttemptId++,
+      transformationId: attempt.transformationId,
+      jobId: attempt.jobId ?? null,
+      status: attempt.status,
+      renderedPrompt: attempt.renderedPrompt ?? null,
+      promptTemplateId: attempt.promptTemplateId ?? null,
+      promptRevisionId: attempt.promptRevisionId ?? null,
+      promptVariantId: attempt.promptVariantId ?? null,
+      inputImageUrl: attempt.inputImageUrl ?? null,
+      inputImageUrls: attempt.inputImageUrls ?? null,
+      inputUploadKeys: attempt.inputUploadKeys ?? null,
+      provider: attempt.provider ?? null,
+      model: attempt.model ?? null,
+      modelVersion: attempt.modelVersion ?? null,
+      predictionId: attempt.predictionId ?? null,
+      seed: attempt.seed ?? null,
+      timings: attempt.timings ?? {},
+      card: attempt.card ?? null,
+      watermarked: attempt.watermarked ?? null,
+      watermarkPosition: attempt.watermarkPosition ?? null,
+      watermarkScore: attempt.watermarkScore ?? null,
+      objectKey: attempt.objectKey ?? null,
+      error: attempt.error ?? null,
+      createdAt: new Date(),
+    };
+    this.attempts.set(row.id, this.clone(row));
+    return row;
+  }
+
+  async getGenerationAttempt(id: number): Promise<GenerationAttempt | undefined> {
+    const attempt = this.attempts.get(id);
+    return attempt ? this.clone(attempt) : undefined;
+  }
+
+  async getGenerationAttempts(transformationId: string): Promise<GenerationAttempt[]> {
+    return Array.from(this.attempts.values())
+      .filter((attempt) => attempt.transformationId === transformationId)
+      .sort((a, b) => b.id - a.id)
+      .map((attempt) => this.clone(attempt));
+  }
+
+  async getSiteMetrics(): Promise<SiteMetrics> {
+    if (!this.metrics) {
+      this.metrics = { id: "global", transforms: 128, shares: 340, updatedAt: new Date() };
+    }
+    return this.clone(this.metrics);
+  }
+
+  async incrementSiteMetrics(updates: { transforms?: number; shares?: number }): Promise<SiteMetrics> {
+    const { transforms = 0, shares = 0 } = updates;
+    await this.getSiteMetrics();
+    const metrics = this.metrics!;
+    metrics.transforms += transforms;
+    metrics.shares += shares;
+    metrics.updatedAt = new Date();
+    return this.clone(metrics);
+  }
+
+  private insertTheme(theme: InsertTheme): Theme {
+    if (this.themes.has(theme.slug)) {
+      throw new Error(`duplicate key value violates unique constraint "themes_pkey"`);
+    }
+    const now = new Date();
+    const row: Theme = {
+      slug: theme.slug,
+      title: theme.title,
+      subtitle: theme.subtitle,
+      description: theme.description,
+      features: theme.features ?? [],
+      previewImageUrl: theme.previewImageUrl ?? null,
+      icon: theme.icon ?? "Sparkles",
+      palette: theme.palette,
+      copy: theme.copy,
+      generator: theme.generator ?? "prompt",
+      promptCategory: theme.promptCategory,
+      fallbackPrompt: theme.fallbackPrompt ?? null,
+      personaType: theme.personaType,
+      personaTone: theme.personaTone ?? "whimsical",
+      statGenerator: theme.statGenerator ?? "random",
+      statLabels: theme.statLabels ?? [],
+      isActive: theme.isActive ?? true,
+      sortOrder: theme.sortOrder ?? 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.themes.set(row.slug, this.clone(row));
+    return row;
+  }
+
+  async getThemes(options: { includeInactive?: boolean } = {}): Promise<Theme[]> {
+    return Array.from(this.themes.values())
+      .filter((theme) => options.includeInactive || theme.isActive)
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.slug.localeCompare(b.slug))
+      .map((theme) => this.clone(theme));
+  }
+
+  async getTheme(slug: string): Promise<Theme | undefined> {
+    const theme = this.themes.get(slug);
+    return theme ? this.clone(theme) : undefined;
+  }
+
+  async createTheme(theme: InsertTheme): Promise<Theme> {
+    return this.insertTheme(theme);
+  }
+
+  async updateTheme(slug: string, updates: UpdateTheme): Promise<Theme | undefined> {
+    const theme = this.themes.get(slug);
+    if (!theme) {
+      return undefined;
+    }
+    Object.assign(theme, this.clone(updates), { updatedAt: new Date() });
+    return this.clone(theme);
+  }
+
+  async getActivePromptTemplate(category: string): Promise<PromptTemplateSelect | undefined> {
+    const templates = Array.from(this.templates.values())
+      .filter((template) => template.category === category && template.isActive === true);
+
+    if (templates.length === 0) {
+      return undefined;
+    }
+
+    // Randomly select one template to provide variety
+    const randomIndex = Math.floor(Math.random() * templates.length);
+    return this.clone(templates[randomIndex]);
+  }
+
+  async getAllPromptTemplates(): Promise<PromptTemplateSelect[]> {
+    return Array.from(this.templates.values())
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0) || b.id - a.id)
+      .map((template) => this.clone(template));
+  }
+
+  async getPromptTemplate(id: number): Promise<PromptTemplateSelect | undefined> {
+    const template = this.templates.get(id);
+    return template ? this.clone(template) : undefined;
+  }
+
+  async createPromptTemplate(template: PromptTemplateInsert, meta: PromptRevisionMeta): Promise<PromptTemplateSelect> {
+    const now = new Date();
+    const row: PromptTemplateSelect = {
+      id: this.nextTemplateId++,
+      name: template.name,
+      category: template.category,
+      basePrompt: template.basePrompt,
+      currentRevisionId: null,
+      isActive: template.isActive ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.templates.set(row.id, row);
+    const revision = this.insertRevision(row.id, { ...meta, basePrompt: row.basePrompt });
+    row.currentRevisionId = revision.id;
+    return this.clone(row);
+  }
+
+  async updatePromptTemplate(id: number, updates: PromptTemplateMetadataUpdate): Promise<PromptTemplateSelect | undefined> {
+    const template = this.templates.get(id);
+    if (!template) {
+      return undefined;
+    }
+    Object.assign(template, this.clone(updates), { id, updatedAt: new Date() });
+    return this.clone(template);
+  }
+
+  async getPromptTemplateRevisions(templateId: number): Promise<PromptTemplateRevision[]> {
+    return Array.from(this.revisions.values())
+      .filter((revision) => revision.templateId === templateId)
+      .sort((a, b) => b.revision - a.revision)
+      .map((revision) => this.clone(revision));
+  }
+
+  async getPromptTemplateRevision(id: number): Promise<PromptTemplateRevision | undefined> {
+    const revision = this.revisions.get(id);
+    return revision ? this.clone(revision) : undefined;
+  }
+
+  async createPromptTemplateRevision(templateId: number, revision: NewPromptRevision): Promise<PromptTemplateRevision | undefined> {
+    const template = this.templates.get(templateId);
+    if (!template) {
+      return undefined;
+    }
+    const created = this.insertRevision(templateId, revision);
+    Object.assign(template, { basePrompt: created.basePrompt, currentRevisionId: created.id, updatedAt: new Date() });
+    return this.clone(created);
+  }
+
+  private insertRevision(templateId: number, revision: NewPromptRevision): PromptTemplateRevision {
+    const latest = Array.from(this.revisions.values())
+      .filter((existing) => existing.templateId === templateId)
+      .reduce((max, existing) => Math.max(max, existing.revision), 0);
+    const row: PromptTemplateRevision = {
+      id: this.nextRevisionId++,
+      templateId,
+      revision: latest + 1,
+      basePrompt: revision.basePrompt,
+      author: revision.author,
+      authorId: revision.authorId ?? null,
+      changeNote: revision.changeNote ?? null,
+      restoredFromRevisionId: revision.restoredFromRevisionId ?? null,
+      createdAt: new Date(),
+    };
+    this.revisions.set(row.id, row);
+    return row;
+  }
+
+  /**
+   * Postgres `ORDER BY success_rate DESC` puts NULLs first; ties keep insertion order.
+   */
+  private activeVariantsBySuccessRate(templateId: number): PromptVariantSelect[] {
+    return Array.from(this.variants.values())
+      .filter((variant) => variant.templateId === templateId && variant.isActive === true)
+      .sort((a, b) => {
+        if (a.successRate === null || b.successRate === null) {
+          return (a.successRate === null ? 0 : 1) - (b.successRate === null ? 0 : 1) || a.id - b.id;
+        }
+        return b.successRate - a.successRate || a.id - b.id;
+      });
+  }
+
+  async getPromptVariants(templateId: number): Promise<PromptVariantSelect[]> {
+    return this.activeVariantsBySuccessRate(templateId).map((variant) => this.clone(variant));
+  }
+
+  async createPromptVariant(variant: PromptVariantInsert): Promise<PromptVariantSelect> {
+    if (!this.templates.has(variant.templateId)) {
+      throw new Error(`insert or update on table "prompt_variants" violates foreign key constraint`);
+    }
+    const row: PromptVariantSelect = {
+      id: this.nextVariantId++,
+      templateId: variant.templateId,
+      prompt: variant.prompt,
+      successRate: variant.successRate === undefined ? 0 : variant.successRate,
+      timesUsed: variant.timesUsed === undefined ? 0 : variant.timesUsed,
+      rewardTotal: 0,
+      isActive: variant.isActive === undefined ? true : variant.isActive,
+      createdAt: new Date(),
+    };
+    this.variants.set(row.id, row);
+    return this.clone(row);
+  }
+
+  async recordPromptVariantUse(id: number): Promise<void> {
+    const variant = this.variants.get(id);
+    if (variant) {
+      variant.timesUsed = (variant.timesUsed ?? 0) + 1;
+      variant.successRate = variant.rewardTotal / variant.timesUsed;
+    }
+  }
+
+  async recordTransformationOutcome(outcome: OutcomeInput): Promise<TransformationOutcome | undefined> {
+    const transformation = this.transformations.get(outcome.transformationId);
+    if (!transformation) {
+      return undefined;
+    }
+    if (this.outcomes.some((o) => o.transformationId === outcome.transformationId && o.signal === outcome.signal)) {
+      return undefined;
+    }
+
+    const nextReward = clampReward(transformation.promptReward + outcome.reward);
+    const recorded: TransformationOutcome = {
+      id: this.nextOutcomeId++,
+      transformationId: outcome.transformationId,
+      promptVariantId: transformation.promptVariantId,
+      signal: outcome.signal,
+      value: outcome.value ?? null,
+      reward: nextReward - transformation.promptReward,
+      createdAt: new Date(),
+    };
+    this.outcomes.push(recorded);
+
+    transformation.promptReward = nextReward;
+    const variant = transformation.promptVariantId !== null ? this.variants.get(transformation.promptVariantId) : undefined;
+    if (variant && recorded.reward !== 0) {
+      variant.rewardTotal += recorded.reward;
+      variant.successRate = variant.rewardTotal / Math.max(variant.timesUsed ?? 0, 1);
+    }
+    return this.clone(recorded);
+  }
+
+  async recordAiUsage(event: InsertAiUsageEvent): Promise<AiUsageEvent> {
+    const row: AiUsageEvent = {
+      id: this.nextUsageEventId++,
+      provider: event.provider,
+      model: event.model,
+      operation: event.operation,
+      transformationId: event.transformationId ?? null,
+      theme: event.theme ?? null,
+      success: event.success,
+      latencyMs: event.latencyMs,
+      inputTokens: event.inputTokens ?? null,
+      outputTokens: event.outputTokens ?? null,
+      computeSeconds: event.computeSeconds ?? null,
+      costUsd: event.costUsd ?? 0,
+      error: event.error ?? null,
+      createdAt: event.createdAt ?? new Date(),
+    };
+    this.usageEvents.push(row);
+    return this.clone(row);
+  }
+
+  async recordSafetyDecision(decision: InsertSafetyDecision): Promise<SafetyDecision> {
+    const row: SafetyDecision = {
+      id: this.nextSafetyDecisionId++,
+      subject: decision.subject,
+      provider: decision.provider,
+      allowed: decision.allowed,
+      categories: decision.categories ?? [],
+      matches: decision.matches ?? [],
+      excerpt: decision.excerpt ?? null,
+      transformationId: decision.transformationId ?? null,
+      error: decision.error ?? null,
+      createdAt: decision.createdAt ?? new Date(),
+    };
+    this.safetyDecisions.push(row);
+    return this.clone(row);
+  }
+
+  async linkSafetyDecisions(ids: number[], transformationId: string): Promise<void> {
+    for (const decision of this.safetyDecisions) {
+      if (ids.includes(decision.id)) {
+        decision.transformationId = transformationId;
+      }
+    }
+  }
+
+  async deleteSafetyDecisions(transformationId: string): Promise<number> {
+    const before = this.safetyDecisions.length;
+    this.safetyDecisions = this.safetyDecisions.filter((decision) => decision.transformationId !== transformationId);
+    return before - this.safetyDecisions.length;
+  }
+
+  async getSafetyDecisions(query: { blockedOnly: boolean; limit: number }): Promise<SafetyDecision[]> {
+    return this.safetyDecisions
+      .filter((decision) => !query.blockedOnly || !decision.allowed)
+      .slice(-query.limit)
+      .reverse()
+      .map((decision) => this.clone(decision));
+  }
+
+  async claimOutboxMessages(options: { now: Date; staleBefore: Date; limit: number }): Promise<OutboxMessage[]> {
+    return Array.from(this.outbox.values())
+      .filter((message) => (message.status === "pending" && message.nextAttemptAt <= options.now)
+        || (message.status === "delivering" && message.lockedAt !== null && message.lockedAt < options.staleBefore))
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, options.limit)
+      .map((message) => {
+        Object.assign(message, { status: "delivering", attempts: message.attempts + 1, lockedAt: options.now, updatedAt: options.now });
+        return this.clone(message);
+      });
+  }
+
+  async updateOutboxMessage(id: number, updates: Partial<OutboxMessage>): Promise<OutboxMessage | undefined> {
+    const message = this.outbox.get(id);
+    if (!message) {
+      return undefined;
+    }
+    Object.assign(message, updates, { updatedAt: new Date() });
+    return this.clone(message);
+  }
+
+  async getOutboxMessages(query: { status: OutboxStatus; limit: number }): Promise<OutboxMessage[]> {
+    return Array.from(this.outbox.values())
+      .filter((message) => message.status === query.status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, query.limit)
+      .map((message) => this.clone(message));
+  }
+
+  async getOutboxCounts(): Promise<Record<OutboxStatus, number>> {
+    const counts = { ...OUTBOX_STATUS_COUNTS };
+    for (const message of Array.from(this.outbox.values())) {
+      counts[message.status] += 1;
+    }
+    return counts;
+  }
+
+  async replayOutboxMessages(ids: number[]): Promise<OutboxMessage[]> {
+    const now = new Date();
+    const replayed: OutboxMessage[] = [];
+    for (const id of ids) {
+      const message = this.outbox.get(id);
+      if (message?.status === "dead") {
+        Object.assign(message, { status: "pending", attempts: 0, nextAttemptAt: now, lockedAt: null, updatedAt: now });
+        replayed.push(this.clone(message));
+      }
+    }
+    return replayed;
+  }
+
+  async discardUserOutboxMessages(userId: string): Promise<{ discarded: number; inFlight: number }> {
+    let discarded = 0;
+    let inFlight = 0;
+    for (const message of Array.from(this.outbox.values())) {
+      if (message.userId !== userId) {
+        continue;
+      }
+      if (message.status === "delivering") {
+        inFlight += 1;
+      } else {
+        this.outbox.delete(message.id);
+        discarded += 1;
+      }
+    }
+    return { discarded, inFlight };
+  }
+
+  async appendDeletionLogEntry(entry: NewDeletionLogEntry, seal: (previous: DeletionLogEntry | undefined) => DeletionLogSeal): Promise<DeletionLogEntry> {
+    const previous = this.deletionLog[this.deletionLog.length - 1];
+    const created: DeletionLogEntry = {
+      id: (previous?.id ?? 0) + 1,
+      subjectHash: entry.subjectHash,
+      userId: entry.userId,
+      requestedBy: entry.requestedBy,
+      summary: entry.summary,
+      createdAt: entry.createdAt,
+      ...seal(previous ? this.clone(previous) : undefined),
+    };
+    this.deletionLog.push(created);
+    return this.clone(created);
+  }
+
+  async getDeletionLog(): Promise<DeletionLogEntry[]> {
+    return this.deletionLog.map((entry) => this.clone(entry));
+  }
+
+  async getAiSpendSince(since: Date): Promise<number> {
+    return this.usageEvents
+      .filter((event) => event.createdAt >= since)
+      .reduce((sum, event) => sum + event.costUsd, 0);
+  }
+
+  async getAiSpendReport(since: Date): Promise<AiSpendReport> {
+    const events = this.usageEvents.filter((event) => event.createdAt >= since);
+
+    const breakdown = (keyOf: (event: AiUsageEvent) => string | null): AiSpendBreakdown[] => {
+      const groups = new Map<string | null, AiSpendBreakdown>();
+      for (const event of events) {
+        const key = keyOf(event);
+        const group = groups.get(key) ?? { key, costUsd: 0, calls: 0 };
+        group.costUsd += event.costUsd;
+        group.calls += 1;
+        groups.set(key, group);
+      }
+      return Array.from(groups.values()).sort((a, b) => b.costUsd - a.costUsd);
+    };
+
+    // A lead's transformations: the ones they asked for at the email gate and the ones they own
+    const leadIdsOf = (transformationId: string): Set<string> => {
+      const owner = this.transformations.get(transformationId)?.userId;
+      return new Set([
+        ...this.emailCaptures.filter((capture) => capture.transformationId === transformationId).map((capture) => capture.userId),
+        ...(owner ? [owner] : []),
+      ]);
+    };
+
+    const leads = new Map<string, AiLeadSpend & { transformationIds: Set<string> }>();
+    for (const event of events) {
+      if (!event.transformationId) {
+        continue;
+      }
+      for (const userId of Array.from(leadIdsOf(event.transformationId))) {
+        const user = this.users.get(userId);
+        if (!user) {
+          continue;
+        }
+        const lead = leads.get(user.id) ?? { userId: user.id, email: user.email, costUsd: 0, calls: 0, transformations: 0, transformationIds: new Set<string>() };
+        lead.costUsd += event.costUsd;
+        lead.calls += 1;
+        lead.transformationIds.add(event.transformationId);
+        lead.transformations = lead.transformationIds.size;
+        leads.set(user.id, lead);
+      }
+    }
+
+    return {
+      totalUsd: events.reduce((sum, event) => sum + event.costUsd, 0),
+      calls: events.length,
+      failedCalls: events.filter((event) => !event.success).length,
+      byTheme: breakdown((event) => event.theme),
+      byOperation: breakdown((event) => event.operation),
+      byLead: Array.from(leads.values())
+        .sort((a, b) => b.costUsd - a.costUsd)
+        .slice(0, AI_SPEND_REPORT_LEAD_LIMIT)
+        .map(({ transformationIds, ...lead }) => lead),
+    };
+  }
+}
+
+export function createStorage(driver: string): IStorage {
+  switch (driver) {
+    case "database":
+      return new DatabaseStorage();
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use "database" or "memory".`);
+  }
+}
+
+/**
+ * STORAGE_DRIVER picks the backend; without it, Postgres is used when DATABASE_URL is set.
+ */
+function resolveStorageDriver(): string {
+  const configured = process.env.STORAGE_DRIVER?.trim().toLowerCase();
+  if (configured) {
+    return configured;
+  }
+  if (process.env.DATABASE_URL) {
+    return "database";
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("DATABASE_URL must be set in production (or set STORAGE_DRIVER=memory explicitly).");
+  }
+  console.warn("DATABASE_URL is not set; using in-memory storage. Data will be lost on restart.");
+  return "memory";
 }
 
-export const storage = new DatabaseStorage();
+export const storage: IStorage = createStorage(resolveStorageDriver());
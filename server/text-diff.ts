@@ -0,0 +1,68 @@
+export type DiffSegmentType = "equal" | "added" | "removed";
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+// Above this many LCS cells, fall back from word to line granularity
+const MAX_WORD_DIFF_CELLS = 2_000_000;
+
+function tokenize(text: string, granularity: "word" | "line"): string[] {
+  const pattern = granularity === "word" ? /\s+|[^\s]+/g : /[^\n]*\n|[^\n]+$/g;
+  return text.match(pattern) ?? [];
+}
+
+/**
+ * Word-level diff of two prompts via longest common subsequence. Adjacent tokens of the
+ * same type are merged, so concatenating the non-"added" segments yields `before`.
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  let granularity: "word" | "line" = "word";
+  let a = tokenize(before, granularity);
+  let b = tokenize(after, granularity);
+  if ((a.length + 1) * (b.length + 1) > MAX_WORD_DIFF_CELLS) {
+    granularity = "line";
+    a = tokenize(before, granularity);
+    b = tokenize(after, granularity);
+  }
+
+  // lcs[i * width + j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegmentType, text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+
+  return segments;
+}
@@ -0,0 +1,79 @@
+import type { InsertTheme } from "@shared/schema";
+
+/**
+ * Launch themes. Postgres gets these rows from migration 0002; MemStorage seeds from here.
+ */
+export const defaultThemes: InsertTheme[] = [
+  {
+    slug: "baseball",
+    title: "Sports Star",
+    subtitle: "Trading Card",
+    description: "Transform your pet into a legendary sports trading card with professional stats and championship flair",
+    features: [
+      "Professional trading card design",
+      "Championship team aesthetics",
+      "Athletic performance stats",
+      "Hall of Fame worthy presentation",
+    ],
+    previewImageUrl: "/images/baseball-star.jpg",
+    icon: "Trophy",
+    palette: { backgroundFrom: "#eff6ff", backgroundTo: "#cffafe", iconFrom: "#3b82f6", iconTo: "#4f46e5" },
+    copy: {
+      noun: "sports card",
+      nounTitle: "Sports Card",
+      emoji: "⚾",
+      badgeEmoji: "🏆",
+      shareHighlight: "a legendary baseball all-star ⚾",
+      statsHeading: "⚾ Player Stats",
+      processingSteps: {
+        queued: "Getting your pet in the lineup...",
+        generating: "Designing the perfect baseball card...",
+        watermarking: "Adding finishing touches...",
+        uploading: "Almost ready!",
+      },
+    },
+    generator: "baseball-card",
+    promptCategory: "baseball",
+    personaType: "baseball player",
+    personaTone: "sportscaster",
+    statGenerator: "baseball",
+    statLabels: ["Fetch Success Rate", "Treats Per Day", "Naps Completed", "Belly Rubs Given", "Squirrels Chased"],
+    sortOrder: 10,
+  },
+  {
+    slug: "superhero",
+    title: "Superhero",
+    subtitle: "Comic Hero",
+    description: "Give your pet amazing superpowers and create their ultimate superhero identity with comic book style",
+    features: [
+      "Epic superhero transformation",
+      "Comic book art style",
+      "Incredible superpowers",
+      "Heroic origin story ready",
+    ],
+    previewImageUrl: "/images/superhero.jpg",
+    icon: "Zap",
+    palette: { backgroundFrom: "#faf5ff", backgroundTo: "#fee2e2", iconFrom: "#a855f7", iconTo: "#db2777" },
+    copy: {
+      noun: "superhero identity",
+      nounTitle: "Superhero Identity",
+      emoji: "🦸",
+      badgeEmoji: "⚡",
+      shareHighlight: "an epic superhero 🦸‍♂️",
+      statsHeading: "🦸 Hero Stats",
+      processingSteps: {
+        queued: "Getting your pet suited up...",
+        generating: "Generating super powers and cape effects...",
+        watermarking: "Adding finishing touches...",
+        uploading: "Almost ready!",
+      },
+    },
+    generator: "superhero",
+    promptCategory: "superhero",
+    personaType: "superhero",
+    personaTone: "whimsical",
+    statGenerator: "random",
+    statLabels: ["Power Level", "Rescues", "Speed", "Loyalty", "Treat Detection"],
+    sortOrder: 20,
+  },
+];
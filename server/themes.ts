@@ -0,0 +1,126 @@
+import type { PetProfile, PetTransformation, Theme } from "@shared/schema";
+import {
+  createBaseballCard,
+  createSuperheroImage,
+  createThemedImage,
+  generateBaseballStats,
+  type ThemedTransformationResult,
+} from "./generation";
+import { escapePromptText } from "./prompt-template";
+
+export interface ThemeGenerationInput {
+  theme: Theme;
+  transformation: PetTransformation;
+  stats: Record<string, number>;
+}
+
+type ThemeImageGenerator = (input: ThemeGenerationInput) => Promise<ThemedTransformationResult>;
+type ThemeStatGenerator = (theme: Theme, petName: string, traits: string[]) => Record<string, number>;
+
+function traitsOf(transformation: PetTransformation): string[] {
+  return (transformation.traits as string[]) || [];
+}
+
+/**
+ * Every pet in the transformation, in photo order. Single-pet rows keep their details in the
+ * top-level columns and leave `pets` empty.
+ */
+export function petsOf(transformation: PetTransformation): PetProfile[] {
+  if (transformation.pets.length > 0) {
+    return transformation.pets;
+  }
+  return [{
+    name: transformation.petName,
+    breed: transformation.petBreed || undefined,
+    traits: traitsOf(transformation),
+    gender: (transformation.gender ?? undefined) as PetProfile["gender"],
+    imageUrl: transformation.originalImageUrl || "",
+  }];
+}
+
+// Traits of every pet in the group, without repeats
+function groupTraitsOf(transformation: PetTransformation): string[] {
+  return Array.from(new Set(petsOf(transformation).flatMap((pet) => pet.traits)));
+}
+
+function usageOf(theme: Theme, transformation: PetTransformation) {
+  return { transformationId: transformation.id, theme: theme.slug };
+}
+
+/**
+ * Image generators a theme row can point at through `themes.generator`.
+ * "prompt" covers any theme whose look is fully described by its prompt template.
+ */
+const themeImageGenerators: Record<string, ThemeImageGenerator> = {
+  "baseball-card": ({ theme, transformation, stats }) => createBaseballCard({
+    pets: petsOf(transformation),
+    team: "Pet Pantry All-Stars",
+    position: "Good Boy/Girl",
+    stats,
+    usage: usageOf(theme, transformation),
+  }),
+  superhero: ({ theme, transformation }) => {
+    const traits = groupTraitsOf(transformation);
+    return createSuperheroImage({
+      pets: petsOf(transformation),
+      powers: traits.length ? traits : ["loyalty", "cuteness", "treat detection"],
+      usage: usageOf(theme, transformation),
+    });
+  },
+  prompt: ({ theme, transformation, stats }) => createThemedImage({
+    promptCategory: theme.promptCategory,
+    fallbackPrompt: theme.fallbackPrompt || defaultThemePrompt(theme),
+    pets: petsOf(transformation),
+    stats,
+    usage: usageOf(theme, transformation),
+  }),
+};
+
+/**
+ * Stat generators a theme row can point at through `themes.stat_generator`.
+ */
+const themeStatGenerators: Record<string, ThemeStatGenerator> = {
+  baseball: (_theme, petName, traits) => generateBaseballStats(petName, traits),
+  random: (theme) => Object.fromEntries(
+    theme.statLabels.map((label) => [label, Math.floor(Math.random() * 40) + 60]), // 60-99
+  ),
+  none: () => ({}),
+};
+
+export const themeGeneratorKeys = Object.keys(themeImageGenerators);
+export const themeStatGeneratorKeys = Object.keys(themeStatGenerators);
+
+function defaultThemePrompt(theme: Theme): string {
+  return `{#if petCount != 1}Transform these {petCount} pets, one from each reference photo, into a single ${escapePromptText(theme.title)} (${escapePromptText(theme.subtitle)}) group image:
+    {#each pets as pet}- {pet}
+    {/each}Show them together, all fully in frame.
+    {:else}Transform this {petBreed} named "{petName}" into a ${escapePromptText(theme.title)} (${escapePromptText(theme.subtitle)}) image.
+    {/if}${escapePromptText(theme.description)}
+    Personality traits: {traits | default: "lovable"}.
+    Keep {#if petCount != 1}every pet{:else}the pet{/if} clearly recognizable. High quality, detailed, professional.`;
+}
+
+export function generateThemeStats(theme: Theme, petName: string, traits: string[] = []): Record<string, number> {
+  const generator = themeStatGenerators[theme.statGenerator] || themeStatGenerators.random;
+  return generator(theme, petName, traits);
+}
+
+/**
+ * Generate the transformed image for a stored transformation using its theme's configured generator.
+ */
+export async function generateThemeImage(theme: Theme, transformation: PetTransformation): Promise<ThemedTransformationResult> {
+  const generator = themeImageGenerators[theme.generator];
+  if (!generator) {
+    throw new Error(`Theme "${theme.slug}" uses unknown generator "${theme.generator}"`);
+  }
+  const stats = generateThemeStats(theme, transformation.petName, groupTraitsOf(transformation));
+  return generator({ theme, transformation, stats });
+}
+
+/**
+ * Theme fields safe to expose to the public picker (generation internals stay server-side).
+ */
+export function toPublicTheme(theme: Theme) {
+  const { fallbackPrompt, generator, promptCategory, statGenerator, isActive, createdAt, updatedAt, ...publicTheme } = theme;
+  return publicTheme;
+}
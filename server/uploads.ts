@@ -0,0 +1,69 @@
+import type { PetTransformation } from "@shared/schema";
+import { getObjectStore } from "./object-store";
+import { storage } from "./storage";
+
+// Lifetime of the signed upload URLs handed to the browser and the pipeline; anything that runs
+// later (queued jobs, remixes) signs the keys again
+export const UPLOAD_URL_TTL_SECONDS = 3600;
+
+/**
+ * Thrown for a photo reference this server didn't issue to the requesting visitor.
+ */
+export class UploadReferenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UploadReferenceError";
+  }
+}
+
+export interface ResolvedUpload {
+  key: string;
+  /** Freshly signed URL for the key */
+  url: string;
+}
+
+/**
+ * Map photo references from a request, each a signed URL or key that /api/upload returned, to the
+ * uploads recorded for this visitor. Other hosts, other visitors' uploads and made-up keys throw
+ * UploadReferenceError, so the stored URLs are always ones this server signed.
+ */
+export async function resolveUploadReferences(references: string[], sessionId: string | undefined): Promise<ResolvedUpload[]> {
+  const store = getObjectStore();
+  const keys = references.map((reference) => {
+    const located = store.locate(reference);
+    if (!located) {
+      return reference;
+    }
+    return located.bucket === "uploads" ? located.key : null;
+  });
+  const recorded = new Map((await storage.getUploads(keys.filter((key): key is string => !!key))).map((upload) => [upload.key, upload]));
+
+  return Promise.all(keys.map(async (key) => {
+    const upload = key ? recorded.get(key) : undefined;
+    if (!upload || !sessionId || upload.sessionId !== sessionId) {
+      throw new UploadReferenceError("We couldn't find that photo. Please upload it again.");
+    }
+    return { key: upload.key, url: (await signUploadKeys([upload.key]))[0] };
+  }));
+}
+
+export async function signUploadKeys(keys: string[]): Promise<string[]> {
+  const store = getObjectStore();
+  return Promise.all(keys.map((key) => store.getSignedUrl({ bucket: "uploads", key, expiresInSeconds: UPLOAD_URL_TTL_SECONDS })));
+}
+
+/**
+ * The transformation with its photo URLs signed afresh from `uploadKeys` (one per photo, in photo
+ * order). Rows created before upload keys were recorded keep their stored URLs.
+ */
+export async function withFreshPhotoUrls(transformation: PetTransformation): Promise<PetTransformation> {
+  if (transformation.uploadKeys.length === 0) {
+    return transformation;
+  }
+  const urls = await signUploadKeys(transformation.uploadKeys);
+  return {
+    ...transformation,
+    originalImageUrl: urls[0],
+    pets: transformation.pets.map((pet, index) => ({ ...pet, imageUrl: urls[index] ?? pet.imageUrl })),
+  };
+}
@@ -0,0 +1,241 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { z } from "zod";
+import type { AiOperation } from "@shared/schema";
+import { storage } from "./storage";
+
+/** What a provider call was for, so spend can be reported per theme and per lead */
+export interface UsageContext {
+  transformationId?: string | null;
+  theme?: string | null;
+}
+
+export interface UsageMeasurement {
+  provider: string;
+  model: string;
+  operation: AiOperation;
+  success: boolean;
+  latencyMs: number;
+  inputTokens?: number | null;
+  outputTokens?: number | null;
+  computeSeconds?: number | null;
+  /** Images produced, for per-image pricing */
+  images?: number;
+  error?: string | null;
+}
+
+const modelPricingSchema = z.object({
+  perImage: z.number().nonnegative(),
+  perSecond: z.number().nonnegative(),
+  perInputToken: z.number().nonnegative(),
+  perOutputToken: z.number().nonnegative(),
+}).partial();
+
+export type ModelPricing = z.infer<typeof modelPricingSchema>;
+
+// USD list prices at the time of writing; AI_MODEL_PRICING (JSON keyed by model) overrides or extends them
+const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  "google/nano-banana": { perImage: 0.039 },
+  "gpt-4o-mini": { perInputToken: 0.15 / 1e6, perOutputToken: 0.6 / 1e6 },
+  "gpt-5-mini": { perInputToken: 0.25 / 1e6, perOutputToken: 2 / 1e6 },
+  "omni-moderation-latest": {}, // free; listed so calls are not reported as unpriced
+};
+
+let cachedPricing: Record<string, ModelPricing> | null = null;
+const unpricedModels = new Set<string>();
+
+function modelPricing(): Record<string, ModelPricing> {
+  if (!cachedPricing) {
+    const overrides = process.env.AI_MODEL_PRICING
+      ? z.record(modelPricingSchema).parse(JSON.parse(process.env.AI_MODEL_PRICING))
+      : {};
+    cachedPricing = { ...DEFAULT_MODEL_PRICING, ...overrides };
+  }
+  return cachedPricing;
+}
+
+/**
+ * Estimated USD cost of one call. Replicate models without a price are charged by compute
+ * time at REPLICATE_COST_PER_SECOND; the offline local generator is free.
+ */
+export function estimateAiCost(measurement: UsageMeasurement): number {
+  if (measurement.provider === "local") {
+    return 0;
+  }
+
+  let pricing = modelPricing()[measurement.model];
+  if (!pricing && measurement.provider === "replicate") {
+    pricing = { perSecond: Number(process.env.REPLICATE_COST_PER_SECOND ?? 0.001) };
+  }
+  if (!pricing) {
+    if (!unpricedModels.has(measurement.model)) {
+      unpricedModels.add(measurement.model);
+      console.warn(`No pricing for model "${measurement.model}"; its calls are recorded at $0. Add it to AI_MODEL_PRICING.`);
+    }
+    return 0;
+  }
+
+  return (pricing.perImage ?? 0) * (measurement.images ?? 0)
+    + (pricing.perSecond ?? 0) * (measurement.computeSeconds ?? 0)
+    + (pricing.perInputToken ?? 0) * (measurement.inputTokens ?? 0)
+    + (pricing.perOutputToken ?? 0) * (measurement.outputTokens ?? 0);
+}
+
+/**
+ * Write a provider call to the usage ledger. Best-effort: metering failures are logged and
+ * never fail the call being metered.
+ */
+export async function recordAiUsage(measurement: UsageMeasurement, context: UsageContext = {}): Promise<void> {
+  try {
+    const costUsd = estimateAiCost(measurement);
+    await storage.recordAiUsage({
+      provider: measurement.provider,
+      model: measurement.model,
+      operation: measurement.operation,
+      transformationId: context.transformationId ?? null,
+      theme: context.theme ?? null,
+      success: measurement.success,
+      latencyMs: Math.round(measurement.latencyMs),
+      inputTokens: measurement.inputTokens ?? null,
+      outputTokens: measurement.outputTokens ?? null,
+      computeSeconds: measurement.computeSeconds ?? null,
+      costUsd,
+      error: measurement.error ?? null,
+    });
+    if (cachedBudget) {
+      cachedBudget.daily.spentUsd += costUsd;
+      cachedBudget.monthly.spentUsd += costUsd;
+      cachedBudget.level = budgetLevel(cachedBudget);
+    }
+  } catch (error) {
+    console.error("Failed to record AI usage:", { operation: measurement.operation, model: measurement.model, error });
+  }
+}
+
+/**
+ * ok: everything runs. reduced: optional text features are off. paused: no provider calls;
+ * queued image jobs wait for the next budget window.
+ */
+export type BudgetLevel = "ok" | "reduced" | "paused";
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  daily: { spentUsd: number; capUsd: number | null };
+  monthly: { spentUsd: number; capUsd: number | null };
+  /** Fraction of a cap at which optional features switch off */
+  reduceAt: number;
+  /** Start of the next daily (UTC) window */
+  dailyResetAt: Date;
+  /** Start of the next monthly (UTC) window */
+  monthlyResetAt: Date;
+}
+
+// Optional extras switch off first as spend nears a cap; the core image flow only pauses at the cap
+const OPTIONAL_OPERATIONS: ReadonlySet<AiOperation> = new Set<AiOperation>([
+  "persona_stats",
+  "prompt_suggestions",
+  "pet_description",
+  "prompt_enhancement",
+  "animal_detection",
+]);
+
+const BUDGET_CACHE_MS = 30_000;
+
+let cachedBudget: BudgetStatus | null = null;
+let cachedBudgetAt = 0;
+
+function readCap(name: string): number | null {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+function budgetLevel(status: Pick<BudgetStatus, "daily" | "monthly" | "reduceAt">): BudgetLevel {
+  const usage = [status.daily, status.monthly]
+    .filter((window) => window.capUsd !== null)
+    .map((window) => (window.capUsd === 0 ? Infinity : window.spentUsd / window.capUsd!));
+  const highest = Math.max(0, ...usage);
+  if (highest >= 1) {
+    return "paused";
+  }
+  return highest >= status.reduceAt ? "reduced" : "ok";
+}
+
+/**
+ * Spend against AI_DAILY_BUDGET_USD / AI_MONTHLY_BUDGET_USD (UTC windows; unset means no cap).
+ * Cached briefly and topped up in-process as calls are recorded.
+ */
+export async function getBudgetStatus(now: Date = new Date()): Promise<BudgetStatus> {
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const dailyResetAt = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+  if (cachedBudget && now.getTime() - cachedBudgetAt < BUDGET_CACHE_MS && cachedBudget.dailyResetAt.getTime() === dailyResetAt.getTime()) {
+    return cachedBudget;
+  }
+
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const monthlyResetAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  const [dailySpent, monthlySpent] = await Promise.all([
+    storage.getAiSpendSince(dayStart),
+    storage.getAiSpendSince(monthStart),
+  ]);
+
+  const reduceAt = Number(process.env.AI_BUDGET_REDUCE_AT ?? 0.8);
+  const status: BudgetStatus = {
+    level: "ok",
+    daily: { spentUsd: dailySpent, capUsd: readCap("AI_DAILY_BUDGET_USD") },
+    monthly: { spentUsd: monthlySpent, capUsd: readCap("AI_MONTHLY_BUDGET_USD") },
+    reduceAt: Number.isFinite(reduceAt) && reduceAt > 0 ? reduceAt : 0.8,
+    dailyResetAt,
+    monthlyResetAt,
+  };
+  status.level = budgetLevel(status);
+
+  if (status.level !== "ok" && cachedBudget?.level !== status.level) {
+    console.warn(`AI budget level is now "${status.level}"`, { daily: status.daily, monthly: status.monthly });
+  }
+  cachedBudget = status;
+  cachedBudgetAt = now.getTime();
+  return status;
+}
+
+/**
+ * Whether the budget currently allows a provider call for `operation`. Budget lookups that fail
+ * allow the call, so a ledger outage never takes generation down.
+ */
+export async function isAiOperationAllowed(operation: AiOperation): Promise<boolean> {
+  try {
+    const { level } = await getBudgetStatus();
+    return level === "ok" || (level === "reduced" && !OPTIONAL_OPERATIONS.has(operation));
+  } catch (error) {
+    console.error("AI budget check failed; allowing call:", error);
+    return true;
+  }
+}
+
+/**
+ * Seconds until the budget window that is currently over its threshold rolls over.
+ */
+export function budgetRetryAfterSeconds(status: BudgetStatus, now: Date = new Date()): number {
+  const dailyBinding = status.daily.capUsd !== null && status.daily.spentUsd >= status.daily.capUsd * status.reduceAt;
+  const monthlyBinding = status.monthly.capUsd !== null && status.monthly.spentUsd >= status.monthly.capUsd * status.reduceAt;
+  const resetAt = monthlyBinding ? status.monthlyResetAt : dailyBinding ? status.dailyResetAt : now;
+  return Math.max(1, Math.ceil((resetAt.getTime() - now.getTime()) / 1000));
+}
+
+/**
+ * Answer 503 with Retry-After when the budget has switched `operation` off.
+ */
+export function requireAiBudget(operation: AiOperation): RequestHandler {
+  return async (_req: Request, res: Response, next: NextFunction) => {
+    if (await isAiOperationAllowed(operation)) {
+      return next();
+    }
+    const status = await getBudgetStatus().catch(() => null);
+    if (status) {
+      res.setHeader("Retry-After", budgetRetryAfterSeconds(status));
+    }
+    res.status(503).json({
+      success: false,
+      message: "This feature is temporarily unavailable. Please try again later.",
+      budgetPaused: true,
+    });
+  };
+}
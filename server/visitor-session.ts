@@ -0,0 +1,76 @@
+import type { Request, RequestHandler } from "express";
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import { resolveSessionSecret } from "./admin-auth";
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Anonymous visitor id from the signed visitor cookie; set on every /api and /p request */
+      visitorSessionId?: string;
+    }
+  }
+}
+
+const COOKIE_NAME = "visitor.sid";
+const COOKIE_MAX_AGE_MS = Number(process.env.VISITOR_SESSION_TTL_DAYS ?? 365) * 24 * 60 * 60 * 1000;
+const VISITOR_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+function sign(visitorId: string): string {
+  return createHmac("sha256", resolveSessionSecret()).update(`visitor:${visitorId}`).digest("base64url");
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const index = part.indexOf("=");
+    if (index > 0 && part.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(index + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Visitor id from a `<id>.<signature>` cookie value, or null when it is missing or forged.
+ */
+export function verifyVisitorCookie(value: string | undefined): string | null {
+  const [visitorId, signature] = (value ?? "").split(".");
+  if (!visitorId || !signature || !VISITOR_ID_PATTERN.test(visitorId)) {
+    return null;
+  }
+  const expected = Buffer.from(sign(visitorId));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? visitorId : null;
+}
+
+/**
+ * Visitor id from a valid cookie the browser sent with this request, or null when it had none
+ * (a cookie minted for this response doesn't count).
+ */
+export function presentedVisitorId(req: Request): string | null {
+  return verifyVisitorCookie(readCookie(req, COOKIE_NAME));
+}
+
+/**
+ * Stateless anonymous sessions: the first request without a valid cookie is issued a random
+ * visitor id, HMAC-signed with SESSION_SECRET. Transformations record the id that created them.
+ */
+export function visitorSessions(): RequestHandler {
+  return (req, res, next) => {
+    let visitorId = presentedVisitorId(req);
+    if (!visitorId) {
+      visitorId = randomUUID();
+      res.cookie(COOKIE_NAME, `${visitorId}.${sign(visitorId)}`, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: COOKIE_MAX_AGE_MS,
+      });
+    }
+    req.visitorSessionId = visitorId;
+    next();
+  };
+}
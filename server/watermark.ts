@@ -1,7 +1,12 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 
-export type WatermarkPosition = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+export const WATERMARK_POSITIONS = ["top-left", "top-right", "bottom-left", "bottom-right"] as const;
+export type WatermarkPosition = typeof WATERMARK_POSITIONS[number];
+
+export function isWatermarkPosition(value: string): value is WatermarkPosition {
+    return (WATERMARK_POSITIONS as readonly string[]).includes(value);
+}
 
 export type WatermarkOptions = {
     logoPath?: string;
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, jsonb, boolean, real, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, jsonb, boolean, real, serial, uniqueIndex, index, primaryKey, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,24 +7,341 @@ export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: text("email").notNull().unique(),
   name: text("name"),
+  emailVerifiedAt: timestamp("email_verified_at"), // first magic-link sign-in
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at"),
 });
 
+// Single-use magic links for "My Creations" sign-in (server/accounts.ts); only the hash is stored
+export const loginTokens = pgTable("login_tokens", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  // Anonymous creations the requesting browser proved it owns, claimed when the link is used
+  claimTransformationIds: jsonb("claim_transformation_ids").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("login_tokens_user_idx").on(table.userId),
+}));
+
+// Photos /api/upload stored, and the visitor each was issued to. New transformations may only
+// reference these, so a request can't point the pipeline (or an erasure) at someone else's object.
+export const uploads = pgTable("uploads", {
+  key: text("key").primaryKey(), // object key in the uploads bucket
+  sessionId: varchar("session_id").notNull(), // visitor session that uploaded it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Anonymous visitors (server/visitor-session.ts) who have since given an email. Visitors without a
+// row live only in their signed cookie.
+export const visitorSessions = pgTable("visitor_sessions", {
+  id: varchar("id").primaryKey(), // the visitor id from the signed cookie
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  mergedAt: timestamp("merged_at").notNull(), // last time a sign-in linked it
+});
+
+// Leads who asked for a transformation at the email gate. Anyone can type any email there, so this
+// only attributes the download (and its AI spend) to the lead; ownership still moves to the user
+// when they sign in with a magic link.
+export const emailCaptures = pgTable("email_captures", {
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  transformationId: varchar("transformation_id").references(() => petTransformations.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.transformationId] }),
+  transformationIdx: index("email_captures_transformation_idx").on(table.transformationId),
+}));
+
+export type DripErasureStatus = "deleted" | "not_found" | "skipped";
+
+// What an erasure removed; counts only, so the log itself holds no personal data
+export interface DeletionSummary {
+  transformations: number;
+  /** Admin remixes of those transformations; absent from entries logged before remixes were erased */
+  remixes?: number;
+  uploadObjects: number;
+  generatedObjects: number;
+  /** Safety log rows, which hold screened text; absent from entries logged before they were erased */
+  safetyDecisions?: number;
+  drip: DripErasureStatus;
+}
+
+// Append-only record of account erasures (server/privacy.ts). Each row's hash covers the previous
+// row's hash, so editing or removing an entry breaks the chain from that point on.
+export const deletionLog = pgTable("deletion_log", {
+  id: serial("id").primaryKey(),
+  subjectHash: text("subject_hash").notNull(), // sha256 of the lowercased email, to answer "was X erased?"
+  userId: varchar("user_id").notNull(), // no FK: the user row is gone
+  requestedBy: text("requested_by").notNull(), // "self" or the admin's email
+  summary: jsonb("summary").$type<DeletionSummary>().notNull(),
+  prevHash: text("prev_hash").notNull(),
+  hash: text("hash").notNull().unique(),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+// Outbound integration deliveries (server/outbox.ts), written in the same transaction as the change
+// that triggers them and sent by a background dispatcher with retries
+export const outboxTopics = ["drip.download"] as const;
+export type OutboxTopic = typeof outboxTopics[number];
+
+// pending: waiting for its next attempt; delivering: claimed by a dispatcher; dead: out of attempts
+export const outboxStatuses = ["pending", "delivering", "delivered", "dead"] as const;
+export type OutboxStatus = typeof outboxStatuses[number];
+
+export const outboxMessages = pgTable("outbox_messages", {
+  id: serial("id").primaryKey(),
+  topic: text("topic").$type<OutboxTopic>().notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  userId: varchar("user_id").references(() => users.id), // whose data the payload carries, for erasure
+  status: text("status").$type<OutboxStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lockedAt: timestamp("locked_at"), // when a dispatcher claimed it; stale claims are retried
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  dueIdx: index("outbox_messages_due_idx").on(table.status, table.nextAttemptAt),
+  userIdx: index("outbox_messages_user_idx").on(table.userId),
+}));
+
+export const adminRoles = ['viewer', 'moderator', 'prompt_editor', 'owner'] as const;
+export type AdminRole = typeof adminRoles[number];
+
+// Staff accounts for /admin; separate from `users`, which are customers captured at download
+export const adminUsers = pgTable("admin_users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull().unique(),
+  name: text("name").notNull(),
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").$type<AdminRole>().notNull().default("viewer"),
+  isActive: boolean("is_active").notNull().default(true),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// express-session rows, in the layout connect-pg-simple expects
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: jsonb("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => ({
+  expireIdx: index("IDX_session_expire").on(table.expire),
+}));
+
+// Fixed-window counters behind the sliding-window rate limiter (server/rate-limit.ts)
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: text("key").notNull(), // "<policy>:<scope>:<value>"
+  windowStart: timestamp("window_start").notNull(),
+  count: integer("count").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.key, table.windowStart] }),
+  expiresIdx: index("rate_limit_buckets_expires_idx").on(table.expiresAt),
+}));
+
+export const renditionNames = ["feed", "story", "og", "thumbnail"] as const;
+export type RenditionName = typeof renditionNames[number];
+/** Public URL of each social-format copy of the generated image */
+export type TransformationRenditions = Partial<Record<RenditionName, string>>;
+
+// public: share page is indexable; unlisted: reachable only by its link
+export const transformationVisibilities = ["public", "unlisted"] as const;
+export type TransformationVisibility = typeof transformationVisibilities[number];
+
+// Brand review state; only approved transformations appear on public surfaces
+export const moderationStatuses = ["pending", "approved", "rejected", "taken_down"] as const;
+export type ModerationStatus = typeof moderationStatuses[number];
+export const moderationReasonCodes = ["not_a_pet", "inappropriate_image", "offensive_text", "personal_info", "copyright", "low_quality", "off_brand", "other"] as const;
+export type ModerationReasonCode = typeof moderationReasonCodes[number];
+// Raised by the automated pre-screen (server/moderation.ts); any flag moves an item up the review queue
+export const moderationFlags = ["contact_info", "flagged_term", "generation_issue"] as const;
+export type ModerationFlag = typeof moderationFlags[number];
+
+// Group transformations put up to this many pets, each with its own photo, in one image
+export const MAX_PETS_PER_TRANSFORMATION = 3;
+
+export const petProfileSchema = z.object({
+  name: z.string().trim().min(1, "Every pet needs a name"),
+  breed: z.string().optional(),
+  traits: z.array(z.string()).max(3).default([]),
+  gender: z.enum(['male', 'female', 'neutral']).optional(),
+  // A URL or key /api/upload returned; the route checks it was issued to the same visitor
+  imageUrl: z.string().min(1, "Every pet needs a photo"),
+});
+export type PetProfile = z.infer<typeof petProfileSchema>;
+
+/** Display name for one or more pets: "Rex", "Rex & Luna", "Rex, Luna & Max" */
+export function formatPetNames(names: string[]): string {
+  return names.length <= 1 ? names.join("") : `${names.slice(0, -1).join(", ")} & ${names[names.length - 1]}`;
+}
+
 export const petTransformations = pgTable("pet_transformations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id),
   petName: text("pet_name").notNull(),
   petBreed: text("pet_breed"),
-  theme: text("theme").notNull(), // 'baseball' | 'superhero'
+  theme: text("theme").notNull(), // themes.slug
   traits: jsonb("traits").$type<string[]>().default(sql`'[]'::jsonb`),
   gender: text("gender"),
   originalImageUrl: text("original_image_url"),
+  // Group transformations only, in photo order; the columns above then describe the group (joined
+  // names, first pet's breed and photo). Empty for a single pet.
+  pets: jsonb("pets").$type<PetProfile[]>().notNull().default(sql`'[]'::jsonb`),
+  // Upload key of each photo in pets order (or the single originalImageUrl), taken from the uploads
+  // table at creation; the pipeline signs fresh URLs from these
+  uploadKeys: jsonb("upload_keys").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
   transformedImageUrl: text("transformed_image_url"),
+  cardBackImageUrl: text("card_back_image_url"), // composited card themes only
+  renditions: jsonb("renditions").$type<TransformationRenditions>().notNull().default(sql`'{}'::jsonb`),
+  visibility: text("visibility").$type<TransformationVisibility>().notNull().default("public"),
+  showInGallery: boolean("show_in_gallery").notNull().default(false), // owner opt-in; only public transformations are listed
+  ownerTokenHash: text("owner_token_hash"), // sha256 of the token handed to the creating browser
+  sessionId: varchar("session_id"), // anonymous visitor session that created it
+  moderationStatus: text("moderation_status").$type<ModerationStatus>().notNull().default("pending"),
+  moderationFlags: jsonb("moderation_flags").$type<ModerationFlag[]>().notNull().default(sql`'[]'::jsonb`),
+  moderationReason: text("moderation_reason").$type<ModerationReasonCode>(), // set by reject and take down decisions
+  moderationNote: text("moderation_note"),
+  moderatedBy: varchar("moderated_by").references(() => adminUsers.id),
+  moderatedAt: timestamp("moderated_at"),
   stats: jsonb("stats").$type<{ likes: number; shares: number; downloads: number }>().default(sql`'{"likes": 0, "shares": 0, "downloads": 0}'::jsonb`),
+  // Prompt that produced the image, so outcome signals can be credited back to it
+  promptTemplateId: integer("prompt_template_id").references(() => promptTemplates.id),
+  promptVariantId: integer("prompt_variant_id").references(() => promptVariants.id),
+  promptRevisionId: integer("prompt_revision_id").references(() => promptTemplateRevisions.id),
+  promptReward: real("prompt_reward").notNull().default(0), // reward credited so far, within [0, 1]
+  // Set on admin remixes: the pipeline replays this attempt's prompt, model and input image
+  remixOfAttemptId: integer("remix_of_attempt_id").references((): AnyPgColumn => generationAttempts.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  moderationIdx: index("pet_transformations_moderation_idx").on(table.moderationStatus, table.createdAt),
+  sessionIdx: index("pet_transformations_session_idx").on(table.sessionId),
+}));
+
+export interface ThemePalette {
+  /** Card background gradient, light tints */
+  backgroundFrom: string;
+  backgroundTo: string;
+  /** Icon badge gradient */
+  iconFrom: string;
+  iconTo: string;
+}
+
+export interface ThemeCopy {
+  /** Lowercase product noun, e.g. "sports card" */
+  noun: string;
+  /** Title-case product noun, e.g. "Sports Card" */
+  nounTitle: string;
+  emoji: string;
+  badgeEmoji: string;
+  /** Completes "Meet {pet}! Now ..." in share captions */
+  shareHighlight: string;
+  statsHeading: string;
+  processingSteps: {
+    queued: string;
+    generating: string;
+    watermarking: string;
+    uploading: string;
+  };
+}
+
+// Registry of transformation themes; rows drive the picker, generation and persona copy
+export const themes = pgTable("themes", {
+  slug: varchar("slug", { length: 50 }).primaryKey(),
+  title: text("title").notNull(),
+  subtitle: text("subtitle").notNull(),
+  description: text("description").notNull(),
+  features: jsonb("features").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  previewImageUrl: text("preview_image_url"),
+  icon: varchar("icon", { length: 50 }).notNull().default("Sparkles"), // lucide-react icon name
+  palette: jsonb("palette").$type<ThemePalette>().notNull(),
+  copy: jsonb("copy").$type<ThemeCopy>().notNull(),
+  generator: varchar("generator", { length: 50 }).notNull().default("prompt"), // key in server/themes.ts generators
+  promptCategory: varchar("prompt_category", { length: 50 }).notNull(), // prompt_templates.category
+  fallbackPrompt: text("fallback_prompt"),
+  personaType: text("persona_type").notNull(),
+  personaTone: varchar("persona_tone", { length: 30 }).notNull().default("whimsical"),
+  statGenerator: varchar("stat_generator", { length: 50 }).notNull().default("random"), // key in server/themes.ts stat generators
+  statLabels: jsonb("stat_labels").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  isActive: boolean("is_active").notNull().default(true),
+  sortOrder: integer("sort_order").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const generationJobStatuses = ['queued', 'generating', 'watermarking', 'uploading', 'done', 'failed'] as const;
+export type GenerationJobStatus = typeof generationJobStatuses[number];
+
+// Durable queue entry for a transformation; the worker advances `status` through each pipeline stage
+export const generationJobs = pgTable("generation_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transformationId: varchar("transformation_id").references(() => petTransformations.id).notNull(),
+  status: text("status").$type<GenerationJobStatus>().notNull().default("queued"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+// Audit log: one row per pipeline run, recording exactly what produced (or failed to produce) the image
+export const generationAttemptStatuses = ['succeeded', 'failed'] as const;
+export type GenerationAttemptStatus = typeof generationAttemptStatuses[number];
+
+/** Lettering typeset onto a composited card (server/card-compositor.ts) */
+export interface BaseballCardDetails {
+  petName: string;
+  team: string;
+  position: string;
+  stats: Record<string, number>;
+  /** Every pet's name on a group card, in photo order; switches to the team photo layout */
+  roster?: string[];
+}
+
+export interface GenerationAttemptTimings {
+  generateMs?: number;
+  composeMs?: number;
+  watermarkMs?: number;
+  storeMs?: number;
+  renditionsMs?: number;
+  totalMs?: number;
+}
+
+export const generationAttempts = pgTable("generation_attempts", {
+  id: serial("id").primaryKey(),
+  transformationId: varchar("transformation_id").references(() => petTransformations.id).notNull(),
+  jobId: varchar("job_id").references(() => generationJobs.id),
+  status: text("status").$type<GenerationAttemptStatus>().notNull(),
+  renderedPrompt: text("rendered_prompt"),
+  promptTemplateId: integer("prompt_template_id").references(() => promptTemplates.id),
+  promptRevisionId: integer("prompt_revision_id").references(() => promptTemplateRevisions.id),
+  promptVariantId: integer("prompt_variant_id").references(() => promptVariants.id),
+  inputImageUrl: text("input_image_url"),
+  inputImageUrls: jsonb("input_image_urls").$type<string[]>(), // every reference photo of a group; inputImageUrl is the first
+  inputUploadKeys: jsonb("input_upload_keys").$type<string[]>(), // upload keys of the photos, so replays can sign fresh URLs
+  provider: text("provider"),
+  model: text("model"),
+  modelVersion: text("model_version"),
+  predictionId: text("prediction_id"),
+  seed: text("seed"), // provider seeds can exceed integer range
+  timings: jsonb("timings").$type<GenerationAttemptTimings>().notNull().default(sql`'{}'::jsonb`),
+  card: jsonb("card").$type<BaseballCardDetails>(), // lettering composited over the image, if any
+  watermarked: boolean("watermarked"),
+  watermarkPosition: text("watermark_position"),
+  watermarkScore: real("watermark_score"),
+  objectKey: text("object_key"), // generated-bucket key of the stored image
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  transformationIdx: index("generation_attempts_transformation_idx").on(table.transformationId),
+}));
+
 export const siteMetrics = pgTable("site_metrics", {
   id: text("id").primaryKey().default("global"),
   transforms: integer("transforms").notNull().default(128),
@@ -32,60 +349,356 @@ export const siteMetrics = pgTable("site_metrics", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const adminLoginSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1),
+});
+
+export const createAdminUserSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  name: z.string().trim().min(1).max(100),
+  password: z.string().min(12, "Passwords must be at least 12 characters"),
+  role: z.enum(adminRoles),
+});
+
+export const updateAdminUserSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  password: z.string().min(12, "Passwords must be at least 12 characters"),
+  role: z.enum(adminRoles),
+  isActive: z.boolean(),
+}).partial();
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
+  emailVerifiedAt: true,
+});
+
+// A transformation this browser created, proven by the owner token issued with it
+export const ownershipClaimSchema = z.object({
+  transformationId: z.string().min(1).max(100),
+  ownerToken: z.string().min(1).max(200),
+});
+
+const ownershipClaimsSchema = z.array(ownershipClaimSchema).max(50).default([]);
+
+export const magicLinkRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  claims: ownershipClaimsSchema,
+});
+
+export const verifyLoginSchema = z.object({
+  token: z.string().min(1).max(200),
+  claims: ownershipClaimsSchema,
+});
+
+export const claimTransformationsSchema = z.object({
+  claims: ownershipClaimsSchema,
+});
+
+// Typing the email again guards against erasing the wrong (or a shared) signed-in account
+export const accountDeletionSchema = z.object({
+  confirmEmail: z.string().trim().toLowerCase().email(),
 });
 
 export const insertPetTransformationSchema = createInsertSchema(petTransformations, {
   traits: z.array(z.string()).default([]),
   gender: z.enum(['male', 'female', 'neutral']).optional(),
+  pets: z.array(petProfileSchema)
+    .max(MAX_PETS_PER_TRANSFORMATION, `Up to ${MAX_PETS_PER_TRANSFORMATION} pets can share one image`)
+    .refine((pets) => pets.length !== 1, "A group needs at least two pets; send a single pet without `pets`")
+    .optional(),
 }).omit({
   id: true,
   createdAt: true,
   stats: true,
   transformedImageUrl: true,
+  cardBackImageUrl: true,
+  renditions: true,
+  visibility: true,
+  showInGallery: true,
+  ownerTokenHash: true,
+  sessionId: true,
+  uploadKeys: true,
+  userId: true,
+  moderationStatus: true,
+  moderationFlags: true,
+  moderationReason: true,
+  moderationNote: true,
+  moderatedBy: true,
+  moderatedAt: true,
+  promptTemplateId: true,
+  promptVariantId: true,
+  promptRevisionId: true,
+  promptReward: true,
+  remixOfAttemptId: true,
+});
+
+export const updateTransformationVisibilitySchema = z.object({
+  visibility: z.enum(transformationVisibilities).optional(),
+  showInGallery: z.boolean().optional(),
+}).refine((value) => value.visibility !== undefined || value.showInGallery !== undefined, {
+  message: "Provide visibility or showInGallery",
+});
+
+export const moderationQueueQuerySchema = z.object({
+  status: z.enum(moderationStatuses).default("pending"),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+// Bulk review; rejecting or taking down needs a reason code
+export const moderationDecisionSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(100),
+  status: z.enum(["approved", "rejected", "taken_down"]),
+  reason: z.enum(moderationReasonCodes).optional(),
+  note: z.string().trim().max(500).optional(),
+}).refine((value) => value.status === "approved" || value.reason !== undefined, {
+  message: "A reason code is required to reject or take down",
+  path: ["reason"],
+});
+
+export const outboxQuerySchema = z.object({
+  status: z.enum(outboxStatuses).default("dead"),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const outboxReplaySchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(100),
+});
+
+const themePaletteSchema = z.object({
+  backgroundFrom: z.string().min(1),
+  backgroundTo: z.string().min(1),
+  iconFrom: z.string().min(1),
+  iconTo: z.string().min(1),
+});
+
+const themeCopySchema = z.object({
+  noun: z.string().min(1),
+  nounTitle: z.string().min(1),
+  emoji: z.string().default(""),
+  badgeEmoji: z.string().default(""),
+  shareHighlight: z.string().min(1),
+  statsHeading: z.string().min(1),
+  processingSteps: z.object({
+    queued: z.string().min(1),
+    generating: z.string().min(1),
+    watermarking: z.string().min(1),
+    uploading: z.string().min(1),
+  }),
+});
+
+export const insertThemeSchema = createInsertSchema(themes, {
+  slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug must be lowercase words separated by dashes").max(50),
+  features: z.array(z.string()).default([]),
+  palette: themePaletteSchema,
+  copy: themeCopySchema,
+  statLabels: z.array(z.string()).default([]),
+}).omit({
+  createdAt: true,
+  updatedAt: true,
 });
 
+export const updateThemeSchema = insertThemeSchema.omit({ slug: true }).partial();
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type LoginToken = typeof loginTokens.$inferSelect;
+export type InsertLoginToken = typeof loginTokens.$inferInsert;
+export type VisitorSession = typeof visitorSessions.$inferSelect;
+export type Upload = typeof uploads.$inferSelect;
+export type EmailCaptureRow = typeof emailCaptures.$inferSelect;
+export type InsertUpload = typeof uploads.$inferInsert;
+export type DeletionLogEntry = typeof deletionLog.$inferSelect;
+export type OutboxMessage = typeof outboxMessages.$inferSelect;
+export type InsertOutboxMessage = typeof outboxMessages.$inferInsert;
+export type InsertDeletionLogEntry = typeof deletionLog.$inferInsert;
+export type OwnershipClaim = z.infer<typeof ownershipClaimSchema>;
 export type InsertPetTransformation = z.infer<typeof insertPetTransformationSchema>;
 export type PetTransformation = typeof petTransformations.$inferSelect;
+export type AdminUser = typeof adminUsers.$inferSelect;
+export type InsertAdminUser = typeof adminUsers.$inferInsert;
+export type CreateAdminUser = z.infer<typeof createAdminUserSchema>;
+export type UpdateAdminUser = z.infer<typeof updateAdminUserSchema>;
 export type SiteMetrics = typeof siteMetrics.$inferSelect;
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type GenerationAttempt = typeof generationAttempts.$inferSelect;
+export type InsertGenerationAttempt = typeof generationAttempts.$inferInsert;
+export type Theme = typeof themes.$inferSelect;
+export type InsertTheme = z.infer<typeof insertThemeSchema>;
+export type UpdateTheme = z.infer<typeof updateThemeSchema>;
 
 // Backend prompt optimization system
 export const promptTemplates = pgTable("prompt_templates", {
   id: serial("id").primaryKey(),
   name: varchar("name", { length: 100 }).notNull(),
-  category: varchar("category", { length: 50 }).notNull(), // 'superhero' or 'baseball'
-  basePrompt: text("base_prompt").notNull(),
+  category: varchar("category", { length: 50 }).notNull(), // themes.prompt_category
+  basePrompt: text("base_prompt").notNull(), // copy of the current revision's prompt
+  currentRevisionId: integer("current_revision_id").references((): AnyPgColumn => promptTemplateRevisions.id),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Immutable history of a template's prompt; edits and rollbacks append a new revision
+export const promptTemplateRevisions = pgTable("prompt_template_revisions", {
+  id: serial("id").primaryKey(),
+  templateId: integer("template_id").references(() => promptTemplates.id).notNull(),
+  revision: integer("revision").notNull(), // 1-based, per template
+  basePrompt: text("base_prompt").notNull(),
+  author: varchar("author", { length: 100 }).notNull(), // display name at the time of the change
+  authorId: varchar("author_id").references(() => adminUsers.id), // null for imported revisions
+  changeNote: text("change_note"),
+  restoredFromRevisionId: integer("restored_from_revision_id").references((): AnyPgColumn => promptTemplateRevisions.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  templateRevisionIdx: uniqueIndex("prompt_template_revisions_template_revision_idx").on(table.templateId, table.revision),
+}));
+
 export const promptVariants = pgTable("prompt_variants", {
   id: serial("id").primaryKey(),
   templateId: integer("template_id").references(() => promptTemplates.id).notNull(),
   prompt: text("prompt").notNull(),
-  successRate: real("success_rate").default(0), // Track performance
+  successRate: real("success_rate").default(0), // Mean reward per use (reward_total / times_used)
   timesUsed: integer("times_used").default(0),
+  rewardTotal: real("reward_total").notNull().default(0), // Sum of outcome rewards credited to this variant
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const outcomeSignals = ['download', 'share', 'like', 'rating', 'regenerate'] as const;
+export type OutcomeSignal = typeof outcomeSignals[number];
+
+// User reactions to a transformation; each signal counts once per transformation
+export const transformationOutcomes = pgTable("transformation_outcomes", {
+  id: serial("id").primaryKey(),
+  transformationId: varchar("transformation_id").references(() => petTransformations.id).notNull(),
+  promptVariantId: integer("prompt_variant_id").references(() => promptVariants.id),
+  signal: text("signal").$type<OutcomeSignal>().notNull(),
+  value: real("value"), // star rating for "rating", otherwise null
+  reward: real("reward").notNull(), // reward actually credited after clamping
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  transformationSignalIdx: uniqueIndex("transformation_outcomes_transformation_signal_idx").on(table.transformationId, table.signal),
+}));
+
+// One row per visitor per transformation; stats.likes mirrors the count
+export const transformationLikes = pgTable("transformation_likes", {
+  transformationId: varchar("transformation_id").references(() => petTransformations.id).notNull(),
+  visitorKey: text("visitor_key").notNull(), // hashed visitor id, or hashed IP without one
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.transformationId, table.visitorKey] }),
+  createdIdx: index("transformation_likes_created_idx").on(table.createdAt),
+}));
+
+export const safetySubjects = ["pet_name", "pet_breed", "pet_traits", "custom_prompt", "upload", "output"] as const;
+export type SafetySubject = typeof safetySubjects[number];
+export const safetyCategories = ["profanity", "hate", "sexual", "violence", "brand_abuse"] as const;
+export type SafetyCategory = typeof safetyCategories[number];
+
+// Every safety screening decision, allowed or blocked (server/safety.ts)
+export const safetyDecisions = pgTable("safety_decisions", {
+  id: serial("id").primaryKey(),
+  subject: text("subject").$type<SafetySubject>().notNull(),
+  provider: text("provider").notNull(), // "local" | "openai"
+  allowed: boolean("allowed").notNull(),
+  categories: jsonb("categories").$type<SafetyCategory[]>().notNull().default(sql`'[]'::jsonb`),
+  matches: jsonb("matches").$type<string[]>().notNull().default(sql`'[]'::jsonb`), // wordlist terms or provider labels that fired
+  excerpt: text("excerpt"), // screened text, truncated; null for images
+  transformationId: varchar("transformation_id").references(() => petTransformations.id),
+  error: text("error"), // provider failure; the decision then fell back to allowing
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  createdIdx: index("safety_decisions_created_idx").on(table.createdAt),
+}));
+
+export const galleryQuerySchema = z.object({
+  theme: z.string().max(50).optional(),
+  breed: z.string().trim().max(100).optional(),
+  period: z.enum(["day", "week", "month", "all"]).default("all"),
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(48).default(24),
+});
+
+export const transformationFeedbackSchema = z.discriminatedUnion("signal", [
+  z.object({ signal: z.literal("like") }),
+  z.object({ signal: z.literal("regenerate") }),
+  z.object({ signal: z.literal("rating"), rating: z.number().int().min(1).max(5) }),
+]);
+
 export const promptTemplateSchema = createInsertSchema(promptTemplates).omit({
   id: true,
+  currentRevisionId: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Why a prompt changed; the author comes from the admin session
+export const promptChangeNoteSchema = z.object({
+  changeNote: z.string().trim().max(500).optional(),
+});
+
+export const createPromptTemplateSchema = promptTemplateSchema.merge(promptChangeNoteSchema);
+export const updatePromptTemplateSchema = promptTemplateSchema.partial().merge(promptChangeNoteSchema);
+
 export const promptVariantSchema = createInsertSchema(promptVariants).omit({
   id: true,
   createdAt: true,
+  rewardTotal: true,
 });
 
 export type PromptTemplateInsert = z.infer<typeof promptTemplateSchema>;
 export type PromptTemplateSelect = typeof promptTemplates.$inferSelect;
+export interface PromptRevisionMeta {
+  author: string;
+  authorId?: string | null;
+  changeNote?: string;
+}
+export type PromptTemplateRevision = typeof promptTemplateRevisions.$inferSelect;
 export type PromptVariantInsert = z.infer<typeof promptVariantSchema>;
 export type PromptVariantSelect = typeof promptVariants.$inferSelect;
+export type TransformationOutcome = typeof transformationOutcomes.$inferSelect;
+export type TransformationFeedback = z.infer<typeof transformationFeedbackSchema>;
+export type TransformationLike = typeof transformationLikes.$inferSelect;
+export type GalleryQuery = z.infer<typeof galleryQuerySchema>;
+export type ModerationQueueQuery = z.infer<typeof moderationQueueQuerySchema>;
+export type ModerationDecision = z.infer<typeof moderationDecisionSchema>;
+export type SafetyDecision = typeof safetyDecisions.$inferSelect;
+export type InsertSafetyDecision = typeof safetyDecisions.$inferInsert;
+
+// AI spend ledger: one row per provider call (server/usage.ts)
+export const aiOperations = [
+  'image_generation',
+  'custom_image',
+  'prompt_enhancement',
+  'prompt_suggestions',
+  'pet_description',
+  'persona_stats',
+  'animal_detection',
+  'content_moderation',
+] as const;
+export type AiOperation = typeof aiOperations[number];
+
+export const aiUsageEvents = pgTable("ai_usage_events", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(), // "replicate" | "openai" | "local"
+  model: text("model").notNull(),
+  operation: text("operation").$type<AiOperation>().notNull(),
+  transformationId: varchar("transformation_id").references(() => petTransformations.id),
+  theme: text("theme"), // themes.slug
+  success: boolean("success").notNull(),
+  latencyMs: integer("latency_ms").notNull(),
+  inputTokens: integer("input_tokens"),
+  outputTokens: integer("output_tokens"),
+  computeSeconds: real("compute_seconds"), // billed model time, when the provider reports it
+  costUsd: real("cost_usd").notNull().default(0), // estimate from the pricing table at call time
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  createdAtIdx: index("ai_usage_events_created_at_idx").on(table.createdAt),
+  transformationIdx: index("ai_usage_events_transformation_idx").on(table.transformationId),
+}));
+
+export type AiUsageEvent = typeof aiUsageEvents.$inferSelect;
+export type InsertAiUsageEvent = typeof aiUsageEvents.$inferInsert;